@@ -26,6 +26,10 @@ export const DEFAULT_DIRECTORIES = {
 	MILESTONES: "milestones",
 	/** Assets directory */
 	ASSETS: "assets",
+	/** Saved views directory */
+	VIEWS: "views",
+	/** Task templates directory */
+	TEMPLATES: "templates",
 } as const;
 
 /**
@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/** The person or agent on whose behalf a write is performed. */
+export interface Actor {
+	name: string;
+	email?: string;
+}
+
+const actorStorage = new AsyncLocalStorage<Actor>();
+
+/**
+ * Runs `fn` with `actor` as the author of every write it performs, including
+ * across awaits. Transports call this once per request (MCP tool call, REST
+ * route) so core operations can attribute changes without threading the
+ * identity through every signature. A missing actor runs `fn` unattributed.
+ */
+export function runAsActor<T>(actor: Actor | null | undefined, fn: () => T): T {
+	if (!actor?.name) {
+		return fn();
+	}
+	return actorStorage.run(actor, fn);
+}
+
+/** The actor of the current request, or undefined outside any attributed request. */
+export function getCurrentActor(): Actor | undefined {
+	return actorStorage.getStore();
+}
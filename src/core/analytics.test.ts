@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import { makeTask } from "../test/fixtures.ts";
+import { buildStatusTransitions, computeFlowAnalytics, measureTaskFlow, type TaskFlow } from "./analytics.ts";
+
+const NOW = new Date("2026-03-13T12:00:00Z"); // a Friday
+
+describe("buildStatusTransitions", () => {
+	it("keeps only versions that change status and adds an uncommitted status", () => {
+		const versions = [
+			{ date: "2026-03-01T09:00:00Z", task: makeTask() },
+			{ date: "2026-03-02T09:00:00Z", task: makeTask({ title: "Renamed" }) },
+			{ date: "2026-03-03T09:00:00Z", task: makeTask({ status: "In Progress" }) },
+		];
+		const current = makeTask({ status: "Done", updatedDate: "2026-03-05T09:00:00Z" });
+		expect(buildStatusTransitions(versions, current, NOW)).toEqual([
+			{ status: "To Do", at: "2026-03-01T09:00:00Z" },
+			{ status: "In Progress", at: "2026-03-03T09:00:00Z" },
+			{ status: "Done", at: "2026-03-05T09:00:00.000Z" },
+		]);
+	});
+});
+
+describe("measureTaskFlow", () => {
+	it("measures lead and cycle time up to the final completion", () => {
+		const timing = measureTaskFlow(
+			[
+				{ status: "To Do", at: "2026-03-01T00:00:00Z" },
+				{ status: "In Progress", at: "2026-03-03T00:00:00Z" },
+				{ status: "Done", at: "2026-03-04T00:00:00Z" },
+				{ status: "In Progress", at: "2026-03-05T00:00:00Z" },
+				{ status: "Done", at: "2026-03-06T00:00:00Z" },
+			],
+			"To Do",
+			NOW,
+		);
+		expect(timing.leadDays).toBe(5);
+		expect(timing.cycleDays).toBe(3);
+		expect(Object.fromEntries(timing.timeInStatus)).toEqual({ "To Do": 2 * 86400000, "In Progress": 2 * 86400000 });
+	});
+
+	it("leaves open tasks without lead or cycle time", () => {
+		const timing = measureTaskFlow([{ status: "In Progress", at: "2026-03-12T12:00:00Z" }], "To Do", NOW);
+		expect(timing.completedAt).toBeUndefined();
+		expect(timing.timeInStatus.get("In Progress")).toBe(86400000);
+	});
+});
+
+describe("computeFlowAnalytics", () => {
+	it("breaks metrics down by assignee, label and priority and counts weekly throughput", () => {
+		const flows: TaskFlow[] = [
+			{
+				task: makeTask({ assignee: ["@alice"], labels: ["api"], priority: "high", status: "Done" }),
+				transitions: [
+					{ status: "To Do", at: "2026-03-02T00:00:00Z" },
+					{ status: "In Progress", at: "2026-03-03T00:00:00Z" },
+					{ status: "Done", at: "2026-03-05T00:00:00Z" },
+				],
+			},
+			{
+				task: makeTask({ id: "TASK-2", assignee: ["alice", "bob"], labels: ["api", "ui"], status: "Done" }),
+				transitions: [
+					{ status: "To Do", at: "2026-03-01T00:00:00Z" },
+					{ status: "Done", at: "2026-03-11T00:00:00Z" },
+				],
+			},
+			{
+				task: makeTask({ id: "TASK-3" }),
+				transitions: [{ status: "To Do", at: "2026-03-13T00:00:00Z" }],
+			},
+		];
+
+		const analytics = computeFlowAnalytics(flows, "To Do", NOW);
+		expect(analytics.overall.completed).toBe(2);
+		expect(analytics.overall.leadTime).toEqual({ count: 2, averageDays: 6.5, medianDays: 6.5 });
+		expect(analytics.overall.cycleTime).toEqual({ count: 2, averageDays: 1, medianDays: 1 });
+		expect(Object.keys(analytics.byAssignee)).toEqual(["alice", "bob", "unassigned"]);
+		expect(analytics.byAssignee.alice?.completed).toBe(2);
+		expect(analytics.byLabel.ui?.leadTime.averageDays).toBe(10);
+		expect(Object.keys(analytics.byPriority)).toEqual(["high", "none"]);
+		expect(analytics.throughput).toHaveLength(8);
+		expect(analytics.throughput.slice(-2)).toEqual([
+			{ weekStart: "2026-03-02", completed: 1 },
+			{ weekStart: "2026-03-09", completed: 1 },
+		]);
+	});
+});
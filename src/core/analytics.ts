@@ -0,0 +1,246 @@
+import { DEFAULT_STATUSES } from "../constants/index.ts";
+import type { Task } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+import { isDoneStatus } from "./milestones.ts";
+import type { TaskVersion } from "./task-history.ts";
+import { listActiveAndCompletedTasks } from "./timeseries.ts";
+
+/** A task entering a status. */
+export interface StatusTransition {
+	status: string;
+	at: string; // ISO 8601
+}
+
+/** A task with its status transitions, oldest first. The first transition is its creation. */
+export interface TaskFlow {
+	task: Task;
+	transitions: StatusTransition[];
+}
+
+export interface DurationSummary {
+	count: number;
+	averageDays: number;
+	medianDays: number;
+}
+
+export interface FlowMetrics {
+	/** Tasks that are done. */
+	completed: number;
+	/** Creation to completion, over completed tasks. */
+	leadTime: DurationSummary;
+	/** First move out of the initial status to completion, over completed tasks. */
+	cycleTime: DurationSummary;
+	/** Average days spent in each status by the tasks that entered it; done statuses are not counted. */
+	timeInStatus: Record<string, number>;
+}
+
+export interface ThroughputWeek {
+	weekStart: string; // YYYY-MM-DD, a Monday
+	completed: number;
+}
+
+export interface FlowAnalytics {
+	overall: FlowMetrics;
+	byAssignee: Record<string, FlowMetrics>;
+	byLabel: Record<string, FlowMetrics>;
+	byPriority: Record<string, FlowMetrics>;
+	/** Tasks completed per week over the last weeks, oldest first. */
+	throughput: ThroughputWeek[];
+}
+
+interface TaskTiming {
+	completedAt?: number;
+	leadDays?: number;
+	cycleDays?: number;
+	timeInStatus: Map<string, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const THROUGHPUT_WEEKS = 8;
+const UNASSIGNED = "unassigned";
+const NO_PRIORITY = "none";
+
+function toDays(ms: number): number {
+	return Math.round((ms / DAY_MS) * 100) / 100;
+}
+
+function summarizeDurations(values: number[]): DurationSummary {
+	if (values.length === 0) {
+		return { count: 0, averageDays: 0, medianDays: 0 };
+	}
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	const median =
+		sorted.length % 2 === 0 ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2 : (sorted[middle] ?? 0);
+	const average = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+	return {
+		count: sorted.length,
+		averageDays: Math.round(average * 100) / 100,
+		medianDays: Math.round(median * 100) / 100,
+	};
+}
+
+function toIsoString(value: string | undefined, fallback: Date): string {
+	const date = value ? new Date(value) : fallback;
+	return (Number.isNaN(date.getTime()) ? fallback : date).toISOString();
+}
+
+function weekStart(time: number): string {
+	const date = new Date(time);
+	// getUTCDay() is 0 on Sunday; weeks start on Monday
+	const offset = (date.getUTCDay() + 6) % 7;
+	return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - offset))
+		.toISOString()
+		.slice(0, 10);
+}
+
+/**
+ * Derives the status transitions of a task from its committed versions. A
+ * status that differs from the last committed one (an uncommitted edit) is
+ * added as of the task's updated date, or `now` if it has none.
+ */
+export function buildStatusTransitions(
+	versions: TaskVersion[],
+	current: Task,
+	now: Date = new Date(),
+): StatusTransition[] {
+	const transitions: StatusTransition[] = [];
+	for (const version of versions) {
+		if (transitions.at(-1)?.status !== version.task.status) {
+			transitions.push({ status: version.task.status, at: version.date });
+		}
+	}
+	if (transitions.length === 0) {
+		transitions.push({ status: current.status, at: toIsoString(current.createdDate, now) });
+	} else if (transitions.at(-1)?.status !== current.status) {
+		transitions.push({ status: current.status, at: toIsoString(current.updatedDate, now) });
+	}
+	return transitions;
+}
+
+/**
+ * Measures one task: when it was completed (the start of its final run of done
+ * statuses), its lead and cycle time, and how long it spent in each status.
+ */
+export function measureTaskFlow(
+	transitions: StatusTransition[],
+	initialStatus: string,
+	now: Date = new Date(),
+): TaskTiming {
+	const times = transitions.map((transition) => Date.parse(transition.at));
+	const timeInStatus = new Map<string, number>();
+	transitions.forEach((transition, index) => {
+		if (isDoneStatus(transition.status)) return;
+		const end = times[index + 1] ?? now.getTime();
+		const spent = Math.max(0, end - (times[index] ?? end));
+		timeInStatus.set(transition.status, (timeInStatus.get(transition.status) ?? 0) + spent);
+	});
+
+	let completedIndex = transitions.length;
+	while (completedIndex > 0 && isDoneStatus(transitions[completedIndex - 1]?.status)) completedIndex--;
+	const createdAt = times[0];
+	const completedAt = completedIndex < transitions.length ? times[completedIndex] : undefined;
+	if (completedAt === undefined || createdAt === undefined) {
+		return { timeInStatus };
+	}
+
+	const initial = initialStatus.trim().toLowerCase();
+	const startedIndex = transitions.findIndex((transition) => transition.status.trim().toLowerCase() !== initial);
+	const startedAt = Math.min(times[startedIndex] ?? completedAt, completedAt);
+	return {
+		completedAt,
+		leadDays: toDays(completedAt - createdAt),
+		cycleDays: toDays(completedAt - startedAt),
+		timeInStatus,
+	};
+}
+
+function buildMetrics(timings: TaskTiming[]): FlowMetrics {
+	const completed = timings.filter((timing) => timing.completedAt !== undefined);
+	const statusTotals = new Map<string, { total: number; tasks: number }>();
+	for (const timing of timings) {
+		for (const [status, spent] of timing.timeInStatus) {
+			const entry = statusTotals.get(status) ?? { total: 0, tasks: 0 };
+			entry.total += spent;
+			entry.tasks++;
+			statusTotals.set(status, entry);
+		}
+	}
+	return {
+		completed: completed.length,
+		leadTime: summarizeDurations(completed.map((timing) => timing.leadDays ?? 0)),
+		cycleTime: summarizeDurations(completed.map((timing) => timing.cycleDays ?? 0)),
+		timeInStatus: Object.fromEntries(
+			[...statusTotals].map(([status, { total, tasks }]) => [status, toDays(total / tasks)]),
+		),
+	};
+}
+
+function groupMetrics(
+	flows: TaskFlow[],
+	timings: TaskTiming[],
+	keysOf: (task: Task) => string[],
+): Record<string, FlowMetrics> {
+	const groups = new Map<string, TaskTiming[]>();
+	flows.forEach((flow, index) => {
+		const timing = timings[index];
+		if (!timing) return;
+		for (const key of new Set(keysOf(flow.task))) {
+			const group = groups.get(key) ?? [];
+			group.push(timing);
+			groups.set(key, group);
+		}
+	});
+	return Object.fromEntries(
+		[...groups].sort(([a], [b]) => a.localeCompare(b)).map(([key, group]) => [key, buildMetrics(group)]),
+	);
+}
+
+/**
+ * Computes lead time, cycle time, time in status and weekly throughput over a
+ * set of tasks, overall and broken down by assignee, label and priority. A task
+ * with several assignees or labels counts towards each of them.
+ */
+export function computeFlowAnalytics(flows: TaskFlow[], initialStatus: string, now: Date = new Date()): FlowAnalytics {
+	const timings = flows.map((flow) => measureTaskFlow(flow.transitions, initialStatus, now));
+
+	const currentWeek = Date.parse(`${weekStart(now.getTime())}T00:00:00Z`);
+	const throughput: ThroughputWeek[] = [];
+	for (let week = THROUGHPUT_WEEKS - 1; week >= 0; week--) {
+		throughput.push({ weekStart: weekStart(currentWeek - week * 7 * DAY_MS), completed: 0 });
+	}
+	for (const timing of timings) {
+		if (timing.completedAt === undefined) continue;
+		const bucket = throughput.find((entry) => entry.weekStart === weekStart(timing.completedAt ?? 0));
+		if (bucket) bucket.completed++;
+	}
+
+	return {
+		overall: buildMetrics(timings),
+		byAssignee: groupMetrics(flows, timings, (task) =>
+			task.assignee.length > 0 ? task.assignee.map((assignee) => assignee.trim().replace(/^@/, "")) : [UNASSIGNED],
+		),
+		byLabel: groupMetrics(flows, timings, (task) => task.labels),
+		byPriority: groupMetrics(flows, timings, (task) => [task.priority ?? NO_PRIORITY]),
+		throughput,
+	};
+}
+
+/**
+ * Builds flow analytics for active and completed tasks from the git history of
+ * their files. Time before a task's first commit is not visible, so projects
+ * without auto-commit only see the transitions that were committed.
+ */
+export async function getFlowAnalytics(core: Core): Promise<FlowAnalytics> {
+	const config = await core.fs.loadConfig();
+	const initialStatus = config?.defaultStatus ?? config?.statuses?.[0] ?? DEFAULT_STATUSES[0];
+	const tasks = await listActiveAndCompletedTasks(core);
+	const now = new Date();
+
+	const versions = await core.getTaskVersionCache().getVersions(tasks);
+	const flows: TaskFlow[] = tasks.map((task) => ({
+		task,
+		transitions: buildStatusTransitions(versions.get(task.id) ?? [], task, now),
+	}));
+	return computeFlowAnalytics(flows, initialStatus, now);
+}
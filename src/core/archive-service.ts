@@ -5,6 +5,7 @@ import type { Milestone, Task } from "../types/index.ts";
 import { normalizeId } from "../utils/prefix-config.ts";
 import { getTaskFilename, getTaskPath, isSubtaskId, normalizeTaskId } from "../utils/task-path.ts";
 import type { Core } from "./backlog.ts";
+import { normalizeScheduleDate } from "./schedule.ts";
 import { sanitizeArchivedTaskLinks } from "./task-mutation.ts";
 
 /**
@@ -290,3 +291,34 @@ export async function setMilestoneActive(
 
 	return { success: true, milestone: result.milestone };
 }
+
+/**
+ * Sets or clears the target date of a milestone.
+ *
+ * @param core - The Core instance.
+ * @param identifier - The milestone ID or name.
+ * @param targetDate - The target date as YYYY-MM-DD, or null to clear it.
+ * @param autoCommit - Whether to commit the change to git.
+ * @returns Result object with success status and updated milestone.
+ */
+export async function setMilestoneTargetDate(
+	core: Core,
+	identifier: string,
+	targetDate: string | null,
+	autoCommit?: boolean,
+): Promise<{ success: boolean; milestone?: Milestone }> {
+	const normalized = normalizeScheduleDate(targetDate, "target date") ?? null;
+	const result = await core.fs.updateMilestoneTargetDate(identifier, normalized);
+	if (!result.success || !result.milestone) {
+		return { success: false };
+	}
+
+	if (await core.shouldAutoCommit(autoCommit)) {
+		const label = result.milestone.id ? ` ${result.milestone.id}` : "";
+		const backlogDir = DEFAULT_DIRECTORIES.BACKLOG;
+		const repoRoot = await core.git.stageBacklogDirectory(backlogDir);
+		await core.git.commitChanges(`backlog: Set milestone${label} target date=${normalized ?? "none"}`, repoRoot);
+	}
+
+	return { success: true, milestone: result.milestone };
+}
@@ -5,13 +5,24 @@ import { StorageCoordinator } from "../file-system/storage-coordinator.ts";
 import { GitOperations } from "../git/operations.ts";
 import {
 	type BacklogConfig,
+	type BulkEditResult,
+	type BulkTaskSelection,
+	type BulkTaskUpdate,
 	type Decision,
 	type Document,
 	EntityType,
 	type Milestone,
+	type SavedView,
+	type SavedViewInput,
 	type Sequence,
+	type SimilarTask,
+	type StatusTimeseries,
 	type Task,
 	type TaskCreateInput,
+	type TaskHistoryEntry,
+	type TaskLease,
+	type TaskSearchResult,
+	type TaskTemplate,
 	type TaskUpdateInput,
 } from "../types/index.ts";
 import { openInEditor } from "../utils/editor.ts";
@@ -19,6 +30,7 @@ import {
 	getCanonicalStatus as resolveCanonicalStatus,
 	getValidStatuses as resolveValidStatuses,
 } from "../utils/status.ts";
+import { type FlowAnalytics, getFlowAnalytics } from "./analytics.ts";
 import {
 	archiveDraft,
 	archiveMilestone,
@@ -29,6 +41,7 @@ import {
 	promoteDraft,
 	renameMilestone,
 	setMilestoneActive,
+	setMilestoneTargetDate,
 } from "./archive-service.ts";
 import {
 	extractLegacyConfigMilestones,
@@ -37,6 +50,7 @@ import {
 	needsMigration,
 } from "./config-migration.ts";
 import { ContentStore } from "./content-store.ts";
+import { type EmbeddingProvider, HashedTermEmbeddingProvider } from "./embeddings.ts";
 import {
 	createDecision,
 	createDecisionWithTitle,
@@ -48,8 +62,21 @@ import {
 	updateDocument,
 } from "./entity-service.ts";
 import { generateNextId } from "./id-generation.ts";
+import { claimTaskLease, getTaskLease, listTaskLeases, releaseTaskLease, renewTaskLease } from "./leases.ts";
 import { migrateDraftPrefixes, needsDraftPrefixMigration } from "./prefix-migration.ts";
+import type { TaskQueryNode } from "./query-language.ts";
+import { MemoryTemplateRunLedger, type TemplateRunLedger } from "./recurring-tasks.ts";
+import {
+	createSavedView,
+	deleteSavedView,
+	getSavedView,
+	runSavedView,
+	type SavedViewResult,
+	updateSavedView,
+} from "./saved-views.ts";
+import { normalizeScheduleDate } from "./schedule.ts";
 import { SearchService } from "./search-service.ts";
+import { getTaskHistory, TaskVersionCache } from "./task-history.ts";
 import {
 	createDraft,
 	createTask,
@@ -57,6 +84,7 @@ import {
 	createTaskFromInput,
 	editTask,
 	editTaskOrDraft,
+	editTasksBulk,
 	listActiveSequences,
 	moveTaskInSequences,
 	reorderTask,
@@ -66,6 +94,7 @@ import {
 	updateTaskFromInput,
 	updateTasksBulk,
 } from "./task-lifecycle.ts";
+import { claimNextTask, type NextTaskOptions, type NextTaskRecommendation, recommendNextTask } from "./task-next.ts";
 import {
 	getTask,
 	getTaskContent,
@@ -75,8 +104,24 @@ import {
 	loadTaskById,
 	loadTasks,
 	queryTasks,
+	searchTasksWithQuery,
 	type TaskQueryOptions,
 } from "./task-query.ts";
+import {
+	findSimilarTasks,
+	findTasksSimilarToText,
+	MemoryTaskEmbeddingStore,
+	type SimilarTaskOptions,
+	type TaskEmbeddingStore,
+} from "./task-similarity.ts";
+import {
+	createTaskFromTemplate,
+	getTaskTemplate,
+	type TemplateTaskOptions,
+	type TemplateTaskResult,
+} from "./task-templates.ts";
+import { getStatusTimeseries, type StatusTimeseriesOptions } from "./timeseries.ts";
+import { type BacklogValidationReport, validateBacklog } from "./validation.ts";
 
 interface BlessedScreen {
 	program: {
@@ -106,6 +151,10 @@ export class Core {
 	public git: GitOperations;
 	contentStore?: ContentStore;
 	private searchService?: SearchService;
+	private taskEmbeddingStore?: TaskEmbeddingStore;
+	private templateRunLedger?: TemplateRunLedger;
+	private taskVersionCache?: TaskVersionCache;
+	readonly embeddingProvider: EmbeddingProvider;
 	private readonly enableWatchers: boolean;
 	private autoCommitOverride: boolean | null = null;
 
@@ -115,10 +164,13 @@ export class Core {
 			enableWatchers?: boolean;
 			filesystem?: FileSystem;
 			gitOperations?: GitOperations;
+			/** Embeds tasks for similarity search and duplicate warnings; defaults to a local hashed vectorizer */
+			embeddingProvider?: EmbeddingProvider;
 		},
 	) {
 		this.fs = options?.filesystem ?? new StorageCoordinator(projectRoot);
 		this.git = options?.gitOperations ?? new GitOperations(projectRoot);
+		this.embeddingProvider = options?.embeddingProvider ?? new HashedTermEmbeddingProvider();
 		// Disable watchers by default for CLI commands (non-interactive)
 		// Interactive modes (TUI, browser, MCP) should explicitly pass enableWatchers: true
 		this.enableWatchers = options?.enableWatchers ?? false;
@@ -143,10 +195,39 @@ export class Core {
 		return this.contentStore;
 	}
 
+	/**
+	 * Where task embeddings are kept: the SQLite index when there is one, otherwise memory.
+	 */
+	getTaskEmbeddingStore(): TaskEmbeddingStore {
+		if (!this.taskEmbeddingStore) {
+			this.taskEmbeddingStore = this.fs instanceof StorageCoordinator ? this.fs : new MemoryTaskEmbeddingStore();
+		}
+		return this.taskEmbeddingStore;
+	}
+
+	async findSimilarTasks(taskId: string, options?: SimilarTaskOptions): Promise<SimilarTask[] | null> {
+		return findSimilarTasks(this, taskId, options);
+	}
+
+	async findTasksSimilarToText(text: string, options?: SimilarTaskOptions): Promise<SimilarTask[]> {
+		return findTasksSimilarToText(this, text, options);
+	}
+
+	/**
+	 * Where created recurring-task occurrences are recorded: the SQLite index when there is one,
+	 * otherwise memory.
+	 */
+	getTemplateRunLedger(): TemplateRunLedger {
+		if (!this.templateRunLedger) {
+			this.templateRunLedger = this.fs instanceof StorageCoordinator ? this.fs : new MemoryTemplateRunLedger();
+		}
+		return this.templateRunLedger;
+	}
+
 	async getSearchService(): Promise<SearchService> {
 		if (!this.searchService) {
 			const store = await this.getContentStore();
-			this.searchService = new SearchService(store);
+			this.searchService = new SearchService(store, this.fs instanceof StorageCoordinator ? this.fs : undefined);
 		}
 		await this.searchService.ensureInitialized();
 		return this.searchService;
@@ -165,6 +246,10 @@ export class Core {
 		return queryTasks(this, options);
 	}
 
+	async searchTasksWithQuery(query: string | TaskQueryNode, limit?: number): Promise<TaskSearchResult[]> {
+		return searchTasksWithQuery(this, query, limit);
+	}
+
 	async getTask(taskId: string): Promise<Task | null> {
 		return getTask(this, taskId);
 	}
@@ -181,6 +266,10 @@ export class Core {
 		return getTaskContent(this, taskId);
 	}
 
+	async getTaskHistory(taskId: string): Promise<TaskHistoryEntry[]> {
+		return getTaskHistory(this, taskId);
+	}
+
 	async getDocument(documentId: string): Promise<Document | null> {
 		return getDocument(this, documentId);
 	}
@@ -314,7 +403,10 @@ export class Core {
 		return createTaskFromData(this, taskData, autoCommit);
 	}
 
-	async createTaskFromInput(input: TaskCreateInput, autoCommit?: boolean): Promise<{ task: Task; filePath?: string }> {
+	async createTaskFromInput(
+		input: TaskCreateInput,
+		autoCommit?: boolean,
+	): Promise<{ task: Task; filePath?: string; possibleDuplicates: SimilarTask[] }> {
 		return createTaskFromInput(this, input, autoCommit);
 	}
 
@@ -354,6 +446,14 @@ export class Core {
 		return updateTasksBulk(this, tasks, commitMessage, autoCommit);
 	}
 
+	async editTasksBulk(
+		selection: BulkTaskSelection,
+		update: BulkTaskUpdate,
+		autoCommit?: boolean,
+	): Promise<BulkEditResult> {
+		return editTasksBulk(this, selection, update, autoCommit);
+	}
+
 	async reorderTask(params: {
 		taskId: string;
 		targetStatus: string;
@@ -367,14 +467,18 @@ export class Core {
 	}
 
 	// Sequences operations (business logic lives in core, not server)
-	async listActiveSequences(): Promise<{ unsequenced: Task[]; sequences: Sequence[] }> {
-		return listActiveSequences(this);
+	async listActiveSequences(options: { milestone?: string } = {}): Promise<{
+		unsequenced: Task[];
+		sequences: Sequence[];
+	}> {
+		return listActiveSequences(this, options);
 	}
 
 	async moveTaskInSequences(params: {
 		taskId: string;
 		unsequenced?: boolean;
 		targetSequenceIndex?: number;
+		milestone?: string;
 	}): Promise<{ unsequenced: Task[]; sequences: Sequence[] }> {
 		return moveTaskInSequences(this, params);
 	}
@@ -383,8 +487,17 @@ export class Core {
 		return archiveTask(this, taskId, autoCommit);
 	}
 
-	async createMilestone(title: string, description?: string, autoCommit?: boolean): Promise<Milestone> {
-		const milestone = await this.fs.createMilestone(title, description);
+	async createMilestone(
+		title: string,
+		description?: string,
+		autoCommit?: boolean,
+		targetDate?: string,
+	): Promise<Milestone> {
+		const milestone = await this.fs.createMilestone(
+			title,
+			description,
+			normalizeScheduleDate(targetDate, "target date"),
+		);
 		if (await this.shouldAutoCommit(autoCommit)) {
 			const backlogDir = DEFAULT_DIRECTORIES.BACKLOG;
 			const repoRoot = await this.git.stageBacklogDirectory(backlogDir);
@@ -422,6 +535,14 @@ export class Core {
 		return setMilestoneActive(this, identifier, active, autoCommit);
 	}
 
+	async setMilestoneTargetDate(
+		identifier: string,
+		targetDate: string | null,
+		autoCommit?: boolean,
+	): Promise<{ success: boolean; milestone?: Milestone }> {
+		return setMilestoneTargetDate(this, identifier, targetDate, autoCommit);
+	}
+
 	async completeTask(taskId: string, autoCommit?: boolean): Promise<boolean> {
 		return completeTask(this, taskId, autoCommit);
 	}
@@ -454,6 +575,38 @@ export class Core {
 		return createDecisionWithTitle(this, title, autoCommit);
 	}
 
+	async getSavedView(idOrName: string): Promise<SavedView | null> {
+		return getSavedView(this, idOrName);
+	}
+
+	async createSavedView(input: SavedViewInput, autoCommit?: boolean): Promise<SavedView> {
+		return createSavedView(this, input, autoCommit);
+	}
+
+	async updateSavedView(idOrName: string, changes: Partial<SavedViewInput>, autoCommit?: boolean): Promise<SavedView> {
+		return updateSavedView(this, idOrName, changes, autoCommit);
+	}
+
+	async deleteSavedView(idOrName: string, autoCommit?: boolean): Promise<SavedView> {
+		return deleteSavedView(this, idOrName, autoCommit);
+	}
+
+	async runSavedView(idOrName: string): Promise<SavedViewResult> {
+		return runSavedView(this, idOrName);
+	}
+
+	async getTaskTemplate(idOrName: string): Promise<TaskTemplate | null> {
+		return getTaskTemplate(this, idOrName);
+	}
+
+	async createTaskFromTemplate(
+		idOrName: string,
+		options?: TemplateTaskOptions,
+		autoCommit?: boolean,
+	): Promise<TemplateTaskResult> {
+		return createTaskFromTemplate(this, idOrName, options, autoCommit);
+	}
+
 	async createDocument(doc: Document, autoCommit?: boolean, subPath = ""): Promise<void> {
 		return createDocument(this, doc, autoCommit, subPath);
 	}
@@ -556,6 +709,40 @@ export class Core {
 		}
 	}
 
+	async validateBacklog(): Promise<BacklogValidationReport> {
+		return validateBacklog(this);
+	}
+
+	async recommendNextTask(options?: NextTaskOptions): Promise<NextTaskRecommendation | null> {
+		return recommendNextTask(this, options);
+	}
+
+	async claimNextTask(
+		options: NextTaskOptions & { assignee: string; ttlMinutes?: number },
+	): Promise<NextTaskRecommendation | null> {
+		return claimNextTask(this, options);
+	}
+
+	claimTaskLease(taskId: string, holder: string, ttlMinutes?: number) {
+		return claimTaskLease(this, taskId, holder, ttlMinutes);
+	}
+
+	renewTaskLease(taskId: string, holder: string, ttlMinutes?: number): TaskLease | null {
+		return renewTaskLease(this, taskId, holder, ttlMinutes);
+	}
+
+	releaseTaskLease(taskId: string, holder: string): boolean {
+		return releaseTaskLease(this, taskId, holder);
+	}
+
+	getTaskLease(taskId: string): TaskLease | null {
+		return getTaskLease(this, taskId);
+	}
+
+	listTaskLeases(): TaskLease[] {
+		return listTaskLeases(this);
+	}
+
 	/**
 	 * Load and process all tasks with the same logic as CLI overview
 	 * This method extracts the common task loading logic for reuse
@@ -566,6 +753,22 @@ export class Core {
 		return loadAllTasksForStatistics(this, progressCallback);
 	}
 
+	/** Committed versions of task files, cached across requests until HEAD moves. */
+	getTaskVersionCache(): TaskVersionCache {
+		if (!this.taskVersionCache) {
+			this.taskVersionCache = new TaskVersionCache(this);
+		}
+		return this.taskVersionCache;
+	}
+
+	async getFlowAnalytics(): Promise<FlowAnalytics> {
+		return getFlowAnalytics(this);
+	}
+
+	async getStatusTimeseries(options?: StatusTimeseriesOptions): Promise<StatusTimeseries> {
+		return getStatusTimeseries(this, options);
+	}
+
 	/**
 	 * Load all tasks with cross-branch support
 	 * This is the single entry point for loading tasks across all interfaces
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "../types/index.ts";
+import { findOpenBlockers, formatBlockers, isReadyTask, isStartedStatus } from "./blockers.ts";
+
+function task(id: string, status: string, dependencies: string[] = []): Task {
+	return { id, title: id, status, assignee: [], createdDate: "2026-01-01", labels: [], dependencies };
+}
+
+describe("findOpenBlockers", () => {
+	const tasks = [
+		task("TASK-1", "Done"),
+		task("TASK-2", "In Progress"),
+		task("TASK-3", "To Do", ["task-1", "task-2", "TASK-9"]),
+		task("TASK-4", "To Do", ["TASK-1"]),
+	];
+
+	it("lists unfinished dependencies and ignores ones that are done or not listed", () => {
+		const blockers = findOpenBlockers(tasks[2] as Task, tasks);
+		expect(blockers.map((blocker) => blocker.id)).toEqual(["TASK-2"]);
+		expect(formatBlockers(blockers)).toBe("TASK-2 (In Progress)");
+	});
+
+	it("treats unfinished tasks without open blockers as ready", () => {
+		expect(tasks.map((t) => isReadyTask(t, tasks))).toEqual([false, true, false, true]);
+	});
+});
+
+describe("isStartedStatus", () => {
+	const config = { statuses: ["Backlog", "To Do", "In Progress", "Done"], defaultStatus: "To Do" };
+
+	it("counts statuses after the initial one that are not done", () => {
+		expect(isStartedStatus("In Progress", config)).toBe(true);
+		expect(isStartedStatus("Backlog", config)).toBe(false);
+		expect(isStartedStatus("to do", config)).toBe(false);
+		expect(isStartedStatus("Done", config)).toBe(false);
+		expect(isStartedStatus("Draft", config)).toBe(false);
+		expect(isStartedStatus("To Do", null)).toBe(false);
+	});
+});
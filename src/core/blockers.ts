@@ -0,0 +1,53 @@
+import { DEFAULT_STATUSES } from "../constants/index.ts";
+import type { BacklogConfig, Task } from "../types/index.ts";
+import { taskIdsEqual } from "../utils/task-path.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+/** Label added to started tasks with unfinished dependencies under the "mark" dependency policy. */
+export const BLOCKED_LABEL = "blocked";
+
+/**
+ * Returns the dependencies of a task that are not done. Dependencies missing
+ * from `tasks` (completed or archived tasks) do not block.
+ */
+export function findOpenBlockers(task: Task, tasks: Task[]): Task[] {
+	return (task.dependencies ?? []).flatMap((dependency) => {
+		const match = tasks.find((candidate) => taskIdsEqual(dependency, candidate.id));
+		return match && !isDoneStatus(match.status) ? [match] : [];
+	});
+}
+
+/**
+ * A task is ready when it is not done and none of its dependencies are open.
+ */
+export function isReadyTask(task: Task, tasks: Task[]): boolean {
+	return !isDoneStatus(task.status) && findOpenBlockers(task, tasks).length === 0;
+}
+
+/**
+ * A started status is a status that is not done and comes after the initial
+ * status in the configured order, e.g. "In Progress" or "Review".
+ */
+export function isStartedStatus(
+	status: string | undefined,
+	config: Pick<BacklogConfig, "defaultStatus" | "statuses"> | null,
+): boolean {
+	const normalized = (status ?? "").trim().toLowerCase();
+	if (normalized === "" || normalized === "draft" || isDoneStatus(normalized)) {
+		return false;
+	}
+	const statuses = (config?.statuses ?? [...DEFAULT_STATUSES]).map((value) => value.trim().toLowerCase());
+	const initial = (config?.defaultStatus ?? statuses[0] ?? DEFAULT_STATUSES[0]).trim().toLowerCase();
+	const index = statuses.indexOf(normalized);
+	const initialIndex = statuses.indexOf(initial);
+	return index === -1 || initialIndex === -1 ? normalized !== initial : index > initialIndex;
+}
+
+export function hasBlockedLabel(task: Task): boolean {
+	return (task.labels ?? []).some((label) => label.toLowerCase() === BLOCKED_LABEL);
+}
+
+/** "TASK-1 (To Do), TASK-3 (In Progress)" */
+export function formatBlockers(blockers: Task[]): string {
+	return blockers.map((blocker) => `${blocker.id} (${blocker.status})`).join(", ");
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "../types/index.ts";
+import { assertTaskVersion, TaskVersionConflictError, withTaskWriteLock } from "./concurrency.ts";
+
+const task: Task = {
+	id: "TASK-1",
+	title: "Task",
+	status: "To Do",
+	assignee: [],
+	createdDate: "2026-01-01",
+	labels: [],
+	dependencies: [],
+	version: "abc123",
+};
+
+describe("assertTaskVersion", () => {
+	it("accepts the current version or no version", () => {
+		expect(() => assertTaskVersion(task, "abc123")).not.toThrow();
+		expect(() => assertTaskVersion(task, undefined)).not.toThrow();
+		expect(() => assertTaskVersion(task, " ")).not.toThrow();
+	});
+
+	it("rejects a stale version with the current task", () => {
+		let thrown: unknown;
+		try {
+			assertTaskVersion(task, "old");
+		} catch (error) {
+			thrown = error;
+		}
+		expect(thrown).toBeInstanceOf(TaskVersionConflictError);
+		expect((thrown as TaskVersionConflictError).current).toBe(task);
+		expect((thrown as Error).message).toBe("TASK-1 has changed since you read it (current version abc123).");
+	});
+});
+
+describe("withTaskWriteLock", () => {
+	it("runs writes to the same task one at a time", async () => {
+		const order: string[] = [];
+		const write = (name: string, delay: number) =>
+			withTaskWriteLock("task-1", async () => {
+				order.push(`${name} start`);
+				await Bun.sleep(delay);
+				order.push(`${name} end`);
+			});
+		await Promise.all([write("a", 20), write("b", 0), withTaskWriteLock("TASK-2", async () => order.push("other"))]);
+		expect(order).toEqual(["a start", "other", "a end", "b start", "b end"]);
+	});
+
+	it("keeps going after a failed write", async () => {
+		const failed = withTaskWriteLock("TASK-1", async () => {
+			throw new Error("boom");
+		});
+		await expect(failed).rejects.toThrow("boom");
+		expect(await withTaskWriteLock("TASK-1", async () => "ok")).toBe("ok");
+	});
+});
@@ -0,0 +1,46 @@
+import type { Task } from "../types/index.ts";
+
+/**
+ * Thrown when an edit was based on an older version of the task than the one on disk.
+ */
+export class TaskVersionConflictError extends Error {
+	readonly current: Task;
+
+	constructor(current: Task) {
+		super(`${current.id} has changed since you read it (current version ${current.version}).`);
+		this.name = "TaskVersionConflictError";
+		this.current = current;
+	}
+}
+
+/**
+ * Checks that `task` is still at the version the caller read. No expected version
+ * means the caller does not care and the edit always applies.
+ */
+export function assertTaskVersion(task: Task, expectedVersion: string | undefined): void {
+	const expected = expectedVersion?.trim();
+	if (expected && task.version !== expected) {
+		throw new TaskVersionConflictError(task);
+	}
+}
+
+const writeLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs edits of the same task one at a time, so a version check and the write
+ * that follows it cannot interleave with another edit in this process.
+ */
+export async function withTaskWriteLock<T>(taskId: string, fn: () => Promise<T>): Promise<T> {
+	const key = taskId.toUpperCase();
+	const previous = writeLocks.get(key) ?? Promise.resolve();
+	const run = previous.then(fn);
+	const settled = run.catch(() => undefined);
+	writeLocks.set(key, settled);
+	try {
+		return await run;
+	} finally {
+		if (writeLocks.get(key) === settled) {
+			writeLocks.delete(key);
+		}
+	}
+}
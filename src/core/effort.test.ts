@@ -0,0 +1,66 @@
+import { describe, expect, it } from "bun:test";
+import { makeTask } from "../test/fixtures.ts";
+import type { Task } from "../types/index.ts";
+import { getLoggedHours, normalizeEstimate, normalizeTimeEntry, summarizeEffort } from "./effort.ts";
+
+describe("normalizeEstimate", () => {
+	it("accepts numbers and numeric strings", () => {
+		expect(normalizeEstimate(3)).toBe(3);
+		expect(normalizeEstimate("2.5")).toBe(2.5);
+		expect(normalizeEstimate(0)).toBe(0);
+	});
+
+	it("treats empty values as no estimate", () => {
+		expect(normalizeEstimate(undefined)).toBeUndefined();
+		expect(normalizeEstimate(null)).toBeUndefined();
+		expect(normalizeEstimate("")).toBeUndefined();
+	});
+
+	it("rejects negative or non-numeric estimates", () => {
+		expect(() => normalizeEstimate(-1)).toThrow("Invalid estimate");
+		expect(() => normalizeEstimate("lots")).toThrow("Invalid estimate");
+	});
+});
+
+describe("normalizeTimeEntry", () => {
+	it("fills in today's date and trims text", () => {
+		const entry = normalizeTimeEntry({ hours: 1.5, author: "  alice ", note: " pairing\n session " });
+		expect(entry).toEqual({
+			date: new Date().toISOString().slice(0, 10),
+			hours: 1.5,
+			author: "alice",
+			note: "pairing session",
+		});
+	});
+
+	it("keeps an explicit date and drops empty notes", () => {
+		expect(normalizeTimeEntry({ hours: 2, date: "2026-03-04", note: "  " })).toEqual({ date: "2026-03-04", hours: 2 });
+	});
+
+	it("rejects non-positive hours and malformed dates", () => {
+		expect(() => normalizeTimeEntry({ hours: 0 })).toThrow("Invalid hours");
+		expect(() => normalizeTimeEntry({ hours: 1, date: "04/03/2026" })).toThrow("Invalid date");
+	});
+});
+
+describe("summarizeEffort", () => {
+	it("rolls up estimates, completed estimates and logged hours", () => {
+		const tasks = [
+			makeTask({ estimate: 3, status: "Done", timeEntries: [{ date: "2026-01-02", hours: 4 }] }),
+			makeTask({
+				id: "TASK-2",
+				estimate: 5,
+				status: "In Progress",
+				timeEntries: [{ date: "2026-01-03", hours: 1.25 }],
+			}),
+			makeTask({ id: "TASK-3", timeEntries: [{ date: "2026-01-03", hours: 0.5 }] }),
+		];
+		expect(getLoggedHours(tasks[0] as Task)).toBe(4);
+		expect(summarizeEffort(tasks, (status) => status === "Done")).toEqual({
+			estimated: 8,
+			completed: 3,
+			logged: 5.75,
+			estimatedTasks: 2,
+		});
+	});
+});
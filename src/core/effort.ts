@@ -0,0 +1,78 @@
+import type { EffortSummary, Task, TimeEntry } from "../types/index.ts";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function roundEffort(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Normalizes an estimate to a non-negative number, or undefined if empty.
+ * Throws if the value is not a valid estimate.
+ */
+export function normalizeEstimate(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") {
+		return undefined;
+	}
+	const estimate = typeof value === "number" ? value : Number(value);
+	if (!Number.isFinite(estimate) || estimate < 0) {
+		throw new Error(`Invalid estimate: ${value}. Estimates must be a non-negative number.`);
+	}
+	return roundEffort(estimate);
+}
+
+/**
+ * Validates a time entry and fills in today's date when none is given.
+ * Throws if the hours or date are invalid.
+ */
+export function normalizeTimeEntry(entry: Omit<TimeEntry, "date"> & { date?: string }): TimeEntry {
+	const hours = Number(entry.hours);
+	if (!Number.isFinite(hours) || hours <= 0) {
+		throw new Error(`Invalid hours: ${entry.hours}. Logged time must be a positive number of hours.`);
+	}
+	const date = entry.date?.trim() || new Date().toISOString().slice(0, 10);
+	if (!DATE_PATTERN.test(date)) {
+		throw new Error(`Invalid date: ${entry.date}. Use YYYY-MM-DD.`);
+	}
+	const author = entry.author?.replace(/\s+/g, " ").trim();
+	const note = entry.note?.replace(/\s+/g, " ").trim();
+	return {
+		date,
+		hours: roundEffort(hours),
+		...(author && { author }),
+		...(note && { note }),
+	};
+}
+
+/**
+ * Total hours logged on a task.
+ */
+export function getLoggedHours(task: Pick<Task, "timeEntries">): number {
+	return roundEffort((task.timeEntries ?? []).reduce((sum, entry) => sum + entry.hours, 0));
+}
+
+/**
+ * Rolls up estimated, completed and logged effort over a set of tasks.
+ * A task's estimate counts as completed once `isDone` accepts its status.
+ */
+export function summarizeEffort(tasks: Task[], isDone: (status: string) => boolean): EffortSummary {
+	let estimated = 0;
+	let completed = 0;
+	let logged = 0;
+	let estimatedTasks = 0;
+	for (const task of tasks) {
+		logged += getLoggedHours(task);
+		if (typeof task.estimate !== "number") continue;
+		estimated += task.estimate;
+		estimatedTasks++;
+		if (isDone(task.status ?? "")) {
+			completed += task.estimate;
+		}
+	}
+	return {
+		estimated: roundEffort(estimated),
+		completed: roundEffort(completed),
+		logged: roundEffort(logged),
+		estimatedTasks,
+	};
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "bun:test";
+import { cosineSimilarity, HashedTermEmbeddingProvider, tokenizeForEmbedding } from "./embeddings.ts";
+
+describe("tokenizeForEmbedding", () => {
+	it("drops stop words and punctuation and trims suffixes", () => {
+		expect(tokenizeForEmbedding("Fixing the Login pages!")).toEqual(["fix", "login", "page"]);
+		expect(tokenizeForEmbedding("Café déjà-vu")).toEqual(["cafe", "deja", "vu"]);
+	});
+});
+
+describe("HashedTermEmbeddingProvider", () => {
+	const provider = new HashedTermEmbeddingProvider();
+	const similarity = async (a: string, b: string) => {
+		const [x, y] = await provider.embed([a, b]);
+		return cosineSimilarity(x ?? [], y ?? []);
+	};
+
+	it("scores rewordings above related and unrelated tasks", async () => {
+		expect(await similarity("Add the login page", "add login page")).toBeCloseTo(1);
+
+		const reworded = await similarity(
+			"Dark mode toggle. Add a toggle in settings to switch dark mode",
+			"Settings should have a dark mode toggle",
+		);
+		const related = await similarity("Add login page", "Add signup page");
+		const unrelated = await similarity("Write API docs", "Fix login redirect");
+		expect(reworded).toBeGreaterThan(related);
+		expect(related).toBeGreaterThan(unrelated);
+		expect(unrelated).toBe(0);
+	});
+
+	it("returns unit vectors of the configured size, or zeros for empty text", async () => {
+		const [vector, empty] = await new HashedTermEmbeddingProvider(64).embed(["login page", "the"]);
+		expect(vector).toHaveLength(64);
+		expect(Math.hypot(...(vector ?? []))).toBeCloseTo(1);
+		expect(empty?.every((value) => value === 0)).toBe(true);
+	});
+});
@@ -0,0 +1,109 @@
+/**
+ * Turns text into vectors whose cosine similarity tracks how alike two texts are.
+ * Implementations may call out to a model; the default below runs locally.
+ */
+export interface EmbeddingProvider {
+	/** Stable name of the provider and its settings. Stored vectors from another id are re-embedded. */
+	readonly id: string;
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOP_WORDS = new Set(
+	(
+		"a an and are as at be been but by can could do does for from has have how i if in into is it its " +
+		"make may must no not of on or our should so that the their then there these this to too up use " +
+		"was we were what when where which will with would you your"
+	).split(" "),
+);
+
+function stem(word: string): string {
+	if (word.length <= 4) return word;
+	return word
+		.replace(/(?:ing|ed)$/, "")
+		.replace(/(s|x|z|ch|sh)es$/, "$1")
+		.replace(/([^s])s$/, "$1");
+}
+
+/**
+ * Lowercases, strips accents and punctuation, drops stop words and trims common English
+ * suffixes, so "Fixing the login pages" and "fix login page" give the same terms.
+ */
+export function tokenizeForEmbedding(text: string): string[] {
+	const words = text
+		.normalize("NFKD")
+		.replace(/\p{M}/gu, "")
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u);
+	const tokens: string[] = [];
+	for (const word of words) {
+		if (word.length < 2 || STOP_WORDS.has(word)) continue;
+		tokens.push(stem(word));
+	}
+	return tokens;
+}
+
+/** 32-bit FNV-1a */
+function hashString(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Offline default: a hashed bag of words and word pairs with sublinear term frequency,
+ * L2-normalized. Good at spotting tasks that reuse the same vocabulary, which is what
+ * near-duplicates written by agents tend to do; it knows nothing about synonyms.
+ */
+export class HashedTermEmbeddingProvider implements EmbeddingProvider {
+	readonly id: string;
+
+	constructor(private readonly dimensions = 1024) {
+		this.id = `hashed-terms-v1-${dimensions}`;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => this.embedOne(text));
+	}
+
+	private embedOne(text: string): number[] {
+		const tokens = tokenizeForEmbedding(text);
+		const counts = new Map<string, number>();
+		tokens.forEach((token, index) => {
+			counts.set(token, (counts.get(token) ?? 0) + 1);
+			const next = tokens[index + 1];
+			if (next) {
+				counts.set(`${token} ${next}`, (counts.get(`${token} ${next}`) ?? 0) + 1);
+			}
+		});
+
+		const vector = new Array<number>(this.dimensions).fill(0);
+		for (const [term, count] of counts) {
+			const hash = hashString(term);
+			// The sign bit spreads collisions so they cancel out instead of piling up
+			const sign = hash & 0x80000000 ? -1 : 1;
+			const weight = term.includes(" ") ? 0.5 : 1;
+			const bucket = hash % this.dimensions;
+			vector[bucket] = (vector[bucket] ?? 0) + sign * weight * (1 + Math.log(count));
+		}
+		const norm = Math.hypot(...vector);
+		return norm === 0 ? vector : vector.map((value) => value / norm);
+	}
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	const length = Math.min(a.length, b.length);
+	for (let i = 0; i < length; i++) {
+		const x = a[i] ?? 0;
+		const y = b[i] ?? 0;
+		dot += x * y;
+		normA += x * x;
+		normB += y * y;
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -43,6 +43,7 @@ export async function updateDecisionFromContent(
 		decision: extractSection(content, "Decision") || existingDecision.decision,
 		consequences: extractSection(content, "Consequences") || existingDecision.consequences,
 		alternatives: extractSection(content, "Alternatives") || existingDecision.alternatives,
+		supersededBy: data.superseded_by || existingDecision.supersededBy,
 	};
 
 	await createDecision(core, updatedDecision, autoCommit);
@@ -0,0 +1,66 @@
+import type { LeaseClaim } from "../file-system/sqlite-coordinator.ts";
+import { StorageCoordinator } from "../file-system/storage-coordinator.ts";
+import type { TaskLease } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+
+/** How long a claim lasts without a heartbeat. */
+export const DEFAULT_LEASE_TTL_MINUTES = 30;
+export const MAX_LEASE_TTL_MINUTES = 24 * 60;
+
+function leaseStore(core: Core): StorageCoordinator | null {
+	return core.fs instanceof StorageCoordinator ? core.fs : null;
+}
+
+/** Length of a lease in milliseconds. Throws for lengths outside (0, MAX_LEASE_TTL_MINUTES]. */
+export function ttlMs(ttlMinutes?: number): number {
+	const minutes = ttlMinutes ?? DEFAULT_LEASE_TTL_MINUTES;
+	if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_LEASE_TTL_MINUTES) {
+		throw new Error(`Lease length must be more than 0 and at most ${MAX_LEASE_TTL_MINUTES} minutes`);
+	}
+	return minutes * 60_000;
+}
+
+/**
+ * Claims a task for `holder`. Without the SQLite storage coordinator claims are
+ * not coordinated, so every claim succeeds and no lease is recorded.
+ */
+export function claimTaskLease(
+	core: Core,
+	taskId: string,
+	holder: string,
+	ttlMinutes?: number,
+): LeaseClaim | { acquired: true; lease: null } {
+	const duration = ttlMs(ttlMinutes);
+	const store = leaseStore(core);
+	return store ? store.acquireLease(taskId, holder, duration) : { acquired: true, lease: null };
+}
+
+/**
+ * Extends `holder`'s lease on a task. Returns null if they do not hold a live lease.
+ */
+export function renewTaskLease(core: Core, taskId: string, holder: string, ttlMinutes?: number): TaskLease | null {
+	const duration = ttlMs(ttlMinutes);
+	return leaseStore(core)?.renewLease(taskId, holder, duration) ?? null;
+}
+
+export function releaseTaskLease(core: Core, taskId: string, holder: string): boolean {
+	return leaseStore(core)?.releaseLease(taskId, holder) ?? false;
+}
+
+export function getTaskLease(core: Core, taskId: string): TaskLease | null {
+	return leaseStore(core)?.getLease(taskId) ?? null;
+}
+
+export function listTaskLeases(core: Core): TaskLease[] {
+	return leaseStore(core)?.listLeases() ?? [];
+}
+
+/** "2026-03-01 14:30 UTC" */
+export function formatLeaseExpiry(lease: TaskLease): string {
+	return `${lease.expiresAt.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/** "TASK-1 is claimed by Agent Bot until 2026-03-01 14:30 UTC" */
+export function formatLease(lease: TaskLease): string {
+	return `${lease.taskId} is claimed by ${lease.holder} until ${formatLeaseExpiry(lease)}`;
+}
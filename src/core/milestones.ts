@@ -1,4 +1,5 @@
 import type { Milestone, MilestoneBucket, MilestoneSummary, Task } from "../types/index.ts";
+import { summarizeEffort } from "./effort.ts";
 
 const NO_MILESTONE_KEY = "__none";
 
@@ -143,6 +144,15 @@ export function resolveMilestoneInput(
 	return resolveByAlias(archivedMilestones) ?? normalized;
 }
 
+/**
+ * Keys that match a resolved milestone on tasks: its ID and, because older tasks
+ * may reference a milestone by title, the title of the milestone with that ID.
+ */
+export function getMilestoneMatchKeys(milestoneId: string, milestones: Milestone[]): Set<string> {
+	const entity = milestones.find((candidate) => candidate.id === milestoneId);
+	return new Set([milestoneKey(milestoneId), ...(entity ? [milestoneKey(entity.title)] : [])]);
+}
+
 /**
  * Collect archived milestone keys, excluding archived titles that are reused by active milestones.
  */
@@ -418,6 +428,7 @@ function createBucket(
 	}
 
 	const doneCount = bucketTasks.filter((t) => isDoneStatus(t.status)).length;
+	const effort = summarizeEffort(bucketTasks, isDoneStatus);
 	const progress = bucketTasks.length > 0 ? Math.round((doneCount / bucketTasks.length) * 100) : 0;
 	const isCompleted = bucketTasks.length > 0 && doneCount === bucketTasks.length;
 
@@ -435,6 +446,7 @@ function createBucket(
 		total: bucketTasks.length,
 		doneCount,
 		progress,
+		effort,
 	};
 }
 
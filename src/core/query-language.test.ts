@@ -0,0 +1,166 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "../types/index.ts";
+import {
+	compileTaskQuery,
+	getTaskQueryCompletions,
+	isStructuredTaskQuery,
+	parseSearchQuery,
+	parseTaskQuery,
+} from "./query-language.ts";
+
+const task = (overrides: Partial<Task>): Task => ({
+	id: "TASK-1",
+	title: "Task",
+	status: "To Do",
+	assignee: [],
+	createdDate: "2026-03-01 09:00",
+	labels: [],
+	dependencies: [],
+	...overrides,
+});
+
+const tasks = [
+	task({
+		id: "TASK-1",
+		title: "Login API",
+		status: "In Progress",
+		assignee: ["@alice"],
+		labels: ["api"],
+		priority: "high",
+		updatedDate: "2026-03-09 10:00",
+		implementationPlan: "1. Do it",
+	}),
+	task({
+		id: "TASK-2",
+		title: "Signup API",
+		status: "In Progress",
+		assignee: ["@bob"],
+		labels: ["api", "wip"],
+		priority: "medium",
+		dueDate: "2026-03-12",
+	}),
+	task({
+		id: "TASK-3",
+		title: "Docs",
+		status: "To Do",
+		labels: ["docs"],
+		priority: "low",
+		milestone: "m-1",
+		estimate: 3,
+	}),
+];
+
+const run = (query: string, context = {}) =>
+	tasks.filter(compileTaskQuery(parseTaskQuery(query), { today: "2026-03-10", ...context })).map((match) => match.id);
+
+describe("parseTaskQuery", () => {
+	it("builds an AST of fields, negation, OR and text", () => {
+		expect(parseTaskQuery('status:"In Progress" -label:wip login')).toEqual({
+			type: "and",
+			children: [
+				{ type: "field", field: "status", operator: "=", value: "In Progress" },
+				{ type: "not", child: { type: "field", field: "label", operator: "=", value: "wip" } },
+				{ type: "text", value: "login" },
+			],
+		});
+		expect(parseTaskQuery("(label:api OR label:docs) priority>=medium")).toEqual({
+			type: "and",
+			children: [
+				{
+					type: "or",
+					children: [
+						{ type: "field", field: "label", operator: "=", value: "api" },
+						{ type: "field", field: "label", operator: "=", value: "docs" },
+					],
+				},
+				{ type: "field", field: "priority", operator: ">=", value: "medium" },
+			],
+		});
+		expect(parseTaskQuery("updated:<7d")).toEqual({ type: "field", field: "updated", operator: "<", value: "7d" });
+	});
+
+	it("keeps unknown prefixes and plain words as text", () => {
+		const node = parseTaskQuery("see http://example.com");
+		expect(node).toEqual({
+			type: "and",
+			children: [
+				{ type: "text", value: "see" },
+				{ type: "text", value: "http://example.com" },
+			],
+		});
+		expect(isStructuredTaskQuery(node)).toBe(false);
+		expect(isStructuredTaskQuery(parseTaskQuery("-wip"))).toBe(false);
+		expect(isStructuredTaskQuery(parseTaskQuery("bug -label:wip"))).toBe(true);
+	});
+
+	it("leaves plain search text and text that does not parse to the fuzzy search", () => {
+		for (const text of [
+			"fix crash in foo(bar",
+			"it's \"broken",
+			"due: tomorrow",
+			"estimate: 3 points",
+			"handle -v flag",
+		]) {
+			expect(parseSearchQuery(text)).toBeNull();
+		}
+		expect(parseSearchQuery("label:api -status:Done")).toEqual({
+			type: "and",
+			children: [
+				{ type: "field", field: "label", operator: "=", value: "api" },
+				{ type: "not", child: { type: "field", field: "status", operator: "=", value: "Done" } },
+			],
+		});
+	});
+
+	it("reports syntax errors with positions", () => {
+		expect(() => parseTaskQuery('status:"In Progress')).toThrow("Unterminated quote at position 8.");
+		expect(() => parseTaskQuery("(label:api")).toThrow('Missing ")" for "(" at position 1.');
+		expect(() => parseTaskQuery("label:api)")).toThrow('Unexpected ")" at position 10.');
+		expect(() => parseTaskQuery("label:api OR")).toThrow("Expected a term");
+		expect(() => parseTaskQuery("priority:urgent")).toThrow('Invalid priority "urgent"');
+		expect(() => parseTaskQuery("status>done")).toThrow('"status" only supports field:value');
+		expect(() => parseTaskQuery("has:toString")).toThrow("Unknown has:toString");
+		expect(() => parseTaskQuery("due:tomorrow")).toThrow('Invalid date "tomorrow" for "due"');
+	});
+});
+
+describe("compileTaskQuery", () => {
+	it("matches fields, negation and OR", () => {
+		expect(run('status:"in progress" label:api -label:wip')).toEqual(["TASK-1"]);
+		expect(run("label:docs OR assignee:bob")).toEqual(["TASK-2", "TASK-3"]);
+		expect(run("priority>=medium")).toEqual(["TASK-1", "TASK-2"]);
+		expect(run("priority<high -priority:low")).toEqual(["TASK-2"]);
+		expect(run("milestone:m-1 estimate>=3 has:estimate")).toEqual(["TASK-3"]);
+		expect(run("has:plan")).toEqual(["TASK-1"]);
+		expect(run("assignee:none")).toEqual(["TASK-3"]);
+		expect(run("id:task-2")).toEqual(["TASK-2"]);
+		expect(run("signup")).toEqual(["TASK-2"]);
+	});
+
+	it("counts relative dates back for created and updated and forward for due", () => {
+		expect(run("updated:<7d")).toEqual(["TASK-1"]);
+		expect(run("updated:>7d")).toEqual(["TASK-2", "TASK-3"]);
+		expect(run("due:<7d")).toEqual(["TASK-2"]);
+		expect(run("due:<today")).toEqual([]);
+		expect(run("created:2026-03-01")).toEqual(["TASK-1", "TASK-2", "TASK-3"]);
+	});
+
+	it("resolves @me to the signed-in user", () => {
+		expect(run("assignee:@me", { currentUser: { name: "Alice", email: "alice@example.com" } })).toEqual(["TASK-1"]);
+		expect(() => run("assignee:@me")).toThrow("assignee:@me needs a signed-in user.");
+	});
+});
+
+describe("getTaskQueryCompletions", () => {
+	it("suggests fields, then values for the field under the cursor", () => {
+		expect(getTaskQueryCompletions("login pri", 9).items.map((item) => item.insert)).toEqual(["priority:"]);
+
+		const statuses = getTaskQueryCompletions("label:api status:in", 19, { statuses: ["To Do", "In Progress"] });
+		expect(statuses.from).toBe(10);
+		expect(statuses.items.map((item) => item.insert)).toEqual(['status:"In Progress" ']);
+
+		const milestones = getTaskQueryCompletions("-milestone:rel", 14, { milestones: [{ id: "m-2", title: "Release" }] });
+		expect(milestones.from).toBe(1);
+		expect(milestones.items).toEqual([{ label: "m-2", insert: "milestone:m-2 ", detail: "Release" }]);
+	});
+});
@@ -0,0 +1,563 @@
+import type { Milestone, Task } from "../types/index.ts";
+import { getMilestoneMatchKeys, milestoneKey, resolveMilestoneInput } from "./milestones.ts";
+import { getToday, normalizeScheduleDate } from "./schedule.ts";
+
+/*
+ * Task query language, e.g. `status:"In Progress" assignee:@me label:api -label:wip priority>=medium updated:<7d`.
+ *
+ * Terms are ANDed; `OR` between terms and parentheses group alternatives, and a leading `-` negates a term
+ * or group. A term is either `field:value` (or `field>=value`, `field:<value`, ...) or free text. Words
+ * whose prefix is not a known field, such as `http://host`, are searched as text.
+ */
+
+export type TaskQueryOperator = "=" | "<" | "<=" | ">" | ">=";
+
+export type TaskQueryNode =
+	| { type: "and"; children: TaskQueryNode[] }
+	| { type: "or"; children: TaskQueryNode[] }
+	| { type: "not"; child: TaskQueryNode }
+	| { type: "field"; field: TaskQueryFieldName; operator: TaskQueryOperator; value: string }
+	| { type: "text"; value: string };
+
+type FieldKind = "text" | "priority" | "date" | "number" | "has";
+
+interface TaskQueryFieldDefinition {
+	name: string;
+	kind: FieldKind;
+	description: string;
+}
+
+export const TASK_QUERY_FIELDS = [
+	{ name: "status", kind: "text", description: "Status name" },
+	{ name: "assignee", kind: "text", description: "Assignee; @me for yourself, none for unassigned" },
+	{ name: "label", kind: "text", description: "Label; none for unlabelled" },
+	{ name: "priority", kind: "priority", description: "high, medium, low or none; compare with >= and <=" },
+	{ name: "milestone", kind: "text", description: "Milestone ID or title; none for no milestone" },
+	{ name: "id", kind: "text", description: "Task ID" },
+	{ name: "parent", kind: "text", description: "Parent task ID" },
+	{ name: "created", kind: "date", description: "Created date: YYYY-MM-DD, today, or an age like 7d or 2w" },
+	{ name: "updated", kind: "date", description: "Last edit date: YYYY-MM-DD, today, or an age like 7d or 2w" },
+	{ name: "due", kind: "date", description: "Due date: YYYY-MM-DD, today, or days ahead like 7d" },
+	{ name: "start", kind: "date", description: "Start date: YYYY-MM-DD, today, or days ahead like 7d" },
+	{ name: "estimate", kind: "number", description: "Estimated effort" },
+	{ name: "has", kind: "has", description: "A section or field that is set, e.g. has:plan" },
+] as const satisfies readonly TaskQueryFieldDefinition[];
+
+export type TaskQueryFieldName = (typeof TASK_QUERY_FIELDS)[number]["name"];
+
+const FIELD_ALIASES: Record<string, TaskQueryFieldName> = { labels: "label", assignees: "assignee" };
+
+const HAS_CHECKS: Record<string, (task: Task) => boolean> = {
+	description: (task) => Boolean(task.description?.trim()),
+	plan: (task) => Boolean(task.implementationPlan?.trim()),
+	summary: (task) => Boolean(task.finalSummary?.trim()),
+	ac: (task) => (task.acceptanceCriteriaItems?.length ?? 0) > 0,
+	assignee: (task) => task.assignee.length > 0,
+	labels: (task) => task.labels.length > 0,
+	milestone: (task) => Boolean(task.milestone?.trim()),
+	dependencies: (task) => task.dependencies.length > 0,
+	parent: (task) => Boolean(task.parentTaskId),
+	due: (task) => Boolean(task.dueDate),
+	start: (task) => Boolean(task.startDate),
+	estimate: (task) => task.estimate !== undefined,
+	comments: (task) => (task.comments?.length ?? 0) > 0,
+};
+
+export const TASK_QUERY_HAS_VALUES = Object.keys(HAS_CHECKS);
+
+const PRIORITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 };
+
+const FIELD_PATTERN = /^([A-Za-z]+)(:>=|:<=|:>|:<|:|>=|<=|>|<|=)/;
+const RELATIVE_DATE_PATTERN = /^(\d+)([dw])$/i;
+
+function fieldDefinition(name: string): TaskQueryFieldDefinition | undefined {
+	const canonical = FIELD_ALIASES[name.toLowerCase()] ?? name.toLowerCase();
+	return TASK_QUERY_FIELDS.find((field) => field.name === canonical);
+}
+
+// ── tokenizer ────────────────────────────────────────────────────────────────
+
+type Token =
+	| { kind: "lparen" | "rparen" | "or" | "not"; position: number }
+	| { kind: "term"; position: number; field?: TaskQueryFieldName; operator?: TaskQueryOperator; value: string };
+
+const isBoundary = (char: string | undefined) => char === undefined || /\s|\(|\)/.test(char);
+
+function readValue(input: string, start: number): { value: string; end: number } {
+	if (input[start] === '"') {
+		const close = input.indexOf('"', start + 1);
+		if (close === -1) {
+			throw new Error(`Unterminated quote at position ${start + 1}.`);
+		}
+		return { value: input.slice(start + 1, close), end: close + 1 };
+	}
+	let end = start;
+	while (!isBoundary(input[end])) {
+		end += 1;
+	}
+	return { value: input.slice(start, end), end };
+}
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let index = 0;
+	while (index < input.length) {
+		const char = input[index];
+		if (/\s/.test(char ?? "")) {
+			index += 1;
+			continue;
+		}
+		if (char === "(" || char === ")") {
+			tokens.push({ kind: char === "(" ? "lparen" : "rparen", position: index + 1 });
+			index += 1;
+			continue;
+		}
+		const next = input[index + 1];
+		if (char === "-" && next !== undefined && next !== ")" && !/\s/.test(next)) {
+			tokens.push({ kind: "not", position: index + 1 });
+			index += 1;
+			continue;
+		}
+
+		const position = index + 1;
+		const fieldMatch = input.slice(index).match(FIELD_PATTERN);
+		const definition = fieldMatch?.[1] ? fieldDefinition(fieldMatch[1]) : undefined;
+		if (fieldMatch && definition) {
+			const { value, end } = readValue(input, index + fieldMatch[0].length);
+			if (!value.trim()) {
+				throw new Error(`Missing value for "${fieldMatch[1]}" at position ${position}.`);
+			}
+			const rawOperator = fieldMatch[2]?.replace(/^:(?=[<>])/, "") ?? ":";
+			const operator = (rawOperator === ":" ? "=" : rawOperator) as TaskQueryOperator;
+			tokens.push({
+				kind: "term",
+				position,
+				field: definition.name as TaskQueryFieldName,
+				operator,
+				value: value.trim(),
+			});
+			index = end;
+			continue;
+		}
+
+		const { value, end } = readValue(input, index);
+		if (value === "OR" && char !== '"') {
+			tokens.push({ kind: "or", position });
+		} else if (value !== "AND" || char === '"') {
+			if (value.trim()) tokens.push({ kind: "term", position, value: value.trim() });
+		}
+		index = end;
+	}
+	return tokens;
+}
+
+// ── parser ───────────────────────────────────────────────────────────────────
+
+function validateFieldValue(field: TaskQueryFieldName, operator: TaskQueryOperator, value: string): void {
+	const definition = fieldDefinition(field);
+	const kind = definition?.kind ?? "text";
+	const lower = value.toLowerCase();
+	if (operator !== "=" && (kind === "text" || kind === "has")) {
+		throw new Error(`"${field}" only supports field:value, not ${operator}.`);
+	}
+	if (kind === "priority") {
+		if (lower === "none" ? operator !== "=" : !Object.hasOwn(PRIORITY_RANK, lower)) {
+			throw new Error(`Invalid priority "${value}". Use high, medium, low or none.`);
+		}
+	}
+	if (kind === "has" && !Object.hasOwn(HAS_CHECKS, lower)) {
+		throw new Error(`Unknown has:${value}. Use one of: ${TASK_QUERY_HAS_VALUES.join(", ")}.`);
+	}
+	if (kind === "number" && !Number.isFinite(Number(value))) {
+		throw new Error(`Invalid number "${value}" for "${field}".`);
+	}
+	if (kind === "date" && lower !== "today" && !RELATIVE_DATE_PATTERN.test(value)) {
+		try {
+			normalizeScheduleDate(value);
+		} catch {
+			throw new Error(`Invalid date "${value}" for "${field}". Use YYYY-MM-DD, today, or an amount like 7d or 2w.`);
+		}
+	}
+}
+
+/**
+ * Parses a query into an AST. Throws an Error naming the position of the first syntax problem.
+ */
+export function parseTaskQuery(input: string): TaskQueryNode {
+	const tokens = tokenize(input);
+	let index = 0;
+
+	const parseOr = (): TaskQueryNode => {
+		const children = [parseAnd()];
+		while (tokens[index]?.kind === "or") {
+			index += 1;
+			children.push(parseAnd());
+		}
+		return children.length === 1 ? (children[0] as TaskQueryNode) : { type: "or", children };
+	};
+
+	const parseAnd = (): TaskQueryNode => {
+		const children: TaskQueryNode[] = [];
+		while (index < tokens.length && tokens[index]?.kind !== "or" && tokens[index]?.kind !== "rparen") {
+			children.push(parseUnary());
+		}
+		if (children.length === 0) {
+			const token = tokens[index];
+			if (token || tokens.length > 0) {
+				throw new Error(`Expected a term at position ${token?.position ?? input.length + 1}.`);
+			}
+		}
+		return children.length === 1 ? (children[0] as TaskQueryNode) : { type: "and", children };
+	};
+
+	const parseUnary = (): TaskQueryNode => {
+		const token = tokens[index];
+		if (!token) {
+			throw new Error("Unexpected end of query.");
+		}
+		index += 1;
+		if (token.kind === "not") {
+			return { type: "not", child: parseUnary() };
+		}
+		if (token.kind === "lparen") {
+			const group = parseOr();
+			if (tokens[index]?.kind !== "rparen") {
+				throw new Error(`Missing ")" for "(" at position ${token.position}.`);
+			}
+			index += 1;
+			return group;
+		}
+		if (token.kind === "term") {
+			if (token.field && token.operator) {
+				validateFieldValue(token.field, token.operator, token.value);
+				return { type: "field", field: token.field, operator: token.operator, value: token.value };
+			}
+			return { type: "text", value: token.value };
+		}
+		throw new Error(`Unexpected "${token.kind === "rparen" ? ")" : "OR"}" at position ${token.position}.`);
+	};
+
+	const root = parseOr();
+	const leftover = tokens[index];
+	if (leftover) {
+		throw new Error(`Unexpected ")" at position ${leftover.position}.`);
+	}
+	return root;
+}
+
+/**
+ * True when a query has a `field:value` term. Text without one, even with `-` or OR in it, keeps
+ * the fuzzy search it always had.
+ */
+export function isStructuredTaskQuery(node: TaskQueryNode): boolean {
+	switch (node.type) {
+		case "text":
+			return false;
+		case "field":
+			return true;
+		case "not":
+			return isStructuredTaskQuery(node.child);
+		default:
+			return node.children.some(isStructuredTaskQuery);
+	}
+}
+
+/**
+ * Parses search text typed into a plain search box. Returns null, for a fuzzy search instead, when
+ * the text has no `field:value` term or does not parse, e.g. `fix crash in foo(bar` or `due: tomorrow`.
+ */
+export function parseSearchQuery(input: string): TaskQueryNode | null {
+	try {
+		const node = parseTaskQuery(input);
+		return isStructuredTaskQuery(node) ? node : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Free-text terms that every match must contain, i.e. those not under OR or negation. Used for ranking.
+ */
+export function collectRequiredText(node: TaskQueryNode): string[] {
+	if (node.type === "text") return [node.value];
+	if (node.type === "and") return node.children.flatMap(collectRequiredText);
+	return [];
+}
+
+// ── evaluation ───────────────────────────────────────────────────────────────
+
+export interface TaskQueryContext {
+	/** YYYY-MM-DD; defaults to the local date */
+	today?: string;
+	/** The signed-in user, for assignee:@me */
+	currentUser?: { name: string; email?: string };
+	milestones?: Milestone[];
+	archivedMilestones?: Milestone[];
+	/** Matches a free-text term; defaults to a case-insensitive substring match on ID, title and description */
+	matchText?: (task: Task, text: string) => boolean;
+}
+
+const normalizeIdentity = (value: string) => value.trim().replace(/^@/, "").toLowerCase();
+
+const normalizeId = (value: string) =>
+	value
+		.trim()
+		.toLowerCase()
+		.replace(/^[a-z]+-/, "")
+		.replace(/(^|\.)0+(?=\d)/g, "$1");
+
+function defaultMatchText(task: Task, text: string): boolean {
+	const needle = text.toLowerCase();
+	return [task.id, task.title, task.description ?? ""].some((value) => value.toLowerCase().includes(needle));
+}
+
+function shiftDate(date: string, days: number): string {
+	const shifted = new Date(`${date}T00:00:00Z`);
+	shifted.setUTCDate(shifted.getUTCDate() + days);
+	return shifted.toISOString().slice(0, 10);
+}
+
+function compare<T>(actual: T, operator: TaskQueryOperator, expected: T): boolean {
+	switch (operator) {
+		case "<":
+			return actual < expected;
+		case "<=":
+			return actual <= expected;
+		case ">":
+			return actual > expected;
+		case ">=":
+			return actual >= expected;
+		default:
+			return actual === expected;
+	}
+}
+
+const FLIPPED: Record<TaskQueryOperator, TaskQueryOperator> = { "=": "=", "<": ">", "<=": ">=", ">": "<", ">=": "<=" };
+
+/**
+ * Builds the date test for a date field. Relative amounts count back from today for `created` and
+ * `updated` (`updated:<7d` is "less than 7 days ago") and forward for `due` and `start`
+ * (`due:<7d` is "due within the next 7 days"); `field:7d` means "within" in both directions.
+ */
+function dateMatcher(
+	field: TaskQueryFieldName,
+	operator: TaskQueryOperator,
+	value: string,
+	today: string,
+): (date: string) => boolean {
+	const relative = value.match(RELATIVE_DATE_PATTERN);
+	if (!relative) {
+		const target = value.toLowerCase() === "today" ? today : value;
+		return (date) => compare(date, operator, target);
+	}
+	const days = Number(relative[1]) * (relative[2]?.toLowerCase() === "w" ? 7 : 1);
+	const backwards = field === "created" || field === "updated";
+	const target = shiftDate(today, backwards ? -days : days);
+	if (operator === "=") {
+		return backwards ? (date) => date >= target : (date) => date <= target;
+	}
+	return (date) => compare(date, backwards ? FLIPPED[operator] : operator, target);
+}
+
+function taskDate(task: Task, field: TaskQueryFieldName): string | undefined {
+	const value =
+		field === "created"
+			? task.createdDate
+			: field === "updated"
+				? (task.updatedDate ?? task.createdDate)
+				: field === "due"
+					? task.dueDate
+					: task.startDate;
+	return value ? value.slice(0, 10) : undefined;
+}
+
+function compileField(
+	node: Extract<TaskQueryNode, { type: "field" }>,
+	context: TaskQueryContext,
+	today: string,
+): (task: Task) => boolean {
+	const { field, operator, value } = node;
+	const lower = value.toLowerCase();
+	switch (field) {
+		case "status":
+			return (task) => task.status.toLowerCase() === lower;
+		case "assignee": {
+			if (lower === "none") return (task) => task.assignee.length === 0;
+			let identities = new Set([normalizeIdentity(value)]);
+			if (lower === "@me" || lower === "me") {
+				const user = context.currentUser;
+				if (!user) {
+					throw new Error("assignee:@me needs a signed-in user.");
+				}
+				identities = new Set(
+					[user.name, user.email ?? "", user.email?.split("@")[0] ?? ""]
+						.map(normalizeIdentity)
+						.filter((identity) => identity.length > 0),
+				);
+			}
+			return (task) => task.assignee.some((assignee) => identities.has(normalizeIdentity(assignee)));
+		}
+		case "label":
+			if (lower === "none") return (task) => task.labels.length === 0;
+			return (task) => task.labels.some((label) => label.toLowerCase() === lower);
+		case "priority": {
+			if (lower === "none") return (task) => !task.priority;
+			const expected = PRIORITY_RANK[lower] ?? 0;
+			return (task) => Boolean(task.priority) && compare(PRIORITY_RANK[task.priority ?? ""] ?? 0, operator, expected);
+		}
+		case "milestone": {
+			if (lower === "none") return (task) => !task.milestone?.trim();
+			const milestones = context.milestones ?? [];
+			const archived = context.archivedMilestones ?? [];
+			const keys = getMilestoneMatchKeys(resolveMilestoneInput(value, milestones, archived), [
+				...milestones,
+				...archived,
+			]);
+			return (task) => Boolean(task.milestone) && keys.has(milestoneKey(task.milestone));
+		}
+		case "id":
+			return (task) => normalizeId(task.id) === normalizeId(value);
+		case "parent":
+			return (task) => Boolean(task.parentTaskId) && normalizeId(task.parentTaskId ?? "") === normalizeId(value);
+		case "created":
+		case "updated":
+		case "due":
+		case "start": {
+			const matches = dateMatcher(field, operator, value, today);
+			return (task) => {
+				const date = taskDate(task, field);
+				return date !== undefined && matches(date);
+			};
+		}
+		case "estimate": {
+			const expected = Number(value);
+			return (task) => task.estimate !== undefined && compare(task.estimate, operator, expected);
+		}
+		case "has":
+			return HAS_CHECKS[lower] ?? (() => false);
+	}
+}
+
+/**
+ * Turns a parsed query into a task predicate. Milestones and `@me` are resolved once, up front.
+ */
+export function compileTaskQuery(node: TaskQueryNode, context: TaskQueryContext = {}): (task: Task) => boolean {
+	const today = context.today ?? getToday();
+	const matchText = context.matchText ?? defaultMatchText;
+	const compile = (current: TaskQueryNode): ((task: Task) => boolean) => {
+		switch (current.type) {
+			case "and": {
+				const children = current.children.map(compile);
+				return (task) => children.every((child) => child(task));
+			}
+			case "or": {
+				const children = current.children.map(compile);
+				return (task) => children.some((child) => child(task));
+			}
+			case "not": {
+				const child = compile(current.child);
+				return (task) => !child(task);
+			}
+			case "text":
+				return (task) => matchText(task, current.value);
+			case "field":
+				return compileField(current, context, today);
+		}
+	};
+	return compile(node);
+}
+
+// ── autocomplete ─────────────────────────────────────────────────────────────
+
+export interface TaskQueryCompletionValues {
+	statuses?: string[];
+	labels?: string[];
+	assignees?: string[];
+	milestones?: Array<{ id: string; title: string }>;
+}
+
+export interface TaskQueryCompletion {
+	/** Shown in the list */
+	label: string;
+	/** Replaces the text between `from` and `to` */
+	insert: string;
+	detail?: string;
+}
+
+export interface TaskQueryCompletions {
+	from: number;
+	to: number;
+	items: TaskQueryCompletion[];
+}
+
+const quoteIfNeeded = (value: string) => (/[\s()"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
+
+function valueCompletions(
+	field: TaskQueryFieldDefinition,
+	values: TaskQueryCompletionValues,
+): Array<{ value: string; detail?: string }> {
+	switch (field.name) {
+		case "status":
+			return (values.statuses ?? []).map((value) => ({ value }));
+		case "label":
+			return [...(values.labels ?? []), "none"].map((value) => ({ value }));
+		case "assignee":
+			return ["@me", "none", ...(values.assignees ?? [])].map((value) => ({ value }));
+		case "priority":
+			return ["high", "medium", "low", "none"].map((value) => ({ value }));
+		case "milestone":
+			return [
+				...(values.milestones ?? []).map((milestone) => ({ value: milestone.id, detail: milestone.title })),
+				{ value: "none" },
+			];
+		case "has":
+			return TASK_QUERY_HAS_VALUES.map((value) => ({ value }));
+		default:
+			return field.kind === "date" ? ["today", "1d", "7d", "30d"].map((value) => ({ value })) : [];
+	}
+}
+
+/**
+ * Suggests field names, or values once a field is typed, for the term under the cursor.
+ */
+export function getTaskQueryCompletions(
+	input: string,
+	cursor: number,
+	values: TaskQueryCompletionValues = {},
+	limit = 8,
+): TaskQueryCompletions {
+	let start = cursor;
+	let inQuote = (input.slice(0, cursor).match(/"/g)?.length ?? 0) % 2 === 1;
+	while (start > 0) {
+		const previous = input[start - 1] ?? "";
+		if (previous === '"') inQuote = !inQuote;
+		else if (!inQuote && /\s|\(|\)/.test(previous)) break;
+		start -= 1;
+	}
+	if (input[start] === "-") start += 1;
+	const fragment = input.slice(start, cursor);
+	const empty = { from: start, to: cursor, items: [] };
+
+	const fieldMatch = fragment.match(FIELD_PATTERN);
+	const definition = fieldMatch?.[1] ? fieldDefinition(fieldMatch[1]) : undefined;
+	if (fieldMatch && definition) {
+		const prefix = fieldMatch[0];
+		const typed = fragment.slice(prefix.length).replace(/^"/, "").toLowerCase();
+		const items = valueCompletions(definition, values)
+			.filter(({ value, detail }) =>
+				[value, detail ?? ""].some((candidate) => candidate.toLowerCase().startsWith(typed)),
+			)
+			.slice(0, limit)
+			.map(({ value, detail }) => ({ label: value, insert: `${prefix}${quoteIfNeeded(value)} `, detail }));
+		return { from: start, to: cursor, items };
+	}
+
+	if (!fragment || !/^[A-Za-z]+$/.test(fragment)) {
+		return empty;
+	}
+	const typed = fragment.toLowerCase();
+	const items = TASK_QUERY_FIELDS.filter((field) => field.name.startsWith(typed))
+		.slice(0, limit)
+		.map((field) => ({ label: `${field.name}:`, insert: `${field.name}:`, detail: field.description }));
+	return { from: start, to: cursor, items };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import type { Milestone, Task, TaskCreateInput, TaskTemplate } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+import { dueTemplateOccurrences, MemoryTemplateRunLedger, RecurringTaskScheduler } from "./recurring-tasks.ts";
+import { builtInTemplateValues, isoWeek, renderTemplateText, templateVariables } from "./task-templates.ts";
+
+const template = (overrides: Partial<TaskTemplate>): TaskTemplate => ({
+	id: "template-1",
+	name: "Template",
+	title: "Task",
+	labels: [],
+	assignee: [],
+	acceptanceCriteria: [],
+	subtasks: [],
+	...overrides,
+});
+
+const milestone = (id: string, active = true): Milestone => ({
+	id,
+	title: `Release ${id}`,
+	description: "",
+	active,
+	rawContent: "",
+});
+
+describe("task template placeholders", () => {
+	it("numbers weeks the ISO way", () => {
+		expect(isoWeek(new Date("2026-10-19T12:00:00Z"))).toBe("2026-W43");
+		expect(isoWeek(new Date("2027-01-01T12:00:00Z"))).toBe("2026-W53");
+		expect(isoWeek(new Date("2024-12-30T12:00:00Z"))).toBe("2025-W01");
+	});
+
+	it("fills known placeholders and leaves the rest", () => {
+		const values = builtInTemplateValues(new Date("2026-10-19T12:00:00Z"), { title: "Release 1.0" });
+		expect(renderTemplateText("Retro {{ week }} for {{milestone}} ({{date}}), v{{version}}", values)).toBe(
+			"Retro 2026-W43 for Release 1.0 (2026-10-19), v{{version}}",
+		);
+	});
+
+	it("lists the placeholders callers must supply", () => {
+		const release = template({
+			title: "Release {{version}} on {{date}}",
+			acceptanceCriteria: ["Changelog for {{version}} published"],
+			subtasks: ["Tag {{codename}}"],
+		});
+		expect(templateVariables(release)).toEqual(["version", "codename"]);
+	});
+});
+
+describe("dueTemplateOccurrences", () => {
+	const weekly = template({ id: "template-1", recurrence: { every: "week", day: "wednesday" } });
+	const perMilestone = template({ id: "template-2", recurrence: { every: "milestone" } });
+	const manual = template({ id: "template-3" });
+
+	it("makes weekly templates due from their weekday until the week ends", () => {
+		const keys = (iso: string) =>
+			dueTemplateOccurrences([weekly, manual], [], new Date(iso)).map((occurrence) => occurrence.key);
+		expect(keys("2026-10-20T09:00:00Z")).toEqual([]);
+		expect(keys("2026-10-21T09:00:00Z")).toEqual(["week:2026-W43"]);
+		expect(keys("2026-10-25T23:00:00Z")).toEqual(["week:2026-W43"]);
+	});
+
+	it("makes milestone templates due once per active milestone", () => {
+		const occurrences = dueTemplateOccurrences(
+			[perMilestone],
+			[milestone("m-1"), milestone("m-2", false)],
+			new Date("2026-10-19T12:00:00Z"),
+		);
+		expect(occurrences.map(({ key, milestone }) => [key, milestone?.id])).toEqual([["milestone:m-1", "m-1"]]);
+	});
+
+	it("claims an occurrence once per ledger", () => {
+		const ledger = new MemoryTemplateRunLedger();
+		expect(ledger.claimTemplateRun("template-1", "week:2026-W43")).toBe(true);
+		expect(ledger.claimTemplateRun("template-1", "week:2026-W43")).toBe(false);
+		ledger.releaseTemplateRun("template-1", "week:2026-W43");
+		expect(ledger.claimTemplateRun("template-1", "week:2026-W43")).toBe(true);
+	});
+});
+
+describe("RecurringTaskScheduler", () => {
+	const wednesday = new Date("2026-10-21T09:00:00Z");
+
+	function schedulerFor(templates: TaskTemplate[], tasks: Partial<Task>[], completed: Partial<Task>[] = []) {
+		const created: TaskCreateInput[] = [];
+		const ledger = new MemoryTemplateRunLedger();
+		const core = {
+			fs: {
+				listTemplates: async () => templates,
+				listMilestones: async () => [],
+				listCompletedTasks: async () => completed,
+			},
+			getTemplateRunLedger: () => ledger,
+			getContentStore: async () => ({ getTasks: () => tasks }),
+			createTaskFromInput: async (input: TaskCreateInput) => {
+				created.push(input);
+				return { task: { id: `TASK-${created.length}`, title: input.title } as Task, possibleDuplicates: [] };
+			},
+		} as unknown as Core;
+		return { scheduler: new RecurringTaskScheduler(core), created };
+	}
+
+	it("records the occurrence on the task and skips occurrences already recorded, whatever the ledger holds", async () => {
+		const recurrence = { every: "week", day: "wednesday" } as const;
+		const { scheduler, created } = schedulerFor(
+			[
+				template({ id: "template-1", title: "Weekly triage", recurrence }),
+				template({ id: "template-2", title: "Retro", recurrence }),
+				template({ id: "template-3", title: "Review", recurrence }),
+			],
+			[
+				{ title: "Weekly triage", template: "template-1", occurrence: "week:2026-W42" },
+				{ title: "Retro", template: "template-2", occurrence: "week:2026-W43" },
+			],
+			[{ title: "Review", template: "template-3", occurrence: "week:2026-W43" }],
+		);
+
+		await scheduler.runDue(wednesday);
+		expect(created.map(({ title, template, occurrence }) => ({ title, template, occurrence }))).toEqual([
+			{ title: "Weekly triage", template: "template-1", occurrence: "week:2026-W43" },
+		]);
+	});
+
+	it("skips templates with placeholders nothing can fill and reports them once", async () => {
+		const warn = spyOn(console, "warn").mockImplementation(() => {});
+		try {
+			const { scheduler, created } = schedulerFor(
+				[template({ title: "Release {{version}}", recurrence: { every: "week", day: "monday" } })],
+				[],
+			);
+
+			await scheduler.runDue(wednesday);
+			await scheduler.runDue(wednesday);
+			expect(created).toEqual([]);
+			expect(warn).toHaveBeenCalledTimes(1);
+			expect(warn.mock.calls[0]?.[0]).toBe("Skipping recurring template template-1: it needs a value for {{version}}.");
+		} finally {
+			warn.mockRestore();
+		}
+	});
+});
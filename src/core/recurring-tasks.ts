@@ -0,0 +1,154 @@
+import type { Milestone, Task, TaskTemplate } from "../types/index.ts";
+import { WEEKDAYS } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+import { createTaskFromTemplate, isoWeek, templateVariables } from "./task-templates.ts";
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+/** One task a recurring template is due to create, identified by `key` within the template. */
+export interface TemplateOccurrence {
+	template: TaskTemplate;
+	/** "week:2026-W42" or "milestone:m-1" */
+	key: string;
+	milestone?: Milestone;
+}
+
+/**
+ * Remembers which occurrences have been created, a fast path in front of the `template` and
+ * `occurrence` recorded on the tasks themselves, which survive in a fresh clone.
+ */
+export interface TemplateRunLedger {
+	/** Records the occurrence and returns true, or returns false if it was already recorded. */
+	claimTemplateRun(templateId: string, occurrence: string): boolean;
+	releaseTemplateRun(templateId: string, occurrence: string): void;
+}
+
+/**
+ * Keeps claims for the life of the process, for file systems without a SQLite index.
+ */
+export class MemoryTemplateRunLedger implements TemplateRunLedger {
+	private runs = new Set<string>();
+
+	claimTemplateRun(templateId: string, occurrence: string): boolean {
+		const key = `${templateId}\u0000${occurrence}`;
+		if (this.runs.has(key)) return false;
+		this.runs.add(key);
+		return true;
+	}
+
+	releaseTemplateRun(templateId: string, occurrence: string): void {
+		this.runs.delete(`${templateId}\u0000${occurrence}`);
+	}
+}
+
+/**
+ * Occurrences of recurring templates that are due at `now`: weekly templates once their weekday
+ * (UTC) has come in the current ISO week, milestone templates once per active milestone.
+ */
+export function dueTemplateOccurrences(
+	templates: TaskTemplate[],
+	milestones: Milestone[],
+	now: Date,
+): TemplateOccurrence[] {
+	const weekday = (now.getUTCDay() + 6) % 7;
+	const occurrences: TemplateOccurrence[] = [];
+	for (const template of templates) {
+		const recurrence = template.recurrence;
+		if (recurrence?.every === "week" && weekday >= WEEKDAYS.indexOf(recurrence.day)) {
+			occurrences.push({ template, key: `week:${isoWeek(now)}` });
+		} else if (recurrence?.every === "milestone") {
+			for (const milestone of milestones) {
+				if (milestone.active) {
+					occurrences.push({ template, key: `milestone:${milestone.id}`, milestone });
+				}
+			}
+		}
+	}
+	return occurrences;
+}
+
+/**
+ * Creates the tasks of recurring templates on a timer while the server runs.
+ */
+export class RecurringTaskScheduler {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running: Promise<Task[]> | null = null;
+	private skippedTemplates = new Set<string>();
+
+	constructor(
+		private readonly core: Core,
+		private readonly intervalMs = DEFAULT_INTERVAL_MS,
+	) {}
+
+	start(): void {
+		if (this.timer) return;
+		void this.runDue();
+		this.timer = setInterval(() => void this.runDue(), this.intervalMs);
+		this.timer.unref?.();
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Creates the task of every due occurrence not created yet and returns the new tasks.
+	 * Overlapping calls share one run.
+	 */
+	runDue(now = new Date()): Promise<Task[]> {
+		if (!this.running) {
+			this.running = this.createDueTasks(now).finally(() => {
+				this.running = null;
+			});
+		}
+		return this.running;
+	}
+
+	private async createDueTasks(now: Date): Promise<Task[]> {
+		const [templates, milestones] = await Promise.all([this.core.fs.listTemplates(), this.core.fs.listMilestones()]);
+		const occurrences = dueTemplateOccurrences(templates, milestones, now);
+		if (occurrences.length === 0) {
+			return [];
+		}
+
+		const ledger = this.core.getTemplateRunLedger();
+		// Done tasks may have been cleaned up into completed/ within the week
+		const tasks = [...(await this.core.getContentStore()).getTasks(), ...(await this.core.fs.listCompletedTasks())];
+		const existing = new Set(
+			tasks
+				.filter((task) => task.template && task.occurrence)
+				.map((task) => `${task.template}\u0000${task.occurrence}`),
+		);
+		const created: Task[] = [];
+		for (const { template, key, milestone } of occurrences) {
+			const missing = templateVariables(template);
+			if (missing.length > 0) {
+				// Nothing can fill them on a timer, so say so once rather than on every run
+				if (!this.skippedTemplates.has(template.id)) {
+					this.skippedTemplates.add(template.id);
+					const list = missing.map((name) => `{{${name}}}`).join(", ");
+					console.warn(`Skipping recurring template ${template.id}: it needs a value for ${list}.`);
+				}
+				continue;
+			}
+			if (!ledger.claimTemplateRun(template.id, key)) continue;
+			try {
+				// The ledger misses runs recorded elsewhere, e.g. by another clone or before the cache was deleted
+				if (existing.has(`${template.id}\u0000${key}`)) continue;
+				const { task } = await createTaskFromTemplate(this.core, template.id, {
+					milestone: milestone?.id,
+					occurrence: key,
+					now,
+				});
+				created.push(task);
+			} catch (error) {
+				ledger.releaseTemplateRun(template.id, key);
+				console.error(`Failed to create recurring task from ${template.id} (${key}):`, error);
+			}
+		}
+		return created;
+	}
+}
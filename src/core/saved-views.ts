@@ -0,0 +1,149 @@
+import { DEFAULT_DIRECTORIES } from "../constants/index.ts";
+import { SAVED_VIEW_SORTS, type SavedView, type SavedViewInput, type Task } from "../types/index.ts";
+import { sortTasks } from "../utils/task-sorting.ts";
+import type { Core } from "./backlog.ts";
+import { getMilestoneMatchKeys, milestoneKey, resolveMilestoneInput } from "./milestones.ts";
+
+export interface SavedViewResult {
+	view: SavedView;
+	tasks: Task[];
+}
+
+const MAX_VIEW_NAME_LENGTH = 100;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Finds a view by ID ("view-1" or "1") or, failing that, by name, ignoring case.
+ */
+export async function getSavedView(core: Core, idOrName: string): Promise<SavedView | null> {
+	const views = await core.fs.listViews();
+	const id = idOrName.trim().replace(/^view-/i, "");
+	return (
+		views.find((view) => view.id.toLowerCase() === `view-${id}`.toLowerCase()) ??
+		views.find((view) => sameName(view.name, idOrName)) ??
+		null
+	);
+}
+
+async function requireSavedView(core: Core, idOrName: string): Promise<SavedView> {
+	const view = await getSavedView(core, idOrName);
+	if (!view) {
+		throw new Error(`View not found: ${idOrName}`);
+	}
+	return view;
+}
+
+/**
+ * Checks a view before it is saved and canonicalizes its status and milestone.
+ */
+async function normalizeViewInput(core: Core, input: SavedViewInput, existingId?: string): Promise<SavedViewInput> {
+	const name = input.name?.trim() ?? "";
+	if (!name) {
+		throw new Error("View name is required.");
+	}
+	if (name.length > MAX_VIEW_NAME_LENGTH) {
+		throw new Error(`View name must be at most ${MAX_VIEW_NAME_LENGTH} characters.`);
+	}
+	const clash = (await core.fs.listViews()).find((view) => view.id !== existingId && sameName(view.name, name));
+	if (clash) {
+		throw new Error(`A view named "${clash.name}" already exists (${clash.id}).`);
+	}
+	if (input.sort !== undefined && !SAVED_VIEW_SORTS.includes(input.sort)) {
+		throw new Error(`Invalid sort: ${input.sort}. Valid sorts are: ${SAVED_VIEW_SORTS.join(", ")}`);
+	}
+	if (input.lanes !== undefined && input.lanes !== "none" && input.lanes !== "milestone") {
+		throw new Error(`Invalid lanes: ${input.lanes}. Use "none" or "milestone".`);
+	}
+
+	const query = input.query?.trim() || undefined;
+	const filters = { ...input.filters };
+	if (filters.status) {
+		filters.status = await core.requireCanonicalStatus(filters.status);
+	}
+	if (filters.milestone?.trim()) {
+		const [milestones, archivedMilestones] = await Promise.all([
+			core.fs.listMilestones(),
+			core.fs.listArchivedMilestones(),
+		]);
+		filters.milestone = resolveMilestoneInput(filters.milestone, milestones, archivedMilestones);
+	}
+
+	return {
+		name,
+		description: input.description?.trim() || undefined,
+		filters,
+		query,
+		sort: input.sort,
+		lanes: input.lanes,
+	};
+}
+
+async function commitViews(core: Core, message: string, autoCommit?: boolean): Promise<void> {
+	if (await core.shouldAutoCommit(autoCommit)) {
+		const repoRoot = await core.git.stageBacklogDirectory(DEFAULT_DIRECTORIES.BACKLOG);
+		await core.git.commitChanges(message, repoRoot);
+	}
+}
+
+export async function createSavedView(core: Core, input: SavedViewInput, autoCommit?: boolean): Promise<SavedView> {
+	const normalized = await normalizeViewInput(core, input);
+	const numbers = (await core.fs.listViews()).map((view) => Number.parseInt(view.id.replace(/^view-/i, ""), 10));
+	const next = Math.max(0, ...numbers.filter((n) => Number.isFinite(n))) + 1;
+	const view: SavedView = { id: `view-${next}`, ...normalized };
+
+	await core.fs.saveView(view);
+	await commitViews(core, `backlog: Add view ${view.id}`, autoCommit);
+	return view;
+}
+
+/**
+ * Replaces the given parts of a view. `filters` replaces the view's filters as a whole.
+ */
+export async function updateSavedView(
+	core: Core,
+	idOrName: string,
+	changes: Partial<SavedViewInput>,
+	autoCommit?: boolean,
+): Promise<SavedView> {
+	const existing = await requireSavedView(core, idOrName);
+	const { id, ...current } = existing;
+	const normalized = await normalizeViewInput(core, { ...current, ...changes }, id);
+	const view: SavedView = { id, ...normalized };
+
+	await core.fs.saveView(view);
+	await commitViews(core, `backlog: Update view ${id}`, autoCommit);
+	return view;
+}
+
+export async function deleteSavedView(core: Core, idOrName: string, autoCommit?: boolean): Promise<SavedView> {
+	const view = await requireSavedView(core, idOrName);
+	await core.fs.deleteView(view.id);
+	await commitViews(core, `backlog: Remove view ${view.id}`, autoCommit);
+	return view;
+}
+
+/**
+ * Lists the tasks a view matches, in the view's sort order.
+ */
+export async function runSavedView(core: Core, idOrName: string): Promise<SavedViewResult> {
+	const view = await requireSavedView(core, idOrName);
+	const { milestone, ...filters } = view.filters;
+	let tasks = await core.queryTasks({ filters, query: view.query });
+
+	if (milestone) {
+		const [milestones, archivedMilestones] = await Promise.all([
+			core.fs.listMilestones(),
+			core.fs.listArchivedMilestones(),
+		]);
+		const all = [...milestones, ...archivedMilestones];
+		const keys = getMilestoneMatchKeys(resolveMilestoneInput(milestone, milestones, archivedMilestones), all);
+		tasks = tasks.filter((task) => keys.has(milestoneKey(task.milestone)));
+	}
+
+	// Without a sort, search results keep their relevance order and the rest use the board order
+	if (view.sort || !view.query) {
+		tasks = sortTasks(tasks, view.sort ?? "");
+	}
+	return { view, tasks };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "bun:test";
+import { assertScheduleOrder, getToday, isOverdue, normalizeScheduleDate } from "./schedule.ts";
+
+describe("normalizeScheduleDate", () => {
+	it("accepts calendar dates and treats empty values as unset", () => {
+		expect(normalizeScheduleDate(" 2026-02-28 ")).toBe("2026-02-28");
+		expect(normalizeScheduleDate("")).toBeUndefined();
+		expect(normalizeScheduleDate(null)).toBeUndefined();
+	});
+
+	it("rejects malformed and impossible dates", () => {
+		expect(() => normalizeScheduleDate("2026-02-30", "due date")).toThrow("Invalid due date: 2026-02-30");
+		expect(() => normalizeScheduleDate("next friday")).toThrow("Use YYYY-MM-DD");
+		expect(() => normalizeScheduleDate("2026-03-01 10:00")).toThrow();
+	});
+});
+
+describe("assertScheduleOrder", () => {
+	it("allows a task to start and be due on the same day", () => {
+		expect(() => assertScheduleOrder("2026-03-01", "2026-03-01")).not.toThrow();
+		expect(() => assertScheduleOrder(undefined, "2026-03-01")).not.toThrow();
+		expect(() => assertScheduleOrder("2026-03-02", "2026-03-01")).toThrow("after due date");
+	});
+});
+
+describe("isOverdue", () => {
+	it("flags open tasks whose due date has passed", () => {
+		expect(isOverdue({ status: "In Progress", dueDate: "2026-03-01" }, "2026-03-02")).toBe(true);
+		expect(isOverdue({ status: "In Progress", dueDate: "2026-03-02" }, "2026-03-02")).toBe(false);
+		expect(isOverdue({ status: "Done", dueDate: "2026-03-01" }, "2026-03-02")).toBe(false);
+		expect(isOverdue({ status: "To Do" }, "2026-03-02")).toBe(false);
+	});
+
+	it("compares against the local date", () => {
+		expect(getToday(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+	});
+});
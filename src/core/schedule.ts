@@ -0,0 +1,43 @@
+import type { Task } from "../types/index.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalizes a start, due or target date to YYYY-MM-DD, or undefined if empty.
+ * Throws if the value is not a valid calendar date.
+ */
+export function normalizeScheduleDate(value: unknown, label = "date"): string | undefined {
+	if (value === undefined || value === null || value === "") {
+		return undefined;
+	}
+	const date = String(value).trim();
+	const parsed = new Date(`${date}T00:00:00Z`);
+	if (!DATE_PATTERN.test(date) || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+		throw new Error(`Invalid ${label}: ${value}. Use YYYY-MM-DD.`);
+	}
+	return date;
+}
+
+/**
+ * Throws if a task would start after it is due.
+ */
+export function assertScheduleOrder(startDate: string | undefined, dueDate: string | undefined): void {
+	if (startDate && dueDate && startDate > dueDate) {
+		throw new Error(`Start date ${startDate} is after due date ${dueDate}.`);
+	}
+}
+
+/** Today's date as YYYY-MM-DD in local time, the way users read due dates. */
+export function getToday(now: Date = new Date()): string {
+	const month = String(now.getMonth() + 1).padStart(2, "0");
+	const day = String(now.getDate()).padStart(2, "0");
+	return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * A task is overdue when its due date has passed and it is not done.
+ */
+export function isOverdue(task: Pick<Task, "dueDate" | "status">, today: string = getToday()): boolean {
+	return Boolean(task.dueDate) && !isDoneStatus(task.status) && (task.dueDate ?? "") < today;
+}
@@ -1,4 +1,10 @@
-import Fuse, { type FuseResult, type FuseResultMatch } from "fuse.js";
+import Fuse, { type FuseResultMatch } from "fuse.js";
+import {
+	SEARCH_HIGHLIGHT_END,
+	SEARCH_HIGHLIGHT_START,
+	type SearchEntry,
+	type SearchHit,
+} from "../file-system/sqlite-coordinator.ts";
 import type {
 	Decision,
 	Document,
@@ -9,9 +15,11 @@ import type {
 	SearchResult,
 	SearchResultType,
 	Task,
+	TaskSearchResult,
 } from "../types/index.ts";
 import { createTaskIdVariants } from "../utils/task-search.ts";
 import type { ContentStore, ContentStoreEvent } from "./content-store.ts";
+import { collectRequiredText, compileTaskQuery, type TaskQueryContext, type TaskQueryNode } from "./query-language.ts";
 
 interface BaseSearchEntity {
 	readonly id: string;
@@ -48,6 +56,18 @@ type NormalizedFilters = {
 	labels?: string[];
 };
 
+/**
+ * A ranked full-text index, such as the SQLite FTS5 one kept by StorageCoordinator.
+ */
+export interface FullTextIndex {
+	syncSearchEntries(entries: SearchEntry[]): void;
+	searchEntries(query: string, options?: { types?: SearchResultType[]; limit?: number }): SearchHit[];
+}
+
+/**
+ * Searches the content of a ContentStore. Queries go to the full-text index when there is one,
+ * ranked by BM25 with highlighted titles and body snippets; otherwise an in-memory Fuse index is used.
+ */
 export class SearchService {
 	private initialized = false;
 	private initializing: Promise<void> | null = null;
@@ -57,9 +77,16 @@ export class SearchService {
 	private documents: DocumentSearchEntity[] = [];
 	private decisions: DecisionSearchEntity[] = [];
 	private collection: SearchEntity[] = [];
+	private entitiesByKey = new Map<string, SearchEntity>();
 	private version = 0;
+	private index?: FullTextIndex;
 
-	constructor(private readonly store: ContentStore) {}
+	constructor(
+		private readonly store: ContentStore,
+		index?: FullTextIndex,
+	) {
+		this.index = index;
+	}
 
 	async ensureInitialized(): Promise<void> {
 		if (this.initialized) {
@@ -83,6 +110,7 @@ export class SearchService {
 		}
 		this.fuse = null;
 		this.collection = [];
+		this.entitiesByKey = new Map();
 		this.tasks = [];
 		this.documents = [];
 		this.decisions = [];
@@ -107,6 +135,10 @@ export class SearchService {
 			return this.collectWithoutQuery(allowedTypes, normalizedFilters, limit);
 		}
 
+		if (this.index) {
+			return this.searchIndex(this.index, trimmedQuery, allowedTypes, normalizedFilters, limit);
+		}
+
 		const fuse = this.fuse;
 		if (!fuse) {
 			return [];
@@ -125,7 +157,7 @@ export class SearchService {
 				continue;
 			}
 
-			results.push(this.mapEntityToResult(entity, result));
+			results.push(this.mapEntityToResult(entity, result.score ?? null, this.mapMatches(result.matches)));
 			if (limit && results.length >= limit) {
 				break;
 			}
@@ -134,6 +166,94 @@ export class SearchService {
 		return results;
 	}
 
+	private searchIndex(
+		index: FullTextIndex,
+		query: string,
+		allowedTypes: Set<SearchResultType>,
+		filters: NormalizedFilters,
+		limit?: number,
+	): SearchResult[] {
+		const hasTaskFilters = Object.values(filters).some((values) => values && values.length > 0);
+		const hits = index.searchEntries(query, { types: [...allowedTypes], limit: hasTaskFilters ? undefined : limit });
+		const best = hits[0]?.rank ?? 0;
+		const results: SearchResult[] = [];
+
+		for (const hit of hits) {
+			// The index can briefly trail the store; skip entries the store no longer has
+			const entity = this.entitiesByKey.get(`${hit.type}:${hit.id}`);
+			if (!entity) {
+				continue;
+			}
+			if (entity.type === "task" && !this.matchesTaskFilters(entity, filters)) {
+				continue;
+			}
+
+			const matches = [markedMatch("title", hit.title), markedMatch("snippet", hit.snippet)].filter(
+				(match): match is SearchMatch => match !== undefined,
+			);
+			results.push(this.mapEntityToResult(entity, relativeScore(hit.rank, best), matches));
+			if (limit && results.length >= limit) {
+				break;
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Evaluates a parsed task query against the indexed tasks. Each free-text term is fuzzy-matched on its
+	 * own; matches are ranked by their scores for the required terms, or kept in store order without any.
+	 */
+	searchTasksByQuery(query: TaskQueryNode, context: TaskQueryContext = {}, limit?: number): TaskSearchResult[] {
+		if (!this.initialized) {
+			throw new Error("SearchService not initialized. Call ensureInitialized() first.");
+		}
+
+		const termScores = new Map<string, Map<string, number>>();
+		const scoresFor = (text: string): Map<string, number> => {
+			let scores = termScores.get(text);
+			if (!scores) {
+				scores = new Map();
+				if (this.index) {
+					const hits = this.index.searchEntries(text, { types: ["task"] });
+					const best = hits[0]?.rank ?? 0;
+					for (const hit of hits) {
+						scores.set(hit.id, relativeScore(hit.rank, best));
+					}
+				} else {
+					for (const result of this.fuse?.search(text) ?? []) {
+						if (result.item.type === "task") {
+							scores.set(result.item.id, result.score ?? 0);
+						}
+					}
+				}
+				termScores.set(text, scores);
+			}
+			return scores;
+		};
+
+		const matches = compileTaskQuery(query, {
+			...context,
+			matchText: (task, text) => scoresFor(text).has(task.id),
+		});
+		const required = collectRequiredText(query);
+		const rank = (entity: TaskSearchEntity): number | null => {
+			if (required.length === 0) return null;
+			const total = required.reduce((sum, text) => sum + (scoresFor(text).get(entity.id) ?? 1), 0);
+			return total / required.length;
+		};
+
+		const ranked = this.tasks
+			.filter((entity) => matches(entity.task))
+			.map((entity) => ({ entity, score: rank(entity) }));
+		if (required.length > 0) {
+			ranked.sort((a, b) => (a.score ?? 1) - (b.score ?? 1));
+		}
+
+		const results = ranked.map(({ entity, score }) => ({ type: "task" as const, score, task: entity.task }));
+		return limit ? results.slice(0, limit) : results;
+	}
+
 	private async initialize(): Promise<void> {
 		const snapshot = await this.store.ensureInitialized();
 		this.applySnapshot(snapshot.tasks, snapshot.documents, snapshot.decisions);
@@ -187,7 +307,28 @@ export class SearchService {
 		}));
 
 		this.collection = [...this.tasks, ...this.documents, ...this.decisions];
-		this.rebuildFuse();
+		this.entitiesByKey = new Map(this.collection.map((entity) => [`${entity.type}:${entity.id}`, entity]));
+		if (!this.syncIndex()) {
+			this.rebuildFuse();
+		}
+	}
+
+	/**
+	 * Brings the full-text index in line with the store. If the index cannot be written the
+	 * service falls back to Fuse for the rest of its life.
+	 */
+	private syncIndex(): boolean {
+		if (!this.index) {
+			return false;
+		}
+		try {
+			this.index.syncSearchEntries(this.collection.map(toSearchEntry));
+			return true;
+		} catch (error) {
+			console.error("Full-text index unavailable, falling back to in-memory search:", error);
+			this.index = undefined;
+			return false;
+		}
 	}
 
 	private rebuildFuse(): void {
@@ -222,7 +363,7 @@ export class SearchService {
 		if (allowedTypes.has("task")) {
 			const tasks = this.applyTaskFilters(this.tasks, filters);
 			for (const entity of tasks) {
-				results.push(this.mapEntityToResult(entity));
+				results.push(this.mapEntityToResult(entity, null));
 				if (limit && results.length >= limit) {
 					return results;
 				}
@@ -231,7 +372,7 @@ export class SearchService {
 
 		if (allowedTypes.has("document")) {
 			for (const entity of this.documents) {
-				results.push(this.mapEntityToResult(entity));
+				results.push(this.mapEntityToResult(entity, null));
 				if (limit && results.length >= limit) {
 					return results;
 				}
@@ -240,7 +381,7 @@ export class SearchService {
 
 		if (allowedTypes.has("decision")) {
 			for (const entity of this.decisions) {
-				results.push(this.mapEntityToResult(entity));
+				results.push(this.mapEntityToResult(entity, null));
 				if (limit && results.length >= limit) {
 					return results;
 				}
@@ -359,10 +500,7 @@ export class SearchService {
 		return normalized.length > 0 ? normalized : undefined;
 	}
 
-	private mapEntityToResult(entity: SearchEntity, result?: FuseResult<SearchEntity>): SearchResult {
-		const score = result?.score ?? null;
-		const matches = this.mapMatches(result?.matches);
-
+	private mapEntityToResult(entity: SearchEntity, score: number | null, matches?: SearchMatch[]): SearchResult {
 		if (entity.type === "task") {
 			return {
 				type: "task",
@@ -412,5 +550,51 @@ function buildTaskBodyText(task: Task): string {
 		parts.push(task.implementationPlan);
 	}
 
+	if (task.finalSummary) {
+		parts.push(task.finalSummary);
+	}
+
+	for (const criterion of task.acceptanceCriteriaItems ?? []) {
+		parts.push(criterion.text);
+	}
+
 	return parts.join("\n\n");
 }
+
+function toSearchEntry(entity: SearchEntity): SearchEntry {
+	return {
+		type: entity.type,
+		id: entity.id,
+		title: entity.title,
+		body: entity.bodyText,
+		idTerms: entity.type === "task" ? entity.idVariants.join(" ") : entity.id,
+	};
+}
+
+/**
+ * Maps a BM25 rank onto the 0 (best) to 1 scale of Fuse scores, relative to the best hit.
+ */
+function relativeScore(rank: number, best: number): number {
+	return best < 0 ? Math.min(1, Math.max(0, 1 - rank / best)) : 0;
+}
+
+/**
+ * Strips the highlight markers from an FTS5 highlight or snippet, recording the marked ranges
+ * as inclusive indices like Fuse matches. Returns undefined when nothing is marked.
+ */
+function markedMatch(key: string, marked: string): SearchMatch | undefined {
+	const indices: Array<[number, number]> = [];
+	let value = "";
+	let start = -1;
+	for (const char of marked) {
+		if (char === SEARCH_HIGHLIGHT_START) {
+			start = value.length;
+		} else if (char === SEARCH_HIGHLIGHT_END) {
+			if (start >= 0 && value.length > start) indices.push([start, value.length - 1]);
+			start = -1;
+		} else {
+			value += char;
+		}
+	}
+	return indices.length > 0 ? { key, indices, value } : undefined;
+}
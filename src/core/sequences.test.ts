@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "../types/index.ts";
+import { computeCriticalPath, findDependencyCycles, findDependencyCycleThrough } from "./sequences.ts";
+
+function task(id: string, dependencies: string[] = [], estimate?: number): Task {
+	return {
+		id,
+		title: id,
+		status: "To Do",
+		assignee: [],
+		createdDate: "2026-01-01",
+		labels: [],
+		dependencies,
+		estimate,
+	};
+}
+
+describe("computeCriticalPath", () => {
+	it("follows the chain with the most estimated effort", () => {
+		const tasks = [
+			task("task-1", [], 1),
+			task("task-2", ["task-1"], 1),
+			task("task-3", ["task-2"], 1),
+			task("task-4", [], 5),
+			task("task-5", ["task-4"]),
+		];
+		expect(computeCriticalPath(tasks)).toEqual(["task-4", "task-5"]);
+	});
+
+	it("counts unestimated tasks as one and breaks ties by task id", () => {
+		const tasks = [task("task-1"), task("task-2"), task("task-3", ["task-2", "task-1"]), task("task-4", ["task-3"])];
+		expect(computeCriticalPath(tasks)).toEqual(["task-1", "task-3", "task-4"]);
+	});
+
+	it("ignores dependencies outside the set and tasks in a cycle", () => {
+		const tasks = [
+			task("task-1", ["task-99"]),
+			task("task-2", ["task-1"]),
+			task("task-3", ["task-4"]),
+			task("task-4", ["task-3"]),
+		];
+		expect(computeCriticalPath(tasks)).toEqual(["task-1", "task-2"]);
+	});
+
+	it("is empty when no task depends on another", () => {
+		expect(computeCriticalPath([task("task-1"), task("task-2", ["task-9"])])).toEqual([]);
+	});
+});
+
+describe("findDependencyCycles", () => {
+	it("reports each cycle once, including self-dependencies", () => {
+		const tasks = [
+			task("task-1", ["task-3"]),
+			task("task-2", ["task-1"]),
+			task("task-3", ["task-2"]),
+			task("task-4", ["task-1"]),
+			task("task-5", ["task-5"]),
+		];
+		expect(findDependencyCycles(tasks)).toEqual([["task-1", "task-2", "task-3"], ["task-5"]]);
+	});
+
+	it("matches dependency IDs case-insensitively and ignores external ones", () => {
+		const tasks = [task("TASK-1", ["task-2", "task-9"]), task("TASK-2", ["task-1"])];
+		expect(findDependencyCycles(tasks)).toEqual([["TASK-1", "TASK-2"]]);
+		expect(findDependencyCycles([task("task-1"), task("task-2", ["task-1"])])).toEqual([]);
+	});
+});
+
+describe("findDependencyCycleThrough", () => {
+	const tasks = [task("task-1"), task("task-2", ["task-1"]), task("task-3", ["task-2"])];
+
+	it("returns the chain back to the task when new dependencies close a loop", () => {
+		expect(findDependencyCycleThrough(tasks, "task-1", ["task-3"])).toEqual(["task-1", "task-3", "task-2", "task-1"]);
+		expect(findDependencyCycleThrough(tasks, "task-1", ["task-1"])).toEqual(["task-1", "task-1"]);
+	});
+
+	it("returns undefined when the dependencies keep the graph acyclic", () => {
+		expect(findDependencyCycleThrough(tasks, "task-3", ["task-1"])).toBeUndefined();
+		expect(findDependencyCycleThrough(tasks, "task-1", ["task-9"])).toBeUndefined();
+	});
+});
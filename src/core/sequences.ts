@@ -1,6 +1,16 @@
 import type { Sequence, Task } from "../types/index.ts";
 import { sortByTaskId } from "../utils/task-sorting.ts";
 
+/** Dependency IDs are compared case-insensitively, since older files may write "task-1" for TASK-1. */
+const dependencyKey = (id: string) => id.trim().toUpperCase();
+
+/** Returns a function giving the IDs of a task's dependencies that are in the provided set. */
+function internalDependencies(tasks: Task[]): (task: Task) => string[] {
+	const idByKey = new Map(tasks.map((t) => [dependencyKey(t.id), t.id]));
+	return (task) =>
+		(task.dependencies || []).map((dep) => idByKey.get(dependencyKey(dep))).filter((id): id is string => Boolean(id));
+}
+
 /**
  * Compute execution sequences (layers) from task dependencies.
  * - Sequence 1 contains tasks with no dependencies among the provided set.
@@ -15,6 +25,7 @@ export function computeSequences(tasks: Task[]): { unsequenced: Task[]; sequence
 	for (const t of tasks) byId.set(t.id, t);
 
 	const allIds = new Set(Array.from(byId.keys()));
+	const depsOf = internalDependencies(tasks);
 
 	// Build adjacency using only edges within provided set
 	const successors = new Map<string, string[]>();
@@ -24,9 +35,8 @@ export function computeSequences(tasks: Task[]): { unsequenced: Task[]; sequence
 		indegree.set(id, 0);
 	}
 	for (const t of tasks) {
-		const deps = Array.isArray(t.dependencies) ? t.dependencies : [];
-		for (const dep of deps) {
-			if (!allIds.has(dep)) continue; // ignore external deps for layering
+		// External deps are ignored for layering
+		for (const dep of depsOf(t)) {
 			successors.get(dep)?.push(t.id);
 			indegree.set(t.id, (indegree.get(t.id) || 0) + 1);
 		}
@@ -53,7 +63,7 @@ export function computeSequences(tasks: Task[]): { unsequenced: Task[]; sequence
 	for (const id of remaining) {
 		const t = byId.get(id);
 		if (!t) continue;
-		for (const dep of t.dependencies || []) {
+		for (const dep of depsOf(t)) {
 			if (remaining.has(dep)) indegRem.set(id, (indegRem.get(id) || 0) + 1);
 		}
 	}
@@ -90,6 +100,145 @@ export function computeSequences(tasks: Task[]): { unsequenced: Task[]; sequence
 	return { unsequenced, sequences };
 }
 
+/**
+ * Find the critical path: the chain of dependent tasks with the most total work,
+ * where a task's work is its estimate (or 1 when it has none). Dependencies
+ * outside the provided set and tasks caught in cycles are ignored. Returns task
+ * IDs from the first task to the last, or an empty list when no task in the set
+ * depends on another.
+ */
+export function computeCriticalPath(tasks: Task[]): string[] {
+	const byId = new Map<string, Task>(tasks.map((t) => [t.id, t]));
+	const depsOf = internalDependencies(tasks);
+	const internalDeps = (t: Task) => depsOf(t).filter((dep) => dep !== t.id);
+	if (!tasks.some((t) => internalDeps(t).length > 0)) return [];
+
+	const weight = (t: Task) => (typeof t.estimate === "number" && t.estimate > 0 ? t.estimate : 1);
+	const pending = new Map<string, number>(tasks.map((t) => [t.id, internalDeps(t).length]));
+	const successors = new Map<string, string[]>();
+	for (const t of tasks) {
+		for (const dep of internalDeps(t)) {
+			successors.set(dep, [...(successors.get(dep) || []), t.id]);
+		}
+	}
+
+	// Longest path over a topological order; tasks left pending are part of a cycle
+	const total = new Map<string, number>();
+	const previous = new Map<string, string>();
+	let queue = sortByTaskId(tasks.filter((t) => pending.get(t.id) === 0));
+	while (queue.length > 0) {
+		const next: Task[] = [];
+		for (const t of queue) {
+			const best = sortByTaskId(
+				internalDeps(t)
+					.map((dep) => byId.get(dep))
+					.filter((d): d is Task => Boolean(d)),
+			).reduce<Task | undefined>(
+				(acc, d) => (!acc || (total.get(d.id) ?? 0) > (total.get(acc.id) ?? 0) ? d : acc),
+				undefined,
+			);
+			total.set(t.id, weight(t) + (best ? (total.get(best.id) ?? 0) : 0));
+			if (best) previous.set(t.id, best.id);
+			for (const succ of successors.get(t.id) || []) {
+				const remaining = (pending.get(succ) || 0) - 1;
+				pending.set(succ, remaining);
+				const succTask = byId.get(succ);
+				if (remaining === 0 && succTask) next.push(succTask);
+			}
+		}
+		queue = sortByTaskId(next);
+	}
+
+	let end: string | undefined;
+	for (const t of sortByTaskId(tasks)) {
+		if (total.has(t.id) && (end === undefined || (total.get(t.id) ?? 0) > (total.get(end) ?? 0))) end = t.id;
+	}
+	const path: string[] = [];
+	for (let id = end; id !== undefined; id = previous.get(id)) path.unshift(id);
+	return path.length > 1 ? path : [];
+}
+
+/**
+ * Find groups of tasks whose dependencies form a cycle (strongly connected
+ * components, including a task that depends on itself). Each group is sorted by
+ * task ID and the groups are ordered by their first task. Dependencies on tasks
+ * outside the provided set are ignored.
+ */
+export function findDependencyCycles(tasks: Task[]): string[][] {
+	const byKey = new Map<string, Task>(tasks.map((t) => [dependencyKey(t.id), t]));
+	const edges = (t: Task) =>
+		(t.dependencies || []).map((dep) => byKey.get(dependencyKey(dep))).filter((d): d is Task => Boolean(d));
+
+	// Tarjan's algorithm
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const stack: Task[] = [];
+	const onStack = new Set<string>();
+	const cycles: Task[][] = [];
+	const visit = (t: Task) => {
+		index.set(t.id, index.size);
+		lowLink.set(t.id, index.get(t.id) ?? 0);
+		stack.push(t);
+		onStack.add(t.id);
+		for (const dep of edges(t)) {
+			if (!index.has(dep.id)) {
+				visit(dep);
+				lowLink.set(t.id, Math.min(lowLink.get(t.id) ?? 0, lowLink.get(dep.id) ?? 0));
+			} else if (onStack.has(dep.id)) {
+				lowLink.set(t.id, Math.min(lowLink.get(t.id) ?? 0, index.get(dep.id) ?? 0));
+			}
+		}
+		if (lowLink.get(t.id) !== index.get(t.id)) return;
+		const component: Task[] = [];
+		let member: Task | undefined;
+		do {
+			member = stack.pop();
+			if (!member) break;
+			onStack.delete(member.id);
+			component.push(member);
+		} while (member.id !== t.id);
+		if (component.length > 1 || edges(t).some((dep) => dep.id === t.id)) cycles.push(sortByTaskId(component));
+	};
+	for (const t of sortByTaskId(tasks)) {
+		if (!index.has(t.id)) visit(t);
+	}
+
+	const byFirstTask = new Map(cycles.map((cycle) => [cycle[0] as Task, cycle]));
+	return sortByTaskId([...byFirstTask.keys()]).map((first) => (byFirstTask.get(first) ?? []).map((t) => t.id));
+}
+
+/**
+ * Return the chain of dependencies that would lead from a task back to itself if
+ * its dependencies were replaced with `dependencies`, e.g. [TASK-1, TASK-3, TASK-1],
+ * or undefined if the change does not create a cycle.
+ */
+export function findDependencyCycleThrough(
+	tasks: Task[],
+	taskId: string,
+	dependencies: string[],
+): string[] | undefined {
+	const byKey = new Map<string, Task>(tasks.map((t) => [dependencyKey(t.id), t]));
+	const target = dependencyKey(taskId);
+	const visited = new Set<string>();
+	const walk = (id: string): string[] | undefined => {
+		const key = dependencyKey(id);
+		if (key === target) return [taskId];
+		if (visited.has(key)) return undefined;
+		visited.add(key);
+		const t = byKey.get(key);
+		for (const dep of t?.dependencies || []) {
+			const rest = walk(dep);
+			if (rest) return [t?.id ?? id, ...rest];
+		}
+		return undefined;
+	};
+	for (const dep of dependencies) {
+		const rest = walk(dep);
+		if (rest) return [taskId, ...rest];
+	}
+	return undefined;
+}
+
 /**
  * Return true if the task has no dependencies and no dependents among the provided set.
  * Note: Ordinal is intentionally ignored here; computeSequences handles ordinal when grouping.
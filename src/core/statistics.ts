@@ -1,4 +1,6 @@
-import type { Task } from "../types/index.ts";
+import type { EffortSummary, Task } from "../types/index.ts";
+import { findOpenBlockers } from "./blockers.ts";
+import { summarizeEffort } from "./effort.ts";
 
 export interface TaskStatistics {
 	statusCounts: Map<string, number>;
@@ -7,6 +9,8 @@ export interface TaskStatistics {
 	completedTasks: number;
 	completionPercentage: number;
 	draftCount: number;
+	/** Estimated, completed and logged effort across all tasks. */
+	effort: EffortSummary;
 	recentActivity: {
 		created: Task[];
 		updated: Task[];
@@ -109,16 +113,8 @@ export function getTaskStatistics(tasks: Task[], drafts: Task[], statuses: strin
 		}
 
 		// Identify blocked tasks (has dependencies that are not done)
-		if (task.dependencies && task.dependencies.length > 0 && task.status !== "Done") {
-			// Check if any dependency is not done
-			const hasBlockingDependency = task.dependencies.some((depId) => {
-				const dep = tasks.find((t) => t.id === depId);
-				return dep && dep.status !== "Done";
-			});
-
-			if (hasBlockingDependency) {
-				blockedTasks.push(task);
-			}
+		if (task.status !== "Done" && findOpenBlockers(task, tasks).length > 0) {
+			blockedTasks.push(task);
 		}
 	}
 
@@ -149,6 +145,10 @@ export function getTaskStatistics(tasks: Task[], drafts: Task[], statuses: strin
 		completedTasks,
 		completionPercentage,
 		draftCount: drafts.length,
+		effort: summarizeEffort(
+			tasks.filter((task) => task.status),
+			(status) => status === "Done",
+		),
 		recentActivity: {
 			created: recentlyCreated.slice(0, 5), // Top 5 most recent
 			updated: recentlyUpdated.slice(0, 5), // Top 5 most recent
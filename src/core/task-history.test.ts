@@ -0,0 +1,118 @@
+import { describe, expect, it } from "bun:test";
+import { makeTask } from "../test/fixtures.ts";
+import type { Core } from "./backlog.ts";
+import { diffTaskVersions, getTaskHistory, TaskVersionCache } from "./task-history.ts";
+
+describe("diffTaskVersions", () => {
+	it("reports creation when there is no previous version", () => {
+		expect(diffTaskVersions(null, makeTask())).toEqual([
+			{ field: "created", summary: "created with status To Do", to: "To Do" },
+		]);
+	});
+
+	it("describes scalar, list and text changes", () => {
+		const before = makeTask({ assignee: ["alice"], description: "Old" });
+		const after = makeTask({
+			status: "In Progress",
+			assignee: ["bob"],
+			description: "New",
+			implementationPlan: "1. Do it",
+		});
+		expect(diffTaskVersions(before, after).map((change) => change.summary)).toEqual([
+			"status: To Do → In Progress",
+			"assignee added: bob",
+			"assignee removed: alice",
+			"description edited",
+			"implementation plan added",
+		]);
+	});
+
+	it("tracks acceptance criteria and comments", () => {
+		const before = makeTask({ acceptanceCriteriaItems: [{ index: 1, text: "Works", checked: false }] });
+		const after = makeTask({
+			acceptanceCriteriaItems: [{ index: 1, text: "Works", checked: true }],
+			comments: [{ author: "alice", date: "2026-01-02 10:00", body: "Done" }],
+		});
+		expect(diffTaskVersions(before, after).map((change) => change.summary)).toEqual([
+			"acceptance criterion checked: Works",
+			"comment added by alice",
+		]);
+	});
+
+	it("ignores versions that differ only in untracked metadata", () => {
+		expect(diffTaskVersions(makeTask({ ordinal: 1000 }), makeTask({ ordinal: 2000 }))).toEqual([]);
+	});
+});
+
+describe("TaskVersionCache", () => {
+	const taskFile = (status: string) => `---\nid: TASK-1\ntitle: Cached\nstatus: ${status}\n---\n`;
+
+	function fakeCore(git: Record<string, unknown>): Core {
+		return { getGitOps: async () => git } as unknown as Core;
+	}
+
+	it("reads a file's history once per commit that touches it", async () => {
+		let head = "a1";
+		const changed = new Map<string, Set<string>>([["a1..b2", new Set(["backlog/tasks/task-2 - Other.md"])]]);
+		changed.set("b2..c3", new Set(["backlog/tasks/task-1 - Cached.md"]));
+		const reads: string[] = [];
+		const git = {
+			getHeadCommit: async () => head,
+			listChangedFiles: async (from: string, to: string) => changed.get(`${from}..${to}`) ?? null,
+			getFileHistory: async (filePath: string) => {
+				reads.push(filePath);
+				return [{ hash: head, date: "2026-01-01T10:00:00Z", content: taskFile(head === "c3" ? "Done" : "To Do") }];
+			},
+		};
+		const cache = new TaskVersionCache(fakeCore(git));
+		const task = makeTask({ filePath: "/repo/backlog/tasks/task-1 - Cached.md" });
+
+		await cache.getVersions([task]);
+		head = "b2";
+		await cache.getVersions([task]);
+		expect(reads).toHaveLength(1);
+
+		head = "c3";
+		const versions = await cache.getVersions([task]);
+		expect(reads).toHaveLength(2);
+		expect(versions.get("TASK-1")?.[0]?.task.status).toBe("Done");
+	});
+});
+
+describe("getTaskHistory", () => {
+	const taskFile = (title: string) => `---\nid: TASK-1\ntitle: ${title}\nstatus: To Do\n---\n`;
+
+	/** A fake core whose task file has the given contents as commits, oldest first. */
+	function fakeCore(contents: string[]): Core {
+		const commits = contents
+			.map((content, index) => ({ hash: `c${index}`, author: "a", date: `2026-01-01T10:00:${index}Z`, content }))
+			.reverse();
+		return {
+			fs: { loadTask: async () => makeTask({ filePath: "/repo/backlog/tasks/task-1.md" }) },
+			getGitOps: async () => ({
+				getFileHistory: async (_filePath: string, limit?: number) => commits.slice(0, limit),
+			}),
+		} as unknown as Core;
+	}
+
+	it("reports creation only when the log reaches the first commit", async () => {
+		const titles = Array.from({ length: 150 }, (_, index) => `Version ${index}`);
+		const truncated = await getTaskHistory(fakeCore(titles.map(taskFile)), "TASK-1");
+		expect(truncated).toHaveLength(99);
+		expect(truncated.flatMap((entry) => entry.changes).some((change) => change.field === "created")).toBe(false);
+
+		const complete = await getTaskHistory(fakeCore(titles.slice(0, 3).map(taskFile)), "TASK-1");
+		expect(complete.map((entry) => entry.changes[0]?.field)).toEqual(["title", "title", "created"]);
+	});
+
+	it("compares a version with the last one that parsed", async () => {
+		const history = await getTaskHistory(
+			fakeCore([taskFile("First"), "---\ntitle: [unclosed\n---\n", taskFile("Second")]),
+			"TASK-1",
+		);
+		expect(history.map((entry) => entry.changes.map((change) => change.summary))).toEqual([
+			["title: First → Second"],
+			["created with status To Do"],
+		]);
+	});
+});
@@ -0,0 +1,246 @@
+import { parseTask } from "../markdown/parser.ts";
+import type { Task, TaskHistoryChange, TaskHistoryEntry } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+
+/** Commits shown in a task's history; the charts and analytics read the whole log. */
+const HISTORY_LIMIT = 100;
+
+type ScalarField = "title" | "status" | "priority" | "milestone" | "parentTaskId";
+type ListField = "assignee" | "labels" | "dependencies" | "references" | "documentation";
+type TextField = "description" | "implementationPlan" | "finalSummary";
+
+const SCALAR_FIELDS: ScalarField[] = ["title", "status", "priority", "milestone", "parentTaskId"];
+const LIST_FIELDS: ListField[] = ["assignee", "labels", "dependencies", "references", "documentation"];
+const TEXT_FIELDS: TextField[] = ["description", "implementationPlan", "finalSummary"];
+
+const FIELD_LABELS: Record<ScalarField | ListField | TextField, string> = {
+	title: "title",
+	status: "status",
+	priority: "priority",
+	milestone: "milestone",
+	parentTaskId: "parent",
+	assignee: "assignee",
+	labels: "label",
+	dependencies: "dependency",
+	references: "reference",
+	documentation: "documentation",
+	description: "description",
+	implementationPlan: "implementation plan",
+	finalSummary: "final summary",
+};
+
+function scalarValue(task: Task, field: ScalarField): string {
+	return (task[field] ?? "").trim();
+}
+
+function textValue(task: Task, field: TextField): string {
+	return (task[field] ?? "").trim();
+}
+
+function diffScalar(before: Task, after: Task, field: ScalarField): TaskHistoryChange | null {
+	const from = scalarValue(before, field);
+	const to = scalarValue(after, field);
+	if (from === to) return null;
+	const label = FIELD_LABELS[field];
+	if (!from) return { field, summary: `${label} set to ${to}`, to };
+	if (!to) return { field, summary: `${label} cleared (was ${from})`, from };
+	return { field, summary: `${label}: ${from} → ${to}`, from, to };
+}
+
+function diffList(before: Task, after: Task, field: ListField): TaskHistoryChange[] {
+	const previous = before[field] ?? [];
+	const next = after[field] ?? [];
+	const label = FIELD_LABELS[field];
+	const changes: TaskHistoryChange[] = [];
+	for (const value of next) {
+		if (!previous.includes(value)) changes.push({ field, summary: `${label} added: ${value}`, to: value });
+	}
+	for (const value of previous) {
+		if (!next.includes(value)) changes.push({ field, summary: `${label} removed: ${value}`, from: value });
+	}
+	return changes;
+}
+
+function diffText(before: Task, after: Task, field: TextField): TaskHistoryChange | null {
+	const from = textValue(before, field);
+	const to = textValue(after, field);
+	if (from === to) return null;
+	const label = FIELD_LABELS[field];
+	if (!from) return { field, summary: `${label} added` };
+	if (!to) return { field, summary: `${label} removed` };
+	return { field, summary: `${label} edited` };
+}
+
+function diffAcceptanceCriteria(before: Task, after: Task): TaskHistoryChange[] {
+	const previous = before.acceptanceCriteriaItems ?? [];
+	const next = after.acceptanceCriteriaItems ?? [];
+	const changes: TaskHistoryChange[] = [];
+	// Match by text rather than index so removals do not read as a cascade of edits
+	for (const item of next) {
+		const match = previous.find((candidate) => candidate.text === item.text);
+		if (!match) {
+			changes.push({ field: "acceptanceCriteria", summary: `acceptance criterion added: ${item.text}`, to: item.text });
+		} else if (match.checked !== item.checked) {
+			const verb = item.checked ? "checked" : "unchecked";
+			changes.push({ field: "acceptanceCriteria", summary: `acceptance criterion ${verb}: ${item.text}` });
+		}
+	}
+	for (const item of previous) {
+		if (!next.some((candidate) => candidate.text === item.text)) {
+			changes.push({
+				field: "acceptanceCriteria",
+				summary: `acceptance criterion removed: ${item.text}`,
+				from: item.text,
+			});
+		}
+	}
+	return changes;
+}
+
+function diffComments(before: Task, after: Task): TaskHistoryChange[] {
+	const previousCount = before.comments?.length ?? 0;
+	return (after.comments ?? [])
+		.slice(previousCount)
+		.map((comment) => ({ field: "comments", summary: `comment added by ${comment.author}` }));
+}
+
+/**
+ * Computes field-level changes between two versions of a task.
+ * A null `before` means the task was created in `after`.
+ */
+export function diffTaskVersions(before: Task | null, after: Task): TaskHistoryChange[] {
+	if (!before) {
+		return [{ field: "created", summary: `created with status ${after.status}`, to: after.status }];
+	}
+
+	const changes: TaskHistoryChange[] = [];
+	for (const field of SCALAR_FIELDS) {
+		const change = diffScalar(before, after, field);
+		if (change) changes.push(change);
+	}
+	for (const field of LIST_FIELDS) {
+		changes.push(...diffList(before, after, field));
+	}
+	for (const field of TEXT_FIELDS) {
+		const change = diffText(before, after, field);
+		if (change) changes.push(change);
+	}
+	changes.push(...diffAcceptanceCriteria(before, after));
+	changes.push(...diffComments(before, after));
+	return changes;
+}
+
+/** A committed version of a task file. */
+export interface TaskVersion {
+	date: string; // ISO 8601 author date of the commit
+	task: Task;
+}
+
+/**
+ * Loads the committed versions of a task file from its git log, oldest first.
+ * Versions that no longer parse are skipped; untracked files have no versions.
+ */
+async function loadFileVersions(core: Core, filePath: string): Promise<TaskVersion[]> {
+	const git = await core.getGitOps();
+	const commits = await git.getFileHistory(filePath);
+	const versions: TaskVersion[] = [];
+	for (const commit of [...commits].reverse()) {
+		try {
+			versions.push({ date: commit.date, task: parseTask(commit.content) });
+		} catch {
+			// Skip versions that no longer parse
+		}
+	}
+	return versions;
+}
+
+/**
+ * Committed versions of task files, shared by the charts and flow analytics. Reading them costs
+ * a few git processes per task, so they are kept until a commit touches the file: each call
+ * compares HEAD with the last one seen and drops only the files changed in between.
+ */
+export class TaskVersionCache {
+	private head: string | null = null;
+	private versions = new Map<string, Promise<TaskVersion[]>>();
+
+	constructor(private readonly core: Core) {}
+
+	/** Versions of each task, by task ID, oldest first. */
+	async getVersions(tasks: Task[]): Promise<Map<string, TaskVersion[]>> {
+		await this.syncWithHead();
+		const result = new Map<string, TaskVersion[]>();
+		// Sequential on purpose: each file not cached yet spawns a few git processes
+		for (const task of tasks) {
+			result.set(task.id, task.filePath ? await this.versionsOf(task.filePath) : []);
+		}
+		return result;
+	}
+
+	private versionsOf(filePath: string): Promise<TaskVersion[]> {
+		let versions = this.versions.get(filePath);
+		if (!versions) {
+			versions = loadFileVersions(this.core, filePath);
+			this.versions.set(filePath, versions);
+			versions.catch(() => this.versions.delete(filePath));
+		}
+		return versions;
+	}
+
+	private async syncWithHead(): Promise<void> {
+		const git = await this.core.getGitOps();
+		const head = await git.getHeadCommit();
+		if (head === this.head) return;
+		const changed = this.head && head ? await git.listChangedFiles(this.head, head) : null;
+		if (changed) {
+			for (const filePath of this.versions.keys()) {
+				const normalized = filePath.replaceAll("\\", "/");
+				if ([...changed].some((path) => normalized.endsWith(`/${path}`))) this.versions.delete(filePath);
+			}
+		} else {
+			this.versions.clear();
+		}
+		this.head = head;
+	}
+}
+
+/**
+ * Builds the change history of a task from the git log of its file, newest first.
+ * Commits that do not change any tracked field (e.g. reorders) are omitted.
+ */
+export async function getTaskHistory(core: Core, taskId: string): Promise<TaskHistoryEntry[]> {
+	const task = await core.fs.loadTask(taskId);
+	if (!task?.filePath) {
+		throw new Error(`Task not found: ${taskId}`);
+	}
+
+	const git = await core.getGitOps();
+	const commits = await git.getFileHistory(task.filePath, HISTORY_LIMIT);
+	// A full window may stop short of the commit that created the file
+	const reachesCreation = commits.length < HISTORY_LIMIT;
+
+	const entries: TaskHistoryEntry[] = [];
+	let previous: Task | null = null;
+	for (let position = commits.length - 1; position >= 0; position -= 1) {
+		const commit = commits[position];
+		if (!commit) continue;
+		let version: Task;
+		try {
+			version = parseTask(commit.content);
+		} catch {
+			// The next version is compared with the last one that parsed
+			continue;
+		}
+		const isCreation = !previous && reachesCreation && position === commits.length - 1;
+		const changes = previous || isCreation ? diffTaskVersions(previous, version) : [];
+		previous = version;
+		if (changes.length === 0) continue;
+		entries.push({
+			commit: commit.hash,
+			author: commit.author,
+			date: commit.date,
+			message: commit.message,
+			changes,
+		});
+	}
+	return entries.reverse();
+}
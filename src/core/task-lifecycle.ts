@@ -1,16 +1,62 @@
 import { unlink } from "node:fs/promises";
 import { DEFAULT_DIRECTORIES, FALLBACK_STATUS } from "../constants/index.ts";
-import { EntityType, type Sequence, type Task, type TaskCreateInput, type TaskUpdateInput } from "../types/index.ts";
+import {
+	type BulkEditResult,
+	type BulkTaskSelection,
+	type BulkTaskUpdate,
+	EntityType,
+	type Sequence,
+	type SimilarTask,
+	type Task,
+	type TaskCreateInput,
+	type TaskUpdateInput,
+} from "../types/index.ts";
 import { normalizeAssignee } from "../utils/assignee.ts";
 import { normalizeId } from "../utils/prefix-config.ts";
 import { executeStatusCallback } from "../utils/status-callback.ts";
 import { normalizeDependencies, normalizeStringList, validateDependencies } from "../utils/task-builders.ts";
 import { getTaskPath, normalizeTaskId, taskIdsEqual } from "../utils/task-path.ts";
+import { getCurrentActor } from "./actor.ts";
 import type { Core } from "./backlog.ts";
+import { BLOCKED_LABEL, findOpenBlockers, formatBlockers, hasBlockedLabel, isStartedStatus } from "./blockers.ts";
+import { assertTaskVersion, withTaskWriteLock } from "./concurrency.ts";
+import { normalizeEstimate } from "./effort.ts";
+import { getMilestoneMatchKeys, isDoneStatus, milestoneKey, resolveMilestoneInput } from "./milestones.ts";
 import { calculateNewOrdinal, DEFAULT_ORDINAL_STEP, resolveOrdinalConflicts } from "./reorder.ts";
-import { computeSequences, planMoveToSequence, planMoveToUnsequenced } from "./sequences.ts";
+import { assertScheduleOrder, normalizeScheduleDate } from "./schedule.ts";
+import {
+	computeSequences,
+	findDependencyCycleThrough,
+	planMoveToSequence,
+	planMoveToUnsequenced,
+} from "./sequences.ts";
 import { applyTaskUpdateInput, normalizePriority } from "./task-mutation.ts";
 import { getTask } from "./task-query.ts";
+import { findPossibleDuplicates } from "./task-similarity.ts";
+
+/**
+ * Records the reporter of a new task or draft: the acting user or agent, else the
+ * configured default. An explicit reporter is kept.
+ */
+async function assignReporter(core: Core, task: Task): Promise<void> {
+	if (task.reporter) return;
+	const reporter = getCurrentActor()?.name ?? (await core.fs.loadConfig())?.defaultReporter;
+	if (reporter) task.reporter = reporter;
+}
+
+/**
+ * Stamps an edit with the current time and the acting user or agent. Unattributed
+ * edits clear `updatedBy` rather than leaving a previous editor's name on the change.
+ */
+function markUpdated(task: Task): void {
+	task.updatedDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+	const actor = getCurrentActor();
+	if (actor) {
+		task.updatedBy = actor.name;
+	} else {
+		delete task.updatedBy;
+	}
+}
 
 export async function createTaskFromData(
 	core: Core,
@@ -66,7 +112,7 @@ export async function createTaskFromInput(
 	core: Core,
 	input: TaskCreateInput,
 	autoCommit?: boolean,
-): Promise<{ task: Task; filePath?: string }> {
+): Promise<{ task: Task; filePath?: string; possibleDuplicates: SimilarTask[] }> {
 	if (!input.title || input.title.trim().length === 0) {
 		throw new Error("Title is required to create a task.");
 	}
@@ -82,6 +128,7 @@ export async function createTaskFromInput(
 	const normalizedDependencies = normalizeDependencies(input.dependencies);
 	const normalizedReferences = normalizeStringList(input.references) ?? [];
 	const normalizedDocumentation = normalizeStringList(input.documentation) ?? [];
+	const normalizedAcceptanceCriteria = normalizeStringList(input.acceptanceCriteria) ?? [];
 
 	const { valid: validDependencies, invalid: invalidDependencies } = await validateDependencies(
 		normalizedDependencies,
@@ -103,6 +150,10 @@ export async function createTaskFromInput(
 	}
 
 	const priority = normalizePriority(input.priority);
+	const estimate = normalizeEstimate(input.estimate);
+	const startDate = normalizeScheduleDate(input.startDate, "start date");
+	const dueDate = normalizeScheduleDate(input.dueDate, "due date");
+	assertScheduleOrder(startDate, dueDate);
 	const createdDate = new Date().toISOString().slice(0, 16).replace("T", " ");
 
 	const task: Task = {
@@ -118,19 +169,34 @@ export async function createTaskFromInput(
 		createdDate,
 		...(input.parentTaskId && { parentTaskId: input.parentTaskId }),
 		...(priority && { priority }),
+		...(estimate !== undefined && { estimate }),
+		...(startDate && { startDate }),
+		...(dueDate && { dueDate }),
 		...(typeof input.milestone === "string" &&
 			input.milestone.trim().length > 0 && {
 				milestone: input.milestone.trim(),
 			}),
 		...(typeof input.description === "string" && { description: input.description }),
+		...(normalizedAcceptanceCriteria.length > 0 && {
+			acceptanceCriteriaItems: normalizedAcceptanceCriteria.map((text, position) => ({
+				index: position + 1,
+				text,
+				checked: false,
+			})),
+		}),
 		...(typeof input.implementationPlan === "string" && { implementationPlan: input.implementationPlan }),
 		...(typeof input.finalSummary === "string" && { finalSummary: input.finalSummary }),
+		...(input.template && { template: input.template }),
+		...(input.occurrence && { occurrence: input.occurrence }),
 	};
 
+	// Checked before saving so the new task cannot match itself
+	const possibleDuplicates = isDraft ? [] : await findPossibleDuplicates(core, input);
+
 	const filePath = isDraft ? await createDraft(core, task, autoCommit) : await createTask(core, task, autoCommit);
 
 	const savedTask = isDraft ? await core.fs.loadDraft(id) : await core.fs.loadTask(id);
-	return { task: savedTask ?? task, filePath };
+	return { task: savedTask ?? task, filePath, possibleDuplicates };
 }
 
 export async function createTask(core: Core, task: Task, autoCommit?: boolean): Promise<string> {
@@ -140,6 +206,7 @@ export async function createTask(core: Core, task: Task, autoCommit?: boolean):
 	}
 
 	normalizeAssignee(task);
+	await assignReporter(core, task);
 
 	const filepath = await core.fs.saveTask(task);
 	if (core.contentStore) {
@@ -179,6 +246,7 @@ export async function createTask(core: Core, task: Task, autoCommit?: boolean):
 export async function createDraft(core: Core, task: Task, autoCommit?: boolean): Promise<string> {
 	task.status = "Draft";
 	normalizeAssignee(task);
+	await assignReporter(core, task);
 
 	const filepath = await core.fs.saveDraft(task);
 
@@ -201,7 +269,7 @@ export async function updateTask(core: Core, task: Task, autoCommit?: boolean):
 	const oldMilestone = originalTask?.milestone;
 	const milestoneChanged = oldMilestone !== task.milestone;
 
-	task.updatedDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+	markUpdated(task);
 
 	await core.fs.saveTask(task);
 	if (core.contentStore) {
@@ -220,6 +288,9 @@ export async function updateTask(core: Core, task: Task, autoCommit?: boolean):
 
 	if (statusChanged) {
 		await executeStatusChangeCallback(core, task, oldStatus, newStatus);
+		if (isDoneStatus(newStatus) && !isDoneStatus(oldStatus)) {
+			await releaseBlockedDependents(core, task, autoCommit);
+		}
 	}
 
 	if (milestoneChanged) {
@@ -238,36 +309,44 @@ export async function updateTaskFromInput(
 	input: TaskUpdateInput,
 	autoCommit?: boolean,
 ): Promise<Task> {
-	const task = await core.fs.loadTask(taskId);
-	if (!task) {
-		throw new Error(`Task not found: ${taskId}`);
-	}
+	return await withTaskWriteLock(taskId, async () => {
+		const task = await core.fs.loadTask(taskId);
+		if (!task) {
+			throw new Error(`Task not found: ${taskId}`);
+		}
+		assertTaskVersion(task, input.expectedVersion);
 
-	const requestedStatus = input.status?.trim().toLowerCase();
-	if (requestedStatus === "draft") {
-		return await demoteTaskWithUpdates(core, task, input, autoCommit);
-	}
+		const requestedStatus = input.status?.trim().toLowerCase();
+		if (requestedStatus === "draft") {
+			return await demoteTaskWithUpdates(core, task, input, autoCommit);
+		}
 
-	const { mutated } = await applyTaskUpdateInput(
-		task,
-		input,
-		async (status) => core.requireCanonicalStatus(status),
-		core,
-	);
+		const previousStatus = task.status;
+		const { mutated } = await applyTaskUpdateInput(
+			task,
+			input,
+			async (status) => core.requireCanonicalStatus(status),
+			core,
+		);
 
-	if (!mutated) {
-		return task;
-	}
+		if (!mutated) {
+			return task;
+		}
+
+		if (task.status !== previousStatus) {
+			await enforceDependencyPolicy(core, task);
+		}
 
-	await updateTask(core, task, autoCommit);
-	const refreshed = await core.fs.loadTask(taskId);
-	return refreshed ?? task;
+		await updateTask(core, task, autoCommit);
+		const refreshed = await core.fs.loadTask(taskId);
+		return refreshed ?? task;
+	});
 }
 
 export async function updateDraft(core: Core, task: Task, autoCommit?: boolean): Promise<void> {
 	task.status = "Draft";
 	normalizeAssignee(task);
-	task.updatedDate = new Date().toISOString().slice(0, 16).replace("T", " ");
+	markUpdated(task);
 
 	const filepath = await core.fs.saveDraft(task);
 
@@ -283,30 +362,33 @@ export async function updateDraftFromInput(
 	input: TaskUpdateInput,
 	autoCommit?: boolean,
 ): Promise<Task> {
-	const draft = await core.fs.loadDraft(draftId);
-	if (!draft) {
-		throw new Error(`Draft not found: ${draftId}`);
-	}
-
-	const { mutated } = await applyTaskUpdateInput(
-		draft,
-		input,
-		async (status) => {
-			if (status.trim().toLowerCase() !== "draft") {
-				throw new Error("Drafts must use status Draft.");
-			}
-			return "Draft";
-		},
-		core,
-	);
+	return await withTaskWriteLock(draftId, async () => {
+		const draft = await core.fs.loadDraft(draftId);
+		if (!draft) {
+			throw new Error(`Draft not found: ${draftId}`);
+		}
+		assertTaskVersion(draft, input.expectedVersion);
+
+		const { mutated } = await applyTaskUpdateInput(
+			draft,
+			input,
+			async (status) => {
+				if (status.trim().toLowerCase() !== "draft") {
+					throw new Error("Drafts must use status Draft.");
+				}
+				return "Draft";
+			},
+			core,
+		);
 
-	if (!mutated) {
-		return draft;
-	}
+		if (!mutated) {
+			return draft;
+		}
 
-	await updateDraft(core, draft, autoCommit);
-	const refreshed = await core.fs.loadDraft(draftId);
-	return refreshed ?? draft;
+		await updateDraft(core, draft, autoCommit);
+		const refreshed = await core.fs.loadDraft(draftId);
+		return refreshed ?? draft;
+	});
 }
 
 export async function editTaskOrDraft(
@@ -320,6 +402,7 @@ export async function editTaskOrDraft(
 		const requestedStatus = input.status?.trim();
 		const wantsDraft = requestedStatus?.toLowerCase() === "draft";
 		if (requestedStatus && !wantsDraft) {
+			assertTaskVersion(draft, input.expectedVersion);
 			return await promoteDraftWithUpdates(core, draft, input, autoCommit);
 		}
 		return await updateDraftFromInput(core, draft.id, input, autoCommit);
@@ -371,10 +454,10 @@ async function promoteDraftWithUpdates(
 		id: newTaskId,
 		status: canonicalStatus,
 		filePath: undefined,
-		...(mutated || draft.status !== canonicalStatus
-			? { updatedDate: new Date().toISOString().slice(0, 16).replace("T", " ") }
-			: {}),
 	};
+	if (mutated || draft.status !== canonicalStatus) {
+		markUpdated(promotedTask);
+	}
 
 	normalizeAssignee(promotedTask);
 	const savedPath = await core.fs.saveTask(promotedTask);
@@ -425,10 +508,10 @@ async function demoteTaskWithUpdates(
 		id: newDraftId,
 		status: "Draft",
 		filePath: undefined,
-		...(mutated || task.status !== "Draft"
-			? { updatedDate: new Date().toISOString().slice(0, 16).replace("T", " ") }
-			: {}),
 	};
+	if (mutated || task.status !== "Draft") {
+		markUpdated(demotedDraft);
+	}
 
 	normalizeAssignee(demotedDraft);
 	const savedPath = await core.fs.saveDraft(demotedDraft);
@@ -446,6 +529,50 @@ async function demoteTaskWithUpdates(
 	return (await core.fs.loadDraft(demotedDraft.id)) ?? { ...demotedDraft, filePath: savedPath };
 }
 
+/**
+ * Applies the configured dependency policy to a task moving into a new status:
+ * under "refuse" a started status is rejected while dependencies are open, and
+ * under "mark" the task is labelled blocked instead.
+ */
+async function enforceDependencyPolicy(core: Core, task: Task): Promise<void> {
+	const config = await core.fs.loadConfig();
+	const policy = config?.dependencyPolicy ?? "allow";
+	if (policy === "allow" || !isStartedStatus(task.status, config)) {
+		return;
+	}
+	const blockers = findOpenBlockers(task, await core.fs.listTasks());
+	if (blockers.length === 0) {
+		return;
+	}
+	if (policy === "refuse") {
+		throw new Error(`${task.id} is blocked by unfinished dependencies: ${formatBlockers(blockers)}.`);
+	}
+	if (!hasBlockedLabel(task)) {
+		task.labels = [...(task.labels ?? []), BLOCKED_LABEL];
+	}
+}
+
+/**
+ * Under the "mark" dependency policy, removes the blocked label from tasks that
+ * depend on a task that was just finished once none of their dependencies are open.
+ */
+async function releaseBlockedDependents(core: Core, finished: Task, autoCommit?: boolean): Promise<void> {
+	const config = await core.fs.loadConfig();
+	if (config?.dependencyPolicy !== "mark") {
+		return;
+	}
+	const tasks = await core.fs.listTasks();
+	const dependents = tasks.filter(
+		(candidate) =>
+			hasBlockedLabel(candidate) && (candidate.dependencies ?? []).some((id) => taskIdsEqual(id, finished.id)),
+	);
+	for (const dependent of dependents) {
+		if (findOpenBlockers(dependent, tasks).length > 0) continue;
+		dependent.labels = dependent.labels.filter((label) => label.toLowerCase() !== BLOCKED_LABEL);
+		await updateTask(core, dependent, autoCommit);
+	}
+}
+
 async function executeStatusChangeCallback(
 	core: Core,
 	task: Task,
@@ -508,6 +635,90 @@ export async function updateTasksBulk(
 	}
 }
 
+/**
+ * Applies one update to a set of tasks and saves them in a single commit. Every
+ * task is validated before anything is written, so one bad task fails the whole edit.
+ */
+export async function editTasksBulk(
+	core: Core,
+	selection: BulkTaskSelection,
+	update: BulkTaskUpdate,
+	autoCommit?: boolean,
+): Promise<BulkEditResult> {
+	if (update.status?.trim().toLowerCase() === "draft") {
+		throw new Error("Bulk edits cannot move tasks to drafts.");
+	}
+	const input: TaskUpdateInput = { ...update };
+	if (typeof input.milestone === "string") {
+		const [milestones, archivedMilestones] = await Promise.all([
+			core.fs.listMilestones(),
+			core.fs.listArchivedMilestones(),
+		]);
+		input.milestone = resolveMilestoneInput(input.milestone, milestones, archivedMilestones);
+	}
+
+	const changed: Task[] = [];
+	const unchanged: string[] = [];
+	for (const task of await loadBulkSelection(core, selection)) {
+		const previousStatus = task.status;
+		try {
+			const { mutated } = await applyTaskUpdateInput(
+				task,
+				input,
+				async (status) => core.requireCanonicalStatus(status),
+				core,
+			);
+			if (!mutated) {
+				unchanged.push(task.id);
+				continue;
+			}
+			if (task.status !== previousStatus) {
+				await enforceDependencyPolicy(core, task);
+			}
+		} catch (error) {
+			throw new Error(`${task.id}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		changed.push(task);
+	}
+
+	if (changed.length > 0) {
+		const noun = changed.length === 1 ? "task" : "tasks";
+		await updateTasksBulk(core, changed, `Bulk edit ${changed.length} ${noun}`, autoCommit);
+	}
+	const updated = await Promise.all(changed.map(async (task) => (await core.fs.loadTask(task.id)) ?? task));
+	return { updated, unchanged };
+}
+
+async function loadBulkSelection(core: Core, selection: BulkTaskSelection): Promise<Task[]> {
+	const ids = (selection.ids ?? []).map((id) => id.trim()).filter(Boolean);
+	// An empty list filters nothing, so it must not count as a selection of every task
+	const hasFilter = Object.values(selection.filters ?? {}).some(
+		(value) => value !== undefined && !(Array.isArray(value) && value.length === 0),
+	);
+	if (ids.length === 0 && !hasFilter && !selection.query?.trim()) {
+		throw new Error("Select the tasks to edit by ID or with a filter.");
+	}
+	const targetIds =
+		ids.length > 0
+			? ids
+			: (await core.queryTasks({ filters: selection.filters, query: selection.query, includeCrossBranch: false })).map(
+					(task) => task.id,
+				);
+
+	const tasks: Task[] = [];
+	for (const id of targetIds) {
+		// Load from disk: the edit mutates the tasks and must not touch the cached copies
+		const task = await core.fs.loadTask(id);
+		if (!task) {
+			throw new Error(`Task not found: ${id}`);
+		}
+		if (!tasks.some((existing) => taskIdsEqual(existing.id, task.id))) {
+			tasks.push(task);
+		}
+	}
+	return tasks;
+}
+
 export async function reorderTask(
 	core: Core,
 	params: {
@@ -590,6 +801,9 @@ export async function reorderTask(
 		...(hasTargetMilestone ? { milestone: normalizedTargetMilestone } : {}),
 		ordinal: newOrdinal,
 	};
+	if (targetStatus !== movedTask.status) {
+		await enforceDependencyPolicy(core, updatedMoved);
+	}
 
 	const tasksInOrder: Task[] = validTasks.map((task, index) => (index === targetIndex ? updatedMoved : task));
 	const resolutionUpdates = resolveOrdinalConflicts(tasksInOrder, {
@@ -630,9 +844,30 @@ export async function reorderTask(
 	return { updatedTask, changedTasks };
 }
 
-export async function listActiveSequences(core: Core): Promise<{ unsequenced: Task[]; sequences: Sequence[] }> {
+/**
+ * Lists the active (not done) tasks that sequences are computed over, optionally
+ * limited to one milestone given by ID or title.
+ */
+async function listSequenceableTasks(core: Core, milestone?: string): Promise<{ all: Task[]; active: Task[] }> {
 	const all = await core.fs.listTasks();
-	const active = all.filter((t) => (t.status || "").toLowerCase() !== "done");
+	let active = all.filter((t) => (t.status || "").toLowerCase() !== "done");
+	if (milestone?.trim()) {
+		const [activeMilestones, archivedMilestones] = await Promise.all([
+			core.fs.listMilestones(),
+			core.fs.listArchivedMilestones(),
+		]);
+		const resolved = resolveMilestoneInput(milestone, activeMilestones, archivedMilestones);
+		const keys = getMilestoneMatchKeys(resolved, [...activeMilestones, ...archivedMilestones]);
+		active = active.filter((t) => keys.has(milestoneKey(t.milestone)));
+	}
+	return { all, active };
+}
+
+export async function listActiveSequences(
+	core: Core,
+	options: { milestone?: string } = {},
+): Promise<{ unsequenced: Task[]; sequences: Sequence[] }> {
+	const { active } = await listSequenceableTasks(core, options.milestone);
 	return computeSequences(active);
 }
 
@@ -642,16 +877,17 @@ export async function moveTaskInSequences(
 		taskId: string;
 		unsequenced?: boolean;
 		targetSequenceIndex?: number;
+		milestone?: string;
 	},
 ): Promise<{ unsequenced: Task[]; sequences: Sequence[] }> {
 	const taskId = String(params.taskId || "").trim();
 	if (!taskId) throw new Error("taskId is required");
 
-	const allTasks = await core.fs.listTasks();
+	const { all: allTasks, active } = await listSequenceableTasks(core, params.milestone);
 	const exists = allTasks.some((t) => t.id === taskId);
 	if (!exists) throw new Error(`Task ${taskId} not found`);
 
-	const active = allTasks.filter((t) => (t.status || "").toLowerCase() !== "done");
+	// Sequence indexes are relative to the milestone being viewed, if any
 	const { sequences } = computeSequences(active);
 
 	if (params.unsequenced) {
@@ -665,10 +901,13 @@ export async function moveTaskInSequences(
 		}
 		if (targetSequenceIndex < 1) throw new Error("targetSequenceIndex must be >= 1");
 		const changed = planMoveToSequence(allTasks, sequences, taskId, targetSequenceIndex);
+		const moved = changed.find((t) => t.id === taskId);
+		const cycle = moved && findDependencyCycleThrough(allTasks, taskId, moved.dependencies);
+		if (cycle) {
+			throw new Error(`Dependency cycle: ${cycle.join(" -> ")}. Move the tasks that depend on ${taskId} first.`);
+		}
 		if (changed.length > 0) await updateTasksBulk(core, changed, `Update deps/order for ${taskId}`);
 	}
 
-	const afterAll = await core.fs.listTasks();
-	const afterActive = afterAll.filter((t) => (t.status || "").toLowerCase() !== "done");
-	return computeSequences(afterActive);
+	return listActiveSequences(core, { milestone: params.milestone });
 }
@@ -1,4 +1,11 @@
-import { isLocalEditableTask, type Task, type TaskListFilter, type TaskUpdateInput } from "../types/index.ts";
+import { containsCommentMarker } from "../markdown/comments.ts";
+import {
+	type AcceptanceCriterion,
+	isLocalEditableTask,
+	type Task,
+	type TaskListFilter,
+	type TaskUpdateInput,
+} from "../types/index.ts";
 import { extractAnyPrefix } from "../utils/prefix-config.ts";
 import {
 	normalizeDependencies,
@@ -8,11 +15,16 @@ import {
 } from "../utils/task-builders.ts";
 import { normalizeTaskId, taskIdsEqual } from "../utils/task-path.ts";
 import type { Core } from "./backlog.ts";
+import { isReadyTask } from "./blockers.ts";
+import { normalizeEstimate, normalizeTimeEntry } from "./effort.ts";
+import { assertScheduleOrder, normalizeScheduleDate } from "./schedule.ts";
+import { findDependencyCycleThrough } from "./sequences.ts";
 
 /**
- * Filters a task list by the given filter criteria.
+ * Filters a task list by the given filter criteria. Readiness is judged against
+ * `allTasks`, which defaults to the list being filtered.
  */
-export function applyTaskFilters(tasks: Task[], filters?: TaskListFilter): Task[] {
+export function applyTaskFilters(tasks: Task[], filters?: TaskListFilter, allTasks: Task[] = tasks): Task[] {
 	if (!filters) {
 		return tasks;
 	}
@@ -44,6 +56,10 @@ export function applyTaskFilters(tasks: Task[], filters?: TaskListFilter): Task[
 			});
 		}
 	}
+	if (filters.ready !== undefined) {
+		const ready = filters.ready;
+		result = result.filter((task) => isReadyTask(task, allTasks) === ready);
+	}
 	return result;
 }
 
@@ -173,6 +189,34 @@ export async function applyTaskUpdateInput(
 		}
 	}
 
+	if (input.estimate !== undefined) {
+		const normalizedEstimate = normalizeEstimate(input.estimate);
+		if (task.estimate !== normalizedEstimate) {
+			if (normalizedEstimate === undefined) {
+				delete task.estimate;
+			} else {
+				task.estimate = normalizedEstimate;
+			}
+			mutated = true;
+		}
+	}
+
+	for (const field of ["startDate", "dueDate"] as const) {
+		if (input[field] === undefined) continue;
+		const normalizedDate = normalizeScheduleDate(input[field], field === "startDate" ? "start date" : "due date");
+		if (task[field] !== normalizedDate) {
+			if (normalizedDate === undefined) {
+				delete task[field];
+			} else {
+				task[field] = normalizedDate;
+			}
+			mutated = true;
+		}
+	}
+	if (input.startDate !== undefined || input.dueDate !== undefined) {
+		assertScheduleOrder(task.startDate, task.dueDate);
+	}
+
 	if (input.milestone !== undefined) {
 		const normalizedMilestone =
 			input.milestone === null ? undefined : input.milestone.trim().length > 0 ? input.milestone.trim() : undefined;
@@ -285,6 +329,15 @@ export async function applyTaskUpdateInput(
 			}
 		}
 
+		const added = currentDependencies.filter((dep) => !(task.dependencies ?? []).includes(dep));
+		if (added.length > 0) {
+			const [tasks, drafts] = await Promise.all([core.filesystem.listTasks(), core.filesystem.listDrafts()]);
+			const cycle = findDependencyCycleThrough([...tasks, ...drafts], task.id, added);
+			if (cycle) {
+				throw new Error(`Dependency cycle: ${cycle.join(" -> ")}. Remove one of these dependencies first.`);
+			}
+		}
+
 		task.dependencies = currentDependencies;
 	};
 
@@ -364,6 +417,69 @@ export async function applyTaskUpdateInput(
 
 	resolveDocumentation();
 
+	const resolveAcceptanceCriteria = (): void => {
+		const indexOperations = [
+			input.removeAcceptanceCriteria,
+			input.checkAcceptanceCriteria,
+			input.uncheckAcceptanceCriteria,
+		];
+		const hasChanges =
+			input.acceptanceCriteria !== undefined ||
+			(input.addAcceptanceCriteria?.length ?? 0) > 0 ||
+			indexOperations.some((indexes) => (indexes?.length ?? 0) > 0);
+		if (!hasChanges) {
+			return;
+		}
+
+		const original = task.acceptanceCriteriaItems ?? [];
+		let items: AcceptanceCriterion[] = original.map((item) => ({ ...item }));
+
+		if (input.acceptanceCriteria !== undefined) {
+			items = (normalizeStringList(input.acceptanceCriteria) ?? []).map((text, position) => ({
+				index: position + 1,
+				text,
+				checked: false,
+			}));
+		}
+
+		for (const indexes of indexOperations) {
+			for (const index of indexes ?? []) {
+				if (!items.some((item) => item.index === index)) {
+					throw new Error(`Acceptance criterion #${index} does not exist on ${task.id}.`);
+				}
+			}
+		}
+
+		const checkSet = new Set(input.checkAcceptanceCriteria ?? []);
+		const uncheckSet = new Set(input.uncheckAcceptanceCriteria ?? []);
+		const removeSet = new Set(input.removeAcceptanceCriteria ?? []);
+		items = items
+			.map((item) => {
+				if (checkSet.has(item.index)) return { ...item, checked: true };
+				if (uncheckSet.has(item.index)) return { ...item, checked: false };
+				return item;
+			})
+			.filter((item) => !removeSet.has(item.index));
+
+		for (const text of normalizeStringList(input.addAcceptanceCriteria) ?? []) {
+			items.push({ index: items.length + 1, text, checked: false });
+		}
+
+		const renumbered = items.map((item, position) => ({ ...item, index: position + 1 }));
+		const changed =
+			renumbered.length !== original.length ||
+			renumbered.some((item, position) => {
+				const previous = original[position];
+				return !previous || previous.text !== item.text || previous.checked !== item.checked;
+			});
+		if (changed) {
+			task.acceptanceCriteriaItems = renumbered;
+			mutated = true;
+		}
+	};
+
+	resolveAcceptanceCriteria();
+
 	const sanitizeAppendInput = (values: string[] | undefined): string[] => {
 		if (!values) return [];
 		return values.map((value) => String(value).trim()).filter((value) => value.length > 0);
@@ -427,5 +543,27 @@ export async function applyTaskUpdateInput(
 		}
 	}
 
+	if (input.addComment) {
+		const author = input.addComment.author.replace(/\s+/g, " ").trim();
+		const body = input.addComment.body.trim();
+		if (!author) {
+			throw new Error("Comment author is required.");
+		}
+		if (!body) {
+			throw new Error("Comment body cannot be empty.");
+		}
+		if (containsCommentMarker(body)) {
+			throw new Error("Comment body cannot contain <!-- COMMENT: --> or <!-- SECTION: --> markers.");
+		}
+		const date = new Date().toISOString().slice(0, 16).replace("T", " ");
+		task.comments = [...(task.comments ?? []), { author, date, body }];
+		mutated = true;
+	}
+
+	if (input.addTimeEntry) {
+		task.timeEntries = [...(task.timeEntries ?? []), normalizeTimeEntry(input.addTimeEntry)];
+		mutated = true;
+	}
+
 	return { task, mutated };
 }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import type { Milestone, Task } from "../types/index.ts";
+import { type NextTaskContext, rankNextTasks } from "./task-next.ts";
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+	return {
+		id,
+		title: id,
+		status: "To Do",
+		assignee: [],
+		createdDate: "2026-01-01",
+		labels: [],
+		dependencies: [],
+		...overrides,
+	};
+}
+
+function milestone(id: string, active: boolean): Milestone {
+	return { id, title: id, description: "", rawContent: "", active };
+}
+
+const context: NextTaskContext = {
+	config: { statuses: ["To Do", "In Progress", "Done"], defaultStatus: "To Do" },
+	milestones: [],
+};
+
+const rankedIds = (tasks: Task[], options = {}, ctx: NextTaskContext = context) =>
+	rankNextTasks(tasks, ctx, options).map((entry) => entry.task.id);
+
+describe("rankNextTasks", () => {
+	it("only recommends unstarted tasks whose dependencies are done", () => {
+		const tasks = [
+			task("TASK-1", { status: "Done" }),
+			task("TASK-2", { dependencies: ["task-1"] }),
+			task("TASK-3", { dependencies: ["TASK-4"] }),
+			task("TASK-4", { status: "In Progress" }),
+		];
+		expect(rankedIds(tasks)).toEqual(["TASK-2"]);
+		expect(rankNextTasks(tasks, context)[0]?.reasons).toContain("all dependencies done");
+	});
+
+	it("skips tasks assigned to someone else and puts the caller's own first", () => {
+		const tasks = [task("TASK-1", { assignee: ["@alice"] }), task("TASK-2"), task("TASK-3", { assignee: ["bob"] })];
+		expect(rankedIds(tasks, { assignee: "Bob" })).toEqual(["TASK-3", "TASK-2"]);
+		expect(rankedIds(tasks)).toEqual(["TASK-2"]);
+	});
+
+	it("prefers matching skills, then priority, then tasks that unblock others", () => {
+		const tasks = [
+			task("TASK-1", { priority: "high" }),
+			task("TASK-2", { labels: ["Backend"], priority: "low" }),
+			task("TASK-3"),
+			task("TASK-4", { dependencies: ["TASK-3"] }),
+			task("TASK-5"),
+		];
+		const ranked = rankNextTasks(tasks, context, { skills: ["backend"] });
+		expect(ranked.map((entry) => entry.task.id)).toEqual(["TASK-2", "TASK-1", "TASK-3", "TASK-5"]);
+		expect(ranked[0]?.reasons).toEqual(["matches your skills: Backend", "low priority"]);
+		expect(ranked[2]?.reasons).toEqual(["unblocks 1 task"]);
+	});
+
+	it("prefers active milestones and skips inactive ones", () => {
+		const tasks = [task("TASK-1"), task("TASK-2", { milestone: "m-1" }), task("TASK-3", { milestone: "m-2" })];
+		const ctx = { ...context, milestones: [milestone("m-1", true), milestone("m-2", false)] };
+		expect(rankedIds(tasks, {}, ctx)).toEqual(["TASK-2", "TASK-1"]);
+		expect(rankedIds(tasks, {}, { ...ctx, milestoneKeys: new Set(["m-1"]) })).toEqual(["TASK-2"]);
+	});
+
+	it("falls back to ordinal and then task ID", () => {
+		const tasks = [
+			task("TASK-10"),
+			task("TASK-9"),
+			task("TASK-3", { ordinal: 2000 }),
+			task("TASK-4", { ordinal: 1000 }),
+		];
+		expect(rankedIds(tasks)).toEqual(["TASK-4", "TASK-3", "TASK-9", "TASK-10"]);
+	});
+
+	it("does not recommend tasks caught in a dependency cycle", () => {
+		const tasks = [task("TASK-1", { dependencies: ["TASK-2"] }), task("TASK-2", { dependencies: ["TASK-1"] })];
+		expect(rankedIds(tasks)).toEqual([]);
+	});
+});
@@ -0,0 +1,178 @@
+import type { BacklogConfig, Milestone, Task, TaskLease } from "../types/index.ts";
+import { sortByTaskId } from "../utils/task-sorting.ts";
+import type { Core } from "./backlog.ts";
+import { findOpenBlockers, isStartedStatus } from "./blockers.ts";
+import { claimTaskLease, listTaskLeases, releaseTaskLease, ttlMs } from "./leases.ts";
+import { getMilestoneMatchKeys, isDoneStatus, milestoneKey, resolveMilestoneInput } from "./milestones.ts";
+import { computeSequences } from "./sequences.ts";
+
+export interface NextTaskOptions {
+	/** Who the task is for. Tasks assigned to someone else are skipped, their own unstarted tasks come first. */
+	assignee?: string;
+	/** Labels the caller is suited for; tasks with more matching labels rank higher. */
+	skills?: string[];
+	/** Only consider tasks in this milestone (ID or title). */
+	milestone?: string;
+}
+
+export interface NextTaskRecommendation {
+	task: Task;
+	/** Why the task was picked, most important first. */
+	reasons: string[];
+	/** The caller's claim on the task, when it was claimed. */
+	lease?: TaskLease | null;
+}
+
+export interface NextTaskContext {
+	config: Pick<BacklogConfig, "defaultStatus" | "statuses"> | null;
+	milestones: Milestone[];
+	/** Keys of the milestone to limit the search to, if any. */
+	milestoneKeys?: Set<string>;
+	/** Live task leases; tasks claimed by someone else are skipped. */
+	leases?: TaskLease[];
+}
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+const normalizeIdentity = (value: string) => value.trim().replace(/^@/, "").toLowerCase();
+
+/**
+ * Ranks the tasks someone could pick up next, best first. A candidate has not
+ * been started, is in the first sequence (none of its dependencies are open),
+ * is not assigned to or claimed by anyone else and is not in an inactive milestone. Candidates
+ * are ordered by: already assigned to the caller, labels matching their skills,
+ * being in an active milestone, priority, unblocking other tasks, ordinal and ID.
+ */
+export function rankNextTasks(
+	tasks: Task[],
+	context: NextTaskContext,
+	options: NextTaskOptions = {},
+): NextTaskRecommendation[] {
+	const open = tasks.filter((task) => !isDoneStatus(task.status));
+	const { unsequenced, sequences } = computeSequences(open);
+	const dependents = new Map<string, number>();
+	for (const task of open) {
+		for (const dependency of task.dependencies ?? []) {
+			const key = dependency.toUpperCase();
+			dependents.set(key, (dependents.get(key) ?? 0) + 1);
+		}
+	}
+
+	const caller = options.assignee ? normalizeIdentity(options.assignee) : undefined;
+	const skills = new Set((options.skills ?? []).map((skill) => skill.trim().toLowerCase()).filter(Boolean));
+	const activeKeys = new Set(context.milestones.filter((m) => m.active).map((m) => milestoneKey(m.id)));
+	const inactiveKeys = new Set(context.milestones.filter((m) => !m.active).map((m) => milestoneKey(m.id)));
+	const claimedByOthers = new Set(
+		(context.leases ?? [])
+			.filter((lease) => caller === undefined || normalizeIdentity(lease.holder) !== caller)
+			.map((lease) => lease.taskId.toUpperCase()),
+	);
+
+	const ranked = [...(sequences[0]?.tasks ?? []), ...unsequenced]
+		// A dependency cycle ends up in the first sequence when nothing else is open
+		.filter((task) => findOpenBlockers(task, open).length === 0)
+		.filter((task) => !isStartedStatus(task.status, context.config))
+		.filter(
+			(task) =>
+				task.assignee.length === 0 ||
+				(caller !== undefined && task.assignee.some((a) => normalizeIdentity(a) === caller)),
+		)
+		.filter((task) => !claimedByOthers.has(task.id.toUpperCase()))
+		.filter((task) => !inactiveKeys.has(milestoneKey(task.milestone)))
+		.filter((task) => !context.milestoneKeys || context.milestoneKeys.has(milestoneKey(task.milestone)))
+		.map((task) => {
+			const matchedSkills = task.labels.filter((label) => skills.has(label.toLowerCase()));
+			const unblocks = dependents.get(task.id.toUpperCase()) ?? 0;
+			const inActiveMilestone = activeKeys.has(milestoneKey(task.milestone));
+			const reasons: string[] = [];
+			if (task.assignee.length > 0) reasons.push("already assigned to you");
+			if (matchedSkills.length > 0) reasons.push(`matches your skills: ${matchedSkills.join(", ")}`);
+			if (inActiveMilestone) reasons.push(`in active milestone ${task.milestone}`);
+			if (task.priority) reasons.push(`${task.priority} priority`);
+			if (unblocks > 0) reasons.push(`unblocks ${unblocks} task${unblocks === 1 ? "" : "s"}`);
+			if ((task.dependencies ?? []).length > 0) reasons.push("all dependencies done");
+			const score = [
+				task.assignee.length > 0 ? 0 : 1,
+				-matchedSkills.length,
+				inActiveMilestone ? 0 : 1,
+				PRIORITY_RANK[task.priority ?? ""] ?? 3,
+				-unblocks,
+				task.ordinal ?? Number.POSITIVE_INFINITY,
+			];
+			return { task, reasons, score };
+		});
+
+	const idOrder = new Map(sortByTaskId(ranked.map((entry) => entry.task)).map((task, index) => [task.id, index]));
+	ranked.sort((a, b) => {
+		for (let i = 0; i < a.score.length; i++) {
+			const diff = (a.score[i] ?? 0) - (b.score[i] ?? 0);
+			if (diff !== 0 && !Number.isNaN(diff)) return diff;
+		}
+		return (idOrder.get(a.task.id) ?? 0) - (idOrder.get(b.task.id) ?? 0);
+	});
+	return ranked.map(({ task, reasons }) => ({ task, reasons }));
+}
+
+async function loadNextTaskContext(core: Core, milestone?: string): Promise<NextTaskContext> {
+	const [config, milestones, archivedMilestones] = await Promise.all([
+		core.fs.loadConfig(),
+		core.fs.listMilestones(),
+		core.fs.listArchivedMilestones(),
+	]);
+	let milestoneKeys: Set<string> | undefined;
+	if (milestone?.trim()) {
+		const resolved = resolveMilestoneInput(milestone, milestones, archivedMilestones);
+		milestoneKeys = getMilestoneMatchKeys(resolved, [...milestones, ...archivedMilestones]);
+	}
+	return { config, milestones, milestoneKeys, leases: listTaskLeases(core) };
+}
+
+async function rankForCaller(core: Core, options: NextTaskOptions): Promise<NextTaskRecommendation[]> {
+	const context = await loadNextTaskContext(core, options.milestone);
+	const tasks = await core.fs.listTasks();
+	return rankNextTasks(tasks, context, options);
+}
+
+/**
+ * Recommends the task the caller should work on next, or null if nothing is ready.
+ */
+export async function recommendNextTask(
+	core: Core,
+	options: NextTaskOptions = {},
+): Promise<NextTaskRecommendation | null> {
+	return (await rankForCaller(core, options))[0] ?? null;
+}
+
+// Claims run one at a time so two callers asking at once never get the same task
+let claimQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Recommends the next task, leases it to the caller and assigns it to them,
+ * like `task_take`. Candidates another process claimed in the meantime are skipped.
+ */
+export async function claimNextTask(
+	core: Core,
+	options: NextTaskOptions & { assignee: string; ttlMinutes?: number },
+): Promise<NextTaskRecommendation | null> {
+	// Reject a bad lease length even when there is nothing to claim
+	ttlMs(options.ttlMinutes);
+	const claim = claimQueue.then(async () => {
+		for (const candidate of await rankForCaller(core, options)) {
+			const { acquired, lease } = claimTaskLease(core, candidate.task.id, options.assignee, options.ttlMinutes);
+			if (!acquired) continue;
+			if (candidate.task.assignee.length > 0) {
+				return { ...candidate, lease };
+			}
+			try {
+				const task = await core.editTaskOrDraft(candidate.task.id, { assignee: [options.assignee] });
+				return { task, reasons: candidate.reasons, lease };
+			} catch (error) {
+				releaseTaskLease(core, candidate.task.id, options.assignee);
+				throw error;
+			}
+		}
+		return null;
+	});
+	claimQueue = claim.catch(() => undefined);
+	return claim;
+}
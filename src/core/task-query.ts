@@ -1,9 +1,11 @@
 import { DEFAULT_DIRECTORIES, DEFAULT_STATUSES } from "../constants/index.ts";
-import type { SearchFilters, Task, TaskListFilter } from "../types/index.ts";
+import type { SearchFilters, Task, TaskListFilter, TaskSearchResult } from "../types/index.ts";
 import { getTaskPath, normalizeTaskId, taskIdsEqual } from "../utils/task-path.ts";
 import { attachSubtaskSummaries } from "../utils/task-subtasks.ts";
+import { getCurrentActor } from "./actor.ts";
 import type { Core } from "./backlog.ts";
 import { milestoneKey } from "./milestones.ts";
+import { parseSearchQuery, parseTaskQuery, type TaskQueryNode } from "./query-language.ts";
 import {
 	type BranchTaskStateEntry,
 	findTaskInLocalBranches,
@@ -77,6 +79,28 @@ export function getActiveAndCompletedIdsFromStateMap(latestState: Map<string, Br
 	return ids;
 }
 
+/**
+ * Runs a query-language search (see query-language.ts) over the loaded tasks. Milestones are resolved
+ * against the backlog and `assignee:@me` against the user making the request.
+ */
+export async function searchTasksWithQuery(
+	core: Core,
+	query: string | TaskQueryNode,
+	limit?: number,
+): Promise<TaskSearchResult[]> {
+	const node = typeof query === "string" ? parseTaskQuery(query) : query;
+	const [searchService, milestones, archivedMilestones] = await Promise.all([
+		core.getSearchService(),
+		core.fs.listMilestones(),
+		core.fs.listArchivedMilestones(),
+	]);
+	return searchService.searchTasksByQuery(
+		node,
+		{ milestones, archivedMilestones, currentUser: getCurrentActor() },
+		limit,
+	);
+}
+
 export async function queryTasks(core: Core, options: TaskQueryOptions = {}): Promise<Task[]> {
 	const { filters, query, limit, excludeInactiveMilestones } = options;
 	const trimmedQuery = query?.trim();
@@ -92,8 +116,8 @@ export async function queryTasks(core: Core, options: TaskQueryOptions = {}): Pr
 	}
 	const inactiveKeys = inactiveMilestoneKeys;
 
-	const applyFiltersAndLimit = (collection: Task[]): Task[] => {
-		let filtered = applyTaskFilters(collection, filters);
+	const applyFiltersAndLimit = (collection: Task[], allTasks: Task[]): Task[] => {
+		let filtered = applyTaskFilters(collection, filters, allTasks);
 		if (inactiveKeys) {
 			filtered = filtered.filter((task) => {
 				const key = milestoneKey(task.milestone ?? "");
@@ -112,7 +136,14 @@ export async function queryTasks(core: Core, options: TaskQueryOptions = {}): Pr
 	if (!trimmedQuery) {
 		const store = await core.getContentStore();
 		const tasks = store.getTasks();
-		return applyFiltersAndLimit(tasks);
+		return applyFiltersAndLimit(tasks, tasks);
+	}
+
+	const parsedQuery = parseSearchQuery(trimmedQuery);
+	if (parsedQuery) {
+		const matches = (await searchTasksWithQuery(core, parsedQuery)).map((result) => result.task);
+		const allTasks = filters?.ready === undefined ? matches : (await core.getContentStore()).getTasks();
+		return applyFiltersAndLimit(matches, allTasks);
 	}
 
 	const searchService = await core.getSearchService();
@@ -147,7 +178,8 @@ export async function queryTasks(core: Core, options: TaskQueryOptions = {}): Pr
 		tasks.push(task);
 	}
 
-	return applyFiltersAndLimit(tasks);
+	const allTasks = filters?.ready === undefined ? tasks : (await core.getContentStore()).getTasks();
+	return applyFiltersAndLimit(tasks, allTasks);
 }
 
 export async function getTask(core: Core, taskId: string): Promise<Task | null> {
@@ -0,0 +1,171 @@
+import type { TaskEmbedding } from "../file-system/sqlite-coordinator.ts";
+import type { SimilarTask, Task, TaskCreateInput } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+import { cosineSimilarity } from "./embeddings.ts";
+import { isDoneStatus } from "./milestones.ts";
+
+/** Open tasks at least this similar to a new one are reported as possible duplicates. */
+export const DUPLICATE_SIMILARITY = 0.8;
+
+const DEFAULT_LIMIT = 5;
+const DEFAULT_MIN_SCORE = 0.3;
+
+export interface TaskEmbeddingStore {
+	listTaskEmbeddings(): TaskEmbedding[];
+	/** Stores `changed` and drops the embeddings of tasks not in `keepTaskIds`. */
+	saveTaskEmbeddings(changed: TaskEmbedding[], keepTaskIds: string[]): void;
+}
+
+/**
+ * Keeps embeddings for the life of the process, for file systems without a SQLite index.
+ */
+export class MemoryTaskEmbeddingStore implements TaskEmbeddingStore {
+	private embeddings = new Map<string, TaskEmbedding>();
+
+	listTaskEmbeddings(): TaskEmbedding[] {
+		return [...this.embeddings.values()];
+	}
+
+	saveTaskEmbeddings(changed: TaskEmbedding[], keepTaskIds: string[]): void {
+		for (const embedding of changed) {
+			this.embeddings.set(embedding.taskId, embedding);
+		}
+		const keep = new Set(keepTaskIds);
+		for (const taskId of this.embeddings.keys()) {
+			if (!keep.has(taskId)) this.embeddings.delete(taskId);
+		}
+	}
+}
+
+export interface SimilarTaskOptions {
+	/** Maximum number of tasks to return (default 5) */
+	limit?: number;
+	/** Lowest similarity to return, 0 to 1 (default 0.3) */
+	minScore?: number;
+	/** Include Done tasks (default false) */
+	includeDone?: boolean;
+}
+
+type EmbeddableTask = Pick<Task, "title" | "description"> & { acceptanceCriteria?: string[] };
+
+/**
+ * The text a task is embedded from. The title is repeated so it outweighs a long description.
+ */
+function embeddingText(task: EmbeddableTask): string {
+	return [task.title, task.title, task.description ?? "", ...(task.acceptanceCriteria ?? [])].join("\n");
+}
+
+function taskText(task: Task): string {
+	return embeddingText({
+		title: task.title,
+		description: task.description,
+		acceptanceCriteria: task.acceptanceCriteriaItems?.map((criterion) => criterion.text),
+	});
+}
+
+/**
+ * Embeds tasks that are new or changed since the last call and returns every task's vector.
+ */
+async function indexTasks(core: Core, tasks: Task[]): Promise<Map<string, number[]>> {
+	const provider = core.embeddingProvider;
+	const store = core.getTaskEmbeddingStore();
+	const stored = new Map(store.listTaskEmbeddings().map((embedding) => [embedding.taskId, embedding]));
+
+	const pending = tasks
+		.map((task) => {
+			const text = taskText(task);
+			return { taskId: task.id, text, checksum: Bun.hash(`${provider.id}\u0000${text}`).toString(36) };
+		})
+		.filter((entry) => stored.get(entry.taskId)?.checksum !== entry.checksum);
+
+	const changed: TaskEmbedding[] = [];
+	if (pending.length > 0) {
+		const vectors = await provider.embed(pending.map((entry) => entry.text));
+		pending.forEach((entry, index) => {
+			changed.push({ taskId: entry.taskId, checksum: entry.checksum, vector: vectors[index] ?? [] });
+		});
+	}
+	store.saveTaskEmbeddings(
+		changed,
+		tasks.map((task) => task.id),
+	);
+
+	const vectors = new Map<string, number[]>();
+	for (const embedding of [...stored.values(), ...changed]) {
+		vectors.set(embedding.taskId, embedding.vector);
+	}
+	return vectors;
+}
+
+function rankSimilar(
+	target: number[],
+	tasks: Task[],
+	vectors: Map<string, number[]>,
+	options: SimilarTaskOptions,
+	excludeId?: string,
+): SimilarTask[] {
+	const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+	const results: SimilarTask[] = [];
+	for (const task of tasks) {
+		if (task.id === excludeId || (!options.includeDone && isDoneStatus(task.status))) continue;
+		const vector = vectors.get(task.id);
+		if (!vector) continue;
+		const score = cosineSimilarity(target, vector);
+		if (score >= minScore) {
+			results.push({ task, score });
+		}
+	}
+	results.sort((a, b) => b.score - a.score);
+	return results.slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+/**
+ * Finds the tasks worded most like the given task, most similar first. Returns null when the
+ * task does not exist.
+ */
+export async function findSimilarTasks(
+	core: Core,
+	taskId: string,
+	options: SimilarTaskOptions = {},
+): Promise<SimilarTask[] | null> {
+	const task = await core.getTask(taskId);
+	if (!task) {
+		return null;
+	}
+	const tasks = (await core.getContentStore()).getTasks();
+	const vectors = await indexTasks(core, tasks);
+	const target = vectors.get(task.id) ?? (await core.embeddingProvider.embed([taskText(task)]))[0] ?? [];
+	return rankSimilar(target, tasks, vectors, options, task.id);
+}
+
+/**
+ * Finds the tasks worded most like free text, for example a task that is about to be created.
+ */
+export async function findTasksSimilarToText(
+	core: Core,
+	text: string,
+	options: SimilarTaskOptions = {},
+): Promise<SimilarTask[]> {
+	const tasks = (await core.getContentStore()).getTasks();
+	const vectors = await indexTasks(core, tasks);
+	const [target] = await core.embeddingProvider.embed([text]);
+	return rankSimilar(target ?? [], tasks, vectors, options);
+}
+
+/**
+ * Lists open tasks so close to a task being created that it is probably a duplicate.
+ * Never throws: failing to check must not stop the task from being created.
+ */
+export async function findPossibleDuplicates(core: Core, input: TaskCreateInput): Promise<SimilarTask[]> {
+	try {
+		const text = embeddingText({
+			title: input.title,
+			description: input.description,
+			acceptanceCriteria: input.acceptanceCriteria,
+		});
+		return await findTasksSimilarToText(core, text, { minScore: DUPLICATE_SIMILARITY, limit: 3 });
+	} catch (error) {
+		console.error("Failed to check for duplicate tasks:", error);
+		return [];
+	}
+}
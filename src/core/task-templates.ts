@@ -0,0 +1,179 @@
+import type { Milestone, SimilarTask, Task, TaskCreateInput, TaskTemplate } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+import { resolveMilestoneInput } from "./milestones.ts";
+
+export interface TemplateTaskOptions {
+	/** Values for the template's own placeholders, e.g. `{ version: "2.1" }` for `{{version}}` */
+	variables?: Record<string, string>;
+	/** Milestone ID or title for the task and its subtasks; also fills `{{milestone}}` */
+	milestone?: string;
+	/** Fields that replace the template's, such as values edited in the web form */
+	overrides?: Partial<TaskCreateInput>;
+	/** Recurring run the task is created for, recorded on it so the run is not repeated */
+	occurrence?: string;
+	now?: Date;
+}
+
+export interface TemplateTaskResult {
+	task: Task;
+	subtasks: Task[];
+	possibleDuplicates: SimilarTask[];
+}
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Placeholders every template can use without being given a value. */
+export const BUILT_IN_TEMPLATE_PLACEHOLDERS = ["date", "week", "milestone"] as const;
+
+/** ISO 8601 week of a UTC date, e.g. "2026-W42". */
+export function isoWeek(date: Date): string {
+	const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+	// The ISO week belongs to the year of its Thursday
+	day.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+	const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+	const week = Math.ceil(((day.getTime() - yearStart) / 86_400_000 + 1) / 7);
+	return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/** Values of `{{date}}`, `{{week}}` and, when there is a milestone, `{{milestone}}` (its title). */
+export function builtInTemplateValues(now: Date, milestone?: Pick<Milestone, "title">): Record<string, string> {
+	return {
+		date: now.toISOString().slice(0, 10),
+		week: isoWeek(now),
+		...(milestone && { milestone: milestone.title }),
+	};
+}
+
+/**
+ * Replaces `{{name}}` placeholders with their values. Placeholders without a value are left as
+ * they are, so a form can show them for the user to fill in.
+ */
+export function renderTemplateText(text: string, values: Record<string, string>): string {
+	return text.replace(PLACEHOLDER, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/** Names of the placeholders used in the given texts, in order of appearance. */
+export function findTemplatePlaceholders(texts: Array<string | undefined>): string[] {
+	const names = new Set<string>();
+	for (const text of texts) {
+		for (const match of (text ?? "").matchAll(PLACEHOLDER)) {
+			if (match[1]) names.add(match[1]);
+		}
+	}
+	return [...names];
+}
+
+/** Placeholders of a template that callers have to supply, i.e. all but the built-in ones. */
+export function templateVariables(template: TaskTemplate): string[] {
+	return findTemplatePlaceholders([
+		template.title,
+		template.description,
+		template.implementationPlan,
+		...template.acceptanceCriteria,
+		...template.subtasks,
+	]).filter((name) => !(BUILT_IN_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+/**
+ * Finds a template by ID ("template-1" or "1") or, failing that, by name, ignoring case.
+ */
+export async function getTaskTemplate(core: Core, idOrName: string): Promise<TaskTemplate | null> {
+	const templates = await core.fs.listTemplates();
+	const id = `template-${idOrName.trim().replace(/^template-/i, "")}`.toLowerCase();
+	const name = idOrName.trim().toLowerCase();
+	return (
+		templates.find((template) => template.id.toLowerCase() === id) ??
+		templates.find((template) => template.name.trim().toLowerCase() === name) ??
+		null
+	);
+}
+
+/**
+ * Creates a task, and the template's subtasks under it, from a template. Every placeholder
+ * must have a value; the error names the missing ones.
+ */
+export async function createTaskFromTemplate(
+	core: Core,
+	idOrName: string,
+	options: TemplateTaskOptions = {},
+	autoCommit?: boolean,
+): Promise<TemplateTaskResult> {
+	const template = await getTaskTemplate(core, idOrName);
+	if (!template) {
+		throw new Error(`Template not found: ${idOrName}`);
+	}
+
+	let milestone: Milestone | undefined;
+	let milestoneId: string | undefined;
+	const milestoneInput = options.overrides?.milestone ?? options.milestone;
+	if (milestoneInput?.trim()) {
+		const [milestones, archivedMilestones] = await Promise.all([
+			core.fs.listMilestones(),
+			core.fs.listArchivedMilestones(),
+		]);
+		milestoneId = resolveMilestoneInput(milestoneInput, milestones, archivedMilestones);
+		milestone = [...milestones, ...archivedMilestones].find((entity) => entity.id === milestoneId);
+	}
+
+	const values = {
+		...builtInTemplateValues(
+			options.now ?? new Date(),
+			milestone ?? (milestoneId ? { title: milestoneId } : undefined),
+		),
+		...options.variables,
+	};
+	const input: TaskCreateInput = {
+		title: template.title,
+		description: template.description,
+		implementationPlan: template.implementationPlan,
+		acceptanceCriteria: template.acceptanceCriteria,
+		labels: template.labels,
+		assignee: template.assignee,
+		priority: template.priority,
+		status: template.status,
+		...options.overrides,
+		milestone: milestoneId,
+		template: template.id,
+		occurrence: options.occurrence,
+	};
+
+	const missing = findTemplatePlaceholders([
+		input.title,
+		input.description,
+		input.implementationPlan,
+		...(input.acceptanceCriteria ?? []),
+		...template.subtasks,
+	]).filter((name) => values[name] === undefined);
+	if (missing.length > 0) {
+		const list = missing.map((name) => `{{${name}}}`).join(", ");
+		throw new Error(`Template "${template.name}" needs a value for ${list}.`);
+	}
+
+	const render = (text?: string) => (text === undefined ? undefined : renderTemplateText(text, values));
+	const { task, possibleDuplicates } = await core.createTaskFromInput(
+		{
+			...input,
+			title: renderTemplateText(input.title, values),
+			description: render(input.description),
+			implementationPlan: render(input.implementationPlan),
+			acceptanceCriteria: input.acceptanceCriteria?.map((criterion) => renderTemplateText(criterion, values)),
+		},
+		autoCommit,
+	);
+
+	const subtasks: Task[] = [];
+	for (const title of template.subtasks) {
+		const { task: subtask } = await core.createTaskFromInput(
+			{
+				title: renderTemplateText(title, values),
+				parentTaskId: task.id,
+				labels: input.labels,
+				milestone: milestoneId,
+			},
+			autoCommit,
+		);
+		subtasks.push(subtask);
+	}
+
+	return { task, subtasks, possibleDuplicates };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "bun:test";
+import { buildStatusTimeseries, type TaskStateSnapshot } from "./timeseries.ts";
+
+const STATUSES = ["To Do", "In Progress", "Done"];
+
+describe("buildStatusTimeseries", () => {
+	const timelines: TaskStateSnapshot[][] = [
+		[
+			{ date: "2026-02-01", status: "To Do", milestone: "m-1", estimate: 3 },
+			{ date: "2026-02-02", status: "In Progress", milestone: "m-1", estimate: 3 },
+			{ date: "2026-02-04", status: "Done", milestone: "m-1", estimate: 3 },
+		],
+		[
+			{ date: "2026-02-03", status: "To Do", milestone: "m-1", estimate: 2 },
+			{ date: "2026-02-03", status: "In Progress", milestone: "m-1", estimate: 2 },
+		],
+		[{ date: "2026-01-20", status: "To Do" }],
+	];
+
+	it("counts each task in its last status on or before each day", () => {
+		const series = buildStatusTimeseries(timelines, { statuses: STATUSES, to: "2026-02-04" });
+		expect(series.from).toBe("2026-01-20");
+		expect(series.points).toHaveLength(16);
+		expect(series.points.at(-1)).toEqual({
+			date: "2026-02-04",
+			statusCounts: { "To Do": 1, "In Progress": 1, Done: 1 },
+			total: 3,
+			remaining: 2,
+			remainingEffort: 2,
+		});
+	});
+
+	it("limits a burndown to the days tasks were in the milestone", () => {
+		const series = buildStatusTimeseries(timelines, {
+			statuses: STATUSES,
+			to: "2026-02-04",
+			milestoneKeys: new Set(["m-1"]),
+		});
+		expect(series.from).toBe("2026-02-01");
+		expect(series.points.map((point) => [point.date, point.remaining, point.total, point.remainingEffort])).toEqual([
+			["2026-02-01", 1, 1, 3],
+			["2026-02-02", 1, 1, 3],
+			["2026-02-03", 2, 2, 5],
+			["2026-02-04", 1, 2, 2],
+		]);
+	});
+
+	it("adds statuses that are no longer configured", () => {
+		const series = buildStatusTimeseries([[{ date: "2026-03-01", status: "Review" }]], {
+			statuses: STATUSES,
+			to: "2026-03-01",
+		});
+		expect(series.statuses).toEqual([...STATUSES, "Review"]);
+		expect(series.points[0]?.statusCounts.Review).toBe(1);
+	});
+});
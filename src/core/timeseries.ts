@@ -0,0 +1,173 @@
+import { DEFAULT_STATUSES } from "../constants/index.ts";
+import type { StatusTimeseries, Task, TimeseriesPoint } from "../types/index.ts";
+import type { Core } from "./backlog.ts";
+import { getMilestoneMatchKeys, isDoneStatus, milestoneKey, resolveMilestoneInput } from "./milestones.ts";
+import type { TaskVersion } from "./task-history.ts";
+
+/** The fields of a task that the timeseries tracks, as of one day. */
+export interface TaskStateSnapshot {
+	date: string; // YYYY-MM-DD
+	status: string;
+	milestone?: string;
+	estimate?: number;
+}
+
+export interface StatusTimeseriesOptions {
+	milestone?: string;
+	from?: string;
+	to?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function today(): string {
+	return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+	return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function snapshotOf(task: Task, date: string): TaskStateSnapshot {
+	return {
+		date,
+		status: task.status,
+		...(task.milestone && { milestone: task.milestone }),
+		...(typeof task.estimate === "number" && { estimate: task.estimate }),
+	};
+}
+
+function inScope(snapshot: TaskStateSnapshot, milestoneKeys: Set<string> | undefined): boolean {
+	return !milestoneKeys || milestoneKeys.has(milestoneKey(snapshot.milestone));
+}
+
+/**
+ * Builds per-day status counts from the state changes of each task.
+ *
+ * `timelines` holds one list of snapshots per task, oldest first. A task counts
+ * from its first snapshot on, with the last state recorded on or before each
+ * day. When `milestoneKeys` is given, a task is counted on the days its
+ * milestone matched, so scope added to or removed from a milestone shows up in
+ * its burndown. `from` defaults to the first day any task was in scope.
+ */
+export function buildStatusTimeseries(
+	timelines: TaskStateSnapshot[][],
+	options: { statuses: string[]; from?: string; to: string; milestoneKeys?: Set<string> },
+): StatusTimeseries {
+	const { milestoneKeys, to } = options;
+	let from = options.from;
+	if (!from) {
+		const firstDates = timelines
+			.flatMap((timeline) => timeline.filter((snapshot) => inScope(snapshot, milestoneKeys)))
+			.map((snapshot) => snapshot.date)
+			.sort();
+		from = firstDates[0] && firstDates[0] < to ? firstDates[0] : to;
+	}
+
+	const statuses = [...options.statuses];
+	for (const timeline of timelines) {
+		for (const snapshot of timeline) {
+			if (snapshot.status && inScope(snapshot, milestoneKeys) && !statuses.includes(snapshot.status)) {
+				statuses.push(snapshot.status);
+			}
+		}
+	}
+
+	// One cursor per task, advanced as the days move forward
+	const cursors = timelines.map(() => -1);
+	const points: TimeseriesPoint[] = [];
+	for (let date = from; date <= to; date = addDays(date, 1)) {
+		const statusCounts: Record<string, number> = Object.fromEntries(statuses.map((status) => [status, 0]));
+		let total = 0;
+		let remaining = 0;
+		let remainingEffort = 0;
+		timelines.forEach((timeline, index) => {
+			let cursor = cursors[index] ?? -1;
+			while (cursor + 1 < timeline.length && (timeline[cursor + 1]?.date ?? "") <= date) cursor++;
+			cursors[index] = cursor;
+			const snapshot = timeline[cursor];
+			if (!snapshot?.status || !inScope(snapshot, milestoneKeys)) return;
+			statusCounts[snapshot.status] = (statusCounts[snapshot.status] ?? 0) + 1;
+			total++;
+			if (!isDoneStatus(snapshot.status)) {
+				remaining++;
+				remainingEffort += snapshot.estimate ?? 0;
+			}
+		});
+		points.push({ date, statusCounts, total, remaining, remainingEffort: Math.round(remainingEffort * 100) / 100 });
+	}
+
+	return { from, to, statuses, points };
+}
+
+/**
+ * Lists active and completed tasks, the ones whose history the charts and analytics follow.
+ */
+export async function listActiveAndCompletedTasks(core: Core): Promise<Task[]> {
+	const [activeTasks, completedTasks] = await Promise.all([core.fs.listTasks(), core.fs.listCompletedTasks()]);
+	const tasksById = new Map<string, Task>();
+	for (const task of [...activeTasks, ...completedTasks]) {
+		if (!tasksById.has(task.id)) tasksById.set(task.id, task);
+	}
+	return [...tasksById.values()];
+}
+
+/**
+ * Reconstructs the state of a task on each day it changed from the committed
+ * versions of its file, oldest first. The current file contents are recorded as
+ * of today so uncommitted edits are included; tasks without history start at
+ * their created date.
+ */
+function buildTaskTimeline(task: Task, versions: TaskVersion[]): TaskStateSnapshot[] {
+	const timeline = versions.map((version) => snapshotOf(version.task, version.date.slice(0, 10)));
+	const createdDate = task.createdDate.slice(0, 10);
+	const currentDate = timeline.length > 0 ? today() : DATE_PATTERN.test(createdDate) ? createdDate : today();
+	timeline.push(snapshotOf(task, currentDate));
+	return timeline;
+}
+
+/**
+ * Builds daily status counts for active and completed tasks, optionally limited
+ * to one milestone, for burndown and cumulative flow charts. Archived tasks are
+ * left out. Throws if `from` or `to` is not a YYYY-MM-DD date.
+ */
+export async function getStatusTimeseries(
+	core: Core,
+	options: StatusTimeseriesOptions = {},
+): Promise<StatusTimeseries> {
+	for (const value of [options.from, options.to]) {
+		if (value !== undefined && !DATE_PATTERN.test(value)) {
+			throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD.`);
+		}
+	}
+	const to = options.to ?? today();
+	if (options.from && options.from > to) {
+		throw new Error(`Invalid range: ${options.from} is after ${to}.`);
+	}
+
+	const config = await core.fs.loadConfig();
+	const tasks = await listActiveAndCompletedTasks(core);
+
+	let milestone: string | undefined;
+	let milestoneKeys: Set<string> | undefined;
+	if (options.milestone?.trim()) {
+		const [activeMilestones, archivedMilestones] = await Promise.all([
+			core.fs.listMilestones(),
+			core.fs.listArchivedMilestones(),
+		]);
+		milestone = resolveMilestoneInput(options.milestone, activeMilestones, archivedMilestones);
+		milestoneKeys = getMilestoneMatchKeys(milestone, [...activeMilestones, ...archivedMilestones]);
+	}
+
+	const versions = await core.getTaskVersionCache().getVersions(tasks);
+	const timelines = tasks.map((task) => buildTaskTimeline(task, versions.get(task.id) ?? []));
+
+	const series = buildStatusTimeseries(timelines, {
+		statuses: config?.statuses ?? [...DEFAULT_STATUSES],
+		from: options.from,
+		to,
+		milestoneKeys,
+	});
+	return milestone ? { milestone, ...series } : series;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "../types/index.ts";
+import { type BacklogSnapshot, validateBacklogSnapshot } from "./validation.ts";
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+	return {
+		id,
+		title: id,
+		status: "To Do",
+		assignee: [],
+		createdDate: "2026-01-01",
+		labels: [],
+		dependencies: [],
+		...overrides,
+	};
+}
+
+function snapshot(overrides: Partial<BacklogSnapshot>): BacklogSnapshot {
+	return {
+		tasks: [],
+		drafts: [],
+		completedTasks: [],
+		archivedTasks: [],
+		statuses: ["To Do", "In Progress", "Done"],
+		milestones: [{ id: "m-1", title: "Beta", description: "", active: false, rawContent: "" }],
+		archivedMilestones: [],
+		...overrides,
+	};
+}
+
+describe("validateBacklogSnapshot", () => {
+	it("accepts links to completed tasks and milestones by ID or title", () => {
+		const report = validateBacklogSnapshot(
+			snapshot({
+				tasks: [
+					task("TASK-2", { dependencies: ["task-1"], milestone: "m-1", status: "in progress" }),
+					task("TASK-2.1", { parentTaskId: "TASK-2", milestone: "Beta" }),
+				],
+				completedTasks: [task("TASK-1", { status: "Done" })],
+			}),
+		);
+		expect(report).toEqual({ valid: true, checked: 2, issues: [] });
+	});
+
+	it("reports cycles, missing links, unknown statuses and unknown milestones", () => {
+		const report = validateBacklogSnapshot(
+			snapshot({
+				tasks: [
+					task("TASK-1", { dependencies: ["TASK-2"] }),
+					task("TASK-2", { dependencies: ["TASK-1", "TASK-3"], status: "Blocked" }),
+					task("TASK-4.1", { parentTaskId: "TASK-4", milestone: "Gamma" }),
+				],
+				drafts: [task("DRAFT-1", { status: "Draft", dependencies: ["TASK-9"] })],
+				archivedTasks: [task("TASK-3")],
+			}),
+		);
+		expect(report.valid).toBe(false);
+		expect(report.checked).toBe(4);
+		expect(report.issues.map((issue) => [issue.kind, issue.message])).toEqual([
+			["cycle", "Dependency cycle between TASK-1, TASK-2"],
+			["dangling-dependency", "TASK-2 depends on TASK-3, which is archived"],
+			["unknown-status", 'TASK-2 has status "Blocked", which is not one of To Do, In Progress, Done'],
+			["missing-parent", "TASK-4.1 has parent TASK-4, which does not exist"],
+			["unknown-milestone", 'TASK-4.1 is in milestone "Gamma", which does not exist'],
+			["dangling-dependency", "DRAFT-1 depends on TASK-9, which does not exist"],
+		]);
+		expect(report.issues[0]?.taskIds).toEqual(["TASK-1", "TASK-2"]);
+	});
+});
@@ -0,0 +1,122 @@
+import { DEFAULT_STATUSES } from "../constants/index.ts";
+import type { Milestone, Task } from "../types/index.ts";
+import { taskIdsEqual } from "../utils/task-path.ts";
+import type { Core } from "./backlog.ts";
+import { buildMilestoneAliasMap, milestoneKey } from "./milestones.ts";
+import { findDependencyCycles } from "./sequences.ts";
+
+export type ValidationIssueKind =
+	| "cycle"
+	| "dangling-dependency"
+	| "missing-parent"
+	| "unknown-status"
+	| "unknown-milestone";
+
+export interface ValidationIssue {
+	kind: ValidationIssueKind;
+	/** The task the issue was found on, or every task in the cycle. */
+	taskIds: string[];
+	message: string;
+}
+
+export interface BacklogValidationReport {
+	valid: boolean;
+	/** Active tasks and drafts that were checked. */
+	checked: number;
+	issues: ValidationIssue[];
+}
+
+export interface BacklogSnapshot {
+	tasks: Task[];
+	drafts: Task[];
+	completedTasks: Task[];
+	archivedTasks: Task[];
+	statuses: string[];
+	milestones: Milestone[];
+	archivedMilestones: Milestone[];
+}
+
+/**
+ * Checks active tasks and drafts for dependency cycles, dependencies and parents
+ * that do not exist (or are archived), statuses missing from the configuration
+ * and milestones that do not exist. Completed tasks are valid dependency and
+ * parent targets but are not checked themselves.
+ */
+export function validateBacklogSnapshot(snapshot: BacklogSnapshot): BacklogValidationReport {
+	const checkedTasks = [...snapshot.tasks, ...snapshot.drafts];
+	const linkable = [...checkedTasks, ...snapshot.completedTasks];
+	const describeMissing = (id: string) =>
+		snapshot.archivedTasks.some((archived) => taskIdsEqual(id, archived.id)) ? "is archived" : "does not exist";
+	const exists = (id: string) => linkable.some((candidate) => taskIdsEqual(id, candidate.id));
+
+	const issues: ValidationIssue[] = findDependencyCycles(checkedTasks).map((cycle) => ({
+		kind: "cycle",
+		taskIds: cycle,
+		message: `Dependency cycle between ${cycle.join(", ")}`,
+	}));
+
+	const statusKeys = new Set(snapshot.statuses.map((status) => status.trim().toLowerCase()));
+	const milestoneAliases = buildMilestoneAliasMap(snapshot.milestones, snapshot.archivedMilestones);
+
+	for (const task of checkedTasks) {
+		for (const dependency of task.dependencies ?? []) {
+			if (exists(dependency)) continue;
+			issues.push({
+				kind: "dangling-dependency",
+				taskIds: [task.id],
+				message: `${task.id} depends on ${dependency}, which ${describeMissing(dependency)}`,
+			});
+		}
+
+		if (task.parentTaskId && !exists(task.parentTaskId)) {
+			issues.push({
+				kind: "missing-parent",
+				taskIds: [task.id],
+				message: `${task.id} has parent ${task.parentTaskId}, which ${describeMissing(task.parentTaskId)}`,
+			});
+		}
+
+		const isDraft = snapshot.drafts.includes(task);
+		if (!isDraft && task.status && !statusKeys.has(task.status.trim().toLowerCase())) {
+			issues.push({
+				kind: "unknown-status",
+				taskIds: [task.id],
+				message: `${task.id} has status "${task.status}", which is not one of ${snapshot.statuses.join(", ")}`,
+			});
+		}
+
+		if (task.milestone?.trim() && !milestoneAliases.has(milestoneKey(task.milestone))) {
+			issues.push({
+				kind: "unknown-milestone",
+				taskIds: [task.id],
+				message: `${task.id} is in milestone "${task.milestone}", which does not exist`,
+			});
+		}
+	}
+
+	return { valid: issues.length === 0, checked: checkedTasks.length, issues };
+}
+
+/**
+ * Validates the whole backlog as stored on disk.
+ */
+export async function validateBacklog(core: Core): Promise<BacklogValidationReport> {
+	const [tasks, drafts, completedTasks, archivedTasks, config, milestones, archivedMilestones] = await Promise.all([
+		core.fs.listTasks(),
+		core.fs.listDrafts(),
+		core.fs.listCompletedTasks(),
+		core.fs.listArchivedTasks(),
+		core.fs.loadConfig(),
+		core.fs.listMilestones(),
+		core.fs.listArchivedMilestones(),
+	]);
+	return validateBacklogSnapshot({
+		tasks,
+		drafts,
+		completedTasks,
+		archivedTasks,
+		statuses: config?.statuses ?? [...DEFAULT_STATUSES],
+		milestones,
+		archivedMilestones,
+	});
+}
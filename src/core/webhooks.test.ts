@@ -0,0 +1,200 @@
+import { describe, expect, it } from "bun:test";
+import type { FileSystem } from "../file-system/operations.ts";
+import { makeTask } from "../test/fixtures.ts";
+import type { BacklogConfig, Milestone, Task, WebhookConfig } from "../types/index.ts";
+import type { ContentStore, ContentStoreListener } from "./content-store.ts";
+import { signWebhookPayload, WebhookDispatcher, type WebhookPayload } from "./webhooks.ts";
+
+function makeFilesystem(webhooks: WebhookConfig[], completed: Task[] = []): FileSystem {
+	const config = { projectName: "Hooks", statuses: ["To Do", "Done"], webhooks } as BacklogConfig;
+	return {
+		loadConfig: async () => config,
+		listCompletedTasks: async () => completed,
+		createMilestone: async (title: string): Promise<Milestone> => ({
+			id: "m-1",
+			title,
+			description: "",
+			active: true,
+			rawContent: "",
+		}),
+		renameMilestone: async () => ({ success: false }),
+		archiveMilestone: async () => ({ success: false }),
+		updateMilestoneActive: async () => ({ success: false }),
+	} as unknown as FileSystem;
+}
+
+function makeStore() {
+	let listener: ContentStoreListener | undefined;
+	const store = {
+		subscribe(next: ContentStoreListener) {
+			listener = next;
+			return () => {
+				listener = undefined;
+			};
+		},
+	} as unknown as ContentStore;
+	const emit = (type: "ready" | "tasks", tasks: Task[]) => {
+		const snapshot = { tasks, documents: [], decisions: [] };
+		listener?.(type === "ready" ? { type, snapshot, version: 1 } : { type, tasks, snapshot, version: 2 });
+	};
+	return { store, emit };
+}
+
+type Captured = { url: string; headers: Record<string, string>; body: string };
+
+function recordingFetch(statuses: number[] = []) {
+	const requests: Captured[] = [];
+	const fetchImpl = (async (url: string, init: RequestInit) => {
+		requests.push({ url, headers: init.headers as Record<string, string>, body: init.body as string });
+		const status = statuses.shift() ?? 200;
+		return new Response(null, { status });
+	}) as unknown as typeof fetch;
+	return { requests, fetchImpl };
+}
+
+describe("WebhookDispatcher", () => {
+	it("emits created, updated and status_changed events from store snapshots", async () => {
+		const { requests, fetchImpl } = recordingFetch();
+		const dispatcher = new WebhookDispatcher(makeFilesystem([{ url: "http://hooks.test/a" }]), { fetch: fetchImpl });
+		const { store, emit } = makeStore();
+		dispatcher.start(store);
+
+		emit("ready", [makeTask()]);
+		emit("tasks", [makeTask({ status: "Done" }), makeTask({ id: "TASK-2", title: "New" })]);
+		await dispatcher.flush();
+
+		const events = requests.map((request) => (JSON.parse(request.body) as WebhookPayload).event).sort();
+		expect(events).toEqual(["task.created", "task.status_changed", "task.updated"]);
+		const statusChange = requests
+			.map((request) => JSON.parse(request.body) as WebhookPayload)
+			.find((payload) => payload.event === "task.status_changed");
+		expect(statusChange?.project).toBe("Hooks");
+		expect(statusChange?.data).toMatchObject({ from: "To Do", to: "Done" });
+		dispatcher.stop();
+	});
+
+	it("distinguishes completed from archived removals", async () => {
+		const { requests, fetchImpl } = recordingFetch();
+		const completed = [makeTask({ id: "TASK-1" })];
+		const dispatcher = new WebhookDispatcher(makeFilesystem([{ url: "http://hooks.test/a" }], completed), {
+			fetch: fetchImpl,
+			removalGraceMs: 1,
+		});
+		const { store, emit } = makeStore();
+		dispatcher.start(store);
+
+		emit("ready", [makeTask(), makeTask({ id: "TASK-2" })]);
+		emit("tasks", []);
+		await dispatcher.flush();
+
+		const events = requests.map((request) => (JSON.parse(request.body) as WebhookPayload).event).sort();
+		expect(events).toEqual(["task.archived", "task.completed"]);
+		dispatcher.stop();
+	});
+
+	it("ignores tasks that briefly disappear while their file is rewritten", async () => {
+		const { requests, fetchImpl } = recordingFetch();
+		const dispatcher = new WebhookDispatcher(makeFilesystem([{ url: "http://hooks.test/a" }]), {
+			fetch: fetchImpl,
+			removalGraceMs: 5,
+		});
+		const { store, emit } = makeStore();
+		dispatcher.start(store);
+
+		emit("ready", [makeTask()]);
+		emit("tasks", []);
+		emit("tasks", [makeTask({ status: "Done" })]);
+		await dispatcher.flush();
+
+		const events = requests.map((request) => (JSON.parse(request.body) as WebhookPayload).event).sort();
+		expect(events).toEqual(["task.status_changed", "task.updated"]);
+		dispatcher.stop();
+	});
+
+	it("filters by subscribed events and signs the body", async () => {
+		process.env.BACKLOG_TEST_WEBHOOK_SECRET = "s3cret";
+		const { requests, fetchImpl } = recordingFetch();
+		const webhooks = [
+			{
+				url: "http://hooks.test/status",
+				secretEnv: "BACKLOG_TEST_WEBHOOK_SECRET",
+				events: ["task.status_changed" as const],
+			},
+			{ url: "http://hooks.test/milestones", events: ["milestone.created" as const] },
+		];
+		const dispatcher = new WebhookDispatcher(makeFilesystem(webhooks), { fetch: fetchImpl });
+		await dispatcher.dispatch("task.status_changed", { from: "To Do", to: "Done" });
+		await dispatcher.flush();
+
+		expect(requests).toHaveLength(1);
+		const [request] = requests;
+		expect(request?.url).toBe("http://hooks.test/status");
+		expect(request?.headers["X-Backlog-Event"]).toBe("task.status_changed");
+		expect(request?.headers["X-Backlog-Signature"]).toBe(signWebhookPayload(request?.body ?? "", "s3cret"));
+		delete process.env.BACKLOG_TEST_WEBHOOK_SECRET;
+	});
+
+	it("fails deliveries whose secret variable is not set instead of sending them unsigned", async () => {
+		const { requests, fetchImpl } = recordingFetch();
+		const dispatcher = new WebhookDispatcher(
+			makeFilesystem([{ url: "http://hooks.test/a", secretEnv: "BACKLOG_TEST_MISSING_SECRET" }]),
+			{ fetch: fetchImpl },
+		);
+		await dispatcher.dispatch("task.created", {});
+		await dispatcher.flush();
+
+		expect(requests).toHaveLength(0);
+		const [delivery] = dispatcher.getDeliveries();
+		expect(delivery?.status).toBe("failed");
+		expect(delivery?.attempts[0]?.error).toBe("Environment variable BACKLOG_TEST_MISSING_SECRET is not set");
+	});
+
+	it("emits milestone events through the patched filesystem", async () => {
+		const { requests, fetchImpl } = recordingFetch();
+		const fs = makeFilesystem([{ url: "http://hooks.test/a" }]);
+		const original = fs.createMilestone;
+		const dispatcher = new WebhookDispatcher(fs, { fetch: fetchImpl });
+		dispatcher.start(makeStore().store);
+
+		await fs.createMilestone("v1");
+		await dispatcher.flush();
+		expect((JSON.parse(requests[0]?.body ?? "{}") as WebhookPayload).event).toBe("milestone.created");
+
+		dispatcher.stop();
+		expect(fs.createMilestone).toBe(original);
+	});
+
+	it("retries failed deliveries and records each attempt", async () => {
+		const { requests, fetchImpl } = recordingFetch([500, 502, 200]);
+		const dispatcher = new WebhookDispatcher(makeFilesystem([{ url: "http://hooks.test/a" }]), {
+			fetch: fetchImpl,
+			retryDelaysMs: [1, 1, 1],
+		});
+		await dispatcher.dispatch("task.created", {});
+		await dispatcher.flush();
+
+		expect(requests).toHaveLength(3);
+		const [delivery] = dispatcher.getDeliveries();
+		expect(delivery?.status).toBe("delivered");
+		expect(delivery?.attempts.map((attempt) => attempt.status)).toEqual([500, 502, 200]);
+		// Every retry reuses the delivery id so receivers can deduplicate
+		expect(new Set(requests.map((request) => request.headers["X-Backlog-Delivery"])).size).toBe(1);
+	});
+
+	it("marks a delivery failed once retries are exhausted", async () => {
+		const fetchImpl = (async () => {
+			throw new Error("connection refused");
+		}) as unknown as typeof fetch;
+		const dispatcher = new WebhookDispatcher(makeFilesystem([{ url: "http://hooks.test/a" }]), {
+			fetch: fetchImpl,
+			retryDelaysMs: [1],
+		});
+		await dispatcher.dispatch("task.created", {});
+		await dispatcher.flush();
+
+		const [delivery] = dispatcher.getDeliveries();
+		expect(delivery?.status).toBe("failed");
+		expect(delivery?.attempts).toHaveLength(2);
+		expect(delivery?.attempts[1]?.error).toBe("connection refused");
+	});
+});
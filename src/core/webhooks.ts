@@ -0,0 +1,341 @@
+import { createHmac, randomUUID } from "node:crypto";
+import type { FileSystem } from "../file-system/operations.ts";
+import type { Milestone, Task, WebhookConfig, WebhookEventType } from "../types/index.ts";
+import { normalizeTaskId } from "../utils/task-path.ts";
+import type { ContentStore, ContentStoreEvent } from "./content-store.ts";
+import { diffTaskVersions } from "./task-history.ts";
+
+export interface WebhookPayload {
+	id: string;
+	event: WebhookEventType;
+	timestamp: string;
+	project: string;
+	data: Record<string, unknown>;
+}
+
+export interface WebhookDeliveryAttempt {
+	attempt: number;
+	timestamp: string;
+	status?: number;
+	error?: string;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	event: WebhookEventType;
+	url: string;
+	status: "pending" | "delivered" | "failed";
+	attempts: WebhookDeliveryAttempt[];
+	createdAt: string;
+}
+
+export interface WebhookDispatcherOptions {
+	/** Delays before each retry; the number of entries is the number of retries. */
+	retryDelaysMs?: number[];
+	/** How many deliveries to keep in the in-memory log. */
+	logSize?: number;
+	/** How long a task must stay missing from the store before it counts as completed or archived. */
+	removalGraceMs?: number;
+	fetch?: typeof fetch;
+}
+
+const DEFAULT_RETRY_DELAYS_MS = [1_000, 5_000, 30_000];
+const DEFAULT_LOG_SIZE = 200;
+const DEFAULT_REMOVAL_GRACE_MS = 500;
+
+/**
+ * Signs a webhook body with the endpoint secret. Receivers recompute the HMAC
+ * over the raw request body and compare it with the X-Backlog-Signature header.
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+	return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Copies tasks keyed by id. Store snapshots share task objects with callers that
+ * mutate them in place, so keeping references would make every diff empty.
+ */
+function indexTasks(tasks: Task[]): Map<string, Task> {
+	return new Map(tasks.map((task) => [normalizeTaskId(task.id), structuredClone(task)]));
+}
+
+/**
+ * Delivers task and milestone lifecycle events to the webhooks configured in
+ * `BacklogConfig.webhooks`.
+ *
+ * Task events are derived by diffing consecutive ContentStore snapshots, so
+ * writes from the web UI, MCP tools and file watchers are all covered.
+ * Milestones are not part of the store, so the milestone write methods on the
+ * shared FileSystem are wrapped instead (mirroring ContentStore's own patching).
+ *
+ * Deliveries run in the background with retries and never block the write
+ * that triggered them. The most recent deliveries are kept in memory for
+ * inspection via `getDeliveries()`.
+ */
+export class WebhookDispatcher {
+	private readonly retryDelaysMs: number[];
+	private readonly logSize: number;
+	private readonly fetchImpl: typeof fetch;
+	private readonly deliveries: WebhookDelivery[] = [];
+	private readonly inFlight = new Set<Promise<void>>();
+	private readonly removalGraceMs: number;
+	private readonly pendingRemovals = new Set<string>();
+	private knownTasks: Map<string, Task> | null = null;
+	private currentTaskIds = new Set<string>();
+	private unsubscribe?: () => void;
+	private restoreFilesystemPatch?: () => void;
+
+	constructor(
+		private readonly filesystem: FileSystem,
+		options: WebhookDispatcherOptions = {},
+	) {
+		this.retryDelaysMs = options.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS;
+		this.logSize = options.logSize ?? DEFAULT_LOG_SIZE;
+		this.removalGraceMs = options.removalGraceMs ?? DEFAULT_REMOVAL_GRACE_MS;
+		this.fetchImpl = options.fetch ?? fetch;
+	}
+
+	start(store: ContentStore): void {
+		if (this.unsubscribe) return;
+		this.unsubscribe = store.subscribe((event) => this.handleStoreEvent(event));
+		this.patchFilesystem();
+	}
+
+	stop(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = undefined;
+		this.restoreFilesystemPatch?.();
+		this.restoreFilesystemPatch = undefined;
+		this.knownTasks = null;
+		this.currentTaskIds.clear();
+	}
+
+	/** Most recent deliveries first. */
+	getDeliveries(): WebhookDelivery[] {
+		return this.deliveries.map((delivery) => ({ ...delivery, attempts: [...delivery.attempts] }));
+	}
+
+	/** Resolves once every pending dispatch has been delivered or has exhausted its retries. */
+	async flush(): Promise<void> {
+		while (this.inFlight.size > 0) {
+			await Promise.all([...this.inFlight]);
+		}
+	}
+
+	async dispatch(event: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+		const config = await this.filesystem.loadConfig();
+		const targets = (config?.webhooks ?? []).filter((webhook) => this.accepts(webhook, event));
+		if (targets.length === 0) return;
+
+		for (const webhook of targets) {
+			const payload: WebhookPayload = {
+				id: randomUUID(),
+				event,
+				timestamp: new Date().toISOString(),
+				project: config?.projectName ?? "",
+				data,
+			};
+			const delivery = this.record(payload, webhook.url);
+			this.background(this.deliver(webhook, payload, delivery));
+		}
+	}
+
+	private background(task: Promise<void>): void {
+		const run = task
+			.catch((error) => {
+				if (process.env.DEBUG) {
+					console.warn("Webhook dispatch failed:", error);
+				}
+			})
+			.finally(() => {
+				this.inFlight.delete(run);
+			});
+		this.inFlight.add(run);
+	}
+
+	private accepts(webhook: WebhookConfig, event: WebhookEventType): boolean {
+		return !webhook.events || webhook.events.length === 0 || webhook.events.includes(event);
+	}
+
+	private record(payload: WebhookPayload, url: string): WebhookDelivery {
+		const delivery: WebhookDelivery = {
+			id: payload.id,
+			event: payload.event,
+			url,
+			status: "pending",
+			attempts: [],
+			createdAt: payload.timestamp,
+		};
+		this.deliveries.unshift(delivery);
+		if (this.deliveries.length > this.logSize) {
+			this.deliveries.length = this.logSize;
+		}
+		return delivery;
+	}
+
+	private async deliver(webhook: WebhookConfig, payload: WebhookPayload, delivery: WebhookDelivery): Promise<void> {
+		const body = JSON.stringify(payload);
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+			"User-Agent": "llm-backlog-webhooks",
+			"X-Backlog-Event": payload.event,
+			"X-Backlog-Delivery": payload.id,
+		};
+		if (webhook.secretEnv) {
+			const secret = process.env[webhook.secretEnv];
+			if (!secret) {
+				// Sending it unsigned would only get it rejected, or accepted without verification
+				delivery.status = "failed";
+				delivery.attempts.push({
+					attempt: 1,
+					timestamp: new Date().toISOString(),
+					error: `Environment variable ${webhook.secretEnv} is not set`,
+				});
+				return;
+			}
+			headers["X-Backlog-Signature"] = signWebhookPayload(body, secret);
+		}
+
+		const maxAttempts = this.retryDelaysMs.length + 1;
+		for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+			const record: WebhookDeliveryAttempt = { attempt, timestamp: new Date().toISOString() };
+			delivery.attempts.push(record);
+			try {
+				const response = await this.fetchImpl(webhook.url, { method: "POST", headers, body });
+				record.status = response.status;
+				if (response.ok) {
+					delivery.status = "delivered";
+					return;
+				}
+				record.error = `HTTP ${response.status}`;
+			} catch (error) {
+				record.error = error instanceof Error ? error.message : String(error);
+			}
+
+			const delay = this.retryDelaysMs[attempt - 1];
+			if (delay !== undefined) {
+				await Bun.sleep(delay);
+			}
+		}
+
+		delivery.status = "failed";
+		if (process.env.DEBUG) {
+			console.warn(`Webhook delivery ${delivery.id} to ${webhook.url} failed after ${maxAttempts} attempts`);
+		}
+	}
+
+	private handleStoreEvent(event: ContentStoreEvent): void {
+		if (event.type === "ready") {
+			// Re-seed without emitting: a ready event means a full reload, not a user change
+			this.knownTasks = indexTasks(event.snapshot.tasks);
+			this.currentTaskIds = new Set(this.knownTasks.keys());
+			return;
+		}
+		if (event.type !== "tasks") return;
+
+		const known = this.knownTasks;
+		const current = indexTasks(event.tasks);
+		this.currentTaskIds = new Set(current.keys());
+		if (!known) {
+			this.knownTasks = current;
+			return;
+		}
+
+		for (const [id, task] of current) {
+			const before = known.get(id);
+			known.set(id, task);
+			if (!before) {
+				this.background(this.dispatch("task.created", { task }));
+				continue;
+			}
+			const changes = diffTaskVersions(before, task);
+			if (changes.length === 0) continue;
+			this.background(this.dispatch("task.updated", { task, changes }));
+			if (before.status !== task.status) {
+				this.background(this.dispatch("task.status_changed", { task, from: before.status, to: task.status }));
+			}
+		}
+
+		for (const id of known.keys()) {
+			if (!current.has(id) && !this.pendingRemovals.has(id)) {
+				this.pendingRemovals.add(id);
+				this.background(this.confirmRemoval(id));
+			}
+		}
+	}
+
+	/**
+	 * File watchers briefly drop a task from the snapshot while its file is being
+	 * rewritten, so a removal only counts if the task is still missing after a grace period.
+	 */
+	private async confirmRemoval(id: string): Promise<void> {
+		await Bun.sleep(this.removalGraceMs);
+		this.pendingRemovals.delete(id);
+		const task = this.knownTasks?.get(id);
+		if (!task || this.currentTaskIds.has(id)) return;
+		this.knownTasks?.delete(id);
+
+		const completed = await this.filesystem.listCompletedTasks().catch(() => [] as Task[]);
+		const isCompleted = completed.some((candidate) => normalizeTaskId(candidate.id) === id);
+		await this.dispatch(isCompleted ? "task.completed" : "task.archived", { task });
+	}
+
+	private patchFilesystem(): void {
+		if (this.restoreFilesystemPatch) return;
+
+		const fs = this.filesystem;
+		const originalCreate = fs.createMilestone;
+		const originalRename = fs.renameMilestone;
+		const originalArchive = fs.archiveMilestone;
+		const originalUpdateActive = fs.updateMilestoneActive;
+		const originalUpdateTargetDate = fs.updateMilestoneTargetDate;
+
+		fs.createMilestone = (async (title: string, description?: string, targetDate?: string): Promise<Milestone> => {
+			const milestone = await originalCreate.call(fs, title, description, targetDate);
+			this.background(this.dispatch("milestone.created", { milestone }));
+			return milestone;
+		}) as FileSystem["createMilestone"];
+
+		fs.renameMilestone = (async (identifier: string, title: string) => {
+			const result = await originalRename.call(fs, identifier, title);
+			if (result.success && result.milestone) {
+				this.background(
+					this.dispatch("milestone.updated", { milestone: result.milestone, previousTitle: result.previousTitle }),
+				);
+			}
+			return result;
+		}) as FileSystem["renameMilestone"];
+
+		fs.archiveMilestone = (async (identifier: string) => {
+			const result = await originalArchive.call(fs, identifier);
+			if (result.success && result.milestone) {
+				this.background(this.dispatch("milestone.archived", { milestone: result.milestone }));
+			}
+			return result;
+		}) as FileSystem["archiveMilestone"];
+
+		fs.updateMilestoneActive = (async (identifier: string, active: boolean) => {
+			const result = await originalUpdateActive.call(fs, identifier, active);
+			if (result.success && result.milestone) {
+				this.background(this.dispatch("milestone.updated", { milestone: result.milestone }));
+			}
+			return result;
+		}) as FileSystem["updateMilestoneActive"];
+
+		fs.updateMilestoneTargetDate = (async (identifier: string, targetDate: string | null) => {
+			const result = await originalUpdateTargetDate.call(fs, identifier, targetDate);
+			if (result.success && result.milestone) {
+				this.background(this.dispatch("milestone.updated", { milestone: result.milestone }));
+			}
+			return result;
+		}) as FileSystem["updateMilestoneTargetDate"];
+
+		this.restoreFilesystemPatch = () => {
+			fs.createMilestone = originalCreate;
+			fs.renameMilestone = originalRename;
+			fs.archiveMilestone = originalArchive;
+			fs.updateMilestoneActive = originalUpdateActive;
+			fs.updateMilestoneTargetDate = originalUpdateTargetDate;
+		};
+	}
+}
@@ -2,7 +2,7 @@ import { rename } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 import { DEFAULT_DIRECTORIES, DEFAULT_FILES, DEFAULT_STATUSES } from "../constants/index.ts";
-import type { BacklogConfig } from "../types/index.ts";
+import { type BacklogConfig, WEBHOOK_EVENT_TYPES, type WebhookConfig, type WebhookEventType } from "../types/index.ts";
 import { ensureDirectoryExists } from "./shared.ts";
 
 export class ConfigStore {
@@ -254,6 +254,23 @@ export class ConfigStore {
 				case "task_prefix":
 					config.prefixes = { task: value.replace(/['"]/g, "") };
 					break;
+				case "webhooks":
+					config.webhooks = parseWebhooks(value);
+					break;
+				case "estimate_unit": {
+					const unit = value.replace(/['"]/g, "").toLowerCase();
+					if (unit === "hours" || unit === "points") {
+						config.estimateUnit = unit;
+					}
+					break;
+				}
+				case "dependency_policy": {
+					const policy = value.replace(/['"]/g, "").toLowerCase();
+					if (policy === "allow" || policy === "refuse" || policy === "mark") {
+						config.dependencyPolicy = policy;
+					}
+					break;
+				}
 			}
 		}
 
@@ -277,6 +294,9 @@ export class ConfigStore {
 			activeBranchDays: config.activeBranchDays,
 			onStatusChange: config.onStatusChange,
 			prefixes: config.prefixes,
+			webhooks: config.webhooks,
+			estimateUnit: config.estimateUnit,
+			dependencyPolicy: config.dependencyPolicy,
 		};
 	}
 
@@ -303,8 +323,53 @@ export class ConfigStore {
 			...(typeof config.activeBranchDays === "number" ? [`active_branch_days: ${config.activeBranchDays}`] : []),
 			...(config.onStatusChange ? [`onStatusChange: '${config.onStatusChange}'`] : []),
 			...(config.prefixes?.task ? [`task_prefix: "${config.prefixes.task}"`] : []),
+			...(config.webhooks && config.webhooks.length > 0 ? [`webhooks: ${serializeWebhooks(config.webhooks)}`] : []),
+			...(config.estimateUnit ? [`estimate_unit: ${config.estimateUnit}`] : []),
+			...(config.dependencyPolicy ? [`dependency_policy: ${config.dependencyPolicy}`] : []),
 		];
 
 		return `${lines.join("\n")}\n`;
 	}
 }
+
+/**
+ * Writes the known webhook fields only, so nothing else that callers put on an entry, such as a
+ * secret, ends up in the committed config.
+ */
+function serializeWebhooks(webhooks: WebhookConfig[]): string {
+	return JSON.stringify(
+		webhooks.map(({ url, secretEnv, events }) => ({ url, ...(secretEnv && { secretEnv }), ...(events && { events }) })),
+	);
+}
+
+/**
+ * Parses the single-line `webhooks:` value. Webhooks are stored as a JSON array
+ * (valid YAML flow syntax) so the line-based config format can hold nested entries.
+ * Entries without a URL or with unknown event names are dropped.
+ */
+function parseWebhooks(value: string): WebhookConfig[] | undefined {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(value);
+	} catch {
+		return undefined;
+	}
+	if (!Array.isArray(raw)) return undefined;
+
+	const knownEvents = new Set<string>(WEBHOOK_EVENT_TYPES);
+	const webhooks: WebhookConfig[] = [];
+	for (const entry of raw) {
+		if (!entry || typeof entry !== "object" || typeof entry.url !== "string" || !entry.url.trim()) continue;
+		const webhook: WebhookConfig = { url: entry.url.trim() };
+		if (typeof entry.secretEnv === "string" && entry.secretEnv.trim()) {
+			webhook.secretEnv = entry.secretEnv.trim();
+		}
+		if (Array.isArray(entry.events)) {
+			webhook.events = entry.events.filter(
+				(event: unknown): event is WebhookEventType => typeof event === "string" && knownEvents.has(event),
+			);
+		}
+		webhooks.push(webhook);
+	}
+	return webhooks;
+}
@@ -64,7 +64,7 @@ export class MilestoneStore {
 		}
 	}
 
-	async createMilestone(title: string, description?: string): Promise<Milestone> {
+	async createMilestone(title: string, description?: string, targetDate?: string): Promise<Milestone> {
 		// Ensure milestones directory exists
 		await mkdir(this.milestonesDir, { recursive: true });
 
@@ -112,6 +112,8 @@ export class MilestoneStore {
 			`## Description
 
 ${description || `Milestone: ${title}`}`,
+			false,
+			targetDate,
 		);
 
 		const filepath = join(this.milestonesDir, filename);
@@ -122,6 +124,7 @@ ${description || `Milestone: ${title}`}`,
 			title,
 			description: description || `Milestone: ${title}`,
 			active: false,
+			...(targetDate && { targetDate }),
 			rawContent: parseMilestone(content).rawContent,
 		};
 	}
@@ -162,7 +165,13 @@ ${description || `Milestone: ${title}`}`,
 				milestone.title,
 				normalizedTitle,
 			);
-			const updatedContent = this.serializeMilestoneContent(milestone.id, normalizedTitle, nextRawContent);
+			const updatedContent = this.serializeMilestoneContent(
+				milestone.id,
+				normalizedTitle,
+				nextRawContent,
+				false,
+				milestone.targetDate,
+			);
 
 			if (sourcePath !== targetPath) {
 				if (await Bun.file(targetPath).exists()) {
@@ -253,6 +262,38 @@ ${description || `Milestone: ${title}`}`,
 				milestone.title,
 				milestone.rawContent,
 				active,
+				milestone.targetDate,
+			);
+			await Bun.write(filepath, updatedContent);
+
+			return { success: true, milestone: parseMilestone(updatedContent) };
+		} catch {
+			return { success: false };
+		}
+	}
+
+	async updateMilestoneTargetDate(
+		identifier: string,
+		targetDate: string | null,
+	): Promise<{ success: boolean; milestone?: Milestone }> {
+		const normalized = identifier.trim();
+		if (!normalized) {
+			return { success: false };
+		}
+
+		try {
+			const milestoneMatch = await this.findMilestoneFile(normalized, "active");
+			if (!milestoneMatch) {
+				return { success: false };
+			}
+
+			const { milestone, filepath } = milestoneMatch;
+			const updatedContent = this.serializeMilestoneContent(
+				milestone.id,
+				milestone.title,
+				milestone.rawContent,
+				milestone.active,
+				targetDate ?? undefined,
 			);
 			await Bun.write(filepath, updatedContent);
 
@@ -297,11 +338,17 @@ ${description || `Milestone: ${title}`}`,
 		return `${id} - ${safeTitle}.md`;
 	}
 
-	private serializeMilestoneContent(id: string, title: string, rawContent: string, active = false): string {
+	private serializeMilestoneContent(
+		id: string,
+		title: string,
+		rawContent: string,
+		active = false,
+		targetDate?: string,
+	): string {
 		return `---
 id: ${id}
 title: "${title.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"
-active: ${active}
+active: ${active}${targetDate ? `\ntarget_date: ${targetDate}` : ""}
 ---
 
 ${rawContent.trim()}
@@ -1,7 +1,16 @@
 import { mkdir, unlink } from "node:fs/promises";
 import { join } from "node:path";
 import { DEFAULT_DIRECTORIES, DEFAULT_FILES } from "../constants/index.ts";
-import type { BacklogConfig, Decision, Document, Milestone, Task, TaskListFilter } from "../types/index.ts";
+import type {
+	BacklogConfig,
+	Decision,
+	Document,
+	Milestone,
+	SavedView,
+	Task,
+	TaskListFilter,
+	TaskTemplate,
+} from "../types/index.ts";
 import { generateNextId } from "../utils/prefix-config.ts";
 import { AssetStore } from "./asset-store.ts";
 import { ConfigStore } from "./config-store.ts";
@@ -10,6 +19,8 @@ import { DocumentStore } from "./document-store.ts";
 import { DraftStore } from "./draft-store.ts";
 import { MilestoneStore } from "./milestone-store.ts";
 import { TaskStore } from "./task-store.ts";
+import { TemplateStore } from "./template-store.ts";
+import { ViewStore } from "./view-store.ts";
 
 export class FileSystem {
 	private readonly backlogDir: string;
@@ -21,6 +32,8 @@ export class FileSystem {
 	private readonly documentStore: DocumentStore;
 	private readonly milestoneStore: MilestoneStore;
 	private readonly assetStore: AssetStore;
+	private readonly viewStore: ViewStore;
+	private readonly templateStore: TemplateStore;
 	private migrationChecked = false;
 
 	constructor(projectRoot: string) {
@@ -44,6 +57,8 @@ export class FileSystem {
 			join(this.backlogDir, DEFAULT_DIRECTORIES.ARCHIVE_MILESTONES),
 		);
 		this.assetStore = new AssetStore(join(this.backlogDir, DEFAULT_DIRECTORIES.ASSETS));
+		this.viewStore = new ViewStore(join(this.backlogDir, DEFAULT_DIRECTORIES.VIEWS));
+		this.templateStore = new TemplateStore(join(this.backlogDir, DEFAULT_DIRECTORIES.TEMPLATES));
 	}
 
 	private async getBacklogDir(): Promise<string> {
@@ -86,6 +101,10 @@ export class FileSystem {
 		return this.assetStore;
 	}
 
+	get viewsDir(): string {
+		return join(this.backlogDir, DEFAULT_DIRECTORIES.VIEWS);
+	}
+
 	get milestonesDir(): string {
 		return join(this.backlogDir, DEFAULT_DIRECTORIES.MILESTONES);
 	}
@@ -276,6 +295,32 @@ export class FileSystem {
 		return this.documentStore.loadDocument(id);
 	}
 
+	// Saved view operations - delegated to ViewStore
+	async saveView(view: SavedView): Promise<void> {
+		return this.viewStore.saveView(view);
+	}
+
+	async loadView(viewId: string): Promise<SavedView | null> {
+		return this.viewStore.loadView(viewId);
+	}
+
+	async listViews(): Promise<SavedView[]> {
+		return this.viewStore.listViews();
+	}
+
+	async deleteView(viewId: string): Promise<boolean> {
+		return this.viewStore.deleteView(viewId);
+	}
+
+	// Task template operations - delegated to TemplateStore
+	async loadTemplate(templateId: string): Promise<TaskTemplate | null> {
+		return this.templateStore.loadTemplate(templateId);
+	}
+
+	async listTemplates(): Promise<TaskTemplate[]> {
+		return this.templateStore.listTemplates();
+	}
+
 	// Milestone operations - delegated to MilestoneStore
 	async listMilestones(): Promise<Milestone[]> {
 		return this.milestoneStore.listMilestones();
@@ -289,8 +334,8 @@ export class FileSystem {
 		return this.milestoneStore.loadMilestone(id);
 	}
 
-	async createMilestone(title: string, description?: string): Promise<Milestone> {
-		return this.milestoneStore.createMilestone(title, description);
+	async createMilestone(title: string, description?: string, targetDate?: string): Promise<Milestone> {
+		return this.milestoneStore.createMilestone(title, description, targetDate);
 	}
 
 	async renameMilestone(
@@ -322,6 +367,13 @@ export class FileSystem {
 		return this.milestoneStore.updateMilestoneActive(identifier, active);
 	}
 
+	async updateMilestoneTargetDate(
+		identifier: string,
+		targetDate: string | null,
+	): Promise<{ success: boolean; milestone?: Milestone }> {
+		return this.milestoneStore.updateMilestoneTargetDate(identifier, targetDate);
+	}
+
 	// Config operations - delegated to ConfigStore
 	async loadConfig(): Promise<BacklogConfig | null> {
 		// Ensure legacy migration is checked before reading config
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type SearchEntry, SqliteCoordinator, toFtsQuery } from "./sqlite-coordinator.ts";
+
+const MINUTE = 60_000;
+const at = (minutes: number) => new Date(Date.UTC(2026, 2, 1, 12, minutes));
+
+describe("SqliteCoordinator leases", () => {
+	let dir: string;
+	let sqlite: SqliteCoordinator;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "backlog-leases-"));
+		sqlite = new SqliteCoordinator(dir);
+	});
+
+	afterEach(async () => {
+		sqlite.close();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("rejects other claimers while a lease is live", () => {
+		const first = sqlite.acquireLease("TASK-1", "Agent A", 30 * MINUTE, at(0));
+		expect(first).toEqual({
+			acquired: true,
+			lease: {
+				taskId: "TASK-1",
+				holder: "Agent A",
+				acquiredAt: "2026-03-01T12:00:00.000Z",
+				expiresAt: "2026-03-01T12:30:00.000Z",
+			},
+		});
+
+		const second = sqlite.acquireLease("TASK-1", "Agent B", 30 * MINUTE, at(10));
+		expect(second.acquired).toBe(false);
+		expect(second.lease.holder).toBe("Agent A");
+	});
+
+	it("extends the lease when the holder claims or heartbeats again", () => {
+		sqlite.acquireLease("TASK-1", "Agent A", 30 * MINUTE, at(0));
+		const again = sqlite.acquireLease("TASK-1", "Agent A", 30 * MINUTE, at(20));
+		expect(again.lease.acquiredAt).toBe("2026-03-01T12:00:00.000Z");
+		expect(again.lease.expiresAt).toBe("2026-03-01T12:50:00.000Z");
+
+		expect(sqlite.renewLease("TASK-1", "Agent A", 30 * MINUTE, at(40))?.expiresAt).toBe("2026-03-01T13:10:00.000Z");
+		expect(sqlite.renewLease("TASK-1", "Agent B", 30 * MINUTE, at(40))).toBeNull();
+	});
+
+	it("lets leases lapse and be released", () => {
+		sqlite.acquireLease("TASK-1", "Agent A", 30 * MINUTE, at(0));
+		sqlite.acquireLease("TASK-2", "Agent A", 60 * MINUTE, at(0));
+
+		expect(sqlite.listLeases(at(45)).map((lease) => lease.taskId)).toEqual(["TASK-2"]);
+		expect(sqlite.renewLease("TASK-1", "Agent A", 30 * MINUTE, at(45))).toBeNull();
+		expect(sqlite.acquireLease("TASK-1", "Agent B", 30 * MINUTE, at(45)).acquired).toBe(true);
+
+		expect(sqlite.releaseLease("TASK-2", "Agent B", at(50))).toBe(false);
+		expect(sqlite.releaseLease("TASK-2", "Agent A", at(50))).toBe(true);
+		expect(sqlite.getLease("TASK-2", at(50))).toBeNull();
+	});
+});
+
+describe("SqliteCoordinator full-text search", () => {
+	let dir: string;
+	let sqlite: SqliteCoordinator;
+
+	const entry = (overrides: Partial<SearchEntry> & Pick<SearchEntry, "id">): SearchEntry => ({
+		type: "task",
+		title: "",
+		body: "",
+		idTerms: overrides.id,
+		...overrides,
+	});
+
+	const entries = [
+		entry({ id: "task-1", title: "Login page", body: "Build the form", idTerms: "task-1 TASK-1 1" }),
+		entry({
+			id: "task-2",
+			title: "Signup",
+			body: "Send a welcome email after login succeeds",
+			idTerms: "task-2 TASK-2 2",
+		}),
+		entry({ id: "doc-1", type: "document", title: "Architecture", body: "The login flow uses sessions" }),
+	];
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "backlog-search-"));
+		sqlite = new SqliteCoordinator(dir);
+		sqlite.syncSearchEntries(entries);
+	});
+
+	afterEach(async () => {
+		sqlite.close();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("ranks title matches above body matches and highlights them", () => {
+		const hits = sqlite.searchEntries("login");
+		expect(hits[0]?.id).toBe("task-1");
+		expect(hits.map((hit) => hit.id).sort()).toEqual(["doc-1", "task-1", "task-2"]);
+		expect(hits[0]?.title).toBe("\u0001Login\u0002 page");
+		expect(hits.find((hit) => hit.id === "task-2")?.snippet).toContain("after \u0001login\u0002 succeeds");
+
+		expect(sqlite.searchEntries("login", { types: ["document"] }).map((hit) => hit.id)).toEqual(["doc-1"]);
+		expect(sqlite.searchEntries("login", { limit: 1 })).toHaveLength(1);
+	});
+
+	it("supports prefix, phrase and ID queries", () => {
+		expect(sqlite.searchEntries("welc").map((hit) => hit.id)).toEqual(["task-2"]);
+		expect(sqlite.searchEntries("sess* login").map((hit) => hit.id)).toEqual(["doc-1"]);
+		expect(sqlite.searchEntries('"login succeeds"').map((hit) => hit.id)).toEqual(["task-2"]);
+		expect(sqlite.searchEntries('"succeeds login"')).toEqual([]);
+		expect(sqlite.searchEntries("TASK-2").map((hit) => hit.id)).toEqual(["task-2"]);
+	});
+
+	it("updates changed entries and drops removed ones on resync", () => {
+		sqlite.syncSearchEntries([
+			entry({ id: "task-1", title: "Password reset", body: "Email a reset link" }),
+			entries[2] as SearchEntry,
+		]);
+
+		expect(sqlite.searchEntries("login").map((hit) => hit.id)).toEqual(["doc-1"]);
+		expect(sqlite.searchEntries("reset").map((hit) => hit.id)).toEqual(["task-1"]);
+		expect(sqlite.searchEntries("welcome")).toEqual([]);
+	});
+});
+
+describe("toFtsQuery", () => {
+	it("quotes words, keeps phrases and turns the last word into a prefix", () => {
+		expect(toFtsQuery("login form")).toBe('"login" "form"*');
+		expect(toFtsQuery('"login form" page ')).toBe('"login form" "page"');
+		expect(toFtsQuery("log* OR")).toBe('"log"* "OR"*');
+		expect(toFtsQuery(" - ")).toBeNull();
+	});
+});
+
+describe("SqliteCoordinator task embeddings", () => {
+	let dir: string;
+	let sqlite: SqliteCoordinator;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "backlog-embeddings-"));
+		sqlite = new SqliteCoordinator(dir);
+	});
+
+	afterEach(async () => {
+		sqlite.close();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("stores vectors, replaces changed ones and drops removed tasks", () => {
+		sqlite.saveTaskEmbeddings(
+			[
+				{ taskId: "TASK-1", checksum: "a", vector: [0.5, -0.25, 1] },
+				{ taskId: "TASK-2", checksum: "b", vector: [0, 1, 0] },
+			],
+			["TASK-1", "TASK-2"],
+		);
+		expect(sqlite.listTaskEmbeddings()).toEqual([
+			{ taskId: "TASK-1", checksum: "a", vector: [0.5, -0.25, 1] },
+			{ taskId: "TASK-2", checksum: "b", vector: [0, 1, 0] },
+		]);
+
+		sqlite.saveTaskEmbeddings([{ taskId: "TASK-1", checksum: "c", vector: [1, 0, 0] }], ["TASK-1"]);
+		expect(sqlite.listTaskEmbeddings()).toEqual([{ taskId: "TASK-1", checksum: "c", vector: [1, 0, 0] }]);
+	});
+});
+
+describe("SqliteCoordinator template runs", () => {
+	let dir: string;
+	let sqlite: SqliteCoordinator;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "backlog-template-runs-"));
+		sqlite = new SqliteCoordinator(dir);
+	});
+
+	afterEach(async () => {
+		sqlite.close();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("claims each occurrence once until it is released", () => {
+		expect(sqlite.claimTemplateRun("template-1", "week:2026-W42")).toBe(true);
+		expect(sqlite.claimTemplateRun("template-1", "week:2026-W42")).toBe(false);
+		expect(sqlite.claimTemplateRun("template-1", "week:2026-W43")).toBe(true);
+		expect(sqlite.claimTemplateRun("template-2", "week:2026-W42")).toBe(true);
+
+		sqlite.releaseTemplateRun("template-1", "week:2026-W42");
+		expect(sqlite.claimTemplateRun("template-1", "week:2026-W42")).toBe(true);
+	});
+});
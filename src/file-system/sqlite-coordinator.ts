@@ -3,9 +3,15 @@ import { Database } from "bun:sqlite";
 import { join } from "node:path";
 import { Glob } from "bun";
 import { parseTask } from "../markdown/parser.ts";
-import type { Task, TaskListFilter } from "../types/index.ts";
+import type { SearchResultType, Task, TaskLease, TaskListFilter } from "../types/index.ts";
 import { EntityType } from "../types/index.ts";
 
+export interface LeaseClaim {
+	/** False when someone else holds a live lease; `lease` is then theirs. */
+	acquired: boolean;
+	lease: TaskLease;
+}
+
 export interface SyncResult {
 	tasks: number;
 	drafts: number;
@@ -13,6 +19,37 @@ export interface SyncResult {
 	skipped: Array<{ file: string; reason: string }>;
 }
 
+/** A task, document or decision as stored in the full-text index. */
+export interface SearchEntry {
+	type: SearchResultType;
+	id: string;
+	title: string;
+	body: string;
+	/** ID spellings to match, e.g. "TASK-12 task-12 12" */
+	idTerms: string;
+}
+
+export interface SearchHit {
+	type: SearchResultType;
+	id: string;
+	/** BM25 rank; more negative is a better match */
+	rank: number;
+	/** The title with matched terms wrapped in SEARCH_HIGHLIGHT_START/END */
+	title: string;
+	/** A short excerpt of the body around the matches, marked the same way */
+	snippet: string;
+}
+
+/** A stored task embedding; `checksum` identifies the provider and text it was made from. */
+export interface TaskEmbedding {
+	taskId: string;
+	checksum: string;
+	vector: number[];
+}
+
+export const SEARCH_HIGHLIGHT_START = "\u0001";
+export const SEARCH_HIGHLIGHT_END = "\u0002";
+
 const ENTITY_PREFIXES: Record<string, string> = {
 	[EntityType.Task]: "TASK",
 	[EntityType.Draft]: "DRAFT",
@@ -53,6 +90,13 @@ export class SqliteCoordinator {
 				updated_date TEXT
 			);
 
+			CREATE TABLE IF NOT EXISTS task_leases (
+				task_id      TEXT PRIMARY KEY,
+				holder       TEXT NOT NULL,
+				acquired_at  TEXT NOT NULL,
+				expires_at   TEXT NOT NULL
+			);
+
 			CREATE VIRTUAL TABLE IF NOT EXISTS fts_tasks USING fts5(
 				id,
 				title,
@@ -73,6 +117,52 @@ export class SqliteCoordinator {
 				INSERT INTO fts_tasks(fts_tasks, rowid, id, title, body) VALUES ('delete', old.rowid, old.id, old.title, old.body);
 				INSERT INTO fts_tasks(rowid, id, title, body) VALUES (new.rowid, new.id, new.title, new.body);
 			END;
+
+			CREATE TABLE IF NOT EXISTS template_runs (
+				template_id  TEXT NOT NULL,
+				occurrence   TEXT NOT NULL,
+				claimed_at   TEXT NOT NULL,
+				PRIMARY KEY (template_id, occurrence)
+			);
+
+			CREATE TABLE IF NOT EXISTS task_embeddings (
+				task_id      TEXT PRIMARY KEY,
+				checksum     TEXT NOT NULL,
+				vector       BLOB NOT NULL
+			);
+
+			CREATE TABLE IF NOT EXISTS search_entries (
+				entry_key    TEXT PRIMARY KEY,
+				type         TEXT NOT NULL,
+				id           TEXT NOT NULL,
+				title        TEXT NOT NULL,
+				body         TEXT NOT NULL,
+				id_terms     TEXT NOT NULL,
+				checksum     TEXT NOT NULL
+			);
+
+			CREATE VIRTUAL TABLE IF NOT EXISTS fts_search USING fts5(
+				title,
+				body,
+				id_terms,
+				content='search_entries',
+				content_rowid='rowid',
+				tokenize='porter unicode61 remove_diacritics 2',
+				prefix='2 3'
+			);
+
+			CREATE TRIGGER IF NOT EXISTS search_entries_ai AFTER INSERT ON search_entries BEGIN
+				INSERT INTO fts_search(rowid, title, body, id_terms) VALUES (new.rowid, new.title, new.body, new.id_terms);
+			END;
+
+			CREATE TRIGGER IF NOT EXISTS search_entries_ad AFTER DELETE ON search_entries BEGIN
+				INSERT INTO fts_search(fts_search, rowid, title, body, id_terms) VALUES ('delete', old.rowid, old.title, old.body, old.id_terms);
+			END;
+
+			CREATE TRIGGER IF NOT EXISTS search_entries_au AFTER UPDATE ON search_entries BEGIN
+				INSERT INTO fts_search(fts_search, rowid, title, body, id_terms) VALUES ('delete', old.rowid, old.title, old.body, old.id_terms);
+				INSERT INTO fts_search(rowid, title, body, id_terms) VALUES (new.rowid, new.title, new.body, new.id_terms);
+			END;
 		`);
 
 		for (const [type, prefix] of Object.entries(ENTITY_PREFIXES)) {
@@ -101,14 +191,20 @@ export class SqliteCoordinator {
 	}
 
 	/**
-	 * Insert or replace a task in the index.
+	 * Insert or replace a task in the index. This is an upsert rather than INSERT OR REPLACE because
+	 * REPLACE skips the delete trigger, which would leave a stale row in fts_tasks.
 	 */
 	upsertTask(task: Task, entityType: string, filePath: string, body = ""): void {
 		this.db
 			.prepare(
-				`INSERT OR REPLACE INTO task_index
+				`INSERT INTO task_index
 				(id, entity_type, title, status, assignee, labels, milestone, priority, parent_id, file_path, body, updated_date)
-				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(id) DO UPDATE SET
+					entity_type = excluded.entity_type, title = excluded.title, status = excluded.status,
+					assignee = excluded.assignee, labels = excluded.labels, milestone = excluded.milestone,
+					priority = excluded.priority, parent_id = excluded.parent_id, file_path = excluded.file_path,
+					body = excluded.body, updated_date = excluded.updated_date`,
 			)
 			.run(
 				task.id,
@@ -181,6 +277,185 @@ export class SqliteCoordinator {
 		return rows.map((row) => this.rowToTask(row));
 	}
 
+	/**
+	 * Makes the full-text index hold exactly `entries`. Only entries whose content changed are
+	 * rewritten, so re-syncing a large backlog after one edit touches one row.
+	 */
+	syncSearchEntries(entries: SearchEntry[]): void {
+		const sync = this.db.transaction(() => {
+			const existing = new Map(
+				this.db
+					.prepare<{ entry_key: string; checksum: string }, []>("SELECT entry_key, checksum FROM search_entries")
+					.all()
+					.map((row) => [row.entry_key, row.checksum]),
+			);
+			const upsert = this.db.prepare(
+				`INSERT INTO search_entries (entry_key, type, id, title, body, id_terms, checksum)
+				 VALUES (?, ?, ?, ?, ?, ?, ?)
+				 ON CONFLICT(entry_key) DO UPDATE SET
+					title = excluded.title, body = excluded.body, id_terms = excluded.id_terms, checksum = excluded.checksum`,
+			);
+			for (const entry of entries) {
+				const key = `${entry.type}:${entry.id}`;
+				const checksum = Bun.hash(`${entry.title}\u0000${entry.body}\u0000${entry.idTerms}`).toString(36);
+				if (existing.get(key) !== checksum) {
+					upsert.run(key, entry.type, entry.id, entry.title, entry.body, entry.idTerms, checksum);
+				}
+				existing.delete(key);
+			}
+			const remove = this.db.prepare("DELETE FROM search_entries WHERE entry_key = ?");
+			for (const key of existing.keys()) {
+				remove.run(key);
+			}
+		});
+		sync.immediate();
+	}
+
+	/**
+	 * Ranked full-text search with BM25, weighting title matches over ID and body matches.
+	 * `query` uses the syntax of toFtsQuery; a query with no searchable words matches nothing.
+	 */
+	searchEntries(query: string, options: { types?: SearchResultType[]; limit?: number } = {}): SearchHit[] {
+		const match = toFtsQuery(query);
+		if (!match) return [];
+		const types = options.types && options.types.length > 0 ? options.types : ["task", "document", "decision"];
+		const params: SQLQueryBindings[] = [SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END];
+		params.push(SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, match, ...types);
+		const limit = options.limit && options.limit > 0 ? ` LIMIT ${Math.floor(options.limit)}` : "";
+		return this.db
+			.prepare<SearchHit, SQLQueryBindings[]>(
+				`SELECT e.type AS type, e.id AS id, bm25(fts_search, 10.0, 1.0, 5.0) AS rank,
+				        highlight(fts_search, 0, ?, ?) AS title,
+				        snippet(fts_search, 1, ?, ?, '…', 16) AS snippet
+				 FROM fts_search
+				 JOIN search_entries e ON e.rowid = fts_search.rowid
+				 WHERE fts_search MATCH ? AND e.type IN (${types.map(() => "?").join(", ")})
+				 ORDER BY rank${limit}`,
+			)
+			.all(...params);
+	}
+
+	/**
+	 * Claims one occurrence of a recurring template (e.g. "week:2026-W42"). Only the first
+	 * caller gets true, so servers sharing the backlog create each recurring task once.
+	 */
+	claimTemplateRun(templateId: string, occurrence: string, now = new Date()): boolean {
+		const result = this.db
+			.prepare("INSERT OR IGNORE INTO template_runs (template_id, occurrence, claimed_at) VALUES (?, ?, ?)")
+			.run(templateId, occurrence, now.toISOString());
+		return result.changes > 0;
+	}
+
+	/** Gives up a claim whose task could not be created, so a later run retries it. */
+	releaseTemplateRun(templateId: string, occurrence: string): void {
+		this.db.prepare("DELETE FROM template_runs WHERE template_id = ? AND occurrence = ?").run(templateId, occurrence);
+	}
+
+	listTaskEmbeddings(): TaskEmbedding[] {
+		return this.db
+			.prepare<{ task_id: string; checksum: string; vector: Uint8Array }, []>(
+				"SELECT task_id, checksum, vector FROM task_embeddings",
+			)
+			.all()
+			.map((row) => ({
+				taskId: row.task_id,
+				checksum: row.checksum,
+				// Copy first: the blob's offset is not guaranteed to be 4-byte aligned
+				vector: Array.from(new Float32Array(new Uint8Array(row.vector).buffer)),
+			}));
+	}
+
+	/**
+	 * Stores `changed` embeddings and drops those of tasks not listed in `keepTaskIds`.
+	 */
+	saveTaskEmbeddings(changed: TaskEmbedding[], keepTaskIds: string[]): void {
+		const save = this.db.transaction(() => {
+			const upsert = this.db.prepare(
+				`INSERT INTO task_embeddings (task_id, checksum, vector) VALUES (?, ?, ?)
+				 ON CONFLICT(task_id) DO UPDATE SET checksum = excluded.checksum, vector = excluded.vector`,
+			);
+			for (const embedding of changed) {
+				upsert.run(embedding.taskId, embedding.checksum, new Uint8Array(new Float32Array(embedding.vector).buffer));
+			}
+			const keep = new Set(keepTaskIds);
+			const remove = this.db.prepare("DELETE FROM task_embeddings WHERE task_id = ?");
+			for (const row of this.db.prepare<{ task_id: string }, []>("SELECT task_id FROM task_embeddings").all()) {
+				if (!keep.has(row.task_id)) remove.run(row.task_id);
+			}
+		});
+		save.immediate();
+	}
+
+	/**
+	 * Atomically claims a task for `holder` until `ttlMs` from now. Expired leases
+	 * are dropped first; claiming a task you already hold extends the lease.
+	 */
+	acquireLease(taskId: string, holder: string, ttlMs: number, now = new Date()): LeaseClaim {
+		const claim = this.db.transaction((): LeaseClaim => {
+			this.db.prepare("DELETE FROM task_leases WHERE expires_at <= ?").run(now.toISOString());
+			const existing = this.getLease(taskId, now);
+			if (existing && existing.holder !== holder) {
+				return { acquired: false, lease: existing };
+			}
+			const lease: TaskLease = {
+				taskId,
+				holder,
+				acquiredAt: existing?.acquiredAt ?? now.toISOString(),
+				expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+			};
+			this.db
+				.prepare("INSERT OR REPLACE INTO task_leases (task_id, holder, acquired_at, expires_at) VALUES (?, ?, ?, ?)")
+				.run(lease.taskId, lease.holder, lease.acquiredAt, lease.expiresAt);
+			return { acquired: true, lease };
+		});
+		return claim.immediate();
+	}
+
+	/**
+	 * Extends a live lease held by `holder`. Returns null if they no longer hold it.
+	 */
+	renewLease(taskId: string, holder: string, ttlMs: number, now = new Date()): TaskLease | null {
+		this.db
+			.prepare("UPDATE task_leases SET expires_at = ? WHERE task_id = ? AND holder = ? AND expires_at > ?")
+			.run(new Date(now.getTime() + ttlMs).toISOString(), taskId, holder, now.toISOString());
+		const lease = this.getLease(taskId, now);
+		return lease?.holder === holder ? lease : null;
+	}
+
+	/**
+	 * Drops the lease on a task if `holder` holds it. Returns true if a live lease was released.
+	 */
+	releaseLease(taskId: string, holder: string, now = new Date()): boolean {
+		const result = this.db
+			.prepare("DELETE FROM task_leases WHERE task_id = ? AND holder = ? AND expires_at > ?")
+			.run(taskId, holder, now.toISOString());
+		return result.changes > 0;
+	}
+
+	/**
+	 * Returns the live lease on a task, if any.
+	 */
+	getLease(taskId: string, now = new Date()): TaskLease | null {
+		const row = this.db
+			.prepare<Record<string, string>, [string, string]>(
+				"SELECT task_id, holder, acquired_at, expires_at FROM task_leases WHERE task_id = ? AND expires_at > ?",
+			)
+			.get(taskId, now.toISOString());
+		return row ? this.rowToLease(row) : null;
+	}
+
+	/**
+	 * Lists live leases ordered by task ID.
+	 */
+	listLeases(now = new Date()): TaskLease[] {
+		return this.db
+			.prepare<Record<string, string>, [string]>(
+				"SELECT task_id, holder, acquired_at, expires_at FROM task_leases WHERE expires_at > ? ORDER BY task_id",
+			)
+			.all(now.toISOString())
+			.map((row) => this.rowToLease(row));
+	}
+
 	/**
 	 * Returns true if the task_index is empty (db was just created).
 	 */
@@ -268,7 +543,37 @@ export class SqliteCoordinator {
 		} as unknown as Task;
 	}
 
+	private rowToLease(row: Record<string, string>): TaskLease {
+		return {
+			taskId: row.task_id as string,
+			holder: row.holder as string,
+			acquiredAt: row.acquired_at as string,
+			expiresAt: row.expires_at as string,
+		};
+	}
+
 	close(): void {
 		this.db.close();
 	}
 }
+
+/**
+ * Turns a search box query into an FTS5 expression. Words are matched as whole terms (after
+ * stemming) and ANDed; `"quoted words"` match as a phrase; a trailing `*` makes a word a prefix,
+ * as does leaving the last word unfinished, so results appear while typing. FTS5 operators in the
+ * input are not interpreted. Returns null when there is nothing to search for.
+ */
+export function toFtsQuery(input: string): string | null {
+	const terms: string[] = [];
+	const pieces = [...input.matchAll(/"([^"]*)"?|(\S+)/g)];
+	pieces.forEach((piece, index) => {
+		const phrase = piece[1];
+		const word = piece[2];
+		const text = (phrase ?? word ?? "").replace(/\*+$/, "");
+		if (!/[\p{L}\p{N}]/u.test(text)) return;
+		const isLast = index === pieces.length - 1 && !/\s$/.test(input);
+		const prefix = word !== undefined && (word.endsWith("*") || isLast);
+		terms.push(`"${text.replace(/"/g, '""')}"${prefix ? "*" : ""}`);
+	});
+	return terms.length > 0 ? terms.join(" ") : null;
+}
@@ -1,10 +1,17 @@
 import { join } from "node:path";
 import { Glob } from "bun";
 import { DEFAULT_DIRECTORIES } from "../constants/index.ts";
-import type { Task } from "../types/index.ts";
+import type { SearchResultType, Task, TaskLease } from "../types/index.ts";
 import { EntityType } from "../types/index.ts";
 import { FileSystem } from "./operations.ts";
-import { SqliteCoordinator, type SyncResult } from "./sqlite-coordinator.ts";
+import {
+	type LeaseClaim,
+	type SearchEntry,
+	type SearchHit,
+	SqliteCoordinator,
+	type SyncResult,
+	type TaskEmbedding,
+} from "./sqlite-coordinator.ts";
 
 /**
  * StorageCoordinator extends FileSystem, adding SQLite-backed ID generation,
@@ -14,6 +21,7 @@ import { SqliteCoordinator, type SyncResult } from "./sqlite-coordinator.ts";
 export class StorageCoordinator extends FileSystem {
 	private sqlite: SqliteCoordinator | null = null;
 	private syncDone = false;
+	private readonly leaseListeners = new Set<(leases: TaskLease[]) => void>();
 
 	/**
 	 * Returns the SQLite coordinator, creating it on first access.
@@ -115,6 +123,85 @@ export class StorageCoordinator extends FileSystem {
 		}
 	}
 
+	/**
+	 * Replaces the contents of the ranked full-text index used by SearchService.
+	 */
+	syncSearchEntries(entries: SearchEntry[]): void {
+		this.getSqlite().syncSearchEntries(entries);
+	}
+
+	/**
+	 * BM25-ranked search over tasks, documents and decisions. Returns an empty array for malformed queries.
+	 */
+	searchEntries(query: string, options?: { types?: SearchResultType[]; limit?: number }): SearchHit[] {
+		try {
+			return this.getSqlite().searchEntries(query, options);
+		} catch {
+			return [];
+		}
+	}
+
+	claimTemplateRun(templateId: string, occurrence: string): boolean {
+		return this.getSqlite().claimTemplateRun(templateId, occurrence);
+	}
+
+	releaseTemplateRun(templateId: string, occurrence: string): void {
+		this.getSqlite().releaseTemplateRun(templateId, occurrence);
+	}
+
+	listTaskEmbeddings(): TaskEmbedding[] {
+		return this.getSqlite().listTaskEmbeddings();
+	}
+
+	saveTaskEmbeddings(changed: TaskEmbedding[], keepTaskIds: string[]): void {
+		this.getSqlite().saveTaskEmbeddings(changed, keepTaskIds);
+	}
+
+	/**
+	 * Claims a task for `holder` for `ttlMs`. Leases live in SQLite so every
+	 * server process sharing the backlog sees the same claims.
+	 */
+	acquireLease(taskId: string, holder: string, ttlMs: number): LeaseClaim {
+		const claim = this.getSqlite().acquireLease(taskId, holder, ttlMs);
+		if (claim.acquired) this.notifyLeaseListeners();
+		return claim;
+	}
+
+	renewLease(taskId: string, holder: string, ttlMs: number): TaskLease | null {
+		const lease = this.getSqlite().renewLease(taskId, holder, ttlMs);
+		if (lease) this.notifyLeaseListeners();
+		return lease;
+	}
+
+	releaseLease(taskId: string, holder: string): boolean {
+		const released = this.getSqlite().releaseLease(taskId, holder);
+		if (released) this.notifyLeaseListeners();
+		return released;
+	}
+
+	getLease(taskId: string): TaskLease | null {
+		return this.getSqlite().getLease(taskId);
+	}
+
+	listLeases(): TaskLease[] {
+		return this.getSqlite().listLeases();
+	}
+
+	/**
+	 * Registers a listener called with the live leases whenever one is taken,
+	 * renewed or released. Expiry is not announced; clients compare `expiresAt`.
+	 */
+	onLeasesChanged(listener: (leases: TaskLease[]) => void): () => void {
+		this.leaseListeners.add(listener);
+		return () => this.leaseListeners.delete(listener);
+	}
+
+	private notifyLeaseListeners(): void {
+		if (this.leaseListeners.size === 0) return;
+		const leases = this.listLeases();
+		for (const listener of this.leaseListeners) listener(leases);
+	}
+
 	/**
 	 * Rebuild SQLite index from all markdown files. Idempotent.
 	 */
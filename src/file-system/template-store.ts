@@ -0,0 +1,48 @@
+import { join } from "node:path";
+import { parseTaskTemplate } from "../markdown/parser.ts";
+import type { TaskTemplate } from "../types/index.ts";
+import { sortByTaskId } from "../utils/task-sorting.ts";
+
+/**
+ * Reads task templates from backlog/templates. Templates are written by hand, so there is no save.
+ */
+export class TemplateStore {
+	private readonly templatesDir: string;
+
+	constructor(templatesDir: string) {
+		this.templatesDir = templatesDir;
+	}
+
+	private async listTemplateFiles(): Promise<string[]> {
+		try {
+			return await Array.fromAsync(
+				new Bun.Glob("template-*.md").scan({ cwd: this.templatesDir, followSymlinks: true }),
+			);
+		} catch {
+			return [];
+		}
+	}
+
+	async loadTemplate(templateId: string): Promise<TaskTemplate | null> {
+		const prefix = `template-${templateId.replace(/^template-/i, "")} -`.toLowerCase();
+		const file = (await this.listTemplateFiles()).find((match) => match.toLowerCase().startsWith(prefix));
+		if (!file) return null;
+		try {
+			return parseTaskTemplate(await Bun.file(join(this.templatesDir, file)).text());
+		} catch {
+			return null;
+		}
+	}
+
+	async listTemplates(): Promise<TaskTemplate[]> {
+		const templates: TaskTemplate[] = [];
+		for (const file of await this.listTemplateFiles()) {
+			try {
+				templates.push(parseTaskTemplate(await Bun.file(join(this.templatesDir, file)).text()));
+			} catch {
+				// Skip files that are not valid templates
+			}
+		}
+		return sortByTaskId(templates);
+	}
+}
@@ -0,0 +1,75 @@
+import { unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { parseSavedView } from "../markdown/parser.ts";
+import { serializeSavedView } from "../markdown/serializer.ts";
+import type { SavedView } from "../types/index.ts";
+import { sortByTaskId } from "../utils/task-sorting.ts";
+import { ensureDirectoryExists, sanitizeFilename } from "./shared.ts";
+
+export class ViewStore {
+	private readonly viewsDir: string;
+
+	constructor(viewsDir: string) {
+		this.viewsDir = viewsDir;
+	}
+
+	private async listViewFiles(): Promise<string[]> {
+		try {
+			return await Array.fromAsync(new Bun.Glob("view-*.md").scan({ cwd: this.viewsDir, followSymlinks: true }));
+		} catch {
+			return [];
+		}
+	}
+
+	private filePrefix(id: string): string {
+		return `view-${id.replace(/^view-/i, "")} -`;
+	}
+
+	async saveView(view: SavedView): Promise<void> {
+		const filename = `${this.filePrefix(view.id)} ${sanitizeFilename(view.name)}.md`;
+		// Renaming a view changes its filename; drop the old file
+		for (const match of await this.listViewFiles()) {
+			if (match === filename || !match.startsWith(this.filePrefix(view.id))) continue;
+			try {
+				await unlink(join(this.viewsDir, match));
+			} catch {
+				// Ignore cleanup errors
+			}
+		}
+
+		await ensureDirectoryExists(this.viewsDir);
+		await Bun.write(join(this.viewsDir, filename), serializeSavedView(view));
+	}
+
+	async loadView(viewId: string): Promise<SavedView | null> {
+		const prefix = this.filePrefix(viewId).toLowerCase();
+		const file = (await this.listViewFiles()).find((match) => match.toLowerCase().startsWith(prefix));
+		if (!file) return null;
+		try {
+			return parseSavedView(await Bun.file(join(this.viewsDir, file)).text());
+		} catch {
+			return null;
+		}
+	}
+
+	async listViews(): Promise<SavedView[]> {
+		const views: SavedView[] = [];
+		for (const file of await this.listViewFiles()) {
+			try {
+				views.push(parseSavedView(await Bun.file(join(this.viewsDir, file)).text()));
+			} catch {
+				// Skip files that are not valid views
+			}
+		}
+		return sortByTaskId(views);
+	}
+
+	async deleteView(viewId: string): Promise<boolean> {
+		const prefix = this.filePrefix(viewId).toLowerCase();
+		const files = (await this.listViewFiles()).filter((match) => match.toLowerCase().startsWith(prefix));
+		for (const file of files) {
+			await unlink(join(this.viewsDir, file));
+		}
+		return files.length > 0;
+	}
+}
@@ -1,4 +1,6 @@
-import type { Task } from "../types/index.ts";
+import { getLoggedHours } from "../core/effort.ts";
+import { isOverdue } from "../core/schedule.ts";
+import type { Task, TaskHistoryEntry } from "../types/index.ts";
 import { sortByTaskId } from "../utils/task-sorting.ts";
 import { transformCodePathsPlain } from "./code-path.ts";
 
@@ -50,6 +52,8 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 	lines.push(`Task ${task.id} - ${task.title}`);
 
 	if (options.compact) {
+		// Edits return the compact form; the version lets the caller chain another edit
+		if (task.version) lines.push(`Version: ${task.version}`);
 		return lines.join("\n");
 	}
 
@@ -62,6 +66,24 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 		lines.push(`Priority: ${priorityLabel}`);
 	}
 
+	if (task.startDate) {
+		lines.push(`Start: ${task.startDate}`);
+	}
+
+	if (task.dueDate) {
+		lines.push(`Due: ${task.dueDate}${isOverdue(task) ? " (overdue)" : ""}`);
+	}
+
+	if (typeof task.estimate === "number") {
+		lines.push(`Estimate: ${task.estimate}`);
+	}
+
+	const timeEntries = task.timeEntries ?? [];
+	if (timeEntries.length > 0) {
+		const count = timeEntries.length === 1 ? "1 entry" : `${timeEntries.length} entries`;
+		lines.push(`Logged: ${getLoggedHours(task)}h (${count})`);
+	}
+
 	const assigneeText = formatAssignees(task.assignee);
 	if (assigneeText) {
 		lines.push(`Assignee: ${assigneeText}`);
@@ -74,7 +96,11 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 
 	lines.push(`Created: ${formatDateForDisplay(task.createdDate)}`);
 	if (task.updatedDate) {
-		lines.push(`Updated: ${formatDateForDisplay(task.updatedDate)}`);
+		const updatedBy = task.updatedBy ? ` by ${task.updatedBy}` : "";
+		lines.push(`Updated: ${formatDateForDisplay(task.updatedDate)}${updatedBy}`);
+	}
+	if (task.version) {
+		lines.push(`Version: ${task.version}`);
 	}
 
 	if (task.labels?.length) {
@@ -121,6 +147,17 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 	lines.push(transformCodePathsPlain(description && description.length > 0 ? description : "No description provided"));
 	lines.push("");
 
+	const acceptanceCriteria = task.acceptanceCriteriaItems ?? [];
+	if (acceptanceCriteria.length > 0) {
+		const doneCount = acceptanceCriteria.filter((item) => item.checked).length;
+		lines.push(`Acceptance Criteria (${doneCount}/${acceptanceCriteria.length}):`);
+		lines.push("-".repeat(50));
+		for (const item of acceptanceCriteria) {
+			lines.push(transformCodePathsPlain(`- [${item.checked ? "x" : " "}] #${item.index} ${item.text}`));
+		}
+		lines.push("");
+	}
+
 	const implementationPlan = task.implementationPlan?.trim();
 	if (implementationPlan) {
 		lines.push("Implementation Plan:");
@@ -137,5 +174,33 @@ export function formatTaskPlainText(task: Task, options: TaskPlainTextOptions =
 		lines.push("");
 	}
 
+	const comments = task.comments ?? [];
+	if (comments.length > 0) {
+		lines.push(`Comments (${comments.length}):`);
+		lines.push("-".repeat(50));
+		for (const comment of comments) {
+			lines.push(`${comment.author} · ${formatDateForDisplay(comment.date)}`);
+			lines.push(transformCodePathsPlain(comment.body));
+			lines.push("");
+		}
+	}
+
+	return lines.join("\n");
+}
+
+export function formatTaskHistoryPlainText(taskId: string, entries: TaskHistoryEntry[]): string {
+	if (entries.length === 0) {
+		return `No recorded history for ${taskId}. Changes appear here once they are committed to git.`;
+	}
+
+	const lines: string[] = [`History for ${taskId} (${entries.length} change${entries.length === 1 ? "" : "s"}):`];
+	for (const entry of entries) {
+		lines.push("");
+		const date = entry.date ? formatDateForDisplay(entry.date.slice(0, 16).replace("T", " ")) : "unknown date";
+		lines.push(`${date} · ${entry.author || "unknown"} · ${entry.commit.slice(0, 7)}`);
+		for (const change of entry.changes) {
+			lines.push(`  - ${change.summary}`);
+		}
+	}
 	return lines.join("\n");
 }
@@ -1,6 +1,7 @@
 import { realpath, stat } from "node:fs/promises";
 import { basename, dirname, isAbsolute, join, relative } from "node:path";
 import { $ } from "bun";
+import { getCurrentActor } from "../core/actor.ts";
 import type { BacklogConfig } from "../types/index.ts";
 
 type GitPathContext = {
@@ -8,6 +9,16 @@ type GitPathContext = {
 	relativePath: string;
 };
 
+export type FileHistoryEntry = {
+	hash: string;
+	author: string;
+	email: string;
+	date: string; // ISO 8601 author date
+	message: string;
+	path: string; // path relative to the repository root at that commit
+	content: string;
+};
+
 export class GitOperations {
 	private projectRoot: string;
 	private config: BacklogConfig | null = null;
@@ -561,6 +572,88 @@ export class GitOperations {
 		return out;
 	}
 
+	/**
+	 * List the commits that touched a file, newest first, following renames.
+	 * Each entry carries the file content at that commit so callers can diff versions.
+	 * Without a limit the whole history is read.
+	 * Returns an empty list when the file is not tracked or the path is outside a repository.
+	 */
+	async getFileHistory(filePath: string, limit?: number): Promise<FileHistoryEntry[]> {
+		const context = await this.getPathContext(filePath);
+		if (!context) return [];
+
+		let stdout: string;
+		try {
+			({ stdout } = await this.execGit(
+				[
+					"-c",
+					"core.quotePath=false",
+					"log",
+					"--follow",
+					...(limit === undefined ? [] : [`--max-count=${limit}`]),
+					"--name-only",
+					"--format=%x1e%H%x1f%an%x1f%ae%x1f%aI%x1f%s",
+					"--",
+					context.relativePath,
+				],
+				{ readOnly: true, cwd: context.repoRoot },
+			));
+		} catch {
+			return [];
+		}
+
+		const entries: FileHistoryEntry[] = [];
+		// Records are separated by RS; the header fields by US, followed by the path at that commit
+		for (const record of stdout.split("\x1e")) {
+			const [header, ...rest] = record.split("\n");
+			const [hash, author, email, date, message] = (header ?? "").split("\x1f");
+			const path = rest.map((line) => line.trim()).find((line) => line.length > 0);
+			if (!hash || !path) continue;
+
+			const content = await this.execGit(["show", `${hash}:${path}`], { readOnly: true, cwd: context.repoRoot })
+				.then((result) => result.stdout)
+				.catch(() => null);
+			if (content === null) continue;
+
+			entries.push({
+				hash,
+				author: author ?? "",
+				email: email ?? "",
+				date: date ?? "",
+				message: message ?? "",
+				path,
+				content,
+			});
+		}
+		return entries;
+	}
+
+	/** The commit HEAD points at, or null outside a repository or before the first commit. */
+	async getHeadCommit(): Promise<string | null> {
+		try {
+			const { stdout } = await this.execGit(["rev-parse", "--verify", "-q", "HEAD"], { readOnly: true });
+			return stdout.trim() || null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Paths, relative to the repository root, that differ between two commits, including both
+	 * sides of renames. Returns null when git cannot compare them, e.g. after a history rewrite.
+	 */
+	async listChangedFiles(fromCommit: string, toCommit: string): Promise<Set<string> | null> {
+		try {
+			const { stdout } = await this.execGit(
+				["-c", "core.quotePath=false", "diff", "--name-only", "--no-renames", fromCommit, toCommit],
+				{ readOnly: true },
+			);
+			return new Set(stdout.split("\n").filter((line) => line.length > 0));
+		} catch {
+			return null;
+		}
+	}
+
 	async getFileLastModifiedBranch(filePath: string): Promise<string | null> {
 		try {
 			// Get the hash of the last commit that touched the file
@@ -610,9 +703,11 @@ export class GitOperations {
 	): Promise<{ stdout: string; stderr: string }> {
 		// Use Bun.spawn so we can explicitly control stdio behaviour on Windows. When running
 		// under the MCP stdio transport, delegating to git with inherited stdin can deadlock.
-		const env = options?.readOnly
+		const baseEnv = options?.readOnly
 			? ({ ...process.env, GIT_OPTIONAL_LOCKS: "0" } as Record<string, string>)
 			: (process.env as Record<string, string>);
+		// Commits made on behalf of a user or agent name them as the author; the committer stays the server identity
+		const env = args[0] === "commit" ? { ...baseEnv, ...this.getAuthorEnv() } : baseEnv;
 
 		const subprocess = Bun.spawn(["git", ...args], {
 			cwd: options?.cwd ?? this.projectRoot,
@@ -633,6 +728,15 @@ export class GitOperations {
 		return { stdout, stderr };
 	}
 
+	private getAuthorEnv(): Record<string, string> {
+		const actor = getCurrentActor();
+		if (!actor) return {};
+		return {
+			GIT_AUTHOR_NAME: actor.name,
+			...(actor.email && { GIT_AUTHOR_EMAIL: actor.email }),
+		};
+	}
+
 	private async getPathContext(targetPath: string): Promise<GitPathContext | null> {
 		const absolutePath = isAbsolute(targetPath) ? targetPath : join(this.projectRoot, targetPath);
 		const resolvedPath = await realpath(absolutePath).catch(() => null);
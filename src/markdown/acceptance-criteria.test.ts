@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { makeTask } from "../test/fixtures.ts";
+import { parseAcceptanceCriteria, serializeAcceptanceCriteria } from "./acceptance-criteria.ts";
+import { parseTask } from "./parser.ts";
+import { serializeTask } from "./serializer.ts";
+
+describe("parseAcceptanceCriteria", () => {
+	it("parses checked and unchecked items", () => {
+		const items = parseAcceptanceCriteria("- [ ] #1 First\n- [x] #2 Second\n- [X] #3 Third");
+		expect(items).toEqual([
+			{ index: 1, text: "First", checked: false },
+			{ index: 2, text: "Second", checked: true },
+			{ index: 3, text: "Third", checked: true },
+		]);
+	});
+
+	it("renumbers items and accepts lines without an index marker", () => {
+		const items = parseAcceptanceCriteria("- [ ] #4 First\nsome note\n- [x] Second");
+		expect(items.map((item) => item.index)).toEqual([1, 2]);
+		expect(items[1]?.text).toBe("Second");
+	});
+
+	it("returns an empty list for missing sections", () => {
+		expect(parseAcceptanceCriteria(undefined)).toEqual([]);
+	});
+});
+
+describe("serializeAcceptanceCriteria", () => {
+	it("writes numbered checkbox lines", () => {
+		const body = serializeAcceptanceCriteria([
+			{ index: 3, text: "First", checked: true },
+			{ index: 7, text: "Second", checked: false },
+		]);
+		expect(body).toBe("- [x] #1 First\n- [ ] #2 Second");
+	});
+});
+
+describe("task round-trip", () => {
+	it("places the section between description and implementation plan", () => {
+		const markdown = serializeTask(
+			makeTask({
+				description: "Do the thing",
+				implementationPlan: "1. Plan",
+				acceptanceCriteriaItems: [{ index: 1, text: "Works", checked: false }],
+			}),
+		);
+		const descriptionAt = markdown.indexOf("## Description");
+		const criteriaAt = markdown.indexOf("## Acceptance Criteria");
+		const planAt = markdown.indexOf("## Implementation Plan");
+		expect(descriptionAt).toBeLessThan(criteriaAt);
+		expect(criteriaAt).toBeLessThan(planAt);
+		expect(markdown).toContain("<!-- SECTION:AC:BEGIN -->\n- [ ] #1 Works\n<!-- SECTION:AC:END -->");
+
+		const parsed = parseTask(markdown);
+		expect(parsed.acceptanceCriteriaItems).toEqual([{ index: 1, text: "Works", checked: false }]);
+		expect(parsed.description).toBe("Do the thing");
+		expect(parsed.implementationPlan).toBe("1. Plan");
+	});
+
+	it("keeps free-form legacy sections when there are no checklist items", () => {
+		const parsed = parseTask(
+			serializeTask(
+				makeTask({ description: "Do the thing", rawContent: "## Acceptance Criteria\n\nEverything works." }),
+			),
+		);
+		expect(parsed.acceptanceCriteriaItems).toEqual([]);
+		expect(serializeTask(parsed)).toContain("Everything works.");
+	});
+});
@@ -0,0 +1,24 @@
+import type { AcceptanceCriterion } from "../types/index.ts";
+
+const CHECKLIST_LINE = /^\s*[-*]\s+\[([ xX])\]\s+(?:#\d+\s+)?(.*)$/;
+
+/**
+ * Parses the body of the Acceptance Criteria section into checklist items.
+ * Items are renumbered sequentially so `#N` always matches the item's position.
+ */
+export function parseAcceptanceCriteria(body: string | undefined): AcceptanceCriterion[] {
+	if (!body) return [];
+	const items: AcceptanceCriterion[] = [];
+	for (const line of body.replace(/\r\n/g, "\n").split("\n")) {
+		const match = CHECKLIST_LINE.exec(line);
+		if (!match) continue;
+		const text = (match[2] ?? "").trim();
+		if (!text) continue;
+		items.push({ index: items.length + 1, text, checked: match[1] !== " " });
+	}
+	return items;
+}
+
+export function serializeAcceptanceCriteria(items: AcceptanceCriterion[]): string {
+	return items.map((item, position) => `- [${item.checked ? "x" : " "}] #${position + 1} ${item.text}`).join("\n");
+}
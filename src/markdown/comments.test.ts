@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+import type { Task } from "../types/index.ts";
+import { containsCommentMarker, parseComments, serializeComments } from "./comments.ts";
+import { parseTask } from "./parser.ts";
+import { serializeTask } from "./serializer.ts";
+
+describe("comments section", () => {
+	it("round-trips comments whose bodies contain markdown headings", () => {
+		const comments = [
+			{ author: "Admin User", date: "2026-01-01 10:00", body: "First pass done." },
+			{ author: "agent", date: "2026-01-02 09:30", body: "## Findings\n\n- parser is fine" },
+		];
+		expect(parseComments(serializeComments(comments))).toEqual(comments);
+	});
+
+	it("flags bodies holding the markers that delimit comments and sections", () => {
+		expect(containsCommentMarker("see template:\n<!-- COMMENT:END -->\nrest of note")).toBe(true);
+		expect(containsCommentMarker("<!-- section:comments:begin -->")).toBe(true);
+		expect(containsCommentMarker("<!-- a plain html comment -->")).toBe(false);
+	});
+
+	it("keeps the thread last and intact when other sections change", () => {
+		const task: Task = {
+			id: "TASK-1",
+			title: "Commented task",
+			status: "To Do",
+			assignee: [],
+			createdDate: "2026-01-01 10:00",
+			labels: [],
+			dependencies: [],
+			description: "Body",
+			comments: [{ author: "alice", date: "2026-01-01 11:00", body: "Looks good" }],
+		};
+		const markdown = serializeTask({ ...parseTask(serializeTask(task)), finalSummary: "Shipped" });
+		expect(markdown.indexOf("## Final Summary")).toBeLessThan(markdown.indexOf("## Comments"));
+
+		const parsed = parseTask(markdown);
+		expect(parsed.comments).toEqual(task.comments ?? []);
+		expect(parsed.finalSummary).toBe("Shipped");
+		expect(parsed.description).toBe("Body");
+	});
+});
@@ -0,0 +1,40 @@
+import type { TaskComment } from "../types/index.ts";
+
+const COMMENT_BEGIN = "<!-- COMMENT:BEGIN -->";
+const COMMENT_END = "<!-- COMMENT:END -->";
+const COMMENT_BLOCK = /^### (.+?) · (.+?)\s*\n<!-- COMMENT:BEGIN -->\n([\s\S]*?)\n?<!-- COMMENT:END -->/gm;
+const STORAGE_MARKER = /<!--\s*(?:COMMENT|SECTION):/i;
+
+/**
+ * True when text holds a comment or section marker. Bodies are stored between these markers, so
+ * one inside a body would end the comment early and lose the rest of it on the next save.
+ */
+export function containsCommentMarker(text: string): boolean {
+	return STORAGE_MARKER.test(text);
+}
+
+/**
+ * Parses the body of the Comments section into an ordered thread.
+ * Each entry is a `### author · date` heading followed by a marked body so
+ * comment text may contain any markdown, including headings.
+ */
+export function parseComments(body: string | undefined): TaskComment[] {
+	if (!body) return [];
+	const comments: TaskComment[] = [];
+	for (const match of body.replace(/\r\n/g, "\n").matchAll(COMMENT_BLOCK)) {
+		const author = match[1]?.trim() ?? "";
+		const date = match[2]?.trim() ?? "";
+		const text = match[3]?.trim() ?? "";
+		if (!author || !text) continue;
+		comments.push({ author, date, body: text });
+	}
+	return comments;
+}
+
+export function serializeComments(comments: TaskComment[]): string {
+	return comments
+		.map(
+			(comment) => `### ${comment.author} · ${comment.date}\n${COMMENT_BEGIN}\n${comment.body.trim()}\n${COMMENT_END}`,
+		)
+		.join("\n\n");
+}
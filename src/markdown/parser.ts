@@ -1,5 +1,22 @@
 import matter from "gray-matter";
-import type { Decision, Document, Milestone, ParsedMarkdown, Task } from "../types/index.ts";
+import {
+	type Decision,
+	type Document,
+	type Milestone,
+	type ParsedMarkdown,
+	SAVED_VIEW_SORTS,
+	type SavedView,
+	type SavedViewSort,
+	type Task,
+	type TaskTemplate,
+	type TaskTemplateRecurrence,
+	type TimeEntry,
+	WEEKDAYS,
+	type Weekday,
+} from "../types/index.ts";
+import { contentVersion } from "../utils/content-version.ts";
+import { parseAcceptanceCriteria } from "./acceptance-criteria.ts";
+import { parseComments } from "./comments.ts";
 import { extractStructuredSection, STRUCTURED_SECTION_KEYS } from "./structured-sections.ts";
 
 function normalizeFlowList(prefix: string, rawValue: string): string | null {
@@ -33,8 +50,8 @@ function preprocessFrontmatter(frontmatter: string): string {
 	return frontmatter
 		.split(/\r?\n/) // Handle both Windows (\r\n) and Unix (\n) line endings
 		.map((line) => {
-			// Handle both assignee and reporter fields that start with @
-			const match = line.match(/^(\s*(?:assignee|reporter):\s*)(.*)$/);
+			// Handle assignee, reporter, updated_by and time entry author fields that start with @
+			const match = line.match(/^(\s*(?:assignee|reporter|updated_by|(?:- )?author):\s*)(.*)$/);
 			if (!match) return line;
 
 			const prefix = match[1] ?? "";
@@ -138,6 +155,36 @@ export function parseMarkdown(content: string): ParsedMarkdown {
 	};
 }
 
+function parseEstimate(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") return undefined;
+	const estimate = Number(value);
+	return Number.isFinite(estimate) && estimate >= 0 ? estimate : undefined;
+}
+
+function parseCalendarDate(value: unknown): string | undefined {
+	const date = normalizeDate(value).slice(0, 10);
+	return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined;
+}
+
+function parseTimeEntries(value: unknown): TimeEntry[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const entries: TimeEntry[] = [];
+	for (const raw of value) {
+		if (!raw || typeof raw !== "object") continue;
+		const entry = raw as Record<string, unknown>;
+		const hours = Number(entry.hours);
+		const date = normalizeDate(entry.date);
+		if (!Number.isFinite(hours) || hours <= 0 || !date) continue;
+		entries.push({
+			date,
+			hours,
+			...(entry.author ? { author: String(entry.author) } : {}),
+			...(entry.note ? { note: String(entry.note) } : {}),
+		});
+	}
+	return entries.length > 0 ? entries : undefined;
+}
+
 export function parseTask(content: string): Task {
 	const { frontmatter, content: rawContent } = parseMarkdown(content);
 
@@ -149,8 +196,10 @@ export function parseTask(content: string): Task {
 
 	// Parse sections
 	const descriptionSection = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.description) || "";
+	const acceptanceCriteriaSection = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.acceptanceCriteria);
 	const planSection = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.implementationPlan) || undefined;
 	const finalSummarySection = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.finalSummary) || undefined;
+	const commentsSection = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.comments);
 
 	return {
 		id: String(frontmatter.id || ""),
@@ -164,6 +213,9 @@ export function parseTask(content: string): Task {
 		reporter: frontmatter.reporter ? String(frontmatter.reporter) : undefined,
 		createdDate: normalizeDate(frontmatter.created_date),
 		updatedDate: frontmatter.updated_date ? normalizeDate(frontmatter.updated_date) : undefined,
+		updatedBy: frontmatter.updated_by ? String(frontmatter.updated_by) : undefined,
+		startDate: parseCalendarDate(frontmatter.start_date),
+		dueDate: parseCalendarDate(frontmatter.due_date),
 		labels: Array.isArray(frontmatter.labels) ? frontmatter.labels.map(String) : [],
 		milestone: frontmatter.milestone ? String(frontmatter.milestone) : undefined,
 		dependencies: Array.isArray(frontmatter.dependencies) ? frontmatter.dependencies.map(String) : [],
@@ -171,13 +223,20 @@ export function parseTask(content: string): Task {
 		documentation: Array.isArray(frontmatter.documentation) ? frontmatter.documentation.map(String) : [],
 		rawContent,
 		description: descriptionSection,
+		acceptanceCriteriaItems: parseAcceptanceCriteria(acceptanceCriteriaSection),
 		implementationPlan: planSection,
 		finalSummary: finalSummarySection,
+		comments: parseComments(commentsSection),
 		parentTaskId: frontmatter.parent_task_id ? String(frontmatter.parent_task_id) : undefined,
 		subtasks: Array.isArray(frontmatter.subtasks) ? frontmatter.subtasks.map(String) : undefined,
 		priority: validatedPriority,
+		estimate: parseEstimate(frontmatter.estimate),
+		timeEntries: parseTimeEntries(frontmatter.time_entries),
 		ordinal: frontmatter.ordinal !== undefined ? Number(frontmatter.ordinal) : undefined,
 		onStatusChange: frontmatter.onStatusChange ? String(frontmatter.onStatusChange) : undefined,
+		template: frontmatter.template ? String(frontmatter.template) : undefined,
+		occurrence: frontmatter.occurrence ? String(frontmatter.occurrence) : undefined,
+		version: contentVersion(content),
 	};
 }
 
@@ -193,10 +252,88 @@ export function parseDecision(content: string): Decision {
 		decision: extractSection(rawContent, "Decision") || "",
 		consequences: extractSection(rawContent, "Consequences") || "",
 		alternatives: extractSection(rawContent, "Alternatives"),
+		supersededBy: frontmatter.superseded_by ? String(frontmatter.superseded_by) : undefined,
 		rawContent, // Raw markdown content without frontmatter
 	};
 }
 
+export function parseSavedView(content: string): SavedView {
+	const { frontmatter, content: rawContent } = parseMarkdown(content);
+	const filters = (
+		typeof frontmatter.filters === "object" && frontmatter.filters !== null ? frontmatter.filters : {}
+	) as Record<string, unknown>;
+	const text = (value: unknown) => (value === undefined || value === null || value === "" ? undefined : String(value));
+	const priority = text(filters.priority)?.toLowerCase();
+	const sort = text(frontmatter.sort);
+	const lanes = text(frontmatter.lanes);
+	const description = rawContent.trim();
+
+	return {
+		id: String(frontmatter.id || ""),
+		name: String(frontmatter.name || ""),
+		...(description && { description }),
+		filters: {
+			status: text(filters.status),
+			assignee: text(filters.assignee),
+			priority: priority === "high" || priority === "medium" || priority === "low" ? priority : undefined,
+			labels: Array.isArray(filters.labels) ? filters.labels.map(String) : undefined,
+			milestone: text(filters.milestone),
+			ready: typeof filters.ready === "boolean" ? filters.ready : undefined,
+		},
+		query: text(frontmatter.query),
+		sort: SAVED_VIEW_SORTS.includes(sort as SavedViewSort) ? (sort as SavedViewSort) : undefined,
+		lanes: lanes === "none" || lanes === "milestone" ? lanes : undefined,
+	};
+}
+
+function parseTemplateRecurrence(value: unknown): TaskTemplateRecurrence | undefined {
+	const recurrence = (typeof value === "object" && value !== null ? value : { every: value }) as Record<
+		string,
+		unknown
+	>;
+	const every = String(recurrence.every ?? "").toLowerCase();
+	if (every === "milestone") {
+		return { every: "milestone" };
+	}
+	if (every === "week" || every === "weekly") {
+		const day = String(recurrence.day ?? "monday").toLowerCase();
+		return { every: "week", day: WEEKDAYS.includes(day as Weekday) ? (day as Weekday) : "monday" };
+	}
+	return undefined;
+}
+
+/**
+ * Parses a template file: settings in the frontmatter and the task sections (Description,
+ * Acceptance Criteria as a checklist, Implementation Plan) in the body, as in a task file.
+ */
+export function parseTaskTemplate(content: string): TaskTemplate {
+	const { frontmatter, content: rawContent } = parseMarkdown(content);
+	const list = (value: unknown) => (Array.isArray(value) ? value.map(String).filter((item) => item.trim()) : []);
+	const priority = String(frontmatter.priority ?? "").toLowerCase();
+	const status = frontmatter.status ? String(frontmatter.status) : undefined;
+	const description = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.description);
+	const plan = extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.implementationPlan);
+	const recurrence = parseTemplateRecurrence(frontmatter.recurrence);
+	const name = String(frontmatter.name || "");
+
+	return {
+		id: String(frontmatter.id || ""),
+		name,
+		title: String(frontmatter.title || name),
+		labels: list(frontmatter.labels),
+		assignee: list(frontmatter.assignee),
+		...((priority === "high" || priority === "medium" || priority === "low") && { priority }),
+		...(status && { status }),
+		...(description && { description }),
+		acceptanceCriteria: parseAcceptanceCriteria(
+			extractStructuredSection(rawContent, STRUCTURED_SECTION_KEYS.acceptanceCriteria),
+		).map((criterion) => criterion.text),
+		...(plan && { implementationPlan: plan }),
+		subtasks: list(frontmatter.subtasks),
+		...(recurrence && { recurrence }),
+	};
+}
+
 export function parseDocument(content: string): Document {
 	const { frontmatter, content: rawContent } = parseMarkdown(content);
 
@@ -220,6 +357,7 @@ export function parseMilestone(content: string): Milestone {
 		description: extractSection(rawContent, "Description") || "",
 		// Missing field defaults to true for backwards compatibility with existing milestone files.
 		active: frontmatter.active !== undefined ? Boolean(frontmatter.active) : true,
+		targetDate: parseCalendarDate(frontmatter.target_date),
 		rawContent,
 	};
 }
@@ -1,4 +1,10 @@
-const BASE_SECTION_TITLES = ["Description", "Implementation Plan", "Final Summary"] as const;
+const BASE_SECTION_TITLES = [
+	"Description",
+	"Acceptance Criteria",
+	"Implementation Plan",
+	"Final Summary",
+	"Comments",
+] as const;
 
 const SECTION_TITLE_VARIANTS: Record<string, string[]> = {
 	"Implementation Plan": ["Implementation Plan (Optional)"],
@@ -1,6 +1,8 @@
 import matter from "gray-matter";
-import type { Decision, Document, Task } from "../types/index.ts";
+import type { AcceptanceCriterion, Decision, Document, SavedView, Task, TaskComment } from "../types/index.ts";
 import { normalizeAssignee } from "../utils/assignee.ts";
+import { parseAcceptanceCriteria, serializeAcceptanceCriteria } from "./acceptance-criteria.ts";
+import { serializeComments } from "./comments.ts";
 import { getStructuredSections, updateStructuredSections } from "./structured-sections.ts";
 
 export function serializeTask(task: Task): string {
@@ -13,6 +15,9 @@ export function serializeTask(task: Task): string {
 		...(task.reporter && { reporter: task.reporter }),
 		created_date: task.createdDate,
 		...(task.updatedDate && { updated_date: task.updatedDate }),
+		...(task.updatedBy && { updated_by: task.updatedBy }),
+		...(task.startDate && { start_date: task.startDate }),
+		...(task.dueDate && { due_date: task.dueDate }),
 		labels: task.labels,
 		...(task.milestone && { milestone: task.milestone }),
 		dependencies: task.dependencies,
@@ -21,20 +26,34 @@ export function serializeTask(task: Task): string {
 		...(task.parentTaskId && { parent_task_id: task.parentTaskId }),
 		...(task.subtasks && task.subtasks.length > 0 && { subtasks: task.subtasks }),
 		...(task.priority && { priority: task.priority }),
+		...(typeof task.estimate === "number" && { estimate: task.estimate }),
+		...(task.timeEntries && task.timeEntries.length > 0 && { time_entries: task.timeEntries }),
 		...(task.ordinal !== undefined && { ordinal: task.ordinal }),
 		...(task.onStatusChange && { onStatusChange: task.onStatusChange }),
+		...(task.template && { template: task.template }),
+		...(task.occurrence && { occurrence: task.occurrence }),
 	};
 
 	let contentBody = task.rawContent ?? "";
 	if (typeof task.description === "string" && task.description.trim() !== "") {
 		contentBody = updateTaskDescription(contentBody, task.description);
 	}
+	if (Array.isArray(task.acceptanceCriteriaItems)) {
+		// Leave free-form legacy sections alone unless there are checklist items to write or remove
+		const existingItems = parseAcceptanceCriteria(getStructuredSections(contentBody).acceptanceCriteria);
+		if (task.acceptanceCriteriaItems.length > 0 || existingItems.length > 0) {
+			contentBody = updateTaskAcceptanceCriteria(contentBody, task.acceptanceCriteriaItems);
+		}
+	}
 	if (typeof task.implementationPlan === "string") {
 		contentBody = updateTaskImplementationPlan(contentBody, task.implementationPlan);
 	}
 	if (typeof task.finalSummary === "string") {
 		contentBody = updateTaskFinalSummary(contentBody, task.finalSummary);
 	}
+	if (task.comments && task.comments.length > 0) {
+		contentBody = updateTaskComments(contentBody, task.comments);
+	}
 
 	const serialized = matter.stringify(contentBody, frontmatter);
 	// Ensure there's a blank line between frontmatter and content
@@ -47,6 +66,7 @@ export function serializeDecision(decision: Decision): string {
 		title: decision.title,
 		date: decision.date,
 		status: decision.status,
+		...(decision.supersededBy && { superseded_by: decision.supersededBy }),
 	};
 
 	let content = `## Context\n\n${decision.context}\n\n`;
@@ -73,12 +93,31 @@ export function serializeDocument(document: Document): string {
 	return matter.stringify(document.rawContent, frontmatter);
 }
 
+export function serializeSavedView(view: SavedView): string {
+	// Drop unset filters so the file only lists the ones that apply
+	const filters = Object.fromEntries(
+		Object.entries(view.filters).filter(([, value]) => value !== undefined && !(Array.isArray(value) && !value.length)),
+	);
+	const frontmatter = {
+		id: view.id,
+		name: view.name,
+		...(view.query && { query: view.query }),
+		...(Object.keys(filters).length > 0 && { filters }),
+		...(view.sort && { sort: view.sort }),
+		...(view.lanes && { lanes: view.lanes }),
+	};
+
+	return matter.stringify(view.description ?? "", frontmatter);
+}
+
 export function updateTaskImplementationPlan(content: string, plan: string): string {
 	const sections = getStructuredSections(content);
 	return updateStructuredSections(content, {
 		description: sections.description ?? "",
+		acceptanceCriteria: sections.acceptanceCriteria ?? "",
 		implementationPlan: plan,
 		finalSummary: sections.finalSummary ?? "",
+		comments: sections.comments ?? "",
 	});
 }
 
@@ -86,8 +125,10 @@ export function updateTaskFinalSummary(content: string, summary: string): string
 	const sections = getStructuredSections(content);
 	return updateStructuredSections(content, {
 		description: sections.description ?? "",
+		acceptanceCriteria: sections.acceptanceCriteria ?? "",
 		implementationPlan: sections.implementationPlan ?? "",
 		finalSummary: summary,
+		comments: sections.comments ?? "",
 	});
 }
 
@@ -95,7 +136,31 @@ export function updateTaskDescription(content: string, description: string): str
 	const sections = getStructuredSections(content);
 	return updateStructuredSections(content, {
 		description,
+		acceptanceCriteria: sections.acceptanceCriteria ?? "",
+		implementationPlan: sections.implementationPlan ?? "",
+		finalSummary: sections.finalSummary ?? "",
+		comments: sections.comments ?? "",
+	});
+}
+
+export function updateTaskAcceptanceCriteria(content: string, items: AcceptanceCriterion[]): string {
+	const sections = getStructuredSections(content);
+	return updateStructuredSections(content, {
+		description: sections.description ?? "",
+		acceptanceCriteria: serializeAcceptanceCriteria(items),
+		implementationPlan: sections.implementationPlan ?? "",
+		finalSummary: sections.finalSummary ?? "",
+		comments: sections.comments ?? "",
+	});
+}
+
+export function updateTaskComments(content: string, comments: TaskComment[]): string {
+	const sections = getStructuredSections(content);
+	return updateStructuredSections(content, {
+		description: sections.description ?? "",
+		acceptanceCriteria: sections.acceptanceCriteria ?? "",
 		implementationPlan: sections.implementationPlan ?? "",
 		finalSummary: sections.finalSummary ?? "",
+		comments: serializeComments(comments),
 	});
 }
@@ -1,11 +1,18 @@
 import { getStructuredSectionTitles } from "./section-titles.ts";
 
-export type StructuredSectionKey = "description" | "implementationPlan" | "finalSummary";
+export type StructuredSectionKey =
+	| "description"
+	| "acceptanceCriteria"
+	| "implementationPlan"
+	| "finalSummary"
+	| "comments";
 
 export const STRUCTURED_SECTION_KEYS: Record<StructuredSectionKey, StructuredSectionKey> = {
 	description: "description",
+	acceptanceCriteria: "acceptanceCriteria",
 	implementationPlan: "implementationPlan",
 	finalSummary: "finalSummary",
+	comments: "comments",
 };
 
 interface SectionConfig {
@@ -15,11 +22,19 @@ interface SectionConfig {
 
 const SECTION_CONFIG: Record<StructuredSectionKey, SectionConfig> = {
 	description: { title: "Description", markerId: "DESCRIPTION" },
+	acceptanceCriteria: { title: "Acceptance Criteria", markerId: "AC" },
 	implementationPlan: { title: "Implementation Plan", markerId: "PLAN" },
 	finalSummary: { title: "Final Summary", markerId: "FINAL_SUMMARY" },
+	comments: { title: "Comments", markerId: "COMMENTS" },
 };
 
-const SECTION_INSERTION_ORDER: StructuredSectionKey[] = ["description", "implementationPlan", "finalSummary"];
+const SECTION_INSERTION_ORDER: StructuredSectionKey[] = [
+	"description",
+	"acceptanceCriteria",
+	"implementationPlan",
+	"finalSummary",
+	"comments",
+];
 
 const KNOWN_SECTION_TITLES = new Set<string>([...getStructuredSectionTitles()]);
 
@@ -207,8 +222,10 @@ export function extractStructuredSection(content: string, key: StructuredSection
 
 export interface StructuredSectionValues {
 	description?: string;
+	acceptanceCriteria?: string;
 	implementationPlan?: string;
 	finalSummary?: string;
+	comments?: string;
 }
 
 export function updateStructuredSections(content: string, sections: StructuredSectionValues): string {
@@ -221,8 +238,10 @@ export function updateStructuredSections(content: string, sections: StructuredSe
 	working = working.trim();
 
 	const description = sections.description?.trim() || "";
+	const acceptanceCriteria = sections.acceptanceCriteria?.trim() || "";
 	const plan = sections.implementationPlan?.trim() || "";
 	const finalSummary = sections.finalSummary?.trim() || "";
+	const comments = sections.comments?.trim() || "";
 
 	let tail = working;
 
@@ -246,6 +265,15 @@ export function updateStructuredSections(content: string, sections: StructuredSe
 		}
 	}
 
+	if (comments) {
+		// The thread always closes the document so new entries read top to bottom
+		tail = appendBlock(tail, buildSectionBlock("comments", comments));
+	}
+
+	if (acceptanceCriteria) {
+		tail = insertAtStart(tail, buildSectionBlock("acceptanceCriteria", acceptanceCriteria));
+	}
+
 	let output = tail;
 	if (description) {
 		const descriptionBlock = buildSectionBlock("description", description);
@@ -259,7 +287,9 @@ export function updateStructuredSections(content: string, sections: StructuredSe
 export function getStructuredSections(content: string): StructuredSectionValues {
 	return {
 		description: extractStructuredSection(content, "description") || undefined,
+		acceptanceCriteria: extractStructuredSection(content, "acceptanceCriteria") || undefined,
 		implementationPlan: extractStructuredSection(content, "implementationPlan") || undefined,
 		finalSummary: extractStructuredSection(content, "finalSummary") || undefined,
+		comments: extractStructuredSection(content, "comments") || undefined,
 	};
 }
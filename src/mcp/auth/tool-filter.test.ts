@@ -1,6 +1,13 @@
 import { describe, expect, it } from "bun:test";
+import type { Task } from "../../types/index.ts";
 import type { McpToolHandler } from "../types.ts";
-import { filterToolsByRole, isReadOnlyTool } from "./tool-filter.ts";
+import {
+	filterToolsByPermissions,
+	filterToolsByRole,
+	findMissingToolPermission,
+	isReadOnlyTool,
+	requiredToolPermission,
+} from "./tool-filter.ts";
 
 function makeTool(name: string): McpToolHandler {
 	return {
@@ -22,8 +29,29 @@ describe("isReadOnlyTool", () => {
 		expect(isReadOnlyTool("milestone_list")).toBe(true);
 	});
 
+	it("classifies task_history and task_similar as read-only", () => {
+		expect(isReadOnlyTool("task_history")).toBe(true);
+		expect(isReadOnlyTool("task_similar")).toBe(true);
+	});
+
+	it("classifies draft_list/draft_view as read-only and other draft tools as write", () => {
+		expect(isReadOnlyTool("draft_list")).toBe(true);
+		expect(isReadOnlyTool("draft_view")).toBe(true);
+		expect(isReadOnlyTool("draft_create")).toBe(false);
+		expect(isReadOnlyTool("draft_edit")).toBe(false);
+		expect(isReadOnlyTool("draft_promote")).toBe(false);
+		expect(isReadOnlyTool("draft_archive")).toBe(false);
+		expect(isReadOnlyTool("task_demote")).toBe(false);
+	});
+
 	it("classifies workflow tools as read-only", () => {
 		expect(isReadOnlyTool("get_workflow_overview")).toBe(true);
+		expect(isReadOnlyTool("backlog_validate")).toBe(true);
+	});
+
+	it("classifies saved view tools as read-only", () => {
+		expect(isReadOnlyTool("view_list")).toBe(true);
+		expect(isReadOnlyTool("view_run")).toBe(true);
 	});
 
 	it("classifies create/edit/archive/complete/update/add/rename/remove tools as write", () => {
@@ -73,3 +101,66 @@ describe("filterToolsByRole", () => {
 		expect(filtered.length).toBe(allTools.length);
 	});
 });
+
+describe("requiredToolPermission", () => {
+	it("maps tools to the permission of the area they change", () => {
+		expect(requiredToolPermission("task_list")).toBe("read");
+		expect(requiredToolPermission("task_create")).toBe("tasks:write");
+		expect(requiredToolPermission("task_edit")).toBe("tasks:write-assigned");
+		expect(requiredToolPermission("draft_promote")).toBe("tasks:write");
+		expect(requiredToolPermission("task_create_from_template")).toBe("tasks:write");
+		expect(requiredToolPermission("template_list")).toBe("read");
+		expect(requiredToolPermission("decision_update")).toBe("docs:write");
+		expect(requiredToolPermission("milestone_archive")).toBe("milestones:write");
+		expect(requiredToolPermission("backlog_sync")).toBe("config:write");
+	});
+});
+
+describe("filterToolsByPermissions", () => {
+	const allTools = ["task_list", "task_create", "task_edit", "document_create", "milestone_add"].map(makeTool);
+
+	it("gives contributors task and document tools but not milestone tools", () => {
+		const names = filterToolsByRole(allTools, "contributor").map((t) => t.name);
+		expect(names).toEqual(["task_list", "task_create", "task_edit", "document_create"]);
+	});
+
+	it("gives agents read tools and single-task tools only", () => {
+		const names = filterToolsByPermissions(allTools, ["read", "tasks:write-assigned"]).map((t) => t.name);
+		expect(names).toEqual(["task_list", "task_edit"]);
+	});
+});
+
+describe("findMissingToolPermission", () => {
+	const agent = {
+		name: "Agent Bot",
+		email: "agent@test.com",
+		permissions: ["read" as const, "tasks:write-assigned" as const],
+	};
+	const tasks: Record<string, Pick<Task, "assignee">> = {
+		"task-1": { assignee: ["Agent Bot"] },
+		"task-2": { assignee: ["@alice"] },
+		"task-3": { assignee: [] },
+	};
+	const loadTask = async (id: string) => (tasks[id] as Task | undefined) ?? null;
+
+	it("allows agents to edit their own tasks only", async () => {
+		expect(await findMissingToolPermission("task_edit", { id: "task-1" }, agent, loadTask)).toBeNull();
+		expect(await findMissingToolPermission("task_edit", { id: "task-2" }, agent, loadTask)).toBe("tasks:write");
+	});
+
+	it("allows agents to take unassigned tasks", async () => {
+		expect(await findMissingToolPermission("task_take", { id: "task-3" }, agent, loadTask)).toBeNull();
+		expect(await findMissingToolPermission("task_take", { id: "task-2" }, agent, loadTask)).toBe("tasks:write");
+	});
+
+	it("allows agents to claim their next task", async () => {
+		expect(await findMissingToolPermission("task_next", { claim: true }, agent, loadTask)).toBeNull();
+		expect(await findMissingToolPermission("task_next", {}, { ...agent, permissions: ["read"] }, loadTask)).toBe(
+			"tasks:write-assigned",
+		);
+	});
+
+	it("reports the tool's own permission when it is missing", async () => {
+		expect(await findMissingToolPermission("task_create", {}, agent, loadTask)).toBe("tasks:write");
+	});
+});
@@ -1,11 +1,36 @@
+import { hasPermission, isAssignedTo, type Permission, resolvePermissions } from "../../server/auth/permissions.ts";
+import type { AuthUser } from "../../server/auth/users-store.ts";
+import type { Task } from "../../types/index.ts";
 import type { McpToolHandler } from "../types.ts";
 
-const READ_ONLY_SUFFIXES = ["_list", "_search", "_view"];
+const READ_ONLY_SUFFIXES = ["_list", "_search", "_similar", "_view", "_history", "_validate", "_run"];
 const READ_ONLY_PREFIXES = ["get_"];
 
+/** Tools that act on a single task (by `id`) and are open to users limited to their assigned tasks. */
+const ASSIGNED_TASK_TOOLS = new Set([
+	"task_edit",
+	"task_move",
+	"task_comment",
+	"task_log_time",
+	"task_complete",
+	"task_take",
+	"task_next",
+	"task_heartbeat",
+	"task_release",
+]);
+
+/** Permission needed by write tools, by name prefix. Unmatched write tools need "config:write". */
+const WRITE_TOOL_PERMISSIONS: Array<[prefix: string, permission: Permission]> = [
+	["task_", "tasks:write"],
+	["draft_", "tasks:write"],
+	["document_", "docs:write"],
+	["decision_", "docs:write"],
+	["milestone_", "milestones:write"],
+];
+
 /**
  * Determines if an MCP tool is read-only based on its name.
- * Read-only tools: list, search, view operations and workflow guides.
+ * Read-only tools: list, search, similar, view, history, validate and run operations and workflow guides.
  * Write tools: create, edit, archive, complete, update, add, rename, remove.
  */
 export function isReadOnlyTool(toolName: string): boolean {
@@ -19,13 +44,64 @@ export function isReadOnlyTool(toolName: string): boolean {
 }
 
 /**
- * Filters a list of tools based on the user's role.
- * Admin gets all tools. Viewer gets only read-only tools.
- * If role is undefined (no auth), all tools are returned.
+ * Returns the permission needed to call a tool: "read" for read-only tools,
+ * "tasks:write-assigned" for single-task tools, otherwise the write
+ * permission of the area the tool changes.
  */
-export function filterToolsByRole(tools: McpToolHandler[], role: "admin" | "viewer" | undefined): McpToolHandler[] {
-	if (role === undefined || role === "admin") {
+export function requiredToolPermission(toolName: string): Permission {
+	if (isReadOnlyTool(toolName)) return "read";
+	if (ASSIGNED_TASK_TOOLS.has(toolName)) return "tasks:write-assigned";
+	for (const [prefix, permission] of WRITE_TOOL_PERMISSIONS) {
+		if (toolName.startsWith(prefix)) return permission;
+	}
+	return "config:write";
+}
+
+/**
+ * Filters a list of tools down to the ones the given permissions allow.
+ * If permissions are undefined (no auth), all tools are returned.
+ */
+export function filterToolsByPermissions(
+	tools: McpToolHandler[],
+	permissions: readonly Permission[] | undefined,
+): McpToolHandler[] {
+	if (permissions === undefined) {
 		return tools;
 	}
-	return tools.filter((tool) => isReadOnlyTool(tool.name));
+	return tools.filter((tool) => hasPermission(permissions, requiredToolPermission(tool.name)));
+}
+
+/**
+ * Filters a list of tools based on the user's role, using the role's default permissions.
+ * If role is undefined (no auth), all tools are returned.
+ */
+export function filterToolsByRole(tools: McpToolHandler[], role: string | undefined): McpToolHandler[] {
+	return filterToolsByPermissions(tools, role === undefined ? undefined : resolvePermissions(role));
+}
+
+/**
+ * Checks whether a user may call a tool with the given arguments.
+ *
+ * Beyond the tool's own permission, users limited to their assigned tasks may
+ * only target tasks assigned to them; `task_take` may also claim unassigned
+ * tasks. Unknown task ids are let through so the tool reports them itself.
+ *
+ * @returns The missing permission, or null if the call is allowed.
+ */
+export async function findMissingToolPermission(
+	toolName: string,
+	args: Record<string, unknown>,
+	user: Pick<AuthUser, "name" | "email" | "permissions">,
+	loadTask: (taskId: string) => Promise<Task | null>,
+): Promise<Permission | null> {
+	const required = requiredToolPermission(toolName);
+	if (!hasPermission(user.permissions, required)) return required;
+	if (required !== "tasks:write-assigned" || hasPermission(user.permissions, "tasks:write")) return null;
+
+	const taskId = typeof args.id === "string" ? args.id : "";
+	const task = taskId ? await loadTask(taskId) : null;
+	if (!task) return null;
+	if (isAssignedTo(task, user)) return null;
+	if (toolName === "task_take" && task.assignee.length === 0) return null;
+	return "tasks:write";
 }
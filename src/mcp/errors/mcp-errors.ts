@@ -1,3 +1,6 @@
+import type { TaskVersionConflictError } from "../../core/concurrency.ts";
+import { formatLease } from "../../core/leases.ts";
+import type { TaskLease } from "../../types/index.ts";
 import type { CallToolResult } from "../types.ts";
 
 /**
@@ -23,6 +26,26 @@ export class McpValidationError extends McpError {
 	}
 }
 
+/**
+ * Raised when a task is claimed by someone else's live lease
+ */
+export class McpTaskClaimedError extends McpError {
+	constructor(public readonly lease: TaskLease) {
+		super(`${formatLease(lease)}. Pick another task or wait for the claim to lapse.`, "TASK_CLAIMED", lease);
+	}
+}
+
+/**
+ * Raised when an edit was based on an outdated version of the task
+ */
+export class McpVersionConflictError extends McpError {
+	constructor(conflict: TaskVersionConflictError) {
+		super(`${conflict.message} View it again and retry with the new version.`, "VERSION_CONFLICT", {
+			currentVersion: conflict.current.version,
+		});
+	}
+}
+
 /**
  * Formats MCP errors into standardized tool responses
  */
@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 import { mkdir, mkdtemp, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { resolvePermissions } from "../server/auth/permissions.ts";
 import type { AuthUser } from "../server/auth/users-store.ts";
 import { createMcpHttpServer } from "./http-transport.ts";
 
@@ -101,6 +102,7 @@ describe("MCP HTTP Transport", () => {
 			email: "admin@test.com",
 			name: "Admin",
 			role: "admin",
+			permissions: resolvePermissions("admin"),
 			apiKey: "bkmd_valid_key",
 		};
 		const findUser = (key: string): AuthUser | null => (key === "bkmd_valid_key" ? adminUser : null);
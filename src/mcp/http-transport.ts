@@ -1,7 +1,7 @@
 /**
  * HTTP transport for the MCP server.
  *
- * Wraps the MCP server with API key authentication and role-based tool
+ * Wraps the MCP server with API key authentication and permission-based tool
  * filtering. Uses Bun.serve() with the MCP SDK's
  * WebStandardStreamableHTTPServerTransport in stateless mode, meaning every
  * request creates a fresh transport (sessionIdGenerator: undefined).
@@ -23,15 +23,26 @@ import {
 	ListToolsRequestSchema,
 	ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { type Actor, runAsActor } from "../core/actor.ts";
 import type { FileSystem } from "../file-system/operations.ts";
 import type { GitOperations } from "../git/operations.ts";
 import { extractBearerToken } from "../server/auth/middleware.ts";
+import { missingPermissionMessage } from "../server/auth/permissions.ts";
 import type { AuthUser } from "../server/auth/users-store.ts";
 import { getPackageName } from "../utils/app-info.ts";
 import { getVersion } from "../utils/version.ts";
-import { filterToolsByRole } from "./auth/tool-filter.ts";
+import { filterToolsByPermissions, findMissingToolPermission, requiredToolPermission } from "./auth/tool-filter.ts";
+import { handleMcpError, McpError } from "./errors/mcp-errors.ts";
 import { createMcpServer } from "./server.ts";
-import { createMoveTaskTool, createTakeTaskTool } from "./tools/tasks/index.ts";
+import {
+	createCommentTaskTool,
+	createHeartbeatTaskTool,
+	createLogTimeTool,
+	createMoveTaskTool,
+	createNextTaskTool,
+	createReleaseTaskTool,
+	createTakeTaskTool,
+} from "./tools/tasks/index.ts";
 import type { McpPromptHandler, McpResourceHandler, McpToolHandler } from "./types.ts";
 
 export type McpRequestHandlerOptions = {
@@ -47,7 +58,7 @@ export type McpRequestHandlerOptions = {
 /**
  * Reusable MCP request handler that can be embedded in any HTTP server.
  *
- * Handles authentication, per-request tool filtering by role, and delegates
+ * Handles authentication, per-request tool filtering by permission, and delegates
  * to a stateless MCP transport. Designed to be called from both the standalone
  * HTTP server and BacklogServer's fetch handler.
  */
@@ -60,7 +71,7 @@ export type McpRequestHandler = {
  * Creates a reusable MCP request handler without starting its own HTTP server.
  *
  * For each authenticated request a fresh Server + transport pair is created,
- * with only the tools allowed for the caller's role registered. Resources and
+ * with only the tools allowed for the caller's permissions listed. Resources and
  * prompts are passed through without filtering.
  *
  * @param options Handler configuration including project root and auth settings.
@@ -86,7 +97,6 @@ export async function createMcpRequestHandler(options: McpRequestHandlerOptions)
 
 	async function handleRequest(req: Request): Promise<Response> {
 		// Auth check
-		let userRole: "admin" | "viewer" | undefined;
 		let authenticatedUser: AuthUser | undefined;
 		if (authEnabled) {
 			const url = new URL(req.url);
@@ -98,19 +108,23 @@ export async function createMcpRequestHandler(options: McpRequestHandlerOptions)
 			if (!user) {
 				return Response.json({ error: "Unauthorized" }, { status: 401 });
 			}
-			userRole = user.role;
 			authenticatedUser = user;
 		}
 
-		// Get tools filtered by role, plus all resources and prompts
+		// task_take, task_move, task_comment and task_log_time act as the authenticated user, so they only exist with one
 		const allTools = mcpServer.getTools();
-		const filteredTools = filterToolsByRole(allTools, userRole);
-
-		// Inject task_take and task_move for authenticated admins (write operations, not available to viewers)
-		if (authenticatedUser && userRole !== "viewer") {
-			filteredTools.push(createTakeTaskTool(mcpServer, authenticatedUser.name));
-			filteredTools.push(createMoveTaskTool(mcpServer, authenticatedUser.name));
+		if (authenticatedUser) {
+			allTools.push(createTakeTaskTool(mcpServer, authenticatedUser.name));
+			allTools.push(createHeartbeatTaskTool(mcpServer, authenticatedUser.name));
+			allTools.push(createReleaseTaskTool(mcpServer, authenticatedUser.name));
+			allTools.push(createMoveTaskTool(mcpServer, authenticatedUser.name));
+			allTools.push(createCommentTaskTool(mcpServer, authenticatedUser.name));
+			allTools.push(createLogTimeTool(mcpServer, authenticatedUser.name));
+			allTools.push(createNextTaskTool(mcpServer, authenticatedUser));
 		}
+
+		// Get tools filtered by permission, plus all resources and prompts
+		const filteredTools = filterToolsByPermissions(allTools, authenticatedUser?.permissions);
 		const allResources = mcpServer.getResources();
 		const allPrompts = mcpServer.getPrompts();
 
@@ -126,7 +140,23 @@ export async function createMcpRequestHandler(options: McpRequestHandlerOptions)
 			},
 		);
 
-		registerToolHandlers(perRequestServer, filteredTools);
+		// Every tool call runs as the caller so writes record them as reporter/updatedBy and git author
+		const actor: Actor | undefined = authenticatedUser
+			? { name: authenticatedUser.name, email: authenticatedUser.email }
+			: undefined;
+		// Calls are checked again against the caller's permissions, so hidden tools and
+		// tasks outside an agent's assignments get an explicit "missing permission" error
+		const authorize = authenticatedUser
+			? async (tool: string, args: Record<string, unknown>) => {
+					const missing = await findMissingToolPermission(tool, args, authenticatedUser, (id) => mcpServer.getTask(id));
+					return missing ? `${missingPermissionMessage(missing)} to call ${tool}` : null;
+				}
+			: undefined;
+		registerToolHandlers(perRequestServer, filteredTools, {
+			actor,
+			authorize,
+			allToolNames: allTools.map((t) => t.name),
+		});
 		registerResourceHandlers(perRequestServer, allResources);
 		registerPromptHandlers(perRequestServer, allPrompts);
 
@@ -200,7 +230,18 @@ export async function createMcpHttpServer(options: McpHttpServerOptions): Promis
 // Handler registration helpers
 // ---------------------------------------------------------------------------
 
-function registerToolHandlers(server: Server, tools: McpToolHandler[]): void {
+type ToolCallContext = {
+	/** The user every call runs as. */
+	actor?: Actor;
+	/** Returns why the caller may not make a call, or null when it is allowed. */
+	authorize?: (tool: string, args: Record<string, unknown>) => Promise<string | null>;
+	/** Every tool the server offers, including ones filtered out for this caller. */
+	allToolNames?: string[];
+};
+
+function registerToolHandlers(server: Server, tools: McpToolHandler[], context: ToolCallContext = {}): void {
+	const { actor, authorize, allToolNames = [] } = context;
+
 	server.setRequestHandler(ListToolsRequestSchema, async () => ({
 		tools: tools.map((t) => ({
 			name: t.name,
@@ -212,10 +253,18 @@ function registerToolHandlers(server: Server, tools: McpToolHandler[]): void {
 	server.setRequestHandler(CallToolRequestSchema, async (request) => {
 		const { name, arguments: args = {} } = request.params;
 		const tool = tools.find((t) => t.name === name);
+		if (!tool && allToolNames.includes(name)) {
+			const message = `${missingPermissionMessage(requiredToolPermission(name))} to call ${name}`;
+			return handleMcpError(new McpError(message, "FORBIDDEN"));
+		}
 		if (!tool) {
 			throw new Error(`Tool not found: ${name}`);
 		}
-		return await tool.handler(args);
+		const denied = await authorize?.(name, args);
+		if (denied) {
+			return handleMcpError(new McpError(denied, "FORBIDDEN"));
+		}
+		return await runAsActor(actor, () => tool.handler(args));
 	});
 }
 
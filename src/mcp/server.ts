@@ -16,9 +16,12 @@ import { getPackageName } from "../utils/app-info.ts";
 import { getVersion } from "../utils/version.ts";
 import { registerInitRequiredResource } from "./resources/init-required/index.ts";
 import { registerWorkflowResources } from "./resources/workflow/index.ts";
+import { registerDecisionTools } from "./tools/decisions/index.ts";
 import { registerDocumentTools } from "./tools/documents/index.ts";
 import { registerMilestoneTools } from "./tools/milestones/index.ts";
 import { registerTaskTools } from "./tools/tasks/index.ts";
+import { registerTemplateTools } from "./tools/templates/index.ts";
+import { registerViewTools } from "./tools/views/index.ts";
 import { registerWorkflowTools } from "./tools/workflow/index.ts";
 import type {
 	CallToolResult,
@@ -336,6 +339,9 @@ export async function createMcpServer(projectRoot: string, options: ServerInitOp
 	registerTaskTools(server, config);
 	registerMilestoneTools(server);
 	registerDocumentTools(server, config);
+	registerDecisionTools(server);
+	registerViewTools(server);
+	registerTemplateTools(server);
 
 	if (options.debug) {
 		console.error("MCP server initialised (stdio transport only).");
@@ -0,0 +1,256 @@
+import { serializeDecision } from "../../../markdown/serializer.ts";
+import type { Decision, DecisionSearchResult } from "../../../types/index.ts";
+import { McpError } from "../../errors/mcp-errors.ts";
+import type { McpServer } from "../../server.ts";
+import type { CallToolResult } from "../../types.ts";
+import { formatDecisionCallResult } from "../../utils/decision-response.ts";
+import { formatSearchSnippet } from "../../utils/search-snippet.ts";
+
+export type DecisionListArgs = {
+	search?: string;
+	status?: Decision["status"];
+};
+
+export type DecisionViewArgs = {
+	id: string;
+};
+
+export type DecisionCreateArgs = {
+	title: string;
+	context?: string;
+	decision?: string;
+	consequences?: string;
+	alternatives?: string;
+};
+
+export type DecisionUpdateArgs = {
+	id: string;
+	title?: string;
+	status?: Decision["status"];
+	supersededBy?: string;
+	context?: string;
+	decision?: string;
+	consequences?: string;
+	alternatives?: string;
+};
+
+export type DecisionSearchArgs = {
+	query: string;
+	limit?: number;
+};
+
+const ALLOWED_STATUS_TRANSITIONS: Record<Decision["status"], Decision["status"][]> = {
+	proposed: ["accepted", "rejected"],
+	accepted: ["superseded"],
+	rejected: ["proposed"],
+	superseded: [],
+};
+
+export class DecisionHandlers {
+	constructor(private readonly core: McpServer) {}
+
+	private formatDecisionSummaryLine(decision: Decision): string {
+		const metadata: string[] = [`status: ${decision.status}`, `date: ${decision.date}`];
+		if (decision.supersededBy) {
+			metadata.push(`superseded by: ${decision.supersededBy}`);
+		}
+		return `  ${decision.id} - ${decision.title} (${metadata.join(", ")})`;
+	}
+
+	private formatScore(score: number | null): string {
+		if (score === null || score === undefined) {
+			return "";
+		}
+		const invertedScore = 1 - score;
+		return ` [score ${invertedScore.toFixed(3)}]`;
+	}
+
+	private async loadDecisionOrThrow(id: string): Promise<Decision> {
+		const decision = await this.core.filesystem.loadDecision(id);
+		if (!decision) {
+			throw new McpError(`Decision not found: ${id}`, "DECISION_NOT_FOUND");
+		}
+		return decision;
+	}
+
+	private async resolveStatusChange(existing: Decision, args: DecisionUpdateArgs): Promise<Partial<Decision>> {
+		const nextStatus = args.status ?? existing.status;
+
+		if (nextStatus !== existing.status && !ALLOWED_STATUS_TRANSITIONS[existing.status].includes(nextStatus)) {
+			const allowed = ALLOWED_STATUS_TRANSITIONS[existing.status];
+			const hint = allowed.length > 0 ? `Allowed: ${allowed.join(", ")}.` : `${existing.status} is a final status.`;
+			throw new McpError(
+				`Cannot change decision ${existing.id} from ${existing.status} to ${nextStatus}. ${hint}`,
+				"VALIDATION_ERROR",
+			);
+		}
+
+		if (nextStatus !== "superseded") {
+			if (args.supersededBy) {
+				throw new McpError("supersededBy can only be set when status is superseded.", "VALIDATION_ERROR");
+			}
+			return { status: nextStatus };
+		}
+
+		const supersededBy = args.supersededBy ?? existing.supersededBy;
+		if (!supersededBy) {
+			throw new McpError("supersededBy is required when marking a decision as superseded.", "VALIDATION_ERROR");
+		}
+
+		const replacement = await this.loadDecisionOrThrow(supersededBy);
+		if (replacement.id === existing.id) {
+			throw new McpError("A decision cannot supersede itself.", "VALIDATION_ERROR");
+		}
+
+		return { status: nextStatus, supersededBy: replacement.id };
+	}
+
+	async listDecisions(args: DecisionListArgs = {}): Promise<CallToolResult> {
+		const search = args.search?.toLowerCase();
+		const decisions = await this.core.filesystem.listDecisions();
+
+		const filtered = decisions.filter((decision) => {
+			if (args.status && decision.status !== args.status) {
+				return false;
+			}
+			if (search && search.length > 0) {
+				const haystacks = [decision.id, decision.title];
+				return haystacks.some((value) => value.toLowerCase().includes(search));
+			}
+			return true;
+		});
+
+		if (filtered.length === 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: "No decisions found.",
+					},
+				],
+			};
+		}
+
+		const lines: string[] = ["Decisions:"];
+		for (const decision of filtered) {
+			lines.push(this.formatDecisionSummaryLine(decision));
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: lines.join("\n"),
+				},
+			],
+		};
+	}
+
+	async viewDecision(args: DecisionViewArgs): Promise<CallToolResult> {
+		const decision = await this.loadDecisionOrThrow(args.id);
+		return await formatDecisionCallResult(decision);
+	}
+
+	async createDecision(args: DecisionCreateArgs): Promise<CallToolResult> {
+		try {
+			const created = await this.core.createDecisionWithTitle(args.title);
+			const hasSections = [args.context, args.decision, args.consequences, args.alternatives].some(
+				(value) => value !== undefined && value.trim().length > 0,
+			);
+			if (hasSections) {
+				const content = serializeDecision({
+					...created,
+					context: args.context ?? created.context,
+					decision: args.decision ?? created.decision,
+					consequences: args.consequences ?? created.consequences,
+					alternatives: args.alternatives ?? created.alternatives,
+				});
+				await this.core.updateDecisionFromContent(created.id, content);
+			}
+			const refreshed = await this.loadDecisionOrThrow(created.id);
+			return await formatDecisionCallResult(refreshed, {
+				summaryLines: ["Decision created successfully."],
+			});
+		} catch (error) {
+			if (error instanceof McpError) {
+				throw error;
+			}
+			if (error instanceof Error) {
+				throw new McpError(`Failed to create decision: ${error.message}`, "OPERATION_FAILED");
+			}
+			throw new McpError("Failed to create decision.", "OPERATION_FAILED");
+		}
+	}
+
+	async updateDecision(args: DecisionUpdateArgs): Promise<CallToolResult> {
+		const existing = await this.loadDecisionOrThrow(args.id);
+		const statusChange = await this.resolveStatusChange(existing, args);
+
+		const nextDecision: Decision = {
+			...existing,
+			...statusChange,
+			title: args.title ?? existing.title,
+			context: args.context ?? existing.context,
+			decision: args.decision ?? existing.decision,
+			consequences: args.consequences ?? existing.consequences,
+			alternatives: args.alternatives ?? existing.alternatives,
+		};
+
+		try {
+			await this.core.updateDecisionFromContent(existing.id, serializeDecision(nextDecision));
+			const refreshed = await this.loadDecisionOrThrow(existing.id);
+			return await formatDecisionCallResult(refreshed, {
+				summaryLines: ["Decision updated successfully."],
+			});
+		} catch (error) {
+			if (error instanceof McpError) {
+				throw error;
+			}
+			if (error instanceof Error) {
+				throw new McpError(`Failed to update decision: ${error.message}`, "OPERATION_FAILED");
+			}
+			throw new McpError("Failed to update decision.", "OPERATION_FAILED");
+		}
+	}
+
+	async searchDecisions(args: DecisionSearchArgs): Promise<CallToolResult> {
+		const searchService = await this.core.getSearchService();
+		const results = searchService.search({
+			query: args.query,
+			limit: args.limit,
+			types: ["decision"],
+		});
+
+		const decisions = results.filter((result): result is DecisionSearchResult => result.type === "decision");
+		if (decisions.length === 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `No decisions found for "${args.query}".`,
+					},
+				],
+			};
+		}
+
+		const lines: string[] = ["Decisions:"];
+		for (const result of decisions) {
+			const { decision } = result;
+			const scoreText = this.formatScore(result.score);
+			lines.push(`  ${decision.id} - ${decision.title} (${decision.status})${scoreText}`);
+			const snippet = formatSearchSnippet(result.matches);
+			if (snippet) {
+				lines.push(`    ${snippet}`);
+			}
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: lines.join("\n"),
+				},
+			],
+		};
+	}
+}
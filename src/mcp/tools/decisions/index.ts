@@ -0,0 +1,95 @@
+import type { McpServer } from "../../server.ts";
+import type { McpToolHandler } from "../../types.ts";
+import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
+import type {
+	DecisionCreateArgs,
+	DecisionListArgs,
+	DecisionSearchArgs,
+	DecisionUpdateArgs,
+	DecisionViewArgs,
+} from "./handlers.ts";
+import { DecisionHandlers } from "./handlers.ts";
+import {
+	decisionCreateSchema,
+	decisionListSchema,
+	decisionSearchSchema,
+	decisionUpdateSchema,
+	decisionViewSchema,
+} from "./schemas.ts";
+
+export function registerDecisionTools(server: McpServer): void {
+	const handlers = new DecisionHandlers(server);
+
+	const listDecisionsTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "decision_list",
+			description: "List architecture decision records with optional status and substring filtering",
+			inputSchema: decisionListSchema,
+		},
+		decisionListSchema,
+		async (input) => handlers.listDecisions(input as DecisionListArgs),
+	);
+
+	const viewDecisionTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "decision_view",
+			description: "View an architecture decision record including status and markdown content",
+			inputSchema: decisionViewSchema,
+		},
+		decisionViewSchema,
+		async (input) => handlers.viewDecision(input as DecisionViewArgs),
+	);
+
+	const createDecisionTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "decision_create",
+			description: "Create an architecture decision record in proposed status",
+			inputSchema: decisionCreateSchema,
+		},
+		decisionCreateSchema,
+		async (input) => handlers.createDecision(input as DecisionCreateArgs),
+	);
+
+	const updateDecisionTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "decision_update",
+			description:
+				"Update a decision's sections or status (proposed → accepted → superseded, with supersededBy linking the replacement)",
+			inputSchema: decisionUpdateSchema,
+		},
+		decisionUpdateSchema,
+		async (input) => handlers.updateDecision(input as DecisionUpdateArgs),
+	);
+
+	const searchDecisionTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "decision_search",
+			description:
+				'Search architecture decision records by relevance, with matching excerpts. Supports "phrases" and prefix* words',
+			inputSchema: decisionSearchSchema,
+		},
+		decisionSearchSchema,
+		async (input) => handlers.searchDecisions(input as DecisionSearchArgs),
+	);
+
+	server.addTool(listDecisionsTool);
+	server.addTool(viewDecisionTool);
+	server.addTool(createDecisionTool);
+	server.addTool(updateDecisionTool);
+	server.addTool(searchDecisionTool);
+}
+
+export type {
+	DecisionCreateArgs,
+	DecisionListArgs,
+	DecisionSearchArgs,
+	DecisionUpdateArgs,
+	DecisionViewArgs,
+} from "./handlers.ts";
+export {
+	decisionCreateSchema,
+	decisionListSchema,
+	decisionSearchSchema,
+	decisionUpdateSchema,
+	decisionViewSchema,
+} from "./schemas.ts";
@@ -0,0 +1,116 @@
+import type { JsonSchema } from "../../validation/validators.ts";
+
+const DECISION_STATUSES = ["proposed", "accepted", "rejected", "superseded"];
+
+export const decisionListSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		search: {
+			type: "string",
+			maxLength: 200,
+		},
+		status: {
+			type: "string",
+			enum: DECISION_STATUSES,
+		},
+	},
+	required: [],
+	additionalProperties: false,
+};
+
+export const decisionViewSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const decisionCreateSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		title: {
+			type: "string",
+			minLength: 1,
+			maxLength: 200,
+		},
+		context: {
+			type: "string",
+		},
+		decision: {
+			type: "string",
+		},
+		consequences: {
+			type: "string",
+		},
+		alternatives: {
+			type: "string",
+		},
+	},
+	required: ["title"],
+	additionalProperties: false,
+};
+
+export const decisionUpdateSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+		},
+		title: {
+			type: "string",
+			minLength: 1,
+			maxLength: 200,
+		},
+		status: {
+			type: "string",
+			enum: DECISION_STATUSES,
+			description: "Allowed transitions: proposed → accepted/rejected, accepted → superseded, rejected → proposed",
+		},
+		supersededBy: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: "ID of the decision that replaces this one (required when status is superseded)",
+		},
+		context: {
+			type: "string",
+		},
+		decision: {
+			type: "string",
+		},
+		consequences: {
+			type: "string",
+		},
+		alternatives: {
+			type: "string",
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const decisionSearchSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		query: {
+			type: "string",
+			minLength: 1,
+			maxLength: 200,
+		},
+		limit: {
+			type: "number",
+			minimum: 1,
+			maximum: 100,
+		},
+	},
+	required: ["query"],
+	additionalProperties: false,
+};
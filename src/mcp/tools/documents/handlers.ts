@@ -3,6 +3,7 @@ import { McpError } from "../../errors/mcp-errors.ts";
 import type { McpServer } from "../../server.ts";
 import type { CallToolResult } from "../../types.ts";
 import { formatDocumentCallResult } from "../../utils/document-response.ts";
+import { formatSearchSnippet } from "../../utils/search-snippet.ts";
 
 export type DocumentListArgs = {
 	search?: string;
@@ -163,6 +164,10 @@ export class DocumentHandlers {
 			const { document } = result;
 			const scoreText = this.formatScore(result.score);
 			lines.push(`  ${document.id} - ${document.title}${scoreText}`);
+			const snippet = formatSearchSnippet(result.matches);
+			if (snippet) {
+				lines.push(`    ${snippet}`);
+			}
 		}
 
 		return {
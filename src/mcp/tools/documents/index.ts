@@ -64,7 +64,8 @@ export function registerDocumentTools(server: McpServer, _config: BacklogConfig)
 	const searchDocumentTool: McpToolHandler = createSimpleValidatedTool(
 		{
 			name: "document_search",
-			description: "Search llm-backlog documents using the shared fuzzy index",
+			description:
+				'Search llm-backlog documents by relevance, with matching excerpts. Supports "phrases" and prefix* words',
 			inputSchema: documentSearchSchema,
 		},
 		documentSearchSchema,
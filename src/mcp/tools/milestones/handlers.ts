@@ -15,6 +15,7 @@ import {
 export type MilestoneAddArgs = {
 	name: string;
 	description?: string;
+	targetDate?: string;
 };
 
 export type MilestoneRenameArgs = {
@@ -38,6 +39,11 @@ export type MilestoneSetActiveArgs = {
 	active: boolean;
 };
 
+export type MilestoneSetTargetDateArgs = {
+	name: string;
+	targetDate?: string;
+};
+
 function formatListBlock(title: string, items: string[]): string {
 	if (items.length === 0) {
 		return `${title}\n  (none)`;
@@ -220,7 +226,9 @@ export class MilestoneHandlers {
 			.sort((a, b) => a.localeCompare(b));
 
 		const blocks: string[] = [];
-		const milestoneLines = fileMilestones.map((m) => `${m.id}: ${m.title}`);
+		const milestoneLines = fileMilestones.map(
+			(m) => `${m.id}: ${m.title}${m.targetDate ? ` (target ${m.targetDate})` : ""}`,
+		);
 		blocks.push(formatListBlock(`Milestones (${fileMilestones.length}):`, milestoneLines));
 		blocks.push(formatListBlock(`Milestones found on tasks without files (${unconfigured.length}):`, unconfigured));
 		blocks.push(
@@ -261,13 +269,19 @@ export class MilestoneHandlers {
 		}
 
 		// Create milestone file
-		const milestone = await this.core.createMilestone(name, args.description);
+		let milestone: Milestone;
+		try {
+			milestone = await this.core.createMilestone(name, args.description, undefined, args.targetDate);
+		} catch (error) {
+			throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+		}
+		const target = milestone.targetDate ? `, target ${milestone.targetDate}` : "";
 
 		return {
 			content: [
 				{
 					type: "text",
-					text: `Created milestone "${milestone.title}" (${milestone.id}).`,
+					text: `Created milestone "${milestone.title}" (${milestone.id}${target}).`,
 				},
 			],
 		};
@@ -588,4 +602,36 @@ export class MilestoneHandlers {
 			],
 		};
 	}
+
+	async setMilestoneTargetDate(args: MilestoneSetTargetDateArgs): Promise<CallToolResult> {
+		const name = normalizeMilestoneName(args.name);
+		if (!name) {
+			throw new McpError("Milestone name cannot be empty.", "VALIDATION_ERROR");
+		}
+
+		let result: { success: boolean; milestone?: Milestone };
+		try {
+			result = await this.core.setMilestoneTargetDate(name, args.targetDate?.trim() || null);
+		} catch (error) {
+			throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+		}
+		if (!result.success) {
+			throw new McpError(`Milestone not found: "${name}"`, "NOT_FOUND");
+		}
+
+		const label = result.milestone?.title ?? name;
+		const id = result.milestone?.id;
+		const targetDate = result.milestone?.targetDate;
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: targetDate
+						? `Milestone "${label}"${id ? ` (${id})` : ""} target date set to ${targetDate}.`
+						: `Milestone "${label}"${id ? ` (${id})` : ""} target date cleared.`,
+				},
+			],
+		};
+	}
 }
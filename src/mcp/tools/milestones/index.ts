@@ -7,6 +7,7 @@ import type {
 	MilestoneRemoveArgs,
 	MilestoneRenameArgs,
 	MilestoneSetActiveArgs,
+	MilestoneSetTargetDateArgs,
 } from "./handlers.ts";
 import { MilestoneHandlers } from "./handlers.ts";
 import {
@@ -16,6 +17,7 @@ import {
 	milestoneRemoveSchema,
 	milestoneRenameSchema,
 	milestoneSetActiveSchema,
+	milestoneSetTargetDateSchema,
 } from "./schemas.ts";
 
 export function registerMilestoneTools(server: McpServer): void {
@@ -81,10 +83,21 @@ export function registerMilestoneTools(server: McpServer): void {
 		async (input) => handlers.setMilestoneActive(input as MilestoneSetActiveArgs),
 	);
 
+	const setTargetDateTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "milestone_set_target_date",
+			description: "Set or clear the target date of a milestone",
+			inputSchema: milestoneSetTargetDateSchema,
+		},
+		milestoneSetTargetDateSchema,
+		async (input) => handlers.setMilestoneTargetDate(input as MilestoneSetTargetDateArgs),
+	);
+
 	server.addTool(listTool);
 	server.addTool(addTool);
 	server.addTool(renameTool);
 	server.addTool(removeTool);
 	server.addTool(archiveTool);
 	server.addTool(setActiveTool);
+	server.addTool(setTargetDateTool);
 }
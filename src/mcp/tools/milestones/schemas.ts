@@ -21,6 +21,11 @@ export const milestoneAddSchema: JsonSchema = {
 			maxLength: 2000,
 			description: "Optional description for the milestone",
 		},
+		targetDate: {
+			type: "string",
+			maxLength: 10,
+			description: "Optional target date for the milestone (YYYY-MM-DD)",
+		},
 	},
 	required: ["name"],
 	additionalProperties: false,
@@ -107,3 +112,22 @@ export const milestoneSetActiveSchema: JsonSchema = {
 	required: ["name", "active"],
 	additionalProperties: false,
 };
+
+export const milestoneSetTargetDateSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		name: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: "Milestone name or ID (case-insensitive match)",
+		},
+		targetDate: {
+			type: "string",
+			maxLength: 10,
+			description: "Target date (YYYY-MM-DD); omit or pass an empty string to clear it",
+		},
+	},
+	required: ["name"],
+	additionalProperties: false,
+};
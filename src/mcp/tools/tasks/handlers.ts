@@ -1,9 +1,21 @@
 import { basename, join } from "node:path";
+import { FALLBACK_STATUS } from "../../../constants/index.ts";
+import { findOpenBlockers, formatBlockers } from "../../../core/blockers.ts";
+import { TaskVersionConflictError } from "../../../core/concurrency.ts";
+import { getLoggedHours } from "../../../core/effort.ts";
+import { formatLeaseExpiry } from "../../../core/leases.ts";
 import { resolveMilestoneInput } from "../../../core/milestones.ts";
+import { parseSearchQuery, type TaskQueryNode } from "../../../core/query-language.ts";
+import type { NextTaskOptions, NextTaskRecommendation } from "../../../core/task-next.ts";
+import { formatTaskHistoryPlainText } from "../../../formatters/task-plain-text.ts";
 import {
+	type BulkEditResult,
+	type BulkTaskUpdate,
 	isLocalEditableTask,
 	type SearchPriorityFilter,
+	type SimilarTask,
 	type Task,
+	type TaskLease,
 	type TaskListFilter,
 } from "../../../types/index.ts";
 import type { TaskEditArgs, TaskEditRequest } from "../../../types/task-edit-args.ts";
@@ -11,10 +23,17 @@ import { buildTaskUpdateInput } from "../../../utils/task-edit-builder.ts";
 import { createTaskSearchIndex } from "../../../utils/task-search.ts";
 import { sortTasks } from "../../../utils/task-sorting.ts";
 import { isDoneStatus } from "../../../web/lib/status-helpers.ts";
-import { McpError } from "../../errors/mcp-errors.ts";
+import { McpError, McpTaskClaimedError, McpVersionConflictError } from "../../errors/mcp-errors.ts";
 import type { McpServer } from "../../server.ts";
 import type { CallToolResult } from "../../types.ts";
-import { formatTaskCallResult } from "../../utils/task-response.ts";
+import { formatDuplicateWarning, formatSimilarTasks, formatTaskCallResult } from "../../utils/task-response.ts";
+
+export type TaskSimilarArgs = {
+	id?: string;
+	text?: string;
+	limit?: number;
+	includeDone?: boolean;
+};
 
 export type TaskCreateArgs = {
 	title: string;
@@ -22,12 +41,16 @@ export type TaskCreateArgs = {
 	labels?: string[];
 	assignee?: string[];
 	priority?: "high" | "medium" | "low";
+	estimate?: number;
+	startDate?: string;
+	dueDate?: string;
 	status?: string;
 	milestone?: string;
 	parentTaskId?: string;
 	dependencies?: string[];
 	references?: string[];
 	documentation?: string[];
+	acceptanceCriteria?: string[];
 	finalSummary?: string;
 };
 
@@ -36,6 +59,7 @@ export type TaskListArgs = {
 	assignee?: string;
 	labels?: string[];
 	search?: string;
+	ready?: boolean;
 	limit?: number;
 };
 
@@ -46,6 +70,36 @@ export type TaskSearchArgs = {
 	limit?: number;
 };
 
+export type TaskBulkEditArgs = BulkTaskUpdate & {
+	ids?: string[];
+	filterStatus?: string;
+	filterAssignee?: string;
+	filterLabels?: string[];
+	filterSearch?: string;
+	filterReady?: boolean;
+};
+
+export type DraftCreateArgs = {
+	title: string;
+	description?: string;
+	labels?: string[];
+	assignee?: string[];
+	priority?: "high" | "medium" | "low";
+	milestone?: string;
+	references?: string[];
+	documentation?: string[];
+};
+
+export type DraftListArgs = Omit<TaskListArgs, "status" | "ready">;
+
+export type DraftPromoteArgs = {
+	id: string;
+	status?: string;
+};
+
+const formatClaimLine = (lease: TaskLease) =>
+	`Claimed until ${formatLeaseExpiry(lease)}; call task_heartbeat to keep the claim.`;
+
 export class TaskHandlers {
 	constructor(private readonly core: McpServer) {}
 
@@ -60,6 +114,22 @@ export class TaskHandlers {
 		return `  ${priorityIndicator}${task.id} - ${task.title}${statusText}`;
 	}
 
+	private async resolveMilestone(milestone: string): Promise<string> {
+		const [activeMilestones, archivedMilestones] = await Promise.all([
+			this.core.filesystem.listMilestones(),
+			this.core.filesystem.listArchivedMilestones(),
+		]);
+		return resolveMilestoneInput(milestone, activeMilestones, archivedMilestones);
+	}
+
+	private async loadDraftOrThrow(id: string): Promise<Task> {
+		const draft = await this.core.filesystem.loadDraft(id);
+		if (!draft) {
+			throw new McpError(`Draft not found: ${id}`, "DRAFT_NOT_FOUND");
+		}
+		return draft;
+	}
+
 	private async loadTaskOrThrow(id: string): Promise<Task> {
 		const task = await this.core.getTask(id);
 		if (!task) {
@@ -70,20 +140,16 @@ export class TaskHandlers {
 
 	async createTask(args: TaskCreateArgs): Promise<CallToolResult> {
 		try {
-			let milestone: string | undefined;
-			if (typeof args.milestone === "string") {
-				const [activeMilestones, archivedMilestones] = await Promise.all([
-					this.core.filesystem.listMilestones(),
-					this.core.filesystem.listArchivedMilestones(),
-				]);
-				milestone = resolveMilestoneInput(args.milestone, activeMilestones, archivedMilestones);
-			}
+			const milestone = typeof args.milestone === "string" ? await this.resolveMilestone(args.milestone) : undefined;
 
-			const { task: createdTask } = await this.core.createTaskFromInput({
+			const { task: createdTask, possibleDuplicates } = await this.core.createTaskFromInput({
 				title: args.title,
 				description: args.description,
 				status: args.status,
 				priority: args.priority,
+				estimate: args.estimate,
+				startDate: args.startDate,
+				dueDate: args.dueDate,
 				milestone,
 				labels: args.labels,
 				assignee: args.assignee,
@@ -91,10 +157,19 @@ export class TaskHandlers {
 				references: args.references,
 				documentation: args.documentation,
 				parentTaskId: args.parentTaskId,
+				acceptanceCriteria: args.acceptanceCriteria,
 				finalSummary: args.finalSummary,
 			});
 
-			return await formatTaskCallResult(createdTask);
+			const result = await formatTaskCallResult(createdTask);
+			if (possibleDuplicates.length > 0) {
+				// Kept after the task so clients reading the new ID from the first block still find it
+				result.content.push({
+					type: "text",
+					text: formatDuplicateWarning(possibleDuplicates),
+				});
+			}
+			return result;
 		} catch (error) {
 			if (error instanceof Error) {
 				throw new McpError(error.message, "VALIDATION_ERROR");
@@ -160,6 +235,9 @@ export class TaskHandlers {
 		if (args.assignee) {
 			filters.assignee = args.assignee;
 		}
+		if (typeof args.ready === "boolean") {
+			filters.ready = args.ready;
+		}
 
 		const tasks = await this.core.queryTasks({
 			query: args.search,
@@ -282,15 +360,29 @@ export class TaskHandlers {
 			};
 		}
 
-		const tasks = await this.core.loadTasks(undefined, undefined, { includeCompleted: true });
-		const searchIndex = createTaskSearchIndex(tasks);
-		let taskMatches = searchIndex.search({
-			query,
-			status: args.status,
-			priority: args.priority,
-		});
-		if (typeof args.limit === "number" && args.limit >= 0) {
-			taskMatches = taskMatches.slice(0, args.limit);
+		const parsedQuery = parseSearchQuery(query);
+		let taskMatches: Task[];
+		if (parsedQuery) {
+			const clauses: TaskQueryNode[] = [parsedQuery];
+			if (args.status) clauses.push({ type: "field", field: "status", operator: "=", value: args.status });
+			if (args.priority) clauses.push({ type: "field", field: "priority", operator: "=", value: args.priority });
+			try {
+				const results = await this.core.searchTasksWithQuery({ type: "and", children: clauses }, args.limit);
+				taskMatches = results.map((result) => result.task);
+			} catch (error) {
+				throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+			}
+		} else {
+			const tasks = await this.core.loadTasks(undefined, undefined, { includeCompleted: true });
+			const searchIndex = createTaskSearchIndex(tasks);
+			taskMatches = searchIndex.search({
+				query,
+				status: args.status,
+				priority: args.priority,
+			});
+			if (typeof args.limit === "number" && args.limit >= 0) {
+				taskMatches = taskMatches.slice(0, args.limit);
+			}
 		}
 
 		const taskResults = taskMatches.filter((task) => isLocalEditableTask(task));
@@ -333,6 +425,44 @@ export class TaskHandlers {
 		return await formatTaskCallResult(task);
 	}
 
+	async taskHistory(args: { id: string; limit?: number }): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		try {
+			const history = await this.core.getTaskHistory(task.id);
+			const entries = typeof args.limit === "number" ? history.slice(0, args.limit) : history;
+			return {
+				content: [{ type: "text", text: formatTaskHistoryPlainText(task.id, entries) }],
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(`Failed to load task history: ${message}`, "OPERATION_FAILED");
+		}
+	}
+
+	async similarTasks(args: TaskSimilarArgs): Promise<CallToolResult> {
+		if (Boolean(args.id) === Boolean(args.text)) {
+			throw new McpError("Provide either id or text.", "VALIDATION_ERROR");
+		}
+		const options = { limit: args.limit, includeDone: args.includeDone };
+
+		let heading: string;
+		let similar: SimilarTask[];
+		if (args.id) {
+			const task = await this.loadTaskOrThrow(args.id);
+			similar = (await this.core.findSimilarTasks(task.id, options)) ?? [];
+			heading = `${task.id} - ${task.title}`;
+		} else {
+			similar = await this.core.findTasksSimilarToText(args.text ?? "", options);
+			heading = "the given text";
+		}
+
+		const text =
+			similar.length === 0
+				? `No tasks similar to ${heading}.`
+				: [`Tasks similar to ${heading}:`, ...formatSimilarTasks(similar)].join("\n");
+		return { content: [{ type: "text", text }] };
+	}
+
 	async archiveTask(args: { id: string }): Promise<CallToolResult> {
 		const draft = await this.core.filesystem.loadDraft(args.id);
 		if (draft) {
@@ -396,41 +526,286 @@ export class TaskHandlers {
 
 	async demoteTask(args: { id: string }): Promise<CallToolResult> {
 		const task = await this.loadTaskOrThrow(args.id);
-		const success = await this.core.demoteTask(task.id, false);
-		if (!success) {
-			throw new McpError(`Failed to demote task: ${args.id}`, "OPERATION_FAILED");
+
+		if (!isLocalEditableTask(task)) {
+			throw new McpError(`Cannot demote task from another branch: ${task.id}`, "VALIDATION_ERROR");
 		}
 
-		const refreshed = (await this.core.getTask(task.id)) ?? task;
-		return await formatTaskCallResult(refreshed, [], { compact: true });
+		try {
+			const draft = await this.core.editTaskOrDraft(task.id, { status: "Draft" });
+			return await formatTaskCallResult(draft, [`Demoted task ${task.id} to draft ${draft.id}.`], { compact: true });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(`Failed to demote task: ${message}`, "OPERATION_FAILED");
+		}
+	}
+
+	async createDraft(args: DraftCreateArgs): Promise<CallToolResult> {
+		return this.createTask({ ...args, status: "Draft" });
+	}
+
+	async listDrafts(args: DraftListArgs = {}): Promise<CallToolResult> {
+		return this.listTasks({ ...args, status: "Draft" });
+	}
+
+	async viewDraft(args: { id: string }): Promise<CallToolResult> {
+		const draft = await this.loadDraftOrThrow(args.id);
+		return await formatTaskCallResult(draft);
 	}
 
-	async takeTask(args: { id: string; assignee: string }): Promise<CallToolResult> {
-		return this.editTask({ id: args.id, assignee: [args.assignee] });
+	async editDraft(args: TaskEditRequest): Promise<CallToolResult> {
+		const draft = await this.loadDraftOrThrow(args.id);
+		try {
+			const updateInput = buildTaskUpdateInput(args);
+			if (typeof updateInput.milestone === "string") {
+				updateInput.milestone = await this.resolveMilestone(updateInput.milestone);
+			}
+			const updatedDraft = await this.core.updateDraftFromInput(draft.id, updateInput);
+			return await formatTaskCallResult(updatedDraft, [], { compact: true });
+		} catch (error) {
+			if (error instanceof TaskVersionConflictError) {
+				throw new McpVersionConflictError(error);
+			}
+			if (error instanceof Error) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw new McpError(String(error), "VALIDATION_ERROR");
+		}
+	}
+
+	async promoteDraft(args: DraftPromoteArgs): Promise<CallToolResult> {
+		const draft = await this.loadDraftOrThrow(args.id);
+		const config = await this.core.filesystem.loadConfig();
+		const status = args.status?.trim() || config?.defaultStatus || FALLBACK_STATUS;
+
+		if (this.isDraftStatus(status)) {
+			throw new McpError("Promoting a draft requires a non-draft status.", "VALIDATION_ERROR");
+		}
+
+		try {
+			const task = await this.core.editTaskOrDraft(draft.id, { status });
+			return await formatTaskCallResult(task, [`Promoted draft ${draft.id} to task ${task.id}.`]);
+		} catch (error) {
+			if (error instanceof Error) {
+				throw new McpError(error.message, "VALIDATION_ERROR");
+			}
+			throw new McpError(String(error), "VALIDATION_ERROR");
+		}
+	}
+
+	async archiveDraft(args: { id: string }): Promise<CallToolResult> {
+		const draft = await this.loadDraftOrThrow(args.id);
+		const success = await this.core.archiveDraft(draft.id);
+		if (!success) {
+			throw new McpError(`Failed to archive draft: ${args.id}`, "OPERATION_FAILED");
+		}
+		return await formatTaskCallResult(draft, [`Archived draft ${draft.id}.`], { compact: true });
+	}
+
+	async takeTask(args: { id: string; assignee: string; ttlMinutes?: number }): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		const lease = this.claimLease(task.id, args.assignee, args.ttlMinutes);
+		try {
+			const updatedTask = await this.applyEdit({ id: task.id, assignee: [args.assignee] });
+			return await this.formatWithBlockers(updatedTask, lease);
+		} catch (error) {
+			this.core.releaseTaskLease(task.id, args.assignee);
+			throw error;
+		}
 	}
 
 	async moveTask(args: { id: string; status: string; assignee: string }): Promise<CallToolResult> {
 		const task = await this.loadTaskOrThrow(args.id);
 		const currentAssignees = task.assignee ?? [];
-		if (!currentAssignees.includes(args.assignee)) {
-			return this.editTask({ id: args.id, assignee: [...currentAssignees, args.assignee], status: "In Progress" });
+		if (currentAssignees.includes(args.assignee)) {
+			const updatedTask = await this.applyEdit({ id: args.id, status: args.status });
+			return await this.formatWithBlockers(updatedTask, null);
+		}
+		// Moving a task you are not assigned to makes it yours, so it is a claim like task_take
+		const lease = this.claimLease(task.id, args.assignee);
+		try {
+			const updatedTask = await this.applyEdit({
+				id: args.id,
+				assignee: [...currentAssignees, args.assignee],
+				status: "In Progress",
+			});
+			return await this.formatWithBlockers(updatedTask, lease);
+		} catch (error) {
+			this.core.releaseTaskLease(task.id, args.assignee);
+			throw error;
+		}
+	}
+
+	async nextTask(
+		args: NextTaskOptions & { assignee: string; claim: boolean; ttlMinutes?: number },
+	): Promise<CallToolResult> {
+		let recommendation: NextTaskRecommendation | null;
+		try {
+			recommendation = args.claim ? await this.core.claimNextTask(args) : await this.core.recommendNextTask(args);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, "VALIDATION_ERROR");
+		}
+		if (!recommendation) {
+			return { content: [{ type: "text", text: "No ready tasks." }] };
+		}
+		const { task, reasons, lease } = recommendation;
+		const summary = [
+			...(args.claim ? [`Assigned ${task.id} to ${args.assignee}.`] : []),
+			...(lease ? [formatClaimLine(lease)] : []),
+			...(reasons.length > 0 ? [`Recommended because: ${reasons.join("; ")}`] : []),
+		];
+		return await formatTaskCallResult(task, summary, { compact: true });
+	}
+
+	async heartbeatTask(args: { id: string; holder: string; ttlMinutes?: number }): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		let lease: TaskLease | null;
+		try {
+			lease = this.core.renewTaskLease(task.id, args.holder, args.ttlMinutes);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, "VALIDATION_ERROR");
+		}
+		if (!lease) {
+			const current = this.core.getTaskLease(task.id);
+			if (current) throw new McpTaskClaimedError(current);
+			throw new McpError(
+				`You do not hold a claim on ${task.id}; it lapsed or was released. Claim it again with task_take.`,
+				"LEASE_NOT_HELD",
+			);
+		}
+		return { content: [{ type: "text", text: `Claim on ${task.id} extended until ${formatLeaseExpiry(lease)}.` }] };
+	}
+
+	async releaseTask(args: { id: string; holder: string }): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+		const released = this.core.releaseTaskLease(task.id, args.holder);
+		const text = released ? `Released your claim on ${task.id}.` : `You do not hold a claim on ${task.id}.`;
+		return { content: [{ type: "text", text }] };
+	}
+
+	/** Leases a task to `holder`, failing with TASK_CLAIMED while someone else holds it. */
+	private claimLease(taskId: string, holder: string, ttlMinutes?: number): TaskLease | null {
+		let claim: ReturnType<McpServer["claimTaskLease"]>;
+		try {
+			claim = this.core.claimTaskLease(taskId, holder, ttlMinutes);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, "VALIDATION_ERROR");
+		}
+		if (!claim.acquired) {
+			throw new McpTaskClaimedError(claim.lease);
+		}
+		return claim.lease;
+	}
+
+	/** Formats a task that someone is picking up, listing their claim and the dependencies it still waits on. */
+	private async formatWithBlockers(task: Task, lease: TaskLease | null): Promise<CallToolResult> {
+		const blockers = findOpenBlockers(task, await this.core.fs.listTasks());
+		const summary = [
+			...(lease ? [formatClaimLine(lease)] : []),
+			...(blockers.length > 0 ? [`Open blockers: ${formatBlockers(blockers)}`] : []),
+		];
+		return await formatTaskCallResult(task, summary, { compact: true });
+	}
+
+	async commentTask(args: { id: string; body: string; author: string }): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+
+		if (!isLocalEditableTask(task)) {
+			throw new McpError(`Cannot comment on task from another branch: ${task.id}`, "VALIDATION_ERROR");
+		}
+
+		try {
+			const updatedTask = await this.core.editTaskOrDraft(task.id, {
+				addComment: { author: args.author, body: args.body },
+			});
+			const count = updatedTask.comments?.length ?? 0;
+			return await formatTaskCallResult(updatedTask, [`Added comment #${count} to ${updatedTask.id}.`], {
+				compact: true,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, "VALIDATION_ERROR");
+		}
+	}
+
+	async logTime(args: {
+		id: string;
+		hours: number;
+		date?: string;
+		note?: string;
+		author: string;
+	}): Promise<CallToolResult> {
+		const task = await this.loadTaskOrThrow(args.id);
+
+		if (!isLocalEditableTask(task)) {
+			throw new McpError(`Cannot log time on task from another branch: ${task.id}`, "VALIDATION_ERROR");
+		}
+
+		try {
+			const updatedTask = await this.core.editTaskOrDraft(task.id, {
+				addTimeEntry: { hours: args.hours, date: args.date, note: args.note, author: args.author },
+			});
+			const entry = updatedTask.timeEntries?.at(-1);
+			const total = getLoggedHours(updatedTask);
+			const estimate = typeof updatedTask.estimate === "number" ? ` (estimate: ${updatedTask.estimate})` : "";
+			return await formatTaskCallResult(
+				updatedTask,
+				[`Logged ${entry?.hours ?? args.hours}h on ${updatedTask.id}. Total logged: ${total}h${estimate}.`],
+				{ compact: true },
+			);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, "VALIDATION_ERROR");
 		}
-		return this.editTask({ id: args.id, status: args.status });
+	}
+
+	async bulkEditTasks(args: TaskBulkEditArgs): Promise<CallToolResult> {
+		const { ids, filterStatus, filterAssignee, filterLabels, filterSearch, filterReady, ...update } = args;
+		let result: BulkEditResult;
+		try {
+			result = await this.core.editTasksBulk(
+				{
+					ids,
+					filters: { status: filterStatus, assignee: filterAssignee, labels: filterLabels, ready: filterReady },
+					query: filterSearch,
+				},
+				update,
+			);
+		} catch (error) {
+			throw new McpError(error instanceof Error ? error.message : String(error), "VALIDATION_ERROR");
+		}
+
+		const { updated, unchanged } = result;
+		const lines = [
+			updated.length > 0
+				? `Updated ${updated.length} task${updated.length === 1 ? "" : "s"}: ${updated.map((task) => task.id).join(", ")}.`
+				: "No tasks were changed.",
+		];
+		if (unchanged.length > 0) {
+			lines.push(`Already up to date: ${unchanged.join(", ")}.`);
+		}
+		return { content: [{ type: "text", text: lines.join("\n") }] };
 	}
 
 	async editTask(args: TaskEditRequest): Promise<CallToolResult> {
+		const updatedTask = await this.applyEdit(args);
+		return await formatTaskCallResult(updatedTask, [], { compact: true });
+	}
+
+	private async applyEdit(args: TaskEditRequest): Promise<Task> {
 		try {
 			const updateInput = buildTaskUpdateInput(args);
 			if (typeof updateInput.milestone === "string") {
-				const [activeMilestones, archivedMilestones] = await Promise.all([
-					this.core.filesystem.listMilestones(),
-					this.core.filesystem.listArchivedMilestones(),
-				]);
-				updateInput.milestone = resolveMilestoneInput(updateInput.milestone, activeMilestones, archivedMilestones);
+				updateInput.milestone = await this.resolveMilestone(updateInput.milestone);
 			}
-			const updatedTask = await this.core.editTaskOrDraft(args.id, updateInput);
-			return await formatTaskCallResult(updatedTask, [], { compact: true });
+			return await this.core.editTaskOrDraft(args.id, updateInput);
 		} catch (error) {
+			if (error instanceof TaskVersionConflictError) {
+				throw new McpVersionConflictError(error);
+			}
 			if (error instanceof Error) {
 				throw new McpError(error.message, "VALIDATION_ERROR");
 			}
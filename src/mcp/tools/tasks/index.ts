@@ -3,9 +3,40 @@ import type { McpServer } from "../../server.ts";
 import type { McpToolHandler } from "../../types.ts";
 import { generateTaskCreateSchema, generateTaskEditSchema } from "../../utils/schema-generators.ts";
 import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
-import type { TaskCreateArgs, TaskEditRequest, TaskListArgs, TaskSearchArgs } from "./handlers.ts";
+import type {
+	DraftCreateArgs,
+	DraftListArgs,
+	DraftPromoteArgs,
+	TaskBulkEditArgs,
+	TaskCreateArgs,
+	TaskEditRequest,
+	TaskListArgs,
+	TaskSearchArgs,
+	TaskSimilarArgs,
+} from "./handlers.ts";
 import { TaskHandlers } from "./handlers.ts";
-import { taskArchiveSchema, taskCompleteSchema, taskListSchema, taskSearchSchema, taskViewSchema } from "./schemas.ts";
+import {
+	draftArchiveSchema,
+	draftCreateSchema,
+	draftEditSchema,
+	draftListSchema,
+	draftPromoteSchema,
+	draftViewSchema,
+	taskArchiveSchema,
+	taskBulkEditSchema,
+	taskCompleteSchema,
+	taskDemoteSchema,
+	taskHeartbeatSchema,
+	taskHistorySchema,
+	taskListSchema,
+	taskLogTimeSchema,
+	taskNextSchema,
+	taskReleaseSchema,
+	taskSearchSchema,
+	taskSimilarSchema,
+	taskTakeSchema,
+	taskViewSchema,
+} from "./schemas.ts";
 
 export function registerTaskTools(server: McpServer, config: BacklogConfig): void {
 	const handlers = new TaskHandlers(server);
@@ -36,7 +67,8 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 	const searchTaskTool: McpToolHandler = createSimpleValidatedTool(
 		{
 			name: "task_search",
-			description: "Search llm-backlog tasks by title and description",
+			description:
+				"Search llm-backlog tasks by title and description, with optional field filters such as status:, assignee:@me, label:, priority>=, updated:<7d, milestone: and has:",
 			inputSchema: taskSearchSchema,
 		},
 		taskSearchSchema,
@@ -53,6 +85,17 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 		async (input) => handlers.editTask(input as unknown as TaskEditRequest),
 	);
 
+	const bulkEditTaskTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_bulk_edit",
+			description:
+				"Apply the same status, priority, milestone, label or assignee change to several tasks at once, in one commit",
+			inputSchema: taskBulkEditSchema,
+		},
+		taskBulkEditSchema,
+		async (input) => handlers.bulkEditTasks(input as TaskBulkEditArgs),
+	);
+
 	const viewTaskTool: McpToolHandler = createSimpleValidatedTool(
 		{
 			name: "task_view",
@@ -63,6 +106,27 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 		async (input) => handlers.viewTask(input as { id: string }),
 	);
 
+	const historyTaskTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_history",
+			description: "Show the change history of a task, built from the git log of its file",
+			inputSchema: taskHistorySchema,
+		},
+		taskHistorySchema,
+		async (input) => handlers.taskHistory(input as { id: string; limit?: number }),
+	);
+
+	const similarTaskTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_similar",
+			description:
+				"Find tasks worded like a task or a piece of text, most similar first. Check before creating a task to avoid duplicates",
+			inputSchema: taskSimilarSchema,
+		},
+		taskSimilarSchema,
+		async (input) => handlers.similarTasks(input as TaskSimilarArgs),
+	);
+
 	const archiveTaskTool: McpToolHandler = createSimpleValidatedTool(
 		{
 			name: "task_archive",
@@ -83,13 +147,102 @@ export function registerTaskTools(server: McpServer, config: BacklogConfig): voi
 		async (input) => handlers.completeTask(input as { id: string }),
 	);
 
+	const demoteTaskTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_demote",
+			description: "Move a llm-backlog task back to drafts",
+			inputSchema: taskDemoteSchema,
+		},
+		taskDemoteSchema,
+		async (input) => handlers.demoteTask(input as { id: string }),
+	);
+
 	server.addTool(createTaskTool);
 	server.addTool(listTaskTool);
 	server.addTool(searchTaskTool);
 	server.addTool(editTaskTool);
+	server.addTool(bulkEditTaskTool);
 	server.addTool(viewTaskTool);
+	server.addTool(historyTaskTool);
+	server.addTool(similarTaskTool);
 	server.addTool(archiveTaskTool);
 	server.addTool(completeTaskTool);
+	server.addTool(demoteTaskTool);
+
+	registerDraftTools(server, handlers);
+}
+
+/**
+ * Registers the draft_* tools. Drafts are parked ideas that live outside the
+ * board until a human promotes them to a task.
+ */
+function registerDraftTools(server: McpServer, handlers: TaskHandlers): void {
+	const createDraftTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "draft_create",
+			description: "Create a llm-backlog draft for an idea that is not ready to be a task",
+			inputSchema: draftCreateSchema,
+		},
+		draftCreateSchema,
+		async (input) => handlers.createDraft(input as DraftCreateArgs),
+	);
+
+	const listDraftTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "draft_list",
+			description: "List llm-backlog drafts with optional filtering",
+			inputSchema: draftListSchema,
+		},
+		draftListSchema,
+		async (input) => handlers.listDrafts(input as DraftListArgs),
+	);
+
+	const viewDraftTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "draft_view",
+			description: "View a llm-backlog draft details",
+			inputSchema: draftViewSchema,
+		},
+		draftViewSchema,
+		async (input) => handlers.viewDraft(input as { id: string }),
+	);
+
+	const editDraftTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "draft_edit",
+			description: "Edit a llm-backlog draft's metadata, description and implementation plan",
+			inputSchema: draftEditSchema,
+		},
+		draftEditSchema,
+		async (input) => handlers.editDraft(input as unknown as TaskEditRequest),
+	);
+
+	const promoteDraftTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "draft_promote",
+			description: "Promote a llm-backlog draft to a task with a new task ID",
+			inputSchema: draftPromoteSchema,
+		},
+		draftPromoteSchema,
+		async (input) => handlers.promoteDraft(input as DraftPromoteArgs),
+	);
+
+	const archiveDraftTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "draft_archive",
+			description: "Archive a llm-backlog draft",
+			inputSchema: draftArchiveSchema,
+		},
+		draftArchiveSchema,
+		async (input) => handlers.archiveDraft(input as { id: string }),
+	);
+
+	server.addTool(createDraftTool);
+	server.addTool(listDraftTool);
+	server.addTool(viewDraftTool);
+	server.addTool(editDraftTool);
+	server.addTool(promoteDraftTool);
+	server.addTool(archiveDraftTool);
 }
 
 /**
@@ -129,16 +282,159 @@ export function createTakeTaskTool(server: McpServer, currentUser: string): McpT
 	return createSimpleValidatedTool(
 		{
 			name: "task_take",
-			description: `Assign a task to yourself (${currentUser})`,
+			description: `Assign a task to yourself (${currentUser}) and claim it so no other agent can take it until the claim lapses`,
+			inputSchema: taskTakeSchema,
+		},
+		taskTakeSchema,
+		async (input) =>
+			handlers.takeTask({
+				id: input.id as string,
+				assignee: currentUser,
+				ttlMinutes: input.ttlMinutes as number | undefined,
+			}),
+	);
+}
+
+/**
+ * Creates a per-request task_heartbeat tool that extends the current user's
+ * claim on a task. Used by the HTTP transport to inject authenticated user context into the tool.
+ */
+export function createHeartbeatTaskTool(server: McpServer, currentUser: string): McpToolHandler {
+	const handlers = new TaskHandlers(server);
+	return createSimpleValidatedTool(
+		{
+			name: "task_heartbeat",
+			description: `Extend your (${currentUser}) claim on a task you are working on`,
+			inputSchema: taskHeartbeatSchema,
+		},
+		taskHeartbeatSchema,
+		async (input) =>
+			handlers.heartbeatTask({
+				id: input.id as string,
+				holder: currentUser,
+				ttlMinutes: input.ttlMinutes as number | undefined,
+			}),
+	);
+}
+
+/**
+ * Creates a per-request task_release tool that drops the current user's claim
+ * on a task so other agents can take it. The assignee is left unchanged.
+ * Used by the HTTP transport to inject authenticated user context into the tool.
+ */
+export function createReleaseTaskTool(server: McpServer, currentUser: string): McpToolHandler {
+	const handlers = new TaskHandlers(server);
+	return createSimpleValidatedTool(
+		{
+			name: "task_release",
+			description: `Release your (${currentUser}) claim on a task so others can take it`,
+			inputSchema: taskReleaseSchema,
+		},
+		taskReleaseSchema,
+		async (input) => handlers.releaseTask({ id: input.id as string, holder: currentUser }),
+	);
+}
+
+/**
+ * Creates a per-request task_next tool for the current user. Recommendations
+ * skip tasks assigned to someone else and prefer labels matching the user's
+ * declared skills; with `claim` the task is assigned to them in the same step.
+ * Used by the HTTP transport to inject authenticated user context into the tool.
+ */
+export function createNextTaskTool(
+	server: McpServer,
+	currentUser: { name: string; skills?: string[] },
+): McpToolHandler {
+	const handlers = new TaskHandlers(server);
+	return createSimpleValidatedTool(
+		{
+			name: "task_next",
+			description: `Recommend the best ready task for you (${currentUser.name}) to work on next, optionally claiming it`,
+			inputSchema: taskNextSchema,
+		},
+		taskNextSchema,
+		async (input) =>
+			handlers.nextTask({
+				assignee: currentUser.name,
+				skills: (input.skills as string[] | undefined) ?? currentUser.skills,
+				milestone: input.milestone as string | undefined,
+				claim: input.claim === true,
+				ttlMinutes: input.ttlMinutes as number | undefined,
+			}),
+	);
+}
+
+export type {
+	DraftCreateArgs,
+	DraftListArgs,
+	DraftPromoteArgs,
+	TaskBulkEditArgs,
+	TaskCreateArgs,
+	TaskEditArgs,
+	TaskListArgs,
+	TaskSearchArgs,
+	TaskSimilarArgs,
+} from "./handlers.ts";
+export {
+	draftArchiveSchema,
+	draftCreateSchema,
+	draftEditSchema,
+	draftListSchema,
+	draftPromoteSchema,
+	draftViewSchema,
+	taskArchiveSchema,
+	taskCompleteSchema,
+	taskDemoteSchema,
+	taskListSchema,
+	taskSearchSchema,
+	taskViewSchema,
+} from "./schemas.ts";
+
+/**
+ * Creates a per-request task_comment tool with the current user's name baked in
+ * as the comment author, so agents cannot post on behalf of someone else.
+ * Used by the HTTP transport to inject authenticated user context into the tool.
+ */
+export function createCommentTaskTool(server: McpServer, currentUser: string): McpToolHandler {
+	const handlers = new TaskHandlers(server);
+	return createSimpleValidatedTool(
+		{
+			name: "task_comment",
+			description: `Append a comment to a task's discussion thread as ${currentUser}`,
 			inputSchema: {
-				properties: { id: { type: "string", description: "Task ID to take" } },
-				required: ["id"],
+				properties: {
+					id: { type: "string", description: "Task ID to comment on" },
+					body: { type: "string", description: "Comment text (markdown)" },
+				},
+				required: ["id", "body"],
 			},
 		},
-		{ properties: { id: { type: "string" } }, required: ["id"] },
-		async (input) => handlers.takeTask({ id: input.id as string, assignee: currentUser }),
+		{ properties: { id: { type: "string" }, body: { type: "string" } }, required: ["id", "body"] },
+		async (input) => handlers.commentTask({ id: input.id as string, body: input.body as string, author: currentUser }),
 	);
 }
 
-export type { TaskCreateArgs, TaskEditArgs, TaskListArgs, TaskSearchArgs } from "./handlers.ts";
-export { taskArchiveSchema, taskCompleteSchema, taskListSchema, taskSearchSchema, taskViewSchema } from "./schemas.ts";
+/**
+ * Creates a per-request task_log_time tool with the current user's name baked in
+ * as the author of the time entry.
+ * Used by the HTTP transport to inject authenticated user context into the tool.
+ */
+export function createLogTimeTool(server: McpServer, currentUser: string): McpToolHandler {
+	const handlers = new TaskHandlers(server);
+	return createSimpleValidatedTool(
+		{
+			name: "task_log_time",
+			description: `Log hours worked on a task as ${currentUser}`,
+			inputSchema: taskLogTimeSchema,
+		},
+		taskLogTimeSchema,
+		async (input) =>
+			handlers.logTime({
+				id: input.id as string,
+				hours: input.hours as number,
+				date: input.date as string | undefined,
+				note: input.note as string | undefined,
+				author: currentUser,
+			}),
+	);
+}
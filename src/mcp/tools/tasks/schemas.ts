@@ -1,3 +1,4 @@
+import { DEFAULT_LEASE_TTL_MINUTES, MAX_LEASE_TTL_MINUTES } from "../../../core/leases.ts";
 import type { JsonSchema } from "../../validation/validators.ts";
 
 export const taskListSchema: JsonSchema = {
@@ -19,6 +20,11 @@ export const taskListSchema: JsonSchema = {
 			type: "string",
 			maxLength: 200,
 		},
+		ready: {
+			type: "boolean",
+			description:
+				"true: only unfinished tasks whose dependencies are all done; false: only tasks waiting on a dependency",
+		},
 		limit: {
 			type: "number",
 			minimum: 1,
@@ -36,6 +42,8 @@ export const taskSearchSchema: JsonSchema = {
 			type: "string",
 			minLength: 1,
 			maxLength: 200,
+			description:
+				"Words to search for, optionally with filters, e.g. 'status:\"In Progress\" assignee:@me label:api -label:wip priority>=medium updated:<7d milestone:m-3 has:plan'. Terms are ANDed; use OR and parentheses for alternatives and a leading - to exclude",
 		},
 		status: {
 			type: "string",
@@ -55,6 +63,184 @@ export const taskSearchSchema: JsonSchema = {
 	additionalProperties: false,
 };
 
+export const taskHistorySchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		limit: {
+			type: "number",
+			minimum: 1,
+			description: "Maximum number of history entries to return, newest first",
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const taskSimilarSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+			description: "Find tasks similar to this task",
+		},
+		text: {
+			type: "string",
+			minLength: 1,
+			maxLength: 10000,
+			description:
+				"Find tasks similar to this text instead, e.g. the title and description of a task you are about to create",
+		},
+		limit: {
+			type: "number",
+			minimum: 1,
+			maximum: 50,
+			description: "Maximum number of tasks to return (default 5)",
+		},
+		includeDone: {
+			type: "boolean",
+			description: "Include Done tasks (default false)",
+		},
+	},
+	required: [],
+	additionalProperties: false,
+};
+
+export const taskLogTimeSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		hours: {
+			type: "number",
+			minimum: 0.01,
+			description: "Hours worked, e.g. 1.5",
+		},
+		date: {
+			type: "string",
+			maxLength: 10,
+			description: "Day the work was done (YYYY-MM-DD); defaults to today",
+		},
+		note: {
+			type: "string",
+			maxLength: 500,
+			description: "Optional short description of the work",
+		},
+	},
+	required: ["id", "hours"],
+	additionalProperties: false,
+};
+
+const ttlMinutesProperty: JsonSchema = {
+	type: "number",
+	minimum: 1,
+	maximum: MAX_LEASE_TTL_MINUTES,
+	description: `How long the claim lasts without a heartbeat, in minutes (default ${DEFAULT_LEASE_TTL_MINUTES})`,
+};
+
+export const taskTakeSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: { type: "string", minLength: 1, maxLength: 50, description: "Task ID to take" },
+		ttlMinutes: ttlMinutesProperty,
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const taskHeartbeatSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: { type: "string", minLength: 1, maxLength: 50, description: "Task ID you hold a claim on" },
+		ttlMinutes: ttlMinutesProperty,
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const taskReleaseSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: { type: "string", minLength: 1, maxLength: 50, description: "Task ID to release your claim on" },
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const taskBulkEditSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		ids: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+			maxItems: 500,
+			description: "Tasks to edit. Leave out to edit every task matching the filter fields instead",
+		},
+		filterStatus: { type: "string", maxLength: 100, description: "Select tasks with this status" },
+		filterAssignee: { type: "string", maxLength: 100, description: "Select tasks assigned to this person" },
+		filterLabels: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+			description: "Select tasks that have all of these labels",
+		},
+		filterSearch: { type: "string", maxLength: 200, description: "Select tasks matching this search query" },
+		filterReady: {
+			type: "boolean",
+			description: "Select tasks that are ready (true) or waiting on a dependency (false)",
+		},
+		status: { type: "string", maxLength: 100, description: "New status" },
+		priority: { type: "string", enum: ["high", "medium", "low"] },
+		milestone: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: "Set milestone label (string) or clear it (null).",
+		},
+		addLabels: { type: "array", items: { type: "string", maxLength: 50 } },
+		removeLabels: { type: "array", items: { type: "string", maxLength: 50 } },
+		assignee: {
+			type: "array",
+			items: { type: "string", maxLength: 100 },
+			description: "Replace the assignees",
+		},
+	},
+	required: [],
+	additionalProperties: false,
+};
+
+export const taskNextSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		claim: {
+			type: "boolean",
+			description: "Assign the recommended task to yourself and claim it in the same step",
+		},
+		ttlMinutes: ttlMinutesProperty,
+		milestone: {
+			type: "string",
+			maxLength: 100,
+			description: "Only consider tasks in this milestone (ID or title)",
+		},
+		skills: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+			maxItems: 20,
+			description: "Labels you are suited for; defaults to the skills declared for your user",
+		},
+	},
+	required: [],
+	additionalProperties: false,
+};
+
 export const taskViewSchema: JsonSchema = {
 	type: "object",
 	properties: {
@@ -106,3 +292,203 @@ export const taskDemoteSchema: JsonSchema = {
 	required: ["id"],
 	additionalProperties: false,
 };
+
+export const draftListSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		assignee: {
+			type: "string",
+			maxLength: 100,
+		},
+		labels: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+		},
+		search: {
+			type: "string",
+			maxLength: 200,
+		},
+		limit: {
+			type: "number",
+			minimum: 1,
+			maximum: 1000,
+		},
+	},
+	required: [],
+	additionalProperties: false,
+};
+
+export const draftViewSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const draftCreateSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		title: {
+			type: "string",
+			minLength: 1,
+			maxLength: 200,
+		},
+		description: {
+			type: "string",
+			maxLength: 10000,
+		},
+		priority: {
+			type: "string",
+			enum: ["high", "medium", "low"],
+		},
+		milestone: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: "Optional milestone label (trimmed).",
+		},
+		labels: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+		},
+		assignee: {
+			type: "array",
+			items: { type: "string", maxLength: 100 },
+		},
+		references: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Reference URLs or file paths related to this draft",
+		},
+		documentation: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Documentation URLs or file paths for understanding this draft",
+		},
+	},
+	required: ["title"],
+	additionalProperties: false,
+};
+
+export const draftEditSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		title: {
+			type: "string",
+			maxLength: 200,
+		},
+		description: {
+			type: "string",
+			maxLength: 10000,
+		},
+		priority: {
+			type: "string",
+			enum: ["high", "medium", "low"],
+		},
+		milestone: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: "Set milestone label (string) or clear it (null).",
+		},
+		labels: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+		},
+		assignee: {
+			type: "array",
+			items: { type: "string", maxLength: 100 },
+		},
+		references: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Set reference URLs or file paths (replaces existing)",
+		},
+		addReferences: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Add reference URLs or file paths",
+		},
+		removeReferences: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Remove reference URLs or file paths",
+		},
+		documentation: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Set documentation URLs or file paths (replaces existing)",
+		},
+		addDocumentation: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Add documentation URLs or file paths",
+		},
+		removeDocumentation: {
+			type: "array",
+			items: { type: "string", maxLength: 500 },
+			description: "Remove documentation URLs or file paths",
+		},
+		planSet: {
+			type: "string",
+			maxLength: 20000,
+		},
+		planAppend: {
+			type: "array",
+			items: { type: "string", maxLength: 5000 },
+			maxItems: 20,
+		},
+		planClear: {
+			type: "boolean",
+		},
+		expectedVersion: {
+			type: "string",
+			maxLength: 64,
+			description: "Version shown by draft_view; the edit is rejected if the draft changed since",
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const draftPromoteSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+		status: {
+			type: "string",
+			maxLength: 100,
+			description: "Status for the promoted task. Defaults to the project's default status.",
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const draftArchiveSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		id: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+		},
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
@@ -0,0 +1,74 @@
+import { templateVariables } from "../../../core/task-templates.ts";
+import type { TaskTemplate } from "../../../types/index.ts";
+import { McpError } from "../../errors/mcp-errors.ts";
+import type { McpServer } from "../../server.ts";
+import type { CallToolResult } from "../../types.ts";
+import { formatDuplicateWarning, formatTaskCallResult } from "../../utils/task-response.ts";
+
+export type TaskCreateFromTemplateArgs = {
+	template: string;
+	variables?: Record<string, unknown>;
+	milestone?: string;
+	assignee?: string[];
+	status?: string;
+	priority?: "high" | "medium" | "low";
+};
+
+/** "every Monday, variables: version, codename" */
+function describeTemplate(template: TaskTemplate): string {
+	const parts: string[] = [];
+	if (template.recurrence?.every === "week") {
+		parts.push(`every ${template.recurrence.day.charAt(0).toUpperCase()}${template.recurrence.day.slice(1)}`);
+	} else if (template.recurrence?.every === "milestone") {
+		parts.push("once per active milestone");
+	}
+	const variables = templateVariables(template);
+	if (variables.length > 0) parts.push(`variables: ${variables.join(", ")}`);
+	if (template.subtasks.length > 0) parts.push(`${template.subtasks.length} subtasks`);
+	return parts.length > 0 ? `${template.title} (${parts.join(", ")})` : template.title;
+}
+
+export class TemplateHandlers {
+	constructor(private readonly core: McpServer) {}
+
+	async listTemplates(): Promise<CallToolResult> {
+		const templates = await this.core.filesystem.listTemplates();
+		if (templates.length === 0) {
+			return { content: [{ type: "text", text: "No task templates found." }] };
+		}
+		const lines = [
+			"Task templates:",
+			...templates.map((template) => `  ${template.id} - ${template.name}: ${describeTemplate(template)}`),
+		];
+		return { content: [{ type: "text", text: lines.join("\n") }] };
+	}
+
+	async createTaskFromTemplate(args: TaskCreateFromTemplateArgs): Promise<CallToolResult> {
+		const variables: Record<string, string> = {};
+		for (const [name, value] of Object.entries(args.variables ?? {})) {
+			if (typeof value === "string" || typeof value === "number") variables[name] = String(value);
+		}
+
+		try {
+			const { task, subtasks, possibleDuplicates } = await this.core.createTaskFromTemplate(args.template, {
+				variables,
+				milestone: args.milestone,
+				overrides: { assignee: args.assignee, status: args.status, priority: args.priority },
+			});
+			const result = await formatTaskCallResult(task);
+			if (subtasks.length > 0) {
+				result.content.push({
+					type: "text",
+					text: ["Subtasks:", ...subtasks.map((subtask) => `  ${subtask.id} - ${subtask.title}`)].join("\n"),
+				});
+			}
+			if (possibleDuplicates.length > 0) {
+				result.content.push({ type: "text", text: formatDuplicateWarning(possibleDuplicates) });
+			}
+			return result;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, message.startsWith("Template not found") ? "TEMPLATE_NOT_FOUND" : "VALIDATION_ERROR");
+		}
+	}
+}
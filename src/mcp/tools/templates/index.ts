@@ -0,0 +1,37 @@
+import type { McpServer } from "../../server.ts";
+import type { McpToolHandler } from "../../types.ts";
+import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
+import type { TaskCreateFromTemplateArgs } from "./handlers.ts";
+import { TemplateHandlers } from "./handlers.ts";
+import { taskCreateFromTemplateSchema, templateListSchema } from "./schemas.ts";
+
+export function registerTemplateTools(server: McpServer): void {
+	const handlers = new TemplateHandlers(server);
+
+	const listTemplatesTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "template_list",
+			description: "List the task templates, with the placeholders each one needs and how often it recurs",
+			inputSchema: templateListSchema,
+		},
+		templateListSchema,
+		async () => handlers.listTemplates(),
+	);
+
+	const createFromTemplateTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "task_create_from_template",
+			description:
+				"Create a task, and its subtasks, from a template. Pass a value in `variables` for each placeholder the template lists in template_list",
+			inputSchema: taskCreateFromTemplateSchema,
+		},
+		taskCreateFromTemplateSchema,
+		async (input) => handlers.createTaskFromTemplate(input as TaskCreateFromTemplateArgs),
+	);
+
+	server.addTool(listTemplatesTool);
+	server.addTool(createFromTemplateTool);
+}
+
+export type { TaskCreateFromTemplateArgs } from "./handlers.ts";
+export { taskCreateFromTemplateSchema, templateListSchema } from "./schemas.ts";
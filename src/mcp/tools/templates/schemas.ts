@@ -0,0 +1,46 @@
+import type { JsonSchema } from "../../validation/validators.ts";
+
+export const templateListSchema: JsonSchema = {
+	type: "object",
+	properties: {},
+	required: [],
+	additionalProperties: false,
+};
+
+export const taskCreateFromTemplateSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		template: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: 'Template ID (e.g. "template-1") or name (e.g. "Release checklist")',
+		},
+		variables: {
+			type: "object",
+			description: 'Values for the template\'s placeholders, e.g. { "version": "2.1" } for {{version}}',
+		},
+		milestone: {
+			type: "string",
+			maxLength: 100,
+			description: "Milestone ID or title for the task and its subtasks; also fills {{milestone}}",
+		},
+		assignee: {
+			type: "array",
+			items: { type: "string", maxLength: 50 },
+			description: "Replaces the template's assignees",
+		},
+		status: {
+			type: "string",
+			maxLength: 100,
+			description: "Replaces the template's status",
+		},
+		priority: {
+			type: "string",
+			enum: ["high", "medium", "low"],
+			description: "Replaces the template's priority",
+		},
+	},
+	required: ["template"],
+	additionalProperties: false,
+};
@@ -0,0 +1,64 @@
+import type { SavedViewResult } from "../../../core/saved-views.ts";
+import type { SavedView, Task } from "../../../types/index.ts";
+import { McpError } from "../../errors/mcp-errors.ts";
+import type { McpServer } from "../../server.ts";
+import type { CallToolResult } from "../../types.ts";
+
+export type ViewRunArgs = {
+	view: string;
+	limit?: number;
+};
+
+/** "status: To Do, labels: bug, ui, search: login; sorted by priority" */
+function describeView(view: SavedView): string {
+	const { status, assignee, priority, labels, milestone, ready } = view.filters;
+	const parts: string[] = [];
+	if (status) parts.push(`status: ${status}`);
+	if (assignee) parts.push(`assignee: ${assignee}`);
+	if (priority) parts.push(`priority: ${priority}`);
+	if (labels && labels.length > 0) parts.push(`labels: ${labels.join(", ")}`);
+	if (milestone) parts.push(`milestone: ${milestone}`);
+	if (ready !== undefined) parts.push(ready ? "ready" : "waiting on dependencies");
+	if (view.query) parts.push(`search: ${view.query}`);
+	const filters = parts.length > 0 ? parts.join(", ") : "all tasks";
+	return view.sort ? `${filters}; sorted by ${view.sort}` : filters;
+}
+
+function formatTaskLine(task: Task): string {
+	const priority = task.priority ? `[${task.priority.toUpperCase()}] ` : "";
+	return `  ${priority}${task.id} - ${task.title} (${task.status})`;
+}
+
+export class ViewHandlers {
+	constructor(private readonly core: McpServer) {}
+
+	async listViews(): Promise<CallToolResult> {
+		const views = await this.core.filesystem.listViews();
+		if (views.length === 0) {
+			return { content: [{ type: "text", text: "No saved views found." }] };
+		}
+		const lines = ["Saved views:", ...views.map((view) => `  ${view.id} - ${view.name} (${describeView(view)})`)];
+		return { content: [{ type: "text", text: lines.join("\n") }] };
+	}
+
+	async runView(args: ViewRunArgs): Promise<CallToolResult> {
+		let result: SavedViewResult;
+		try {
+			result = await this.core.runSavedView(args.view);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new McpError(message, message.startsWith("View not found") ? "VIEW_NOT_FOUND" : "VALIDATION_ERROR");
+		}
+
+		const { view, tasks } = result;
+		const shown = typeof args.limit === "number" ? tasks.slice(0, args.limit) : tasks;
+		const count = `${tasks.length} task${tasks.length === 1 ? "" : "s"}`;
+		const lines = [`${view.name} (${view.id}): ${count}`, `Filters: ${describeView(view)}`];
+		if (view.description) lines.push(view.description);
+		lines.push(...(shown.length > 0 ? shown.map(formatTaskLine) : ["  No tasks match this view."]));
+		if (shown.length < tasks.length) {
+			lines.push(`  … and ${tasks.length - shown.length} more`);
+		}
+		return { content: [{ type: "text", text: lines.join("\n") }] };
+	}
+}
@@ -0,0 +1,36 @@
+import type { McpServer } from "../../server.ts";
+import type { McpToolHandler } from "../../types.ts";
+import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
+import type { ViewRunArgs } from "./handlers.ts";
+import { ViewHandlers } from "./handlers.ts";
+import { viewListSchema, viewRunSchema } from "./schemas.ts";
+
+export function registerViewTools(server: McpServer): void {
+	const handlers = new ViewHandlers(server);
+
+	const listViewsTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "view_list",
+			description: "List the saved views (named task filters) shared with the web UI",
+			inputSchema: viewListSchema,
+		},
+		viewListSchema,
+		async () => handlers.listViews(),
+	);
+
+	const runViewTool: McpToolHandler = createSimpleValidatedTool(
+		{
+			name: "view_run",
+			description: 'List the tasks matching a saved view, by ID or name (e.g. "Sprint triage"), in the view\'s order',
+			inputSchema: viewRunSchema,
+		},
+		viewRunSchema,
+		async (input) => handlers.runView(input as ViewRunArgs),
+	);
+
+	server.addTool(listViewsTool);
+	server.addTool(runViewTool);
+}
+
+export type { ViewRunArgs } from "./handlers.ts";
+export { viewListSchema, viewRunSchema } from "./schemas.ts";
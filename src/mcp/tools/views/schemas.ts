@@ -0,0 +1,28 @@
+import type { JsonSchema } from "../../validation/validators.ts";
+
+export const viewListSchema: JsonSchema = {
+	type: "object",
+	properties: {},
+	required: [],
+	additionalProperties: false,
+};
+
+export const viewRunSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		view: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			description: 'View ID (e.g. "view-1") or name (e.g. "Sprint triage")',
+		},
+		limit: {
+			type: "number",
+			minimum: 1,
+			maximum: 1000,
+			description: "Return at most this many tasks",
+		},
+	},
+	required: ["view"],
+	additionalProperties: false,
+};
@@ -5,6 +5,7 @@ import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
 import type { JsonSchema } from "../../validation/validators.ts";
 import { renderWorkflowGuide, WORKFLOW_GUIDES } from "../../workflow-guides.ts";
 import { createSyncTool } from "./sync-tool.ts";
+import { createValidateTool } from "./validate-tool.ts";
 
 const emptyInputSchema: JsonSchema = {
 	type: "object",
@@ -45,4 +46,5 @@ export function registerWorkflowTools(server: McpServer): void {
 		server.addTool(createWorkflowTool(server, guide));
 	}
 	server.addTool(createSyncTool(server));
+	server.addTool(createValidateTool(server));
 }
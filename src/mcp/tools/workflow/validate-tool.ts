@@ -0,0 +1,35 @@
+import type { McpServer } from "../../server.ts";
+import type { McpToolHandler } from "../../types.ts";
+import { createSimpleValidatedTool } from "../../validation/tool-wrapper.ts";
+import type { JsonSchema } from "../../validation/validators.ts";
+
+const emptyInputSchema: JsonSchema = {
+	type: "object",
+	properties: {},
+	required: [],
+	additionalProperties: false,
+};
+
+export function createValidateTool(server: McpServer): McpToolHandler {
+	return createSimpleValidatedTool(
+		{
+			name: "backlog_validate",
+			description:
+				"Check the whole backlog for dependency cycles, dependencies and parents that do not exist or are archived, " +
+				"statuses missing from the configuration and unknown milestones.",
+			inputSchema: emptyInputSchema,
+		},
+		emptyInputSchema,
+		async () => {
+			const report = await server.validateBacklog();
+			const text = report.valid
+				? `No problems found in ${report.checked} tasks.`
+				: `Found ${report.issues.length} problem${report.issues.length === 1 ? "" : "s"} in ${report.checked} tasks:\n` +
+					report.issues.map((issue) => `  - [${issue.kind}] ${issue.message}`).join("\n");
+
+			return {
+				content: [{ type: "text", text }],
+			};
+		},
+	);
+}
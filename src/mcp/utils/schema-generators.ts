@@ -45,6 +45,21 @@ export function generateTaskCreateSchema(config: BacklogConfig): JsonSchema {
 				type: "string",
 				enum: ["high", "medium", "low"],
 			},
+			estimate: {
+				type: "number",
+				minimum: 0,
+				description: "Expected effort, in the project's estimate unit (hours unless estimate_unit is points).",
+			},
+			startDate: {
+				type: "string",
+				maxLength: 10,
+				description: "Planned start date (YYYY-MM-DD).",
+			},
+			dueDate: {
+				type: "string",
+				maxLength: 10,
+				description: "Due date (YYYY-MM-DD).",
+			},
 			milestone: {
 				type: "string",
 				minLength: 1,
@@ -88,6 +103,15 @@ export function generateTaskCreateSchema(config: BacklogConfig): JsonSchema {
 				},
 				description: "Documentation URLs or file paths for understanding this task",
 			},
+			acceptanceCriteria: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 1000,
+				},
+				maxItems: 50,
+				description: "Acceptance criteria, one checklist item per entry (all start unchecked)",
+			},
 			finalSummary: {
 				type: "string",
 				maxLength: 20000,
@@ -128,6 +152,21 @@ export function generateTaskEditSchema(config: BacklogConfig): JsonSchema {
 				type: "string",
 				enum: ["high", "medium", "low"],
 			},
+			estimate: {
+				type: "number",
+				minimum: 0,
+				description: "Set the expected effort (number) or clear it (null).",
+			},
+			startDate: {
+				type: "string",
+				maxLength: 10,
+				description: "Set the planned start date (YYYY-MM-DD) or clear it (null).",
+			},
+			dueDate: {
+				type: "string",
+				maxLength: 10,
+				description: "Set the due date (YYYY-MM-DD) or clear it (null).",
+			},
 			milestone: {
 				type: "string",
 				minLength: 1,
@@ -203,6 +242,48 @@ export function generateTaskEditSchema(config: BacklogConfig): JsonSchema {
 				},
 				description: "Remove documentation URLs or file paths",
 			},
+			acceptanceCriteriaSet: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 1000,
+				},
+				maxItems: 50,
+				description: "Replace all acceptance criteria (items start unchecked)",
+			},
+			acceptanceCriteriaAdd: {
+				type: "array",
+				items: {
+					type: "string",
+					maxLength: 1000,
+				},
+				maxItems: 50,
+				description: "Append acceptance criteria items",
+			},
+			acceptanceCriteriaRemove: {
+				type: "array",
+				items: {
+					type: "number",
+					minimum: 1,
+				},
+				description: "Remove acceptance criteria by their #index",
+			},
+			acceptanceCriteriaCheck: {
+				type: "array",
+				items: {
+					type: "number",
+					minimum: 1,
+				},
+				description: "Mark acceptance criteria as done by their #index",
+			},
+			acceptanceCriteriaUncheck: {
+				type: "array",
+				items: {
+					type: "number",
+					minimum: 1,
+				},
+				description: "Mark acceptance criteria as not done by their #index",
+			},
 			finalSummary: {
 				type: "string",
 				maxLength: 20000,
@@ -234,6 +315,11 @@ export function generateTaskEditSchema(config: BacklogConfig): JsonSchema {
 			planClear: {
 				type: "boolean",
 			},
+			expectedVersion: {
+				type: "string",
+				maxLength: 64,
+				description: "Version shown by task_view; the edit is rejected if the task changed since",
+			},
 		},
 		required: ["id"],
 		additionalProperties: false,
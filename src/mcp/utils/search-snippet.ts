@@ -0,0 +1,20 @@
+import type { SearchMatch } from "../../types/index.ts";
+
+/**
+ * Formats the body excerpt of a search result on one line with matched words in **bold**,
+ * or returns null when the result has no excerpt.
+ */
+export function formatSearchSnippet(matches?: SearchMatch[]): string | null {
+	const snippet = matches?.find((match) => match.key === "snippet");
+	if (!snippet || typeof snippet.value !== "string") {
+		return null;
+	}
+	let text = "";
+	let position = 0;
+	for (const [start, end] of snippet.indices) {
+		text += `${snippet.value.slice(position, start)}**${snippet.value.slice(start, end + 1)}**`;
+		position = end + 1;
+	}
+	text += snippet.value.slice(position);
+	return text.replace(/\s+/g, " ").trim();
+}
@@ -1,5 +1,5 @@
 import { formatTaskPlainText } from "../../formatters/task-plain-text.ts";
-import type { Task } from "../../types/index.ts";
+import type { SimilarTask, Task } from "../../types/index.ts";
 import type { CallToolResult } from "../types.ts";
 
 export async function formatTaskCallResult(
@@ -20,3 +20,14 @@ export async function formatTaskCallResult(
 		],
 	};
 }
+
+export const formatSimilarTasks = (similar: SimilarTask[]) =>
+	similar.map(
+		({ task, score }) => `  ${task.id} - ${task.title} (${Math.round(score * 100)}% similar, ${task.status})`,
+	);
+
+export const formatDuplicateWarning = (possibleDuplicates: SimilarTask[]) =>
+	[
+		"Warning: this task may duplicate open tasks. Check them and archive this one if so:",
+		...formatSimilarTasks(possibleDuplicates),
+	].join("\n");
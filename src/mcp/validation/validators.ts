@@ -202,6 +202,14 @@ function validateField(
 			return { isValid: true, errors: [], sanitizedValue: boolValue };
 		}
 
+		case "object": {
+			if (typeof value !== "object" || Array.isArray(value)) {
+				errors.push(`Field '${fieldName}' must be an object`);
+				break;
+			}
+			return { isValid: true, errors: [], sanitizedValue: value };
+		}
+
 		default: {
 			errors.push(`Unknown schema type '${schema.type}' for field '${fieldName}'`);
 		}
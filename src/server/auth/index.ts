@@ -4,7 +4,20 @@ export { type JwtPayload, signJwt, verifyJwt } from "./jwt";
 export {
 	authenticateRequest,
 	extractBearerToken,
+	forbiddenResponse,
 	isPublicRoute,
 	isWriteMethod,
+	type RoutePermission,
+	requiredRoutePermission,
 } from "./middleware";
+export {
+	hasPermission,
+	isAssignedTo,
+	PERMISSIONS,
+	type Permission,
+	ROLE_PERMISSIONS,
+	ROLES,
+	type Role,
+	resolvePermissions,
+} from "./permissions";
 export { type AuthUser, UsersStore } from "./users-store";
@@ -11,6 +11,8 @@ export interface JwtPayload {
 	email: string;
 	name: string;
 	role: string;
+	/** Effective permissions at sign-in; tokens without them fall back to the role's. */
+	permissions?: string[];
 	iat: number;
 	exp: number;
 }
@@ -41,13 +43,13 @@ function hmacSign(message: string, secret: string): string {
 /**
  * Creates a signed JWT token with HS256.
  *
- * @param payload - The claims to include (email, name, role)
+ * @param payload - The claims to include (email, name, role and optionally permissions)
  * @param secret - The HMAC secret key
  * @param expiresInSeconds - Token lifetime in seconds from now
  * @returns A signed JWT string (header.payload.signature)
  */
 export function signJwt(
-	payload: { email: string; name: string; role: string },
+	payload: { email: string; name: string; role: string; permissions?: string[] },
 	secret: string,
 	expiresInSeconds: number,
 ): string {
@@ -56,6 +58,7 @@ export function signJwt(
 		email: payload.email,
 		name: payload.name,
 		role: payload.role,
+		...(payload.permissions && { permissions: payload.permissions }),
 		iat: now,
 		exp: now + expiresInSeconds,
 	};
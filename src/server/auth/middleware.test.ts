@@ -1,6 +1,13 @@
 import { describe, expect, it } from "bun:test";
 import { signJwt } from "./jwt.ts";
-import { authenticateRequest, extractBearerToken, isPublicRoute, isWriteMethod } from "./middleware.ts";
+import {
+	authenticateRequest,
+	authenticateWebSocket,
+	extractBearerToken,
+	isPublicRoute,
+	isWriteMethod,
+	requiredRoutePermission,
+} from "./middleware.ts";
 
 const TEST_SECRET = "test-secret-key-for-middleware-tests";
 
@@ -132,3 +139,104 @@ describe("authenticateRequest", () => {
 		expect(result.payload?.role).toBe("viewer");
 	});
 });
+
+describe("requiredRoutePermission", () => {
+	it("requires read for GET requests", () => {
+		expect(requiredRoutePermission("GET", "/api/config")).toEqual({ permission: "read" });
+	});
+
+	it("requires config:write to read the webhook delivery log", () => {
+		expect(requiredRoutePermission("GET", "/api/webhooks/deliveries")).toEqual({ permission: "config:write" });
+	});
+
+	it("maps writes to the permission of the area they change", () => {
+		expect(requiredRoutePermission("PUT", "/api/config")).toEqual({ permission: "config:write" });
+		expect(requiredRoutePermission("POST", "/api/milestones/m-1/archive")).toEqual({ permission: "milestones:write" });
+		expect(requiredRoutePermission("PUT", "/api/docs/doc-1")).toEqual({ permission: "docs:write" });
+		expect(requiredRoutePermission("POST", "/api/tasks")).toEqual({ permission: "tasks:write" });
+		expect(requiredRoutePermission("POST", "/api/tasks/reorder")).toEqual({ permission: "tasks:write" });
+		expect(requiredRoutePermission("POST", "/api/tasks/bulk")).toEqual({ permission: "tasks:write" });
+		expect(requiredRoutePermission("DELETE", "/api/tasks/task-1")).toEqual({ permission: "tasks:write" });
+		expect(requiredRoutePermission("PUT", "/api/views/view-1")).toEqual({ permission: "tasks:write" });
+		expect(requiredRoutePermission("POST", "/api/templates/template-1/tasks")).toEqual({ permission: "tasks:write" });
+	});
+
+	it("scopes single-task writes to the task", () => {
+		expect(requiredRoutePermission("PUT", "/api/tasks/task-1")).toEqual({
+			permission: "tasks:write-assigned",
+			taskId: "task-1",
+		});
+		expect(requiredRoutePermission("POST", "/api/tasks/task-1/comments")).toEqual({
+			permission: "tasks:write-assigned",
+			taskId: "task-1",
+		});
+	});
+
+	it("lets agents claim their next task without naming one", () => {
+		expect(requiredRoutePermission("POST", "/api/tasks/next")).toEqual({ permission: "tasks:write-assigned" });
+	});
+
+	it("treats unclassified writes as configuration", () => {
+		expect(requiredRoutePermission("POST", "/api/something-new")).toEqual({ permission: "config:write" });
+	});
+});
+
+describe("authenticateRequest permissions", () => {
+	function request(method: string, path: string, role: string): Request {
+		const token = signJwt({ email: `${role}@test.com`, name: role, role }, TEST_SECRET, 3600);
+		return new Request(`http://localhost${path}`, { method, headers: { Authorization: `Bearer ${token}` } });
+	}
+
+	it("names the missing permission in the 403 body", async () => {
+		const result = authenticateRequest(request("PUT", "/api/config", "contributor"), true, TEST_SECRET);
+
+		expect(result.errorResponse?.status).toBe(403);
+		const body = (await result.errorResponse?.json()) as { error: string; message: string; missingPermission: string };
+		expect(body.error).toBe("Forbidden");
+		expect(body.missingPermission).toBe("config:write");
+		expect(body.message).toBe('Missing permission "config:write"');
+	});
+
+	it("lets contributors write any task", () => {
+		const result = authenticateRequest(request("PUT", "/api/tasks/task-1", "contributor"), true, TEST_SECRET);
+
+		expect(result.errorResponse).toBeNull();
+		expect(result.assignedTaskId).toBeUndefined();
+	});
+
+	it("asks the caller to check the assignment for agents writing a task", () => {
+		const result = authenticateRequest(request("PUT", "/api/tasks/task-1", "agent"), true, TEST_SECRET);
+
+		expect(result.errorResponse).toBeNull();
+		expect(result.assignedTaskId).toBe("task-1");
+	});
+
+	it("forbids agents from creating tasks", () => {
+		const result = authenticateRequest(request("POST", "/api/tasks", "agent"), true, TEST_SECRET);
+
+		expect(result.errorResponse?.status).toBe(403);
+	});
+});
+
+describe("authenticateWebSocket", () => {
+	const token = signJwt({ email: "viewer@test.com", name: "Viewer", role: "viewer" }, TEST_SECRET, 3600);
+
+	it("rejects upgrades without a valid token when auth is enabled", () => {
+		expect(authenticateWebSocket(new Request("http://localhost/"), true, TEST_SECRET).errorResponse?.status).toBe(401);
+		const forged = new Request("http://localhost/?token=invalid.token.here");
+		expect(authenticateWebSocket(forged, true, TEST_SECRET).errorResponse?.status).toBe(401);
+	});
+
+	it("accepts a token from the query or the Authorization header", () => {
+		const fromQuery = authenticateWebSocket(new Request(`http://localhost/?since=4&token=${token}`), true, TEST_SECRET);
+		expect(fromQuery.errorResponse).toBeNull();
+		expect(fromQuery.payload?.email).toBe("viewer@test.com");
+
+		const fromHeader = new Request("http://localhost/", { headers: { Authorization: `Bearer ${token}` } });
+		expect(authenticateWebSocket(fromHeader, true, TEST_SECRET).errorResponse).toBeNull();
+	});
+
+	it("skips auth when authEnabled is false", () => {
+		expect(authenticateWebSocket(new Request("http://localhost/"), false, TEST_SECRET).errorResponse).toBeNull();
+	});
+});
@@ -2,16 +2,33 @@
  * Authentication middleware helpers for the llm-backlog HTTP server.
  *
  * Provides request-level auth checks: bearer-token extraction, route
- * classification (public vs protected), write-method detection, and a
- * single `authenticateRequest` entry-point that composes all of the above.
+ * classification (public vs protected), write-method detection, the
+ * permission each route requires, and a single `authenticateRequest`
+ * entry-point that composes all of the above.
  */
 
 import { type JwtPayload, verifyJwt } from "./jwt";
+import { hasPermission, missingPermissionMessage, type Permission, resolvePermissions } from "./permissions";
 
 const PUBLIC_ROUTES = new Set(["/api/auth/status", "/api/auth/google"]);
 
 const WRITE_METHODS = new Set(["POST", "PUT", "DELETE"]);
 
+/** Writes to a single task that an agent may perform on tasks assigned to it. */
+const TASK_SCOPED_WRITE = /^\/api\/tasks\/([^/]+)(?:\/(?:complete|comments|time-entries|assets(?:\/[^/]+)?))?$/;
+
+/** Task endpoints an agent may call without naming a task; they only pick unassigned tasks or the caller's own. */
+const ASSIGNED_TASK_COLLECTION_WRITES = new Set(["/api/tasks/next"]);
+
+/** Task collection endpoints that the task-scoped pattern would otherwise mistake for a task id. */
+const TASK_COLLECTION_SEGMENTS = new Set(["reorder", "cleanup", "bulk"]);
+
+export interface RoutePermission {
+	permission: Permission;
+	/** The task the route writes to, when it targets a single task. */
+	taskId?: string;
+}
+
 /**
  * Extracts a bearer token from an Authorization header value.
  *
@@ -48,25 +65,100 @@ export function isWriteMethod(method: string): boolean {
 	return WRITE_METHODS.has(method.toUpperCase());
 }
 
+function matchesPrefix(pathname: string, prefix: string): boolean {
+	return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Determines the permission a request needs. Reads only need "read", except
+ * the webhook delivery log, whose target URLs may embed credentials; writes
+ * need the permission of the area they change, and anything unclassified is
+ * treated as configuration.
+ *
+ * @param method - The HTTP method (e.g. "PUT").
+ * @param pathname - The URL pathname.
+ * @returns The required permission, plus the task id for single-task writes.
+ */
+export function requiredRoutePermission(method: string, pathname: string): RoutePermission {
+	if (matchesPrefix(pathname, "/api/webhooks")) {
+		return { permission: "config:write" };
+	}
+	if (!isWriteMethod(method)) {
+		return { permission: "read" };
+	}
+	if (matchesPrefix(pathname, "/api/config") || matchesPrefix(pathname, "/api/init")) {
+		return { permission: "config:write" };
+	}
+	if (matchesPrefix(pathname, "/api/milestones")) {
+		return { permission: "milestones:write" };
+	}
+	if (matchesPrefix(pathname, "/api/docs") || matchesPrefix(pathname, "/api/decisions")) {
+		return { permission: "docs:write" };
+	}
+	if (ASSIGNED_TASK_COLLECTION_WRITES.has(pathname)) {
+		return { permission: "tasks:write-assigned" };
+	}
+	const taskId = pathname.match(TASK_SCOPED_WRITE)?.[1];
+	const isArchive = method.toUpperCase() === "DELETE" && pathname === `/api/tasks/${taskId}`;
+	if (taskId && !TASK_COLLECTION_SEGMENTS.has(taskId) && !isArchive) {
+		return { permission: "tasks:write-assigned", taskId: decodeURIComponent(taskId) };
+	}
+	if (
+		matchesPrefix(pathname, "/api/tasks") ||
+		matchesPrefix(pathname, "/api/drafts") ||
+		matchesPrefix(pathname, "/api/sequences") ||
+		matchesPrefix(pathname, "/api/views") ||
+		matchesPrefix(pathname, "/api/templates")
+	) {
+		return { permission: "tasks:write" };
+	}
+	return { permission: "config:write" };
+}
+
+/**
+ * Builds the 403 response for a request lacking a permission.
+ *
+ * @param permission - The missing permission, named in the response body.
+ * @returns A JSON Forbidden response.
+ */
+export function forbiddenResponse(permission: Permission): Response {
+	return new Response(
+		JSON.stringify({
+			error: "Forbidden",
+			message: missingPermissionMessage(permission),
+			missingPermission: permission,
+		}),
+		{
+			status: 403,
+			headers: { "Content-Type": "application/json" },
+		},
+	);
+}
+
 /**
  * Authenticates an incoming request against the JWT-based auth layer.
  *
  * When auth is disabled or the route is public the function short-circuits,
  * returning a null payload and no error. For protected routes it validates
- * the bearer token, checks the JWT signature/expiry, and enforces role-based
- * write restrictions (viewers may not issue mutating requests).
+ * the bearer token, checks the JWT signature/expiry, and enforces the
+ * permission the route requires (see requiredRoutePermission).
+ *
+ * Users who may only write tasks assigned to them are let through on
+ * single-task writes with `assignedTaskId` set: checking the assignment needs
+ * the task store, so the caller must do it before handling the request.
  *
  * @param req - The incoming Request object.
  * @param authEnabled - Feature flag controlling whether auth is enforced.
  * @param jwtSecret - The HMAC secret used to verify JWT signatures.
- * @returns An object with the decoded payload (if authenticated) and an
- *          optional error Response that the caller should return immediately.
+ * @returns An object with the decoded payload (if authenticated), an
+ *          optional error Response that the caller should return immediately,
+ *          and the task the caller must be assigned to, if any.
  */
 export function authenticateRequest(
 	req: Request,
 	authEnabled: boolean,
 	jwtSecret: string,
-): { payload: JwtPayload | null; errorResponse: Response | null } {
+): { payload: JwtPayload | null; errorResponse: Response | null; assignedTaskId?: string } {
 	const url = new URL(req.url);
 
 	if (!authEnabled || isPublicRoute(url.pathname)) {
@@ -97,15 +189,53 @@ export function authenticateRequest(
 		};
 	}
 
-	if (payload.role === "viewer" && isWriteMethod(req.method)) {
+	const granted = resolvePermissions(payload.role, payload.permissions);
+	const required = requiredRoutePermission(req.method, url.pathname);
+
+	if (!hasPermission(granted, required.permission)) {
+		return { payload, errorResponse: forbiddenResponse(required.permission) };
+	}
+
+	if (required.taskId && !hasPermission(granted, "tasks:write")) {
+		return { payload, errorResponse: null, assignedTaskId: required.taskId };
+	}
+
+	return { payload, errorResponse: null };
+}
+
+/**
+ * Authenticates a WebSocket upgrade. Browsers cannot set headers on a WebSocket, so the JWT may
+ * also come from the `token` query parameter. The socket streams whole tasks, documents and
+ * decisions, so it needs the "read" permission.
+ *
+ * @param req - The upgrade Request.
+ * @param authEnabled - Feature flag controlling whether auth is enforced.
+ * @param jwtSecret - The HMAC secret used to verify JWT signatures.
+ * @returns The decoded payload, or an error Response the caller should return instead of upgrading.
+ */
+export function authenticateWebSocket(
+	req: Request,
+	authEnabled: boolean,
+	jwtSecret: string,
+): { payload: JwtPayload | null; errorResponse: Response | null } {
+	if (!authEnabled) {
+		return { payload: null, errorResponse: null };
+	}
+
+	const token = extractBearerToken(req.headers.get("Authorization")) ?? new URL(req.url).searchParams.get("token");
+	const payload = token ? verifyJwt(token, jwtSecret) : null;
+	if (payload === null) {
 		return {
-			payload,
-			errorResponse: new Response(JSON.stringify({ error: "Forbidden" }), {
-				status: 403,
+			payload: null,
+			errorResponse: new Response(JSON.stringify({ error: "Unauthorized" }), {
+				status: 401,
 				headers: { "Content-Type": "application/json" },
 			}),
 		};
 	}
 
+	if (!hasPermission(resolvePermissions(payload.role, payload.permissions), "read")) {
+		return { payload, errorResponse: forbiddenResponse("read") };
+	}
 	return { payload, errorResponse: null };
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { hasPermission, isAssignedTo, parseRole, resolvePermissions } from "./permissions.ts";
+
+describe("parseRole", () => {
+	it("accepts known roles case-insensitively", () => {
+		expect(parseRole("Contributor")).toBe("contributor");
+		expect(parseRole("agent")).toBe("agent");
+	});
+
+	it("falls back to viewer for unknown or missing roles", () => {
+		expect(parseRole("editor")).toBe("viewer");
+		expect(parseRole(undefined)).toBe("viewer");
+	});
+});
+
+describe("resolvePermissions", () => {
+	it("returns the role's permissions", () => {
+		expect(resolvePermissions("viewer")).toEqual(["read"]);
+		expect(resolvePermissions("contributor")).toEqual(["read", "tasks:write", "docs:write"]);
+		expect(resolvePermissions("agent")).toEqual(["read", "tasks:write-assigned"]);
+	});
+
+	it("adds known extra permissions and ignores unknown ones", () => {
+		expect(resolvePermissions("contributor", ["milestones:write", "deploy"])).toEqual([
+			"read",
+			"tasks:write",
+			"docs:write",
+			"milestones:write",
+		]);
+	});
+});
+
+describe("hasPermission", () => {
+	it("treats tasks:write as covering assigned tasks", () => {
+		expect(hasPermission(["read", "tasks:write"], "tasks:write-assigned")).toBe(true);
+		expect(hasPermission(["read", "tasks:write-assigned"], "tasks:write")).toBe(false);
+	});
+});
+
+describe("isAssignedTo", () => {
+	const user = { name: "Agent Bot", email: "agent-bot@example.com" };
+
+	it("matches assignees by name, email or email local part", () => {
+		expect(isAssignedTo({ assignee: ["Agent Bot"] }, user)).toBe(true);
+		expect(isAssignedTo({ assignee: ["AGENT-BOT@example.com"] }, user)).toBe(true);
+		expect(isAssignedTo({ assignee: ["@agent-bot"] }, user)).toBe(true);
+	});
+
+	it("rejects tasks assigned to someone else or to nobody", () => {
+		expect(isAssignedTo({ assignee: ["@alice"] }, user)).toBe(false);
+		expect(isAssignedTo({ assignee: [] }, user)).toBe(false);
+	});
+});
@@ -0,0 +1,119 @@
+/**
+ * Permission model shared by the REST middleware and the MCP tool filter.
+ *
+ * Every user has a role from users.md, which grants a fixed set of
+ * permissions, optionally extended with a per-user `permissions` list.
+ */
+
+import type { Task } from "../../types/index.ts";
+
+export const PERMISSIONS = [
+	"read",
+	"tasks:write",
+	"tasks:write-assigned",
+	"docs:write",
+	"milestones:write",
+	"config:write",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = ["admin", "contributor", "agent", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Permissions granted by each role:
+ * - admin: everything
+ * - contributor: create and edit tasks, drafts, documents and decisions
+ * - agent: read everything, but only write tasks assigned to it
+ * - viewer: read-only
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+	admin: PERMISSIONS,
+	contributor: ["read", "tasks:write", "docs:write"],
+	agent: ["read", "tasks:write-assigned"],
+	viewer: ["read"],
+};
+
+/**
+ * Parses a role from users.md. Unknown or missing roles fall back to "viewer".
+ *
+ * @param value - The raw role value.
+ * @returns A known role.
+ */
+export function parseRole(value: unknown): Role {
+	const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+	return (ROLES as readonly string[]).includes(normalized) ? (normalized as Role) : "viewer";
+}
+
+/**
+ * Parses a list of permission names, dropping anything that is not a known permission.
+ *
+ * @param value - The raw list (e.g. from users.md or a JWT).
+ * @returns The valid permissions, without duplicates.
+ */
+export function parsePermissions(value: unknown): Permission[] {
+	if (!Array.isArray(value)) return [];
+	const known = new Set<Permission>();
+	for (const entry of value) {
+		const normalized = typeof entry === "string" ? entry.trim().toLowerCase() : "";
+		if ((PERMISSIONS as readonly string[]).includes(normalized)) known.add(normalized as Permission);
+	}
+	return [...known];
+}
+
+/**
+ * Resolves the effective permissions of a user: the role's permissions plus
+ * any extra ones granted explicitly.
+ *
+ * @param role - The user's role (unknown roles resolve as "viewer").
+ * @param extra - Additional permissions granted to this user.
+ * @returns The effective permissions, in canonical order.
+ */
+export function resolvePermissions(role: unknown, extra: unknown = []): Permission[] {
+	const granted = new Set<Permission>([...ROLE_PERMISSIONS[parseRole(role)], ...parsePermissions(extra)]);
+	return PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+/**
+ * Checks whether a set of permissions includes `required`. Writing any task
+ * implies writing the tasks assigned to you.
+ *
+ * @param granted - The user's effective permissions.
+ * @param required - The permission the operation needs.
+ * @returns True if the operation is allowed.
+ */
+export function hasPermission(granted: readonly Permission[], required: Permission): boolean {
+	if (granted.includes(required)) return true;
+	return required === "tasks:write-assigned" && granted.includes("tasks:write");
+}
+
+/**
+ * Builds the message returned when a user lacks a permission.
+ *
+ * @param permission - The missing permission.
+ * @returns A human-readable explanation naming the permission.
+ */
+export function missingPermissionMessage(permission: Permission): string {
+	return `Missing permission "${permission}"`;
+}
+
+function normalizeIdentity(value: string): string {
+	return value.trim().replace(/^@/, "").toLowerCase();
+}
+
+/**
+ * Checks whether a task is assigned to a user. Assignees match the user's
+ * name, email, or email local part, ignoring case and a leading "@".
+ *
+ * @param task - The task to check.
+ * @param user - The user's name and email.
+ * @returns True if one of the task's assignees is the user.
+ */
+export function isAssignedTo(task: Pick<Task, "assignee">, user: { name: string; email: string }): boolean {
+	const identities = new Set(
+		[user.name, user.email, user.email.split("@")[0] ?? ""].map(normalizeIdentity).filter((id) => id.length > 0),
+	);
+	return task.assignee.some((assignee) => identities.has(normalizeIdentity(assignee)));
+}
@@ -54,6 +54,38 @@ describe("UsersStore", () => {
 		expect(viewer?.role).toBe("viewer");
 	});
 
+	it("resolves permissions from the role plus explicit grants", async () => {
+		const filePath = join(testDir, "users.md");
+		await Bun.write(
+			filePath,
+			[
+				"---",
+				"users:",
+				"  - email: dev@example.com",
+				"    name: Dev",
+				"    role: contributor",
+				"    permissions:",
+				"      - milestones:write",
+				"  - email: bot@example.com",
+				"    name: Bot",
+				"    role: agent",
+				"    skills: [backend, ' docs ']",
+				"---",
+			].join("\n"),
+		);
+
+		const store = new UsersStore(filePath);
+		await store.load();
+
+		const dev = store.findByEmail("dev@example.com");
+		expect(dev?.role).toBe("contributor");
+		expect(dev?.permissions).toEqual(["read", "tasks:write", "docs:write", "milestones:write"]);
+		expect(dev?.skills).toBeUndefined();
+		const bot = store.findByEmail("bot@example.com");
+		expect(bot?.permissions).toEqual(["read", "tasks:write-assigned"]);
+		expect(bot?.skills).toEqual(["backend", "docs"]);
+	});
+
 	it("returns null for an unknown email", async () => {
 		const filePath = join(testDir, "users.md");
 		await Bun.write(
@@ -1,10 +1,15 @@
 import matter from "gray-matter";
+import { type Permission, parseRole, type Role, resolvePermissions } from "./permissions";
 
 export interface AuthUser {
 	email: string;
 	name: string;
-	role: "admin" | "viewer";
+	role: Role;
+	/** Effective permissions: the role's permissions plus any granted explicitly. */
+	permissions: Permission[];
 	apiKey?: string;
+	/** Labels of the tasks this user (typically an agent) is suited for; `task_next` prefers them. */
+	skills?: string[];
 }
 
 /**
@@ -28,7 +33,9 @@ export class UsersStore {
 	 * remains empty without error.
 	 *
 	 * Each user entry must have at least an email and name (strings).
-	 * If the role is not "admin", it defaults to "viewer".
+	 * Unknown or missing roles default to "viewer". An optional `permissions`
+	 * list grants extra permissions on top of the role's, and an optional `skills`
+	 * list names the task labels the user is suited for.
 	 */
 	async load(): Promise<void> {
 		this.users.clear();
@@ -58,11 +65,22 @@ export class UsersStore {
 				continue;
 			}
 
-			const role: "admin" | "viewer" =
-				typeof entry.role === "string" && entry.role.toLowerCase() === "admin" ? "admin" : "viewer";
+			const role = parseRole(entry.role);
+			const permissions = resolvePermissions(role, entry.permissions);
 			const apiKey = typeof entry.apiKey === "string" ? entry.apiKey.trim() : "";
 
-			const user: AuthUser = { email, name, role, ...(apiKey.length > 0 ? { apiKey } : {}) };
+			const skills = Array.isArray(entry.skills)
+				? entry.skills.map((skill: unknown) => String(skill).trim()).filter((skill: string) => skill.length > 0)
+				: [];
+
+			const user: AuthUser = {
+				email,
+				name,
+				role,
+				permissions,
+				...(apiKey.length > 0 ? { apiKey } : {}),
+				...(skills.length > 0 ? { skills } : {}),
+			};
 			this.users.set(email.toLowerCase(), user);
 			if (apiKey.length > 0) {
 				this.apiKeys.set(apiKey, user);
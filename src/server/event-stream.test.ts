@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import type { ContentSnapshot } from "../core/content-store.ts";
+import { makeTask } from "../test/fixtures.ts";
+import type { BacklogEvent, Task } from "../types/index.ts";
+import { changedFields, EventStream } from "./event-stream.ts";
+
+function snapshot(tasks: Task[]): ContentSnapshot {
+	return { tasks, documents: [], decisions: [] };
+}
+
+describe("changedFields", () => {
+	it("lists top-level keys that differ, including added and removed ones", () => {
+		expect(changedFields(makeTask({ labels: ["a"] }), makeTask({ labels: ["b"], priority: "high" }))).toEqual([
+			"labels",
+			"priority",
+		]);
+	});
+});
+
+describe("EventStream", () => {
+	it("derives task events from consecutive snapshots", async () => {
+		const stream = new EventStream({ deleteGraceMs: 1 });
+		const received: BacklogEvent[] = [];
+		stream.subscribe((event) => received.push(event));
+
+		stream.ingest({ type: "ready", snapshot: snapshot([makeTask()]), version: 1 });
+		const tasks = [makeTask({ status: "Done" }), makeTask({ id: "TASK-2" })];
+		stream.ingest({ type: "tasks", tasks, snapshot: snapshot(tasks), version: 2 });
+		stream.ingest({ type: "tasks", tasks: [], snapshot: snapshot([]), version: 3 });
+		await Bun.sleep(10);
+
+		expect(received.map((event) => [event.seq, event.type])).toEqual([
+			[1, "task.updated"],
+			[2, "task.created"],
+			[3, "task.deleted"],
+			[4, "task.deleted"],
+		]);
+		const [updated] = received;
+		expect(updated?.type === "task.updated" && updated.fields).toEqual(["status"]);
+	});
+
+	it("does not miss changes made by mutating snapshot objects in place", () => {
+		const stream = new EventStream();
+		const task = makeTask();
+		stream.ingest({ type: "ready", snapshot: snapshot([task]), version: 1 });
+		task.status = "Done";
+		stream.ingest({ type: "tasks", tasks: [task], snapshot: snapshot([task]), version: 2 });
+		expect(stream.since(0)?.map((event) => event.type)).toEqual(["task.updated"]);
+	});
+
+	it("reports a task that briefly disappears during a rename as updated", async () => {
+		const stream = new EventStream({ deleteGraceMs: 5 });
+		stream.ingest({ type: "ready", snapshot: snapshot([makeTask()]), version: 1 });
+		stream.ingest({ type: "tasks", tasks: [], snapshot: snapshot([]), version: 2 });
+		const renamed = [makeTask({ title: "Renamed" })];
+		stream.ingest({ type: "tasks", tasks: renamed, snapshot: snapshot(renamed), version: 3 });
+		await Bun.sleep(15);
+
+		expect(stream.since(0)?.map((event) => event.type)).toEqual(["task.updated"]);
+	});
+
+	it("publishes resync when the store reloads after the initial ready", () => {
+		const stream = new EventStream();
+		stream.ingest({ type: "ready", snapshot: snapshot([]), version: 1 });
+		expect(stream.lastSeq).toBe(0);
+		stream.ingest({ type: "ready", snapshot: snapshot([]), version: 2 });
+		expect(stream.since(0)?.map((event) => event.type)).toEqual(["resync"]);
+	});
+
+	it("replays buffered events and asks for a resync once they are evicted", () => {
+		const stream = new EventStream({ bufferSize: 2 });
+		stream.publish({ type: "config.updated" });
+		stream.publish({ type: "milestones.updated" });
+		stream.publish({ type: "config.updated" });
+
+		expect(stream.replay(1).map((event) => event.seq)).toEqual([2, 3]);
+		expect(stream.replay(3)).toEqual([]);
+		const [resync] = stream.replay(0);
+		expect(resync?.type).toBe("resync");
+		expect(resync?.seq).toBe(3);
+		// A sequence from a previous server run is ahead of this one
+		expect(stream.replay(99)[0]?.type).toBe("resync");
+	});
+});
@@ -0,0 +1,219 @@
+import type { ContentStoreEvent } from "../core/content-store.ts";
+import type { BacklogEvent, Decision, Document, Task } from "../types/index.ts";
+
+/** Distributes the `Omit` over the union so each event variant keeps its own fields. */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type BacklogEventInput = DistributiveOmit<BacklogEvent, "seq" | "timestamp">;
+
+export type BacklogEventListener = (event: BacklogEvent) => void;
+
+export interface EventStreamOptions {
+	/** How many events to keep for resuming clients. */
+	bufferSize?: number;
+	/** How long an entity must stay missing from the store before it is reported deleted. */
+	deleteGraceMs?: number;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+const DEFAULT_DELETE_GRACE_MS = 500;
+
+type Entity = Task | Document | Decision;
+
+interface EntityHandlers<T extends Entity> {
+	created: (id: string, item: T) => void;
+	updated: (id: string, item: T, fields: string[]) => void;
+	deleted: (id: string) => void;
+}
+
+/** Last known version of each entity, plus the ids present in the latest snapshot. */
+interface EntityState<T extends Entity> {
+	known: Map<string, T>;
+	present: Set<string>;
+}
+
+/** Loader bookkeeping that changes when a file is re-read, not when its content changes. */
+const IGNORED_FIELDS = new Set(["filePath", "lastModified", "source", "version"]);
+
+/**
+ * Returns the top-level keys whose values differ between two versions of an entity.
+ */
+export function changedFields(before: object, after: object): string[] {
+	const previous = before as Record<string, unknown>;
+	const next = after as Record<string, unknown>;
+	const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+	return [...keys]
+		.filter((key) => !IGNORED_FIELDS.has(key) && JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+		.sort();
+}
+
+function indexById<T extends Entity>(items: T[]): Map<string, T> {
+	// Clone: store snapshots share objects that callers mutate in place
+	return new Map(items.map((item) => [item.id, structuredClone(item)]));
+}
+
+function seed<T extends Entity>(items: T[]): EntityState<T> {
+	const known = indexById(items);
+	return { known, present: new Set(known.keys()) };
+}
+
+/**
+ * Sequenced stream of typed change events for web and dashboard clients.
+ *
+ * Content events are derived by diffing consecutive ContentStore snapshots, so
+ * every write path (REST, MCP, file watchers) is covered. The most recent
+ * events are buffered so reconnecting clients can resume from the last
+ * sequence number they saw instead of refetching everything.
+ *
+ * @author waabox(waabox[at]gmail[dot]com)
+ */
+export class EventStream {
+	private readonly buffer: BacklogEvent[] = [];
+	private readonly listeners = new Set<BacklogEventListener>();
+	private readonly pendingDeletes = new Map<string, ReturnType<typeof setTimeout>>();
+	private readonly bufferSize: number;
+	private readonly deleteGraceMs: number;
+	private seq = 0;
+	private tasks: EntityState<Task> | null = null;
+	private documents: EntityState<Document> | null = null;
+	private decisions: EntityState<Decision> | null = null;
+
+	constructor(options: EventStreamOptions = {}) {
+		this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+		this.deleteGraceMs = options.deleteGraceMs ?? DEFAULT_DELETE_GRACE_MS;
+	}
+
+	/** Sequence number of the most recent event (0 before anything was published). */
+	get lastSeq(): number {
+		return this.seq;
+	}
+
+	/**
+	 * Registers a listener for every event published from now on.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	subscribe(listener: BacklogEventListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Assigns the next sequence number to an event, buffers it and notifies listeners.
+	 */
+	publish(input: BacklogEventInput): BacklogEvent {
+		this.seq += 1;
+		const event = { ...input, seq: this.seq, timestamp: new Date().toISOString() } as BacklogEvent;
+		this.buffer.push(event);
+		if (this.buffer.length > this.bufferSize) {
+			this.buffer.splice(0, this.buffer.length - this.bufferSize);
+		}
+		for (const listener of [...this.listeners]) {
+			try {
+				listener(event);
+			} catch {}
+		}
+		return event;
+	}
+
+	/**
+	 * Returns the buffered events published after `seq`, or null when some of
+	 * them have already been evicted (or `seq` is from a previous server run)
+	 * and the client has to resync.
+	 */
+	since(seq: number): BacklogEvent[] | null {
+		if (seq > this.seq) return null;
+		if (seq === this.seq) return [];
+		const oldest = this.buffer[0];
+		if (!oldest || oldest.seq > seq + 1) return null;
+		return this.buffer.filter((event) => event.seq > seq);
+	}
+
+	/**
+	 * Events for a client resuming after `seq`: the ones it missed, or a single
+	 * `resync` when they are no longer buffered.
+	 */
+	replay(seq: number): BacklogEvent[] {
+		const missed = this.since(seq);
+		if (missed) return missed;
+		return [{ type: "resync", seq: this.seq, timestamp: new Date().toISOString() }];
+	}
+
+	/**
+	 * Translates a ContentStore notification into created/updated/deleted events.
+	 * The first `ready` seeds the baseline silently; later ones mean the store
+	 * reloaded from disk, which clients handle as a resync.
+	 */
+	ingest(event: ContentStoreEvent): void {
+		if (event.type === "ready") {
+			const seeded = this.tasks !== null;
+			this.cancelPendingDeletes();
+			this.tasks = seed(event.snapshot.tasks);
+			this.documents = seed(event.snapshot.documents);
+			this.decisions = seed(event.snapshot.decisions);
+			if (seeded) this.publish({ type: "resync" });
+			return;
+		}
+
+		if (event.type === "tasks" && this.tasks) {
+			this.diff("task", this.tasks, event.tasks, {
+				created: (id, task) => this.publish({ type: "task.created", id, task }),
+				updated: (id, task, fields) => this.publish({ type: "task.updated", id, task, fields }),
+				deleted: (id) => this.publish({ type: "task.deleted", id }),
+			});
+		} else if (event.type === "documents" && this.documents) {
+			this.diff("document", this.documents, event.documents, {
+				created: (id, document) => this.publish({ type: "document.created", id, document }),
+				updated: (id, document, fields) => this.publish({ type: "document.updated", id, document, fields }),
+				deleted: (id) => this.publish({ type: "document.deleted", id }),
+			});
+		} else if (event.type === "decisions" && this.decisions) {
+			this.diff("decision", this.decisions, event.decisions, {
+				created: (id, decision) => this.publish({ type: "decision.created", id, decision }),
+				updated: (id, decision, fields) => this.publish({ type: "decision.updated", id, decision, fields }),
+				deleted: (id) => this.publish({ type: "decision.deleted", id }),
+			});
+		}
+	}
+
+	/** Cancels deferred delete checks; call when the stream is no longer fed. */
+	dispose(): void {
+		this.cancelPendingDeletes();
+	}
+
+	private diff<T extends Entity>(kind: string, state: EntityState<T>, items: T[], emit: EntityHandlers<T>): void {
+		const current = indexById(items);
+		state.present = new Set(current.keys());
+
+		for (const [id, item] of current) {
+			const before = state.known.get(id);
+			state.known.set(id, item);
+			if (!before) {
+				emit.created(id, item);
+				continue;
+			}
+			const fields = changedFields(before, item);
+			if (fields.length > 0) emit.updated(id, item, fields);
+		}
+
+		// Saves that rename a file (e.g. after a title change) make the watcher drop the entity
+		// for a moment, so only report a deletion if it is still missing after a grace period.
+		for (const id of state.known.keys()) {
+			const key = `${kind}:${id}`;
+			if (current.has(id) || this.pendingDeletes.has(key)) continue;
+			const timer = setTimeout(() => {
+				this.pendingDeletes.delete(key);
+				if (state.present.has(id) || !state.known.delete(id)) return;
+				emit.deleted(id);
+			}, this.deleteGraceMs);
+			this.pendingDeletes.set(key, timer);
+		}
+	}
+
+	private cancelPendingDeletes(): void {
+		for (const timer of this.pendingDeletes.values()) clearTimeout(timer);
+		this.pendingDeletes.clear();
+	}
+}
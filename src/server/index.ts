@@ -1,26 +1,36 @@
 import { dirname, join } from "node:path";
 import type { Server, ServerWebSocket } from "bun";
 import { $ } from "bun";
+import { runAsActor } from "../core/actor.ts";
 import { Core } from "../core/backlog.ts";
 import type { ContentStore } from "../core/content-store.ts";
+import { RecurringTaskScheduler } from "../core/recurring-tasks.ts";
+import { WebhookDispatcher } from "../core/webhooks.ts";
 import type { FileSystem } from "../file-system/operations.ts";
 import { StorageCoordinator } from "../file-system/storage-coordinator.ts";
 import { GitOperations } from "../git/operations.ts";
 import { createMcpRequestHandler, type McpRequestHandler } from "../mcp/http-transport.ts";
+import type { BacklogEvent } from "../types/index.ts";
 import { watchConfig } from "../utils/config-watcher.ts";
 // @ts-expect-error
 import favicon from "../web/favicon.png" with { type: "file" };
 import indexHtml from "../web/index.html";
 import { ConfigRepoService } from "./auth/config-repo";
-import { authenticateRequest } from "./auth/middleware";
+import type { JwtPayload } from "./auth/jwt";
+import { authenticateRequest, authenticateWebSocket, forbiddenResponse } from "./auth/middleware";
+import { hasPermission, isAssignedTo, resolvePermissions } from "./auth/permissions";
+import { EventStream } from "./event-stream.ts";
 import { ProjectRepoService } from "./project-repo";
 import { handleDeleteAsset, handleListAssets, handleUploadAsset } from "./routes/assets.ts";
 import { handleGetMe, handleGoogleLogin } from "./routes/auth.ts";
 import {
 	handleGetConfig,
+	handleGetFlowAnalytics,
 	handleGetStatistics,
+	handleGetStatisticsTimeseries,
 	handleGetStatus,
 	handleGetStatuses,
+	handleGetValidation,
 	handleGetVersion,
 	handleUpdateConfig,
 } from "./routes/config.ts";
@@ -32,6 +42,7 @@ import {
 } from "./routes/decisions.ts";
 import { handleCreateDoc, handleGetDoc, handleListDocs, handleUpdateDoc } from "./routes/documents.ts";
 import { handleListDrafts, handlePromoteDraft } from "./routes/drafts.ts";
+import { handleEventStream, parseResumeSeq } from "./routes/events.ts";
 import { handleInit } from "./routes/init.ts";
 import {
 	handleArchiveMilestone,
@@ -40,20 +51,42 @@ import {
 	handleListArchivedMilestones,
 	handleListMilestones,
 	handleSetMilestoneActive,
+	handleSetMilestoneTargetDate,
 } from "./routes/milestones.ts";
 import { handleGetSequences, handleMoveSequence } from "./routes/sequences.ts";
 import {
+	handleAddTaskComment,
+	handleBulkEditTasks,
+	handleClaimNextTask,
 	handleCleanupExecute,
 	handleCleanupPreview,
 	handleCompleteTask,
 	handleCreateTask,
 	handleDeleteTask,
+	handleGetNextTask,
+	handleGetSimilarTasks,
 	handleGetTask,
+	handleGetTaskHistory,
+	handleListLeases,
 	handleListTasks,
+	handleLogTaskTime,
 	handleReorderTask,
 	handleSearch,
 	handleUpdateTask,
 } from "./routes/tasks.ts";
+import { handleCreateTaskFromTemplate, handleListTemplates } from "./routes/templates.ts";
+import {
+	handleCreateView,
+	handleDeleteView,
+	handleGetView,
+	handleListViews,
+	handleRunView,
+	handleUpdateView,
+} from "./routes/views.ts";
+import { handleListWebhookDeliveries } from "./routes/webhooks.ts";
+
+/** Per-connection WebSocket state: the event sequence the client asked to resume after (`/?since=`). */
+type EventSocketData = { since: number | null };
 
 export class BacklogServer {
 	private core: Core;
@@ -64,7 +97,11 @@ export class BacklogServer {
 	private sockets = new Set<ServerWebSocket<unknown>>();
 	private contentStore: ContentStore | null = null;
 	private unsubscribeContentStore?: () => void;
-	private storeReadyBroadcasted = false;
+	private readonly events = new EventStream();
+	private unsubscribeEvents?: () => void;
+	private unsubscribeLeases?: () => void;
+	private webhooks: WebhookDispatcher | null = null;
+	private recurringTasks: RecurringTaskScheduler | null = null;
 	private configWatcher: { stop: () => void } | null = null;
 	private configRepoService: ConfigRepoService | null = null;
 	private projectRepoService: ProjectRepoService | null = null;
@@ -95,38 +132,64 @@ export class BacklogServer {
 	 *
 	 * The returned handler runs authenticateRequest before delegating to the
 	 * original handler. If authentication fails, an error Response is returned
-	 * immediately without ever invoking the inner handler.
+	 * immediately without ever invoking the inner handler. Handlers that need
+	 * the caller's identity receive the decoded JWT payload (null when auth is
+	 * disabled) as their second argument. The handler also runs as that user,
+	 * so the writes it triggers are attributed to them. Users limited to their
+	 * assigned tasks are rejected here when the task they write to is not theirs.
 	 *
 	 * @param handler - The route handler to protect.
 	 * @returns A new handler that checks auth first.
 	 */
-	private protect<T extends Request>(handler: (req: T) => Promise<Response>): (req: T) => Promise<Response> {
+	private protect<T extends Request>(
+		handler: (req: T, user: JwtPayload | null) => Promise<Response>,
+	): (req: T) => Promise<Response> {
 		return async (req: T) => {
-			const { errorResponse } = authenticateRequest(req, this.authEnabled, this.jwtSecret);
+			const { payload, errorResponse, assignedTaskId } = authenticateRequest(req, this.authEnabled, this.jwtSecret);
 			if (errorResponse) return errorResponse;
-			return handler.call(this, req);
+			if (payload && assignedTaskId) {
+				const task = await this.core.getTask(assignedTaskId);
+				// Unknown tasks fall through so the handler can answer 404
+				if (task && !isAssignedTo(task, payload)) return forbiddenResponse("tasks:write");
+			}
+			const actor = payload ? { name: payload.name, email: payload.email } : undefined;
+			return runAsActor(actor, () => handler.call(this, req, payload));
 		};
 	}
 
+	/** Skills declared for a signed-in user in users.md, used to rank task recommendations. */
+	private skillsFor(email: string): string[] | undefined {
+		return this.configRepoService?.findUserByEmail(email)?.skills;
+	}
+
 	private async ensureServicesReady(): Promise<void> {
 		const store = await this.core.getContentStore();
 		this.contentStore = store;
 
+		if (!this.unsubscribeEvents) {
+			this.unsubscribeEvents = this.events.subscribe((event) => {
+				for (const ws of this.sockets) this.sendEvent(ws, event);
+			});
+		}
+
 		if (!this.unsubscribeContentStore) {
-			this.unsubscribeContentStore = store.subscribe((event) => {
-				if (event.type === "ready") {
-					if (!this.storeReadyBroadcasted) {
-						this.storeReadyBroadcasted = true;
-						return;
-					}
-					this.broadcastTasksUpdated();
-					return;
-				}
+			this.unsubscribeContentStore = store.subscribe((event) => this.events.ingest(event));
+		}
 
-				// Broadcast for tasks/documents/decisions so clients refresh caches/search
-				this.storeReadyBroadcasted = true;
-				this.broadcastTasksUpdated();
-			});
+		if (!this.unsubscribeLeases && this.core.filesystem instanceof StorageCoordinator) {
+			this.unsubscribeLeases = this.core.filesystem.onLeasesChanged((leases) =>
+				this.events.publish({ type: "leases.updated", leases }),
+			);
+		}
+
+		if (!this.webhooks) {
+			this.webhooks = new WebhookDispatcher(this.core.filesystem);
+			this.webhooks.start(store);
+		}
+
+		if (!this.recurringTasks) {
+			this.recurringTasks = new RecurringTaskScheduler(this.core);
+			this.recurringTasks.start();
 		}
 
 		await this.core.getSearchService();
@@ -136,20 +199,18 @@ export class BacklogServer {
 		return this.server?.port ?? null;
 	}
 
-	private broadcastTasksUpdated() {
-		for (const ws of this.sockets) {
-			try {
-				ws.send("tasks-updated");
-			} catch {}
-		}
+	private publishConfigUpdated() {
+		this.events.publish({ type: "config.updated" });
 	}
 
-	private broadcastConfigUpdated() {
-		for (const ws of this.sockets) {
-			try {
-				ws.send("config-updated");
-			} catch {}
-		}
+	private publishMilestonesUpdated() {
+		this.events.publish({ type: "milestones.updated" });
+	}
+
+	private sendEvent(ws: ServerWebSocket<unknown>, event: BacklogEvent) {
+		try {
+			ws.send(JSON.stringify(event));
+		} catch {}
 	}
 
 	async start(port?: number, openBrowser = true): Promise<void> {
@@ -189,7 +250,7 @@ export class BacklogServer {
 		// Set up config watcher to broadcast changes
 		this.configWatcher = watchConfig(this.core, {
 			onConfigChanged: () => {
-				this.broadcastConfigUpdated();
+				this.publishConfigUpdated();
 			},
 		});
 
@@ -245,15 +306,28 @@ export class BacklogServer {
 					"/decisions": indexHtml,
 					"/decisions/*": indexHtml,
 					"/statistics": indexHtml,
+					"/calendar": indexHtml,
+					"/dependencies": indexHtml,
 					"/settings": indexHtml,
 
 					// API Routes using Bun's native route syntax
 					"/api/tasks": {
 						GET: this.protect(async (req: Request) => await handleListTasks(req, this.core)),
+						POST: this.protect(async (req: Request) => await handleCreateTask(req, this.core)),
+					},
+					"/api/tasks/next": {
+						GET: this.protect(
+							async (req: Request, user) =>
+								await handleGetNextTask(req, this.core, user, (email) => this.skillsFor(email)),
+						),
 						POST: this.protect(
-							async (req: Request) => await handleCreateTask(req, this.core, () => this.broadcastTasksUpdated()),
+							async (req: Request, user) =>
+								await handleClaimNextTask(req, this.core, user, (email) => this.skillsFor(email)),
 						),
 					},
+					"/api/leases": {
+						GET: this.protect(async () => await handleListLeases(this.core)),
+					},
 					"/api/task/:id": {
 						GET: this.protect(
 							async (req: Request & { params: { id: string } }) => await handleGetTask(req.params.id, this.core),
@@ -265,7 +339,7 @@ export class BacklogServer {
 						),
 						PUT: this.protect(
 							async (req: Request & { params: { id: string } }) =>
-								await handleUpdateTask(req, req.params.id, this.core, () => this.broadcastTasksUpdated()),
+								await handleUpdateTask(req, req.params.id, this.core),
 						),
 						DELETE: this.protect(
 							async (req: Request & { params: { id: string } }) => await handleDeleteTask(req.params.id, this.core),
@@ -273,8 +347,30 @@ export class BacklogServer {
 					},
 					"/api/tasks/:id/complete": {
 						POST: this.protect(
+							async (req: Request & { params: { id: string } }) => await handleCompleteTask(req.params.id, this.core),
+						),
+					},
+					"/api/tasks/:id/history": {
+						GET: this.protect(
+							async (req: Request & { params: { id: string } }) => await handleGetTaskHistory(req.params.id, this.core),
+						),
+					},
+					"/api/tasks/:id/similar": {
+						GET: this.protect(
 							async (req: Request & { params: { id: string } }) =>
-								await handleCompleteTask(req.params.id, this.core, () => this.broadcastTasksUpdated()),
+								await handleGetSimilarTasks(req, req.params.id, this.core),
+						),
+					},
+					"/api/tasks/:id/comments": {
+						POST: this.protect(
+							async (req: Request & { params: { id: string } }, user) =>
+								await handleAddTaskComment(req, req.params.id, this.core, user),
+						),
+					},
+					"/api/tasks/:id/time-entries": {
+						POST: this.protect(
+							async (req: Request & { params: { id: string } }, user) =>
+								await handleLogTaskTime(req, req.params.id, this.core, user),
 						),
 					},
 					"/api/tasks/:id/assets": {
@@ -296,13 +392,22 @@ export class BacklogServer {
 						GET: this.protect(async () => await handleGetStatuses(this.core)),
 					},
 					"/api/config": {
-						GET: this.protect(async () => await handleGetConfig(this.core)),
+						GET: this.protect(
+							async (_req: Request, user) =>
+								await handleGetConfig(
+									this.core,
+									!user || hasPermission(resolvePermissions(user.role, user.permissions), "config:write"),
+								),
+						),
 						PUT: this.protect(async (req: Request) => {
 							const res = await handleUpdateConfig(this.core, req);
-							if (res.ok) this.broadcastConfigUpdated();
+							if (res.ok) this.publishConfigUpdated();
 							return res;
 						}),
 					},
+					"/api/webhooks/deliveries": {
+						GET: this.protect(async (req: Request) => await handleListWebhookDeliveries(req, this.webhooks)),
+					},
 					"/api/docs": {
 						GET: this.protect(async () => await handleListDocs(this.core)),
 						POST: this.protect(async (req: Request) => await handleCreateDoc(req, this.core)),
@@ -338,6 +443,36 @@ export class BacklogServer {
 								await handleUpdateDecision(req, req.params.id, this.core),
 						),
 					},
+					"/api/views": {
+						GET: this.protect(async () => await handleListViews(this.core)),
+						POST: this.protect(async (req: Request) => await handleCreateView(req, this.core)),
+					},
+					"/api/views/:id": {
+						GET: this.protect(
+							async (req: Request & { params: { id: string } }) => await handleGetView(req.params.id, this.core),
+						),
+						PUT: this.protect(
+							async (req: Request & { params: { id: string } }) =>
+								await handleUpdateView(req, req.params.id, this.core),
+						),
+						DELETE: this.protect(
+							async (req: Request & { params: { id: string } }) => await handleDeleteView(req.params.id, this.core),
+						),
+					},
+					"/api/views/:id/tasks": {
+						GET: this.protect(
+							async (req: Request & { params: { id: string } }) => await handleRunView(req.params.id, this.core),
+						),
+					},
+					"/api/templates": {
+						GET: this.protect(async () => await handleListTemplates(this.core)),
+					},
+					"/api/templates/:id/tasks": {
+						POST: this.protect(
+							async (req: Request & { params: { id: string } }) =>
+								await handleCreateTaskFromTemplate(req, req.params.id, this.core),
+						),
+					},
 					"/api/drafts": {
 						GET: this.protect(async () => await handleListDrafts(this.core)),
 					},
@@ -361,15 +496,26 @@ export class BacklogServer {
 					"/api/milestones/:id/archive": {
 						POST: this.protect(
 							async (req: Request & { params: { id: string } }) =>
-								await handleArchiveMilestone(req.params.id, this.core, () => this.broadcastTasksUpdated()),
+								await handleArchiveMilestone(req.params.id, this.core, () => this.publishMilestonesUpdated()),
 						),
 					},
 					"/api/milestones/:id/active": {
 						PUT: this.protect(
 							async (req: Request & { params: { id: string } }) =>
-								await handleSetMilestoneActive(req.params.id, req, this.core, () => this.broadcastTasksUpdated()),
+								await handleSetMilestoneActive(req.params.id, req, this.core, () => this.publishMilestonesUpdated()),
+						),
+					},
+					"/api/milestones/:id/target-date": {
+						PUT: this.protect(
+							async (req: Request & { params: { id: string } }) =>
+								await handleSetMilestoneTargetDate(req.params.id, req, this.core, () =>
+									this.publishMilestonesUpdated(),
+								),
 						),
 					},
+					"/api/tasks/bulk": {
+						POST: this.protect(async (req: Request) => await handleBulkEditTasks(req, this.core)),
+					},
 					"/api/tasks/reorder": {
 						POST: this.protect(async (req: Request) => await handleReorderTask(req, this.core)),
 					},
@@ -377,9 +523,7 @@ export class BacklogServer {
 						GET: this.protect(async (req: Request) => await handleCleanupPreview(req, this.core)),
 					},
 					"/api/tasks/cleanup/execute": {
-						POST: this.protect(
-							async (req: Request) => await handleCleanupExecute(req, this.core, () => this.broadcastTasksUpdated()),
-						),
+						POST: this.protect(async (req: Request) => await handleCleanupExecute(req, this.core)),
 					},
 					"/api/version": {
 						GET: this.protect(async () => await handleGetVersion()),
@@ -387,6 +531,15 @@ export class BacklogServer {
 					"/api/statistics": {
 						GET: this.protect(async () => await handleGetStatistics(this.core)),
 					},
+					"/api/statistics/analytics": {
+						GET: this.protect(async () => await handleGetFlowAnalytics(this.core)),
+					},
+					"/api/statistics/timeseries": {
+						GET: this.protect(async (req: Request) => await handleGetStatisticsTimeseries(req, this.core)),
+					},
+					"/api/validate": {
+						GET: this.protect(async () => await handleGetValidation(this.core)),
+					},
 					"/api/status": {
 						GET: this.protect(async () => await handleGetStatus(this.core)),
 					},
@@ -402,13 +555,13 @@ export class BacklogServer {
 						GET: this.protect(async (req: Request) => await handleSearch(req, this.core)),
 					},
 					"/sequences": {
-						GET: this.protect(async () => await handleGetSequences(this.core)),
+						GET: this.protect(async (req: Request) => await handleGetSequences(req, this.core)),
 					},
 					"/sequences/move": {
 						POST: this.protect(async (req: Request) => await handleMoveSequence(req, this.core)),
 					},
 					"/api/sequences": {
-						GET: this.protect(async () => await handleGetSequences(this.core)),
+						GET: this.protect(async (req: Request) => await handleGetSequences(req, this.core)),
 					},
 					"/api/sequences/move": {
 						POST: this.protect(async (req: Request) => await handleMoveSequence(req, this.core)),
@@ -459,8 +612,12 @@ export class BacklogServer {
 				},
 				error: this.handleError.bind(this),
 				websocket: {
-					open: (ws: ServerWebSocket) => {
+					open: (ws: ServerWebSocket<EventSocketData>) => {
 						this.sockets.add(ws);
+						// Replay what a reconnecting client missed before it starts receiving live events
+						if (ws.data?.since != null) {
+							for (const event of this.events.replay(ws.data.since)) this.sendEvent(ws, event);
+						}
 					},
 					message(ws: ServerWebSocket) {
 						ws.send("pong");
@@ -535,6 +692,18 @@ export class BacklogServer {
 		try {
 			this.unsubscribeContentStore?.();
 			this.unsubscribeContentStore = undefined;
+			this.unsubscribeEvents?.();
+			this.unsubscribeEvents = undefined;
+			this.unsubscribeLeases?.();
+			this.unsubscribeLeases = undefined;
+			this.events.dispose();
+		} catch {}
+
+		try {
+			this.webhooks?.stop();
+			this.webhooks = null;
+			this.recurringTasks?.stop();
+			this.recurringTasks = null;
 		} catch {}
 
 		// Stop config watcher
@@ -566,7 +735,6 @@ export class BacklogServer {
 		this.sharedFs = undefined;
 		this.sharedGit = undefined;
 		this.contentStore = null;
-		this.storeReadyBroadcasted = false;
 
 		// Proactively close WebSocket connections
 		for (const ws of this.sockets) {
@@ -670,13 +838,21 @@ export class BacklogServer {
 
 		// Handle WebSocket upgrade
 		if (req.headers.get("upgrade") === "websocket") {
-			const success = server.upgrade(req, { data: undefined });
+			const { errorResponse } = authenticateWebSocket(req, this.authEnabled, this.jwtSecret);
+			if (errorResponse) return errorResponse;
+			const success = server.upgrade(req, { data: { since: parseResumeSeq(req) } satisfies EventSocketData });
 			if (success) {
 				return new Response(null, { status: 101 }); // WebSocket upgrade response
 			}
 			return new Response("WebSocket upgrade failed", { status: 400 });
 		}
 
+		// SSE event stream — lives outside `routes` because it needs the server to lift the idle timeout
+		if (pathname === "/api/events" && req.method === "GET") {
+			server.timeout(req, 0);
+			return this.protect(async (request: Request) => handleEventStream(request, this.events))(req);
+		}
+
 		// MCP endpoint — delegates to the stateless MCP request handler
 		if (pathname === "/mcp") {
 			if (!this.mcpHandler) {
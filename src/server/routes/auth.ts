@@ -2,6 +2,7 @@ import type { ConfigRepoService } from "../auth/config-repo";
 import { verifyGoogleToken } from "../auth/google-verify";
 import { signJwt, verifyJwt } from "../auth/jwt";
 import { extractBearerToken } from "../auth/middleware";
+import { resolvePermissions } from "../auth/permissions";
 
 export async function handleGoogleLogin(
 	req: Request,
@@ -37,12 +38,15 @@ export async function handleGoogleLogin(
 	}
 
 	const token = signJwt(
-		{ email: user.email, name: user.name, role: user.role },
+		{ email: user.email, name: user.name, role: user.role, permissions: user.permissions },
 		jwtSecret,
 		24 * 60 * 60, // 24 hours
 	);
 
-	return Response.json({ token, user: { email: user.email, name: user.name, role: user.role } });
+	return Response.json({
+		token,
+		user: { email: user.email, name: user.name, role: user.role, permissions: user.permissions },
+	});
 }
 
 export async function handleGetMe(req: Request, jwtSecret: string): Promise<Response> {
@@ -56,5 +60,10 @@ export async function handleGetMe(req: Request, jwtSecret: string): Promise<Resp
 		return Response.json({ error: "Invalid token" }, { status: 401 });
 	}
 
-	return Response.json({ email: payload.email, name: payload.name, role: payload.role });
+	return Response.json({
+		email: payload.email,
+		name: payload.name,
+		role: payload.role,
+		permissions: resolvePermissions(payload.role, payload.permissions),
+	});
 }
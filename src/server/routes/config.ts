@@ -9,13 +9,28 @@ export async function handleGetStatuses(core: Core): Promise<Response> {
 	return Response.json(statuses);
 }
 
-export async function handleGetConfig(core: Core): Promise<Response> {
+/**
+ * Cuts webhook URLs down to their origin. Endpoints such as Slack or Discord hooks carry their
+ * credential in the path or query, which only those who may change the config get to see.
+ */
+function redactWebhookUrls(config: BacklogConfig): BacklogConfig {
+	if (!config.webhooks) return config;
+	return {
+		...config,
+		webhooks: config.webhooks.map((webhook) => {
+			const url = URL.parse(webhook.url);
+			return { ...webhook, url: url ? `${url.origin}/…` : "…" };
+		}),
+	};
+}
+
+export async function handleGetConfig(core: Core, canWriteConfig = true): Promise<Response> {
 	try {
 		const config = await core.filesystem.loadConfig();
 		if (!config) {
 			return Response.json({ error: "Configuration not found" }, { status: 404 });
 		}
-		return Response.json(config);
+		return Response.json(canWriteConfig ? config : redactWebhookUrls(config));
 	} catch (error) {
 		console.error("Error loading config:", error);
 		return Response.json({ error: "Failed to load configuration" }, { status: 500 });
@@ -70,6 +85,44 @@ export async function handleGetStatistics(core: Core): Promise<Response> {
 	}
 }
 
+/** Lead time, cycle time and throughput. Separate from the snapshot statistics, which must not wait on git history. */
+export async function handleGetFlowAnalytics(core: Core): Promise<Response> {
+	try {
+		return Response.json(await core.getFlowAnalytics());
+	} catch (error) {
+		console.error("Error getting flow analytics:", error);
+		return Response.json({ error: "Failed to get flow analytics" }, { status: 500 });
+	}
+}
+
+export async function handleGetStatisticsTimeseries(req: Request, core: Core): Promise<Response> {
+	const params = new URL(req.url).searchParams;
+	try {
+		const timeseries = await core.getStatusTimeseries({
+			milestone: params.get("milestone") ?? undefined,
+			from: params.get("from") ?? undefined,
+			to: params.get("to") ?? undefined,
+		});
+		return Response.json(timeseries);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (message.startsWith("Invalid")) {
+			return Response.json({ error: message }, { status: 400 });
+		}
+		console.error("Error getting statistics timeseries:", error);
+		return Response.json({ error: "Failed to get statistics timeseries" }, { status: 500 });
+	}
+}
+
+export async function handleGetValidation(core: Core): Promise<Response> {
+	try {
+		return Response.json(await core.validateBacklog());
+	} catch (error) {
+		console.error("Error validating backlog:", error);
+		return Response.json({ error: "Failed to validate backlog" }, { status: 500 });
+	}
+}
+
 export async function handleUpdateConfig(core: Core, req: Request): Promise<Response> {
 	try {
 		const body = (await req.json()) as Partial<BacklogConfig>;
@@ -77,6 +130,15 @@ export async function handleUpdateConfig(core: Core, req: Request): Promise<Resp
 		if (!current) {
 			return Response.json({ error: "Configuration not found" }, { status: 404 });
 		}
+		// The config is committed and pushed, so a webhook secret must come from the environment
+		if (Array.isArray(body.webhooks) && body.webhooks.some((webhook) => "secret" in webhook)) {
+			return Response.json(
+				{
+					error: "Webhook secrets cannot be stored in the config. Set secretEnv to an environment variable holding it.",
+				},
+				{ status: 400 },
+			);
+		}
 		const updated: BacklogConfig = { ...current, ...body };
 		await core.filesystem.saveConfig(updated);
 		try {
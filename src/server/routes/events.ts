@@ -0,0 +1,67 @@
+import type { BacklogEvent } from "../../types/index.ts";
+import type { EventStream } from "../event-stream.ts";
+
+const KEEPALIVE_INTERVAL_MS = 25_000;
+const CLIENT_RETRY_MS = 5_000;
+
+/**
+ * Reads the sequence number a client wants to resume after: the standard
+ * `Last-Event-ID` header sent by EventSource on reconnect, or `?since=`.
+ * Returns null for a fresh subscription.
+ */
+export function parseResumeSeq(req: Request): number | null {
+	const raw = req.headers.get("Last-Event-ID") ?? new URL(req.url).searchParams.get("since");
+	if (raw === null || raw.trim() === "") return null;
+	const seq = Number.parseInt(raw, 10);
+	return Number.isFinite(seq) && seq >= 0 ? seq : null;
+}
+
+function formatSse(event: BacklogEvent): string {
+	return `id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Streams backlog events as Server-Sent Events. Missed events are replayed
+ * first when the client resumes, then live events follow until it disconnects.
+ */
+export function handleEventStream(req: Request, events: EventStream): Response {
+	const since = parseResumeSeq(req);
+	const encoder = new TextEncoder();
+	let cleanup = () => {};
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const write = (chunk: string) => {
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					cleanup();
+				}
+			};
+
+			write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+			if (since !== null) {
+				for (const event of events.replay(since)) write(formatSse(event));
+			}
+
+			const unsubscribe = events.subscribe((event) => write(formatSse(event)));
+			const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_INTERVAL_MS);
+			cleanup = () => {
+				unsubscribe();
+				clearInterval(keepalive);
+			};
+			req.signal.addEventListener("abort", () => cleanup(), { once: true });
+		},
+		cancel() {
+			cleanup();
+		},
+	});
+
+	return new Response(body, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+		},
+	});
+}
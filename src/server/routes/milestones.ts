@@ -35,7 +35,7 @@ export async function handleGetMilestone(milestoneId: string, core: Core): Promi
 
 export async function handleCreateMilestone(req: Request, core: Core): Promise<Response> {
 	try {
-		const body = (await req.json()) as { title?: string; description?: string };
+		const body = (await req.json()) as { title?: string; description?: string; targetDate?: string };
 		const title = body.title?.trim();
 
 		if (!title) {
@@ -79,9 +79,13 @@ export async function handleCreateMilestone(req: Request, core: Core): Promise<R
 			return Response.json({ error: "A milestone with this title or ID already exists" }, { status: 400 });
 		}
 
-		const milestone = await core.createMilestone(title, body.description);
+		const targetDate = typeof body.targetDate === "string" ? body.targetDate.trim() || undefined : undefined;
+		const milestone = await core.createMilestone(title, body.description, undefined, targetDate);
 		return Response.json(milestone, { status: 201 });
 	} catch (error) {
+		if (error instanceof Error && error.message.startsWith("Invalid")) {
+			return Response.json({ error: error.message }, { status: 400 });
+		}
 		console.error("Error creating milestone:", error);
 		return Response.json({ error: "Failed to create milestone" }, { status: 500 });
 	}
@@ -112,6 +116,34 @@ export async function handleSetMilestoneActive(
 	}
 }
 
+export async function handleSetMilestoneTargetDate(
+	milestoneId: string,
+	req: Request,
+	core: Core,
+	broadcast: () => void,
+): Promise<Response> {
+	try {
+		const body = (await req.json()) as { targetDate?: unknown };
+		if (body.targetDate !== null && typeof body.targetDate !== "string") {
+			return Response.json({ error: "targetDate must be a YYYY-MM-DD string or null" }, { status: 400 });
+		}
+
+		const result = await core.setMilestoneTargetDate(milestoneId, body.targetDate?.trim() || null);
+		if (!result.success) {
+			return Response.json({ error: "Milestone not found" }, { status: 404 });
+		}
+		broadcast();
+		return Response.json({ success: true, milestone: result.milestone ?? null });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to update milestone";
+		if (message.startsWith("Invalid")) {
+			return Response.json({ error: message }, { status: 400 });
+		}
+		console.error("Error setting milestone target date:", error);
+		return Response.json({ error: message }, { status: 500 });
+	}
+}
+
 export async function handleArchiveMilestone(
 	milestoneId: string,
 	core: Core,
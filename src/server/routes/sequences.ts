@@ -1,8 +1,16 @@
 import type { Core } from "../../core/backlog.ts";
+import { computeCriticalPath } from "../../core/sequences.ts";
+import type { Sequence, Task } from "../../types/index.ts";
 
-export async function handleGetSequences(core: Core): Promise<Response> {
-	const data = await core.listActiveSequences();
-	return Response.json(data);
+function withCriticalPath(data: { unsequenced: Task[]; sequences: Sequence[] }) {
+	const tasks = data.sequences.flatMap((sequence) => sequence.tasks);
+	return { ...data, criticalPath: computeCriticalPath(tasks) };
+}
+
+export async function handleGetSequences(req: Request, core: Core): Promise<Response> {
+	const milestone = new URL(req.url).searchParams.get("milestone") ?? undefined;
+	const data = await core.listActiveSequences({ milestone });
+	return Response.json(withCriticalPath(data));
 }
 
 export async function handleMoveSequence(req: Request, core: Core): Promise<Response> {
@@ -11,6 +19,7 @@ export async function handleMoveSequence(req: Request, core: Core): Promise<Resp
 		const taskId = String(body.taskId || "").trim();
 		const moveToUnsequenced = Boolean(body.unsequenced === true);
 		const targetSequenceIndex = body.targetSequenceIndex !== undefined ? Number(body.targetSequenceIndex) : undefined;
+		const milestone = typeof body.milestone === "string" && body.milestone.trim() ? body.milestone : undefined;
 
 		if (!taskId) return Response.json({ error: "taskId is required" }, { status: 400 });
 
@@ -18,8 +27,9 @@ export async function handleMoveSequence(req: Request, core: Core): Promise<Resp
 			taskId,
 			unsequenced: moveToUnsequenced,
 			targetSequenceIndex,
+			milestone,
 		});
-		return Response.json(next);
+		return Response.json(withCriticalPath(next));
 	} catch (error) {
 		const message = (error as Error)?.message || "Invalid request";
 		return Response.json({ error: message }, { status: 400 });
@@ -1,7 +1,16 @@
 import type { Core } from "../../core/backlog.ts";
+import { TaskVersionConflictError } from "../../core/concurrency.ts";
 import { resolveMilestoneInput } from "../../core/milestones.ts";
-import type { SearchPriorityFilter, SearchResultType, Task, TaskUpdateInput } from "../../types/index.ts";
+import type {
+	BulkTaskSelection,
+	BulkTaskUpdate,
+	SearchPriorityFilter,
+	SearchResultType,
+	Task,
+	TaskUpdateInput,
+} from "../../types/index.ts";
 import { PREFIX_PATTERN, parseTaskIdSegments } from "../../utils/task-search.ts";
+import type { JwtPayload } from "../auth/jwt";
 
 const DEFAULT_PREFIX = "task-";
 
@@ -47,6 +56,8 @@ export async function handleListTasks(req: Request, core: Core): Promise<Respons
 	const parent = url.searchParams.get("parent") || undefined;
 	const priorityParam = url.searchParams.get("priority") || undefined;
 	const crossBranch = url.searchParams.get("crossBranch") === "true";
+	const readyParam = url.searchParams.get("ready");
+	const ready = readyParam === null ? undefined : readyParam === "true";
 	const labelParams = [...url.searchParams.getAll("label"), ...url.searchParams.getAll("labels")];
 	const labelsCsv = url.searchParams.get("labels");
 	if (labelsCsv) {
@@ -87,7 +98,7 @@ export async function handleListTasks(req: Request, core: Core): Promise<Respons
 
 	// Use Core.queryTasks which handles all filtering and cross-branch logic
 	const tasks = await core.queryTasks({
-		filters: { status, assignee, priority, parentTaskId, labels: labels.length > 0 ? labels : undefined },
+		filters: { status, assignee, priority, parentTaskId, labels: labels.length > 0 ? labels : undefined, ready },
 		includeCrossBranch: crossBranch,
 		excludeInactiveMilestones: true,
 	});
@@ -133,6 +144,25 @@ export async function handleSearch(req: Request, core: Core): Promise<Response>
 			types = normalizedTypes;
 		}
 
+		// `q` is a query-language search over tasks, e.g. q=status:"In Progress" label:api -label:wip
+		const taskQuery = url.searchParams.get("q");
+		if (taskQuery !== null) {
+			if (query !== undefined || statusParams.length > 0 || priorityParamsRaw.length > 0 || labelParamsRaw.length > 0) {
+				return Response.json(
+					{ error: "q cannot be combined with query, status, priority or label; write them into q instead" },
+					{ status: 400 },
+				);
+			}
+			if (types && !types.includes("task")) {
+				return Response.json([]);
+			}
+			try {
+				return Response.json(await core.searchTasksWithQuery(taskQuery, limit));
+			} catch (error) {
+				return Response.json({ error: error instanceof Error ? error.message : "Invalid query" }, { status: 400 });
+			}
+		}
+
 		const filters: {
 			status?: string | string[];
 			priority?: SearchPriorityFilter | SearchPriorityFilter[];
@@ -176,7 +206,7 @@ export async function handleSearch(req: Request, core: Core): Promise<Response>
 	}
 }
 
-export async function handleCreateTask(req: Request, core: Core, broadcast: () => void): Promise<Response> {
+export async function handleCreateTask(req: Request, core: Core): Promise<Response> {
 	const payload = await req.json();
 
 	if (!payload || typeof payload.title !== "string" || payload.title.trim().length === 0) {
@@ -193,22 +223,30 @@ export async function handleCreateTask(req: Request, core: Core, broadcast: () =
 			milestone = resolveMilestoneInput(payload.milestone, activeMilestones, archivedMilestones);
 		}
 
-		const { task: createdTask } = await core.createTaskFromInput({
+		const { task: createdTask, possibleDuplicates } = await core.createTaskFromInput({
 			title: payload.title,
 			description: payload.description,
 			status: payload.status,
 			priority: payload.priority,
+			estimate: payload.estimate,
+			startDate: payload.startDate,
+			dueDate: payload.dueDate,
 			milestone,
 			labels: payload.labels,
 			assignee: payload.assignee,
 			dependencies: payload.dependencies,
 			references: payload.references,
 			parentTaskId: payload.parentTaskId,
+			acceptanceCriteria: Array.isArray(payload.acceptanceCriteria) ? payload.acceptanceCriteria : undefined,
 			implementationPlan: payload.implementationPlan,
 			finalSummary: payload.finalSummary,
 		});
-		broadcast();
-		return Response.json(createdTask, { status: 201 });
+		// The task is still created; clients can warn about the open tasks it closely resembles
+		const headers =
+			possibleDuplicates.length > 0
+				? { "X-Backlog-Possible-Duplicates": possibleDuplicates.map((match) => match.task.id).join(", ") }
+				: undefined;
+		return Response.json(createdTask, { status: 201, headers });
 	} catch (error) {
 		const message = error instanceof Error ? error.message : "Failed to create task";
 		return Response.json({ error: message }, { status: 400 });
@@ -224,26 +262,37 @@ export async function handleGetTask(taskId: string, core: Core): Promise<Respons
 		const fallback = await core.filesystem.loadTask(fallbackId);
 		if (fallback) {
 			store.upsertTask(fallback);
-			return Response.json(fallback);
+			return Response.json(fallback, { headers: versionHeaders(fallback) });
 		}
 		return Response.json({ error: "Task not found" }, { status: 404 });
 	}
-	return Response.json(task);
+	return Response.json(task, { headers: versionHeaders(task) });
 }
 
-export async function handleUpdateTask(
-	req: Request,
-	taskId: string,
-	core: Core,
-	broadcast: () => void,
-): Promise<Response> {
+function versionHeaders(task: Task): HeadersInit {
+	return task.version ? { ETag: `"${task.version}"` } : {};
+}
+
+/**
+ * The version the client based its edit on: the `If-Match` header (an ETag from
+ * `GET /api/tasks/:id`) or `expectedVersion` in the body.
+ */
+function expectedVersionOf(req: Request, updates: Record<string, unknown>): string | undefined {
+	const ifMatch = req.headers.get("If-Match")?.trim();
+	if (ifMatch && ifMatch !== "*") {
+		return ifMatch.replace(/^W\//, "").replace(/^"|"$/g, "");
+	}
+	return typeof updates.expectedVersion === "string" ? updates.expectedVersion : undefined;
+}
+
+export async function handleUpdateTask(req: Request, taskId: string, core: Core): Promise<Response> {
 	const updates = await req.json();
 	const existingTask = await core.filesystem.loadTask(taskId);
 	if (!existingTask) {
 		return Response.json({ error: "Task not found" }, { status: 404 });
 	}
 
-	const updateInput: TaskUpdateInput = {};
+	const updateInput: TaskUpdateInput = { expectedVersion: expectedVersionOf(req, updates) };
 
 	if ("title" in updates && typeof updates.title === "string") {
 		updateInput.title = updates.title;
@@ -261,6 +310,17 @@ export async function handleUpdateTask(
 		updateInput.priority = updates.priority;
 	}
 
+	if ("estimate" in updates && (typeof updates.estimate === "number" || updates.estimate === null)) {
+		updateInput.estimate = updates.estimate;
+	}
+
+	for (const field of ["startDate", "dueDate"] as const) {
+		const value = updates[field];
+		if (field in updates && (typeof value === "string" || value === null)) {
+			updateInput[field] = value === "" ? null : value;
+		}
+	}
+
 	if ("milestone" in updates && (typeof updates.milestone === "string" || updates.milestone === null)) {
 		if (typeof updates.milestone === "string") {
 			const [activeMilestones, archivedMilestones] = await Promise.all([
@@ -297,16 +357,247 @@ export async function handleUpdateTask(
 		updateInput.finalSummary = updates.finalSummary;
 	}
 
+	if ("acceptanceCriteria" in updates && Array.isArray(updates.acceptanceCriteria)) {
+		updateInput.acceptanceCriteria = updates.acceptanceCriteria;
+	}
+
+	if ("addAcceptanceCriteria" in updates && Array.isArray(updates.addAcceptanceCriteria)) {
+		updateInput.addAcceptanceCriteria = updates.addAcceptanceCriteria;
+	}
+
+	if ("removeAcceptanceCriteria" in updates && Array.isArray(updates.removeAcceptanceCriteria)) {
+		updateInput.removeAcceptanceCriteria = updates.removeAcceptanceCriteria;
+	}
+
+	if ("checkAcceptanceCriteria" in updates && Array.isArray(updates.checkAcceptanceCriteria)) {
+		updateInput.checkAcceptanceCriteria = updates.checkAcceptanceCriteria;
+	}
+
+	if ("uncheckAcceptanceCriteria" in updates && Array.isArray(updates.uncheckAcceptanceCriteria)) {
+		updateInput.uncheckAcceptanceCriteria = updates.uncheckAcceptanceCriteria;
+	}
+
 	try {
 		const updatedTask = await core.updateTaskFromInput(taskId, updateInput);
-		broadcast();
-		return Response.json(updatedTask);
+		return Response.json(updatedTask, { headers: versionHeaders(updatedTask) });
 	} catch (error) {
+		if (error instanceof TaskVersionConflictError) {
+			return Response.json({ error: error.message, task: error.current }, { status: 409 });
+		}
 		const message = error instanceof Error ? error.message : "Failed to update task";
 		return Response.json({ error: message }, { status: 400 });
 	}
 }
 
+export async function handleGetTaskHistory(taskId: string, core: Core): Promise<Response> {
+	const task = await core.filesystem.loadTask(taskId);
+	if (!task) {
+		return Response.json({ error: "Task not found" }, { status: 404 });
+	}
+
+	try {
+		const history = await core.getTaskHistory(task.id);
+		return Response.json(history);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to load task history";
+		console.error("Error loading task history:", error);
+		return Response.json({ error: message }, { status: 500 });
+	}
+}
+
+export async function handleGetSimilarTasks(req: Request, taskId: string, core: Core): Promise<Response> {
+	const url = new URL(req.url);
+	const limitParam = url.searchParams.get("limit");
+	let limit: number | undefined;
+	if (limitParam) {
+		limit = Number.parseInt(limitParam, 10);
+		if (Number.isNaN(limit) || limit <= 0) {
+			return Response.json({ error: "limit must be a positive integer" }, { status: 400 });
+		}
+	}
+
+	try {
+		const similar = await core.findSimilarTasks(taskId, {
+			limit,
+			includeDone: url.searchParams.get("includeDone") === "true",
+		});
+		if (!similar) {
+			return Response.json({ error: "Task not found" }, { status: 404 });
+		}
+		return Response.json(similar);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to find similar tasks";
+		console.error("Error finding similar tasks:", error);
+		return Response.json({ error: message }, { status: 500 });
+	}
+}
+
+export async function handleAddTaskComment(
+	req: Request,
+	taskId: string,
+	core: Core,
+	user: JwtPayload | null,
+): Promise<Response> {
+	const payload = await req.json();
+	const body = typeof payload.body === "string" ? payload.body : "";
+	if (!body.trim()) {
+		return Response.json({ error: "Missing required field: body" }, { status: 400 });
+	}
+
+	// The authenticated user always wins; a client-supplied author is only honoured when auth is disabled
+	const requestedAuthor = typeof payload.author === "string" ? payload.author.trim() : "";
+	const author = user?.name || requestedAuthor || "anonymous";
+
+	const existingTask = await core.filesystem.loadTask(taskId);
+	if (!existingTask) {
+		return Response.json({ error: "Task not found" }, { status: 404 });
+	}
+
+	try {
+		const updatedTask = await core.updateTaskFromInput(taskId, { addComment: { author, body } });
+		return Response.json(updatedTask, { status: 201 });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to add comment";
+		return Response.json({ error: message }, { status: 400 });
+	}
+}
+
+export async function handleLogTaskTime(
+	req: Request,
+	taskId: string,
+	core: Core,
+	user: JwtPayload | null,
+): Promise<Response> {
+	const payload = await req.json();
+	const hours = typeof payload.hours === "number" ? payload.hours : Number.NaN;
+	if (!Number.isFinite(hours)) {
+		return Response.json({ error: "Missing required field: hours" }, { status: 400 });
+	}
+
+	// The authenticated user always wins; a client-supplied author is only honoured when auth is disabled
+	const requestedAuthor = typeof payload.author === "string" ? payload.author.trim() : "";
+	const author = user?.name || requestedAuthor || undefined;
+
+	const existingTask = await core.filesystem.loadTask(taskId);
+	if (!existingTask) {
+		return Response.json({ error: "Task not found" }, { status: 404 });
+	}
+
+	try {
+		const updatedTask = await core.updateTaskFromInput(taskId, {
+			addTimeEntry: {
+				hours,
+				date: typeof payload.date === "string" ? payload.date : undefined,
+				note: typeof payload.note === "string" ? payload.note : undefined,
+				author,
+			},
+		});
+		return Response.json(updatedTask, { status: 201 });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to log time";
+		return Response.json({ error: message }, { status: 400 });
+	}
+}
+
+function parseSkills(value: unknown): string[] | undefined {
+	const skills = Array.isArray(value)
+		? value.filter((skill): skill is string => typeof skill === "string")
+		: typeof value === "string"
+			? value.split(",")
+			: [];
+	const trimmed = skills.map((skill) => skill.trim()).filter(Boolean);
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export async function handleGetNextTask(
+	req: Request,
+	core: Core,
+	user: JwtPayload | null,
+	skillsFor: (email: string) => string[] | undefined,
+): Promise<Response> {
+	const url = new URL(req.url);
+	const assignee = url.searchParams.get("assignee")?.trim() || user?.name || undefined;
+	const skills = parseSkills(url.searchParams.get("skills")) ?? (user ? skillsFor(user.email) : undefined);
+	const milestone = url.searchParams.get("milestone") ?? undefined;
+
+	const recommendation = await core.recommendNextTask({ assignee, skills, milestone });
+	return Response.json(recommendation ?? { task: null, reasons: [] });
+}
+
+export async function handleClaimNextTask(
+	req: Request,
+	core: Core,
+	user: JwtPayload | null,
+	skillsFor: (email: string) => string[] | undefined,
+): Promise<Response> {
+	const payload = await req.json().catch(() => ({}));
+
+	// The authenticated user always wins; a client-supplied assignee is only honoured when auth is disabled
+	const requestedAssignee = typeof payload.assignee === "string" ? payload.assignee.trim() : "";
+	const assignee = user?.name || requestedAssignee;
+	if (!assignee) {
+		return Response.json({ error: "Missing required field: assignee" }, { status: 400 });
+	}
+	const skills = parseSkills(payload.skills) ?? (user ? skillsFor(user.email) : undefined);
+	const milestone = typeof payload.milestone === "string" ? payload.milestone : undefined;
+	const ttlMinutes = payload.ttlMinutes;
+	if (ttlMinutes !== undefined && typeof ttlMinutes !== "number") {
+		return Response.json({ error: "ttlMinutes must be a number" }, { status: 400 });
+	}
+
+	try {
+		const recommendation = await core.claimNextTask({ assignee, skills, milestone, ttlMinutes });
+		return Response.json(recommendation ?? { task: null, reasons: [] });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to claim task";
+		return Response.json({ error: message }, { status: 400 });
+	}
+}
+
+export async function handleListLeases(core: Core): Promise<Response> {
+	return Response.json(core.listTaskLeases());
+}
+
+function stringArray(value: unknown): string[] | undefined {
+	return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : undefined;
+}
+
+/**
+ * `POST /api/tasks/bulk` with `{ ids }` or `{ filters, query }` and the `update` to apply to every selected task.
+ */
+export async function handleBulkEditTasks(req: Request, core: Core): Promise<Response> {
+	const payload = await req.json().catch(() => ({}));
+	const filters = typeof payload.filters === "object" && payload.filters !== null ? payload.filters : {};
+	const update = typeof payload.update === "object" && payload.update !== null ? payload.update : {};
+
+	const selection: BulkTaskSelection = {
+		ids: stringArray(payload.ids),
+		filters: {
+			status: typeof filters.status === "string" ? filters.status : undefined,
+			assignee: typeof filters.assignee === "string" ? filters.assignee : undefined,
+			priority: ["high", "medium", "low"].includes(filters.priority) ? filters.priority : undefined,
+			labels: stringArray(filters.labels),
+			ready: typeof filters.ready === "boolean" ? filters.ready : undefined,
+		},
+		query: typeof payload.query === "string" ? payload.query : undefined,
+	};
+	const changes: BulkTaskUpdate = {
+		status: typeof update.status === "string" ? update.status : undefined,
+		priority: ["high", "medium", "low"].includes(update.priority) ? update.priority : undefined,
+		milestone: typeof update.milestone === "string" || update.milestone === null ? update.milestone : undefined,
+		addLabels: stringArray(update.addLabels),
+		removeLabels: stringArray(update.removeLabels),
+		assignee: stringArray(update.assignee),
+	};
+
+	try {
+		return Response.json(await core.editTasksBulk(selection, changes));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to update tasks";
+		return Response.json({ error: message }, { status: 400 });
+	}
+}
+
 export async function handleDeleteTask(taskId: string, core: Core): Promise<Response> {
 	const success = await core.archiveTask(taskId);
 	if (!success) {
@@ -315,7 +606,7 @@ export async function handleDeleteTask(taskId: string, core: Core): Promise<Resp
 	return Response.json({ success: true });
 }
 
-export async function handleCompleteTask(taskId: string, core: Core, broadcast: () => void): Promise<Response> {
+export async function handleCompleteTask(taskId: string, core: Core): Promise<Response> {
 	try {
 		const task = await core.filesystem.loadTask(taskId);
 		if (!task) {
@@ -327,8 +618,6 @@ export async function handleCompleteTask(taskId: string, core: Core, broadcast:
 			return Response.json({ error: "Failed to complete task" }, { status: 500 });
 		}
 
-		// Notify listeners to refresh
-		broadcast();
 		return Response.json({ success: true });
 	} catch (error) {
 		const message = error instanceof Error ? error.message : "Failed to complete task";
@@ -370,7 +659,8 @@ export async function handleReorderTask(req: Request, core: Core): Promise<Respo
 		const message = error instanceof Error ? error.message : "Failed to reorder task";
 		// Cross-branch and validation errors are client errors (400), not server errors (500)
 		const isCrossBranchError = message.includes("exists in branch");
-		const isValidationError = message.includes("not found") || message.includes("Missing required");
+		const isValidationError =
+			message.includes("not found") || message.includes("Missing required") || message.includes("is blocked by");
 		const status = isCrossBranchError || isValidationError ? 400 : 500;
 		if (status === 500) {
 			console.error("Error reordering task:", error);
@@ -414,7 +704,7 @@ export async function handleCleanupPreview(req: Request, core: Core): Promise<Re
 	}
 }
 
-export async function handleCleanupExecute(req: Request, core: Core, broadcast: () => void): Promise<Response> {
+export async function handleCleanupExecute(req: Request, core: Core): Promise<Response> {
 	try {
 		const { age } = await req.json();
 
@@ -456,9 +746,6 @@ export async function handleCleanupExecute(req: Request, core: Core, broadcast:
 			}
 		}
 
-		// Notify listeners to refresh
-		broadcast();
-
 		return Response.json({
 			success: true,
 			movedCount: successCount,
@@ -0,0 +1,64 @@
+import type { Core } from "../../core/backlog.ts";
+import type { TaskCreateInput } from "../../types/index.ts";
+
+const OVERRIDE_FIELDS = [
+	"title",
+	"description",
+	"status",
+	"priority",
+	"estimate",
+	"startDate",
+	"dueDate",
+	"labels",
+	"assignee",
+	"dependencies",
+	"references",
+	"acceptanceCriteria",
+	"implementationPlan",
+] as const satisfies ReadonlyArray<keyof TaskCreateInput>;
+
+function parseVariables(value: unknown): Record<string, string> {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return {};
+	}
+	const variables: Record<string, string> = {};
+	for (const [name, entry] of Object.entries(value)) {
+		if (typeof entry === "string" || typeof entry === "number") variables[name] = String(entry);
+	}
+	return variables;
+}
+
+export async function handleListTemplates(core: Core): Promise<Response> {
+	return Response.json(await core.fs.listTemplates());
+}
+
+/**
+ * Creates a task from a template. The body holds `variables` for the template's placeholders,
+ * an optional `milestone`, and any task fields that should replace the template's.
+ */
+export async function handleCreateTaskFromTemplate(req: Request, templateId: string, core: Core): Promise<Response> {
+	const payload = await req.json().catch(() => ({}));
+	const overrides: Partial<TaskCreateInput> = {};
+	for (const field of OVERRIDE_FIELDS) {
+		if (payload[field] !== undefined) {
+			Object.assign(overrides, { [field]: payload[field] });
+		}
+	}
+
+	try {
+		const { task, subtasks, possibleDuplicates } = await core.createTaskFromTemplate(decodeURIComponent(templateId), {
+			variables: parseVariables(payload.variables),
+			milestone: typeof payload.milestone === "string" ? payload.milestone : undefined,
+			overrides,
+		});
+		const headers =
+			possibleDuplicates.length > 0
+				? { "X-Backlog-Possible-Duplicates": possibleDuplicates.map((match) => match.task.id).join(", ") }
+				: undefined;
+		return Response.json({ task, subtasks }, { status: 201, headers });
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Failed to create task from template";
+		const status = message.startsWith("Template not found") ? 404 : 400;
+		return Response.json({ error: message }, { status });
+	}
+}
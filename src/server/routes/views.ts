@@ -0,0 +1,91 @@
+import type { Core } from "../../core/backlog.ts";
+import type { SavedViewInput } from "../../types/index.ts";
+
+const stringOrUndefined = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+/**
+ * Picks the view fields from a request body. Fields that are absent stay undefined so
+ * PUT only changes what was sent; validation is left to the core.
+ */
+function parseViewInput(payload: Record<string, unknown>): Partial<SavedViewInput> {
+	const input: Partial<SavedViewInput> = {};
+	if ("name" in payload) input.name = stringOrUndefined(payload.name) ?? "";
+	if ("description" in payload) input.description = stringOrUndefined(payload.description);
+	if ("query" in payload) input.query = stringOrUndefined(payload.query);
+	if ("sort" in payload) input.sort = (stringOrUndefined(payload.sort) || undefined) as SavedViewInput["sort"];
+	if ("lanes" in payload) input.lanes = (stringOrUndefined(payload.lanes) || undefined) as SavedViewInput["lanes"];
+	if ("filters" in payload) {
+		const filters =
+			typeof payload.filters === "object" && payload.filters !== null
+				? (payload.filters as Record<string, unknown>)
+				: {};
+		input.filters = {
+			status: stringOrUndefined(filters.status) || undefined,
+			assignee: stringOrUndefined(filters.assignee) || undefined,
+			priority: ["high", "medium", "low"].includes(filters.priority as string)
+				? (filters.priority as "high" | "medium" | "low")
+				: undefined,
+			labels: Array.isArray(filters.labels)
+				? filters.labels.filter((label): label is string => typeof label === "string" && label.length > 0)
+				: undefined,
+			milestone: stringOrUndefined(filters.milestone) || undefined,
+			ready: typeof filters.ready === "boolean" ? filters.ready : undefined,
+		};
+	}
+	return input;
+}
+
+function viewErrorResponse(error: unknown, fallback: string): Response {
+	const message = error instanceof Error ? error.message : fallback;
+	const status = message.startsWith("View not found") ? 404 : 400;
+	return Response.json({ error: message }, { status });
+}
+
+export async function handleListViews(core: Core): Promise<Response> {
+	return Response.json(await core.fs.listViews());
+}
+
+export async function handleGetView(viewId: string, core: Core): Promise<Response> {
+	const view = await core.getSavedView(decodeURIComponent(viewId));
+	if (!view) {
+		return Response.json({ error: "View not found" }, { status: 404 });
+	}
+	return Response.json(view);
+}
+
+export async function handleCreateView(req: Request, core: Core): Promise<Response> {
+	const payload = await req.json().catch(() => ({}));
+	const input = parseViewInput(payload);
+	try {
+		const view = await core.createSavedView({ name: "", filters: {}, ...input });
+		return Response.json(view, { status: 201 });
+	} catch (error) {
+		return viewErrorResponse(error, "Failed to create view");
+	}
+}
+
+export async function handleUpdateView(req: Request, viewId: string, core: Core): Promise<Response> {
+	const payload = await req.json().catch(() => ({}));
+	try {
+		return Response.json(await core.updateSavedView(decodeURIComponent(viewId), parseViewInput(payload)));
+	} catch (error) {
+		return viewErrorResponse(error, "Failed to update view");
+	}
+}
+
+export async function handleDeleteView(viewId: string, core: Core): Promise<Response> {
+	try {
+		await core.deleteSavedView(decodeURIComponent(viewId));
+		return Response.json({ success: true });
+	} catch (error) {
+		return viewErrorResponse(error, "Failed to delete view");
+	}
+}
+
+export async function handleRunView(viewId: string, core: Core): Promise<Response> {
+	try {
+		return Response.json(await core.runSavedView(decodeURIComponent(viewId)));
+	} catch (error) {
+		return viewErrorResponse(error, "Failed to run view");
+	}
+}
@@ -0,0 +1,9 @@
+import type { WebhookDispatcher } from "../../core/webhooks.ts";
+
+export async function handleListWebhookDeliveries(req: Request, webhooks: WebhookDispatcher | null): Promise<Response> {
+	const url = new URL(req.url);
+	const limitParam = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+	const deliveries = webhooks?.getDeliveries() ?? [];
+	const limited = Number.isFinite(limitParam) && limitParam > 0 ? deliveries.slice(0, limitParam) : deliveries;
+	return Response.json(limited);
+}
@@ -0,0 +1,13 @@
+import type { Task } from "../types/index.ts";
+
+/** A minimal task for unit tests; pass only the fields the test cares about. */
+export const makeTask = (overrides: Partial<Task> = {}): Task => ({
+	id: "TASK-1",
+	title: "Task",
+	status: "To Do",
+	assignee: [],
+	createdDate: "2026-01-01 10:00",
+	labels: [],
+	dependencies: [],
+	...overrides,
+});
@@ -10,10 +10,12 @@
 
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { randomUUID } from "node:crypto";
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { $ } from "bun";
+import { signWebhookPayload } from "../core/webhooks.ts";
 import { BacklogServer } from "../server/index.ts";
+import type { BacklogEvent, SearchMatch, Task } from "../types/index.ts";
 
 // ── helpers ──────────────────────────────────────────────────────────────────
 
@@ -63,6 +65,8 @@ async function gitTrackedFiles(dir: string): Promise<string[]> {
 
 const ADMIN_API_KEY = "test-api-key-admin-001";
 const VIEWER_API_KEY = "test-api-key-viewer-002";
+const CONTRIBUTOR_API_KEY = "test-api-key-contributor-003";
+const AGENT_API_KEY = "test-api-key-agent-004";
 
 async function buildConfigRepo(dir: string): Promise<void> {
 	await initGitRepo(dir);
@@ -76,6 +80,15 @@ users:
     name: Viewer User
     role: viewer
     apiKey: ${VIEWER_API_KEY}
+  - email: contributor@test.com
+    name: Contributor User
+    role: contributor
+    apiKey: ${CONTRIBUTOR_API_KEY}
+  - email: agent@test.com
+    name: Agent Bot
+    role: agent
+    skills: [feature]
+    apiKey: ${AGENT_API_KEY}
 ---
 
 # Users
@@ -229,14 +242,18 @@ type TestEnv = {
 	baseUrl: string;
 	adminHeaders: HeadersInit;
 	viewerHeaders: HeadersInit;
+	contributorHeaders: HeadersInit;
+	agentHeaders: HeadersInit;
 };
 
-async function startTestEnv(): Promise<TestEnv> {
+/** `prepare` can add files to the project before the server starts. */
+async function startTestEnv(prepare?: (projectDir: string) => Promise<void>): Promise<TestEnv> {
 	const configDir = uniqueDir("cfg-repo");
 	const projectDir = uniqueDir("proj-repo");
 
 	await buildConfigRepo(configDir);
 	await buildProjectRepo(projectDir);
+	await prepare?.(projectDir);
 
 	process.env.AUTH_CONFIG_REPO = configDir;
 	// Ensure GOOGLE_CLIENT_ID is unset so auth mode is "MCP API key only",
@@ -255,6 +272,8 @@ async function startTestEnv(): Promise<TestEnv> {
 		baseUrl: `http://localhost:${port}`,
 		adminHeaders: { Authorization: `Bearer ${ADMIN_API_KEY}`, "Content-Type": "application/json" },
 		viewerHeaders: { Authorization: `Bearer ${VIEWER_API_KEY}`, "Content-Type": "application/json" },
+		contributorHeaders: { Authorization: `Bearer ${CONTRIBUTOR_API_KEY}`, "Content-Type": "application/json" },
+		agentHeaders: { Authorization: `Bearer ${AGENT_API_KEY}`, "Content-Type": "application/json" },
 	};
 }
 
@@ -917,11 +936,12 @@ async function mcpToolCall(
 	env: TestEnv,
 	toolName: string,
 	args: Record<string, unknown>,
-): Promise<{ result: { content: Array<{ text: string }> } }> {
+	headers: HeadersInit = env.adminHeaders,
+): Promise<{ result: { content: Array<{ text: string }>; isError?: boolean } }> {
 	const res = await fetch(`${env.baseUrl}/mcp`, {
 		method: "POST",
 		headers: {
-			...env.adminHeaders,
+			...headers,
 			Accept: "application/json, text/event-stream",
 		},
 		body: JSON.stringify({
@@ -936,7 +956,7 @@ async function mcpToolCall(
 
 	// The MCP endpoint may return SSE (text/event-stream) or plain JSON.
 	// Extract the JSON-RPC result from either format.
-	let parsed: { result?: { content: Array<{ text: string }> } };
+	let parsed: { result?: { content: Array<{ text: string }>; isError?: boolean } };
 	const jsonLine = text
 		.split("\n")
 		.map((l) => l.replace(/^data:\s*/, "").trim())
@@ -947,7 +967,7 @@ async function mcpToolCall(
 		parsed = JSON.parse(text);
 	}
 
-	return parsed as { result: { content: Array<{ text: string }> } };
+	return parsed as { result: { content: Array<{ text: string }>; isError?: boolean } };
 }
 
 describe("subtask bidirectional navigation", () => {
@@ -1222,3 +1242,1523 @@ describe("inactive milestone task filtering", () => {
 		expect(listReactivatedText).toContain("Task in inactive milestone");
 	});
 });
+
+describe("MCP — decisions", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("decision_create writes the provided sections in proposed status", async () => {
+		const body = await mcpToolCall(env, "decision_create", {
+			title: "Adopt Bun runtime",
+			context: "Node startup is slow for the CLI.",
+			decision: "Run the server on Bun.",
+		});
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("Decision created successfully.");
+		expect(text).toContain("Status: proposed");
+		expect(text).toContain("Run the server on Bun.");
+	});
+
+	test("decision_list filters by status", async () => {
+		const body = await mcpToolCall(env, "decision_list", { status: "accepted" });
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("decision-1 - Use TypeScript");
+		expect(text).not.toContain("Adopt Bun runtime");
+	});
+
+	test("decision_update rejects transitions outside the lifecycle", async () => {
+		const body = await mcpToolCall(env, "decision_update", { id: "decision-1", status: "proposed" });
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("Cannot change decision decision-1 from accepted to proposed");
+	});
+
+	test("decision_update requires supersededBy when superseding", async () => {
+		const body = await mcpToolCall(env, "decision_update", { id: "decision-1", status: "superseded" });
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("supersededBy is required");
+	});
+
+	test("decision_update supersedes an accepted decision and records the link", async () => {
+		const created = await mcpToolCall(env, "decision_create", { title: "Use TypeScript 6" });
+		const createdText = created.result.content[0]?.text ?? "";
+		const newId = createdText.match(/Decision (decision-\d+)/)?.[1];
+		expect(newId).toBeDefined();
+
+		await mcpToolCall(env, "decision_update", { id: newId, status: "accepted" });
+		const body = await mcpToolCall(env, "decision_update", {
+			id: "decision-1",
+			status: "superseded",
+			supersededBy: newId,
+		});
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("Status: superseded");
+		expect(text).toContain(`Superseded by: ${newId}`);
+
+		const files = await readdir(join(env.projectDir, "backlog", "decisions"));
+		const file = files.find((name) => name.startsWith("decision-1 -"));
+		const content = await readFile(join(env.projectDir, "backlog", "decisions", file ?? ""), "utf-8");
+		expect(content).toContain(`superseded_by: ${newId}`);
+	});
+
+	test("decision_search finds decisions by content", async () => {
+		const body = await mcpToolCall(env, "decision_search", { query: "TypeScript" });
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("decision-1");
+	});
+});
+
+describe("MCP — drafts", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	function extractId(text: string, prefix: string): string | undefined {
+		return text.match(new RegExp(`${prefix}-\\d+`, "i"))?.[0];
+	}
+
+	test("draft_create, draft_edit and draft_view round-trip a draft", async () => {
+		const created = await mcpToolCall(env, "draft_create", { title: "Parked idea", labels: ["idea"] });
+		const draftId = extractId(created.result.content[0]?.text ?? "", "draft");
+		expect(draftId).toBeDefined();
+
+		await mcpToolCall(env, "draft_edit", { id: draftId, description: "Needs more thought" });
+
+		const viewed = await mcpToolCall(env, "draft_view", { id: draftId });
+		const text = viewed.result.content[0]?.text ?? "";
+		expect(text).toContain("Parked idea");
+		expect(text).toContain("Needs more thought");
+
+		const listed = await mcpToolCall(env, "draft_list", { labels: ["idea"] });
+		expect(listed.result.content[0]?.text).toContain("Parked idea");
+	});
+
+	test("draft_view rejects regular task IDs", async () => {
+		const body = await mcpToolCall(env, "draft_view", { id: "task-1" });
+		expect(body.result.content[0]?.text).toContain("Draft not found: task-1");
+	});
+
+	test("draft_promote turns a draft into a task with the default status", async () => {
+		const created = await mcpToolCall(env, "draft_create", { title: "Promote me" });
+		const draftId = extractId(created.result.content[0]?.text ?? "", "draft");
+
+		const promoted = await mcpToolCall(env, "draft_promote", { id: draftId });
+		const text = promoted.result.content[0]?.text ?? "";
+		expect(text).toContain(`Promoted draft ${draftId}`);
+
+		const res = await fetch(`${env.baseUrl}/api/tasks`, { headers: env.adminHeaders });
+		const tasks = await res.json();
+		const task = tasks.find((t: { title: string }) => t.title === "Promote me");
+		expect(task).toBeDefined();
+		expect(task.status).toBe("To Do");
+
+		const drafts = await mcpToolCall(env, "draft_list", {});
+		expect(drafts.result.content[0]?.text).not.toContain("Promote me");
+	});
+
+	test("task_demote and draft_archive remove the item from the board", async () => {
+		const demoted = await mcpToolCall(env, "task_demote", { id: "task-2" });
+		const draftId = extractId(demoted.result.content[0]?.text ?? "", "draft");
+		expect(draftId).toBeDefined();
+
+		const archived = await mcpToolCall(env, "draft_archive", { id: draftId });
+		expect(archived.result.content[0]?.text).toContain(`Archived draft ${draftId}`);
+
+		const drafts = await mcpToolCall(env, "draft_list", {});
+		expect(drafts.result.content[0]?.text).not.toContain(draftId ?? "");
+	});
+});
+
+describe("MCP — acceptance criteria", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("task_create and task_edit manage a checkable criteria list", async () => {
+		const created = await mcpToolCall(env, "task_create", {
+			title: "Checklist task",
+			acceptanceCriteria: ["Parses input", "Writes output", "Logs errors"],
+		});
+		const taskId = created.result.content[0]?.text.match(/task-\d+/i)?.[0];
+		expect(taskId).toBeDefined();
+
+		await mcpToolCall(env, "task_edit", { id: taskId, acceptanceCriteriaCheck: [1], acceptanceCriteriaRemove: [3] });
+
+		const viewed = await mcpToolCall(env, "task_view", { id: taskId });
+		const text = viewed.result.content[0]?.text ?? "";
+		expect(text).toContain("Acceptance Criteria (1/2):");
+		expect(text).toContain("- [x] #1 Parses input");
+		expect(text).toContain("- [ ] #2 Writes output");
+		expect(text).not.toContain("Logs errors");
+
+		const res = await fetch(`${env.baseUrl}/api/tasks/${taskId}`, { headers: env.adminHeaders });
+		const task = await res.json();
+		expect(task.acceptanceCriteriaItems).toEqual([
+			{ index: 1, text: "Parses input", checked: true },
+			{ index: 2, text: "Writes output", checked: false },
+		]);
+	});
+
+	test("task_edit rejects unknown criterion indexes", async () => {
+		const body = await mcpToolCall(env, "task_edit", { id: "task-1", acceptanceCriteriaCheck: [9] });
+		expect(body.result.content[0]?.text).toContain("Acceptance criterion #9 does not exist");
+	});
+});
+
+describe("task comments", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("task_comment appends a comment authored by the authenticated user", async () => {
+		const body = await mcpToolCall(env, "task_comment", { id: "task-1", body: "Started looking at this." });
+		expect(body.result.content[0]?.text).toContain("Added comment #1 to TASK-1");
+
+		const viewed = await mcpToolCall(env, "task_view", { id: "task-1" });
+		const text = viewed.result.content[0]?.text ?? "";
+		expect(text).toContain("Comments (1):");
+		expect(text).toContain("Admin User ·");
+		expect(text).toContain("Started looking at this.");
+	});
+
+	test("POST /api/tasks/:id/comments appends to the thread without touching other sections", async () => {
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-1/comments`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ body: "## Heads up\n\nThis touches the parser.", author: "Someone" }),
+		});
+		expect(res.status).toBe(201);
+		const task = await res.json();
+		expect(task.comments).toHaveLength(2);
+		expect(task.comments[0].body).toBe("Started looking at this.");
+		expect(task.comments[1].body).toBe("## Heads up\n\nThis touches the parser.");
+		expect(task.description).toBeTruthy();
+
+		await mcpToolCall(env, "task_edit", { id: "task-1", planSet: "1. Read the parser" });
+		const refreshed = await (await fetch(`${env.baseUrl}/api/tasks/task-1`, { headers: env.adminHeaders })).json();
+		expect(refreshed.comments).toHaveLength(2);
+		expect(refreshed.implementationPlan).toBe("1. Read the parser");
+	});
+
+	test("POST /api/tasks/:id/comments rejects empty bodies", async () => {
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-1/comments`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ body: "   " }),
+		});
+		expect(res.status).toBe(400);
+	});
+
+	test("POST /api/tasks/:id/comments rejects bodies that would cut the thread short", async () => {
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-1/comments`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ body: "see template:\n<!-- COMMENT:END -->\nrest of note" }),
+		});
+		expect(res.status).toBe(400);
+		expect((await res.json()).error).toBe(
+			"Comment body cannot contain <!-- COMMENT: --> or <!-- SECTION: --> markers.",
+		);
+		const task = await (await fetch(`${env.baseUrl}/api/tasks/task-1`, { headers: env.adminHeaders })).json();
+		expect(task.comments).toHaveLength(2);
+	});
+});
+
+describe("task history", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("GET /api/tasks/:id/history lists field-level changes from git, newest first", async () => {
+		await fetch(`${env.baseUrl}/api/tasks/task-1`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ status: "In Progress", labels: ["history"] }),
+		});
+
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-1/history`, { headers: env.adminHeaders });
+		expect(res.status).toBe(200);
+		const history = await res.json();
+		expect(history.length).toBeGreaterThanOrEqual(2);
+
+		const latest = history[0];
+		expect(latest.commit).toMatch(/^[0-9a-f]{40}$/);
+		const summaries = latest.changes.map((change: { summary: string }) => change.summary);
+		expect(summaries).toContain("status: To Do → In Progress");
+		expect(summaries).toContain("label added: history");
+
+		const oldest = history[history.length - 1];
+		expect(oldest.changes[0].field).toBe("created");
+	});
+
+	test("task_history renders the same history as text", async () => {
+		const body = await mcpToolCall(env, "task_history", { id: "task-1", limit: 1 });
+		const text = body.result.content[0]?.text ?? "";
+		expect(text).toContain("History for TASK-1 (1 change):");
+		expect(text).toContain("- status: To Do → In Progress");
+	});
+
+	test("GET /api/tasks/:id/history returns 404 for unknown tasks", async () => {
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-999/history`, { headers: env.adminHeaders });
+		expect(res.status).toBe(404);
+	});
+});
+
+describe("webhooks", () => {
+	let env: TestEnv;
+	let receiver: ReturnType<typeof Bun.serve>;
+	const received: Array<{ event: string | null; signature: string | null; body: string }> = [];
+
+	beforeAll(async () => {
+		receiver = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				received.push({
+					event: req.headers.get("X-Backlog-Event"),
+					signature: req.headers.get("X-Backlog-Signature"),
+					body: await req.text(),
+				});
+				return new Response(null, { status: 204 });
+			},
+		});
+		process.env.BACKLOG_TEST_HOOK_SECRET = "hook-secret";
+		env = await startTestEnv();
+		await fetch(`${env.baseUrl}/api/config`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({
+				webhooks: [
+					{
+						url: `http://localhost:${receiver.port}/hook`,
+						secretEnv: "BACKLOG_TEST_HOOK_SECRET",
+						events: ["task.status_changed"],
+					},
+				],
+			}),
+		});
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+		receiver.stop(true);
+		delete process.env.BACKLOG_TEST_HOOK_SECRET;
+	});
+
+	test("status changes are delivered signed and recorded in the delivery log", async () => {
+		await fetch(`${env.baseUrl}/api/tasks/task-1`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ status: "In Progress" }),
+		});
+
+		for (let i = 0; i < 50 && received.length === 0; i++) {
+			await Bun.sleep(20);
+		}
+		expect(received).toHaveLength(1);
+		const [delivery] = received;
+		expect(delivery?.event).toBe("task.status_changed");
+		expect(delivery?.signature).toBe(signWebhookPayload(delivery?.body ?? "", "hook-secret"));
+		const payload = JSON.parse(delivery?.body ?? "{}");
+		expect(payload.data.from).toBe("To Do");
+		expect(payload.data.to).toBe("In Progress");
+		expect(payload.data.task.id).toBe("TASK-1");
+
+		const res = await fetch(`${env.baseUrl}/api/webhooks/deliveries`, { headers: env.adminHeaders });
+		expect(res.status).toBe(200);
+		const log = await res.json();
+		expect(log[0].event).toBe("task.status_changed");
+		expect(log[0].status).toBe("delivered");
+	});
+
+	test("webhook secrets stay out of the committed config", async () => {
+		const config = await fetch(`${env.baseUrl}/api/config`, { headers: env.viewerHeaders }).then((r) => r.json());
+		expect(config.webhooks).toEqual([
+			{
+				url: `http://localhost:${receiver.port}/hook`,
+				secretEnv: "BACKLOG_TEST_HOOK_SECRET",
+				events: ["task.status_changed"],
+			},
+		]);
+		expect(await Bun.file(join(env.projectDir, "backlog", "config.yml")).text()).not.toContain("hook-secret");
+
+		const put = await fetch(`${env.baseUrl}/api/config`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ webhooks: [{ url: "http://localhost/hook", secret: "plain-text" }] }),
+		});
+		expect(put.status).toBe(400);
+		expect(await Bun.file(join(env.projectDir, "backlog", "config.yml")).text()).not.toContain("plain-text");
+	});
+});
+
+describe("event stream", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	async function readSseUntil(res: Response, predicate: (event: BacklogEvent) => boolean): Promise<BacklogEvent[]> {
+		const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+		const decoder = new TextDecoder();
+		const events: BacklogEvent[] = [];
+		let buffer = "";
+		// Cancelling the reader ends a pending read, so a missing event fails the assertion instead of hanging
+		const timeout = setTimeout(() => void reader.cancel(), 4000);
+		try {
+			while (true) {
+				const { value, done } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				const frames = buffer.split("\n\n");
+				buffer = frames.pop() ?? "";
+				for (const frame of frames) {
+					const data = frame.split("\n").find((line) => line.startsWith("data: "));
+					if (!data) continue;
+					const event = JSON.parse(data.slice("data: ".length)) as BacklogEvent;
+					events.push(event);
+					if (predicate(event)) return events;
+				}
+			}
+			return events;
+		} finally {
+			clearTimeout(timeout);
+			await reader.cancel();
+		}
+	}
+
+	test("GET /api/events streams typed task events", async () => {
+		const res = await fetch(`${env.baseUrl}/api/events`, { headers: env.adminHeaders });
+		expect(res.status).toBe(200);
+		expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+		await fetch(`${env.baseUrl}/api/tasks/task-1`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ priority: "high" }),
+		});
+
+		const events = await readSseUntil(res, (event) => event.type === "task.updated" && event.id === "TASK-1");
+		const updated = events.find((event) => event.type === "task.updated");
+		expect(updated?.type === "task.updated" && updated.fields).toContain("priority");
+		expect(updated?.type === "task.updated" && updated.task.priority).toBe("high");
+	});
+
+	test("resuming with Last-Event-ID replays missed events", async () => {
+		const res = await fetch(`${env.baseUrl}/api/events`, {
+			headers: { ...env.adminHeaders, "Last-Event-ID": "0" },
+		});
+		const events = await readSseUntil(res, (event) => event.type === "task.updated");
+		expect(events[0]?.seq).toBe(1);
+		expect(events.some((event) => event.type === "task.updated")).toBe(true);
+	});
+
+	test("WebSocket clients receive JSON events and can resume with ?since=", async () => {
+		const ws = new WebSocket(`ws://localhost:${env.port}/?since=0`);
+		const first = await new Promise<BacklogEvent>((resolve, reject) => {
+			ws.onmessage = (message) => resolve(JSON.parse(message.data as string) as BacklogEvent);
+			ws.onerror = () => reject(new Error("WebSocket error"));
+			setTimeout(() => reject(new Error("Timed out waiting for events")), 5000);
+		});
+		ws.close();
+		expect(first.seq).toBe(1);
+	});
+});
+
+describe("write attribution", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("MCP writes record the authenticated user as reporter, updatedBy and git author", async () => {
+		const created = await mcpToolCall(env, "task_create", { title: "Attributed task" });
+		const taskId = created.result.content[0]?.text.match(/task-\d+/i)?.[0];
+		expect(taskId).toBeDefined();
+
+		await mcpToolCall(env, "task_edit", { id: taskId, status: "In Progress" });
+
+		const res = await fetch(`${env.baseUrl}/api/tasks/${taskId}`, { headers: env.adminHeaders });
+		const task = await res.json();
+		expect(task.reporter).toBe("Admin User");
+		expect(task.updatedBy).toBe("Admin User");
+
+		const file = await readFile(task.filePath, "utf-8");
+		expect(file).toContain("updated_by: Admin User");
+
+		const author = await $`git -C ${env.projectDir} log -1 --format=%an`.quiet();
+		expect(author.stdout.toString().trim()).toBe("Admin User");
+	});
+});
+
+describe("roles and permissions", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	async function listToolNames(headers: HeadersInit): Promise<string[]> {
+		const res = await fetch(`${env.baseUrl}/mcp`, {
+			method: "POST",
+			headers: { ...headers, Accept: "application/json, text/event-stream" },
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list", params: {} }),
+		});
+		const text = await res.text();
+		const json = text
+			.split("\n")
+			.map((l) => l.replace(/^data:\s*/, "").trim())
+			.find((l) => l.startsWith("{"));
+		const body = JSON.parse(json ?? text) as { result: { tools: Array<{ name: string }> } };
+		return body.result.tools.map((tool) => tool.name);
+	}
+
+	test("contributors can write tasks and documents but not milestones", async () => {
+		const names = await listToolNames(env.contributorHeaders);
+		expect(names).toContain("task_create");
+		expect(names).toContain("document_create");
+		expect(names).not.toContain("milestone_archive");
+
+		const created = await mcpToolCall(env, "task_create", { title: "Contributor task" }, env.contributorHeaders);
+		expect(created.result.isError).toBeFalsy();
+
+		const denied = await mcpToolCall(env, "milestone_archive", { name: "v1" }, env.contributorHeaders);
+		expect(denied.result.isError).toBe(true);
+		expect(denied.result.content[0]?.text).toBe('Missing permission "milestones:write" to call milestone_archive');
+	});
+
+	test("agents can only write tasks assigned to them", async () => {
+		const names = await listToolNames(env.agentHeaders);
+		expect(names).toContain("task_edit");
+		expect(names).toContain("task_take");
+		expect(names).not.toContain("task_create");
+
+		const create = await mcpToolCall(env, "task_create", { title: "Agent task" }, env.agentHeaders);
+		expect(create.result.content[0]?.text).toBe('Missing permission "tasks:write" to call task_create');
+
+		// task-2 is assigned to someone else
+		const editOther = await mcpToolCall(env, "task_edit", { id: "task-2", priority: "low" }, env.agentHeaders);
+		expect(editOther.result.isError).toBe(true);
+		expect(editOther.result.content[0]?.text).toBe('Missing permission "tasks:write" to call task_edit');
+
+		// task-1 is unassigned, so the agent may claim it and then edit it
+		const take = await mcpToolCall(env, "task_take", { id: "task-1" }, env.agentHeaders);
+		expect(take.result.isError).toBeFalsy();
+		const edit = await mcpToolCall(env, "task_edit", { id: "task-1", priority: "high" }, env.agentHeaders);
+		expect(edit.result.isError).toBeFalsy();
+
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-1`, { headers: env.adminHeaders });
+		const task = await res.json();
+		expect(task.assignee).toContain("Agent Bot");
+		expect(task.priority).toBe("high");
+	});
+});
+
+describe("time tracking", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("estimates and logged time are stored on the task and rolled up", async () => {
+		const created = await mcpToolCall(env, "task_create", { title: "Estimated task", estimate: 3 });
+		const taskId = created.result.content[0]?.text.match(/task-\d+/i)?.[0];
+		expect(taskId).toBeDefined();
+
+		const logged = await mcpToolCall(env, "task_log_time", { id: taskId, hours: 1.5, note: "spike" });
+		expect(logged.result.content[0]?.text).toStartWith(`Logged 1.5h on ${taskId}. Total logged: 1.5h (estimate: 3).`);
+
+		const res = await fetch(`${env.baseUrl}/api/tasks/${taskId}/time-entries`, {
+			method: "POST",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ hours: 2, date: "2026-01-05" }),
+		});
+		expect(res.status).toBe(201);
+		const task = await res.json();
+		expect(task.estimate).toBe(3);
+		expect(task.timeEntries).toHaveLength(2);
+		expect(task.timeEntries[1]).toEqual({ date: "2026-01-05", hours: 2 });
+
+		const file = await readFile(task.filePath, "utf-8");
+		expect(file).toContain("estimate: 3");
+		expect(file).toContain("time_entries:");
+
+		const invalid = await fetch(`${env.baseUrl}/api/tasks/${taskId}/time-entries`, {
+			method: "POST",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ hours: -1 }),
+		});
+		expect(invalid.status).toBe(400);
+
+		const stats = await (await fetch(`${env.baseUrl}/api/statistics`, { headers: env.adminHeaders })).json();
+		expect(stats.effort.estimated).toBe(3);
+		expect(stats.effort.logged).toBe(3.5);
+		expect(stats.effort.completed).toBe(0);
+	});
+});
+
+describe("statistics timeseries", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("GET /api/statistics/timeseries reports daily status counts and a milestone burndown", async () => {
+		const created = await mcpToolCall(env, "task_create", { title: "Release task", milestone: "m-0", estimate: 5 });
+		const taskId = created.result.content[0]?.text.match(/task-\d+/i)?.[0];
+		expect(taskId).toBeDefined();
+		await mcpToolCall(env, "task_edit", { id: taskId, status: "Done" });
+
+		const res = await fetch(`${env.baseUrl}/api/statistics/timeseries`, { headers: env.adminHeaders });
+		expect(res.status).toBe(200);
+		const series = await res.json();
+		expect(series.statuses).toEqual(expect.arrayContaining(["To Do", "In Progress", "Done"]));
+		const today = series.points.at(-1);
+		expect(today.date).toBe(series.to);
+		expect(today.statusCounts.Done).toBeGreaterThanOrEqual(1);
+		expect(today.total).toBe(Object.values(today.statusCounts as Record<string, number>).reduce((a, b) => a + b, 0));
+
+		const burndown = await (
+			await fetch(`${env.baseUrl}/api/statistics/timeseries?milestone=Release%201.0`, { headers: env.adminHeaders })
+		).json();
+		expect(burndown.milestone).toBe("m-0");
+		expect(burndown.points.at(-1)).toMatchObject({ total: 1, remaining: 0, remainingEffort: 0 });
+
+		const invalid = await fetch(`${env.baseUrl}/api/statistics/timeseries?from=yesterday`, {
+			headers: env.adminHeaders,
+		});
+		expect(invalid.status).toBe(400);
+	});
+});
+
+describe("flow analytics", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("GET /api/statistics/analytics reports lead time, cycle time and throughput from task history", async () => {
+		const created = await mcpToolCall(env, "task_create", {
+			title: "Measured task",
+			assignee: ["@carol"],
+			labels: ["analytics"],
+		});
+		const taskId = created.result.content[0]?.text.match(/task-\d+/i)?.[0];
+		await mcpToolCall(env, "task_edit", { id: taskId, status: "In Progress" });
+		await mcpToolCall(env, "task_edit", { id: taskId, status: "Done" });
+
+		const res = await fetch(`${env.baseUrl}/api/statistics/analytics`, { headers: env.adminHeaders });
+		expect(res.status).toBe(200);
+		const analytics = await res.json();
+		expect(analytics.overall.completed).toBeGreaterThanOrEqual(1);
+		expect(analytics.byAssignee.carol).toMatchObject({ completed: 1, leadTime: { count: 1 }, cycleTime: { count: 1 } });
+		expect(analytics.byLabel.analytics.completed).toBe(1);
+		expect(analytics.throughput).toHaveLength(8);
+		expect(analytics.throughput.at(-1).completed).toBeGreaterThanOrEqual(1);
+
+		const stats = await (await fetch(`${env.baseUrl}/api/statistics`, { headers: env.adminHeaders })).json();
+		expect(stats).not.toHaveProperty("analytics");
+	});
+});
+
+describe("due dates", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("tasks store start and due dates and milestones store a target date", async () => {
+		const created = await mcpToolCall(env, "task_create", {
+			title: "Scheduled task",
+			startDate: "2026-01-05",
+			dueDate: "2026-01-09",
+		});
+		const taskId = created.result.content[0]?.text.match(/task-\d+/i)?.[0];
+		expect(taskId).toBeDefined();
+		expect(created.result.content[0]?.text).toContain("Due: 2026-01-09 (overdue)");
+
+		const rescheduled = await fetch(`${env.baseUrl}/api/tasks/${taskId}`, {
+			method: "PUT",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ startDate: null, dueDate: "2099-12-31" }),
+		});
+		expect(rescheduled.status).toBe(200);
+		const task = await rescheduled.json();
+		expect(task.startDate).toBeUndefined();
+		expect(task.dueDate).toBe("2099-12-31");
+		const file = await readFile(task.filePath, "utf-8");
+		expect(file).toContain("due_date: '2099-12-31'");
+		expect(file).not.toContain("start_date");
+
+		const backwards = await fetch(`${env.baseUrl}/api/tasks/${taskId}`, {
+			method: "PUT",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ startDate: "2100-01-01" }),
+		});
+		expect(backwards.status).toBe(400);
+
+		const target = await mcpToolCall(env, "milestone_set_target_date", { name: "m-0", targetDate: "2026-06-30" });
+		expect(target.result.content[0]?.text).toBe('Milestone "Release 1.0" (m-0) target date set to 2026-06-30.');
+		const milestone = await (await fetch(`${env.baseUrl}/api/milestones/m-0`, { headers: env.adminHeaders })).json();
+		expect(milestone.targetDate).toBe("2026-06-30");
+
+		const cleared = await fetch(`${env.baseUrl}/api/milestones/m-0/target-date`, {
+			method: "PUT",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ targetDate: null }),
+		});
+		expect(cleared.status).toBe(200);
+		expect((await cleared.json()).milestone.targetDate).toBeUndefined();
+
+		const invalid = await fetch(`${env.baseUrl}/api/milestones/m-0/target-date`, {
+			method: "PUT",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ targetDate: "June" }),
+		});
+		expect(invalid.status).toBe(400);
+	});
+});
+
+describe("dependency graph", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	const createTask = async (body: Record<string, unknown>): Promise<string> => {
+		const res = await fetch(`${env.baseUrl}/api/tasks`, {
+			method: "POST",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ milestone: "m-0", ...body }),
+		});
+		expect(res.status).toBe(201);
+		return (await res.json()).id;
+	};
+
+	test("scopes sequences to a milestone, reports the critical path and resequences on move", async () => {
+		const design = await createTask({ title: "Design", estimate: 3 });
+		const build = await createTask({ title: "Build", dependencies: [design] });
+		const docs = await createTask({ title: "Docs" });
+
+		const res = await fetch(`${env.baseUrl}/api/sequences?milestone=Release%201.0`, { headers: env.adminHeaders });
+		expect(res.status).toBe(200);
+		const graph = await res.json();
+		expect(graph.sequences.map((s: { tasks: Task[] }) => s.tasks.map((t) => t.id))).toEqual([[design], [build]]);
+		expect(graph.unsequenced.map((t: Task) => t.id)).toEqual([docs]);
+		expect(graph.criticalPath).toEqual([design, build]);
+
+		const moved = await fetch(`${env.baseUrl}/api/sequences/move`, {
+			method: "POST",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ taskId: docs, targetSequenceIndex: 3, milestone: "m-0" }),
+		});
+		expect(moved.status).toBe(200);
+		const after = await moved.json();
+		expect(after.sequences.map((s: { tasks: Task[] }) => s.tasks.map((t) => t.id))).toEqual([
+			[design],
+			[build],
+			[docs],
+		]);
+		expect(after.criticalPath).toEqual([design, build, docs]);
+
+		const all = await (await fetch(`${env.baseUrl}/api/sequences`, { headers: env.adminHeaders })).json();
+		const allIds = [
+			...all.unsequenced.map((t: Task) => t.id),
+			...all.sequences.flatMap((s: { tasks: Task[] }) => s.tasks.map((t) => t.id)),
+		];
+		expect(allIds).toEqual(expect.arrayContaining(["TASK-1", "TASK-2", design, build, docs]));
+	});
+});
+
+describe("backlog validation", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("rejects dependency cycles on write and reports problems across the backlog", async () => {
+		const initial = await mcpToolCall(env, "backlog_validate", {});
+		expect(initial.result.content[0]?.text).toBe("No problems found in 2 tasks.");
+
+		const cyclic = await mcpToolCall(env, "task_edit", { id: "task-1", dependencies: ["task-2"] });
+		expect(cyclic.result.isError).toBe(true);
+		expect(cyclic.result.content[0]?.text).toContain("Dependency cycle: TASK-1 -> TASK-2 -> TASK-1");
+
+		const selfDependency = await fetch(`${env.baseUrl}/api/tasks/task-2`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ dependencies: ["task-1", "task-2"] }),
+		});
+		expect(selfDependency.status).toBe(400);
+
+		const moveAfterDependent = await fetch(`${env.baseUrl}/api/sequences/move`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ taskId: "TASK-1", targetSequenceIndex: 3 }),
+		});
+		expect(moveAfterDependent.status).toBe(400);
+		expect((await moveAfterDependent.json()).error).toContain("Dependency cycle: TASK-1 -> TASK-2 -> TASK-1");
+
+		const orphanPath = join(env.projectDir, "backlog", "tasks", "task-1", "task-1.5 - Orphan.md");
+		await writeFile(
+			orphanPath,
+			"---\nid: task-1.5\ntitle: Orphan\nstatus: Blocked\nparent_task_id: task-7\nmilestone: Someday\ndependencies:\n  - task-1\n  - task-8\n---\n",
+		);
+		await mcpToolCall(env, "backlog_sync", {});
+
+		const res = await fetch(`${env.baseUrl}/api/validate`, { headers: env.viewerHeaders });
+		expect(res.status).toBe(200);
+		const report = await res.json();
+		expect(report.valid).toBe(false);
+		expect(report.issues.map((issue: { kind: string }) => issue.kind)).toEqual([
+			"dangling-dependency",
+			"missing-parent",
+			"unknown-status",
+			"unknown-milestone",
+		]);
+
+		const text = (await mcpToolCall(env, "backlog_validate", {})).result.content[0]?.text;
+		expect(text).toStartWith("Found 4 problems in 3 tasks:");
+		expect(text).toContain("[missing-parent] TASK-1.5 has parent TASK-7, which does not exist");
+	});
+});
+
+describe("dependency policy", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	const setPolicy = async (dependencyPolicy: string) => {
+		const res = await fetch(`${env.baseUrl}/api/config`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ dependencyPolicy }),
+		});
+		expect(res.status).toBe(200);
+	};
+
+	const listIds = async (query: string): Promise<string[]> => {
+		const res = await fetch(`${env.baseUrl}/api/tasks?${query}`, { headers: env.adminHeaders });
+		return (await res.json()).map((task: Task) => task.id);
+	};
+
+	test("refuses or marks started tasks with open dependencies and filters ready tasks", async () => {
+		const created = await fetch(`${env.baseUrl}/api/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ title: "Follow-up", dependencies: ["task-1"] }),
+		});
+		const followUp = (await created.json()).id;
+
+		expect(await listIds("ready=true")).toEqual(["TASK-1"]);
+		expect(await listIds("ready=false")).toEqual(["TASK-2", followUp]);
+		const readyList = await mcpToolCall(env, "task_list", { ready: true });
+		expect(readyList.result.content[0]?.text).toContain("TASK-1 - Initial Task");
+		expect(readyList.result.content[0]?.text).not.toContain("Follow-up");
+
+		await setPolicy("refuse");
+		const refused = await fetch(`${env.baseUrl}/api/tasks/${followUp}`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ status: "In Progress" }),
+		});
+		expect(refused.status).toBe(400);
+		expect((await refused.json()).error).toBe(`${followUp} is blocked by unfinished dependencies: TASK-1 (To Do).`);
+
+		await setPolicy("mark");
+		const moved = await mcpToolCall(env, "task_move", { id: followUp, status: "In Progress" });
+		expect(moved.result.content[0]?.text).toContain("\nOpen blockers: TASK-1 (To Do)");
+		let task = await (await fetch(`${env.baseUrl}/api/tasks/${followUp}`, { headers: env.adminHeaders })).json();
+		expect(task.status).toBe("In Progress");
+		expect(task.labels).toEqual(["blocked"]);
+
+		const taken = await mcpToolCall(env, "task_take", { id: followUp });
+		expect(taken.result.content[0]?.text).toContain("\nOpen blockers: TASK-1 (To Do)");
+
+		await fetch(`${env.baseUrl}/api/tasks/task-1`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ status: "Done" }),
+		});
+		task = await (await fetch(`${env.baseUrl}/api/tasks/${followUp}`, { headers: env.adminHeaders })).json();
+		expect(task.labels).toEqual([]);
+		expect(await listIds("ready=true")).toEqual(["TASK-2", followUp]);
+	});
+
+	test("applies the policy to tasks dragged into a started column on the board", async () => {
+		const created = await fetch(`${env.baseUrl}/api/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ title: "Dragged", dependencies: ["task-2"] }),
+		});
+		const dragged = (await created.json()).id;
+		const drag = () =>
+			fetch(`${env.baseUrl}/api/tasks/reorder`, {
+				method: "POST",
+				headers: env.adminHeaders,
+				body: JSON.stringify({ taskId: dragged, targetStatus: "In Progress", orderedTaskIds: [dragged] }),
+			});
+
+		await setPolicy("refuse");
+		const refused = await drag();
+		expect(refused.status).toBe(400);
+		expect((await refused.json()).error).toBe(
+			`${dragged} is blocked by unfinished dependencies: TASK-2 (In Progress).`,
+		);
+		let task = await (await fetch(`${env.baseUrl}/api/tasks/${dragged}`, { headers: env.adminHeaders })).json();
+		expect(task.status).toBe("To Do");
+
+		await setPolicy("mark");
+		const marked = await drag();
+		expect(marked.status).toBe(200);
+		task = await (await fetch(`${env.baseUrl}/api/tasks/${dragged}`, { headers: env.adminHeaders })).json();
+		expect(task.status).toBe("In Progress");
+		expect(task.labels).toEqual(["blocked"]);
+	});
+});
+
+describe("task_next", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	const next = async (query = "") => {
+		const res = await fetch(`${env.baseUrl}/api/tasks/next${query}`, { headers: env.adminHeaders });
+		return await res.json();
+	};
+
+	test("recommends ready tasks by skill and claims them for the caller", async () => {
+		const created = await fetch(`${env.baseUrl}/api/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ title: "Feature work", labels: ["feature"] }),
+		});
+		const featureId = (await created.json()).id;
+
+		// TASK-2 is already in progress, so TASK-1 wins for someone without skills
+		let body = await next();
+		expect(body.task.id).toBe("TASK-1");
+		expect(body.reasons).toContain("unblocks 1 task");
+		body = await next("?skills=feature");
+		expect(body.task.id).toBe(featureId);
+		expect(body.reasons[0]).toBe("matches your skills: feature");
+
+		// The agent declares the feature skill in users.md
+		const claimed = await mcpToolCall(env, "task_next", { claim: true }, env.agentHeaders);
+		expect(claimed.result.isError).toBeFalsy();
+		expect(claimed.result.content[0]?.text).toStartWith(`Assigned ${featureId} to Agent Bot.\nClaimed until `);
+		expect(claimed.result.content[0]?.text).toContain("\nRecommended because: matches your skills: feature");
+		const task = await (await fetch(`${env.baseUrl}/api/tasks/${featureId}`, { headers: env.adminHeaders })).json();
+		expect(task.assignee).toEqual(["Agent Bot"]);
+
+		// Nobody else is offered the claimed task; the agent is until they start it
+		expect((await next("?skills=feature&assignee=Someone")).task.id).toBe("TASK-1");
+		const again = await mcpToolCall(env, "task_next", {}, env.agentHeaders);
+		expect(again.result.content[0]?.text).toStartWith("Recommended because: already assigned to you");
+
+		let res = await fetch(`${env.baseUrl}/api/tasks/next`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ assignee: "Someone", milestone: "m-0" }),
+		});
+		expect(await res.json()).toEqual({ task: null, reasons: [] });
+		res = await fetch(`${env.baseUrl}/api/tasks/next`, { method: "POST", headers: env.adminHeaders, body: "{}" });
+		expect(res.status).toBe(400);
+		for (const ttlMinutes of [0, 24 * 60 + 1, "10"]) {
+			res = await fetch(`${env.baseUrl}/api/tasks/next`, {
+				method: "POST",
+				headers: env.adminHeaders,
+				body: JSON.stringify({ assignee: "Someone", ttlMinutes }),
+			});
+			expect(res.status).toBe(400);
+		}
+		res = await fetch(`${env.baseUrl}/api/tasks/next`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ assignee: "Someone", ttlMinutes: 5 }),
+		});
+		const { lease } = await res.json();
+		expect(Date.parse(lease.expiresAt) - Date.now()).toBeLessThanOrEqual(5 * 60_000);
+
+		const viewer = await mcpToolCall(env, "task_next", { claim: true }, env.viewerHeaders);
+		expect(viewer.result.isError).toBe(true);
+	});
+});
+
+describe("task leases", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	const listLeases = async () => {
+		const res = await fetch(`${env.baseUrl}/api/leases`, { headers: env.adminHeaders });
+		return (await res.json()) as Array<{ taskId: string; holder: string; expiresAt: string }>;
+	};
+
+	test("a claimed task rejects other claimers until it is released", async () => {
+		const taken = await mcpToolCall(env, "task_take", { id: "task-1" }, env.agentHeaders);
+		expect(taken.result.isError).toBeFalsy();
+		expect(taken.result.content[0]?.text).toStartWith("Claimed until ");
+		expect((await listLeases()).map(({ taskId, holder }) => ({ taskId, holder }))).toEqual([
+			{ taskId: "TASK-1", holder: "Agent Bot" },
+		]);
+
+		const stolen = await mcpToolCall(env, "task_take", { id: "task-1" }, env.contributorHeaders);
+		expect(stolen.result.isError).toBe(true);
+		expect(stolen.result.content[0]?.text).toStartWith("TASK-1 is claimed by Agent Bot until ");
+		const moved = await mcpToolCall(env, "task_move", { id: "task-1", status: "In Progress" }, env.contributorHeaders);
+		expect(moved.result.isError).toBe(true);
+
+		const before = (await listLeases())[0]?.expiresAt ?? "";
+		const heartbeat = await mcpToolCall(env, "task_heartbeat", { id: "task-1", ttlMinutes: 120 }, env.agentHeaders);
+		expect(heartbeat.result.content[0]?.text).toStartWith("Claim on TASK-1 extended until ");
+		expect(((await listLeases())[0]?.expiresAt ?? "") > before).toBe(true);
+		const foreignHeartbeat = await mcpToolCall(env, "task_heartbeat", { id: "task-1" }, env.contributorHeaders);
+		expect(foreignHeartbeat.result.isError).toBe(true);
+
+		const released = await mcpToolCall(env, "task_release", { id: "task-1" }, env.agentHeaders);
+		expect(released.result.content[0]?.text).toBe("Released your claim on TASK-1.");
+		expect(await listLeases()).toEqual([]);
+
+		const retaken = await mcpToolCall(env, "task_take", { id: "task-1" }, env.contributorHeaders);
+		expect(retaken.result.isError).toBeFalsy();
+		expect((await listLeases())[0]?.holder).toBe("Contributor User");
+	});
+});
+
+describe("task versions", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("a write based on a stale version is rejected with the current task", async () => {
+		const read = await fetch(`${env.baseUrl}/api/tasks/task-1`, { headers: env.adminHeaders });
+		const original = (await read.json()) as { version: string };
+		expect(original.version).toMatch(/^[0-9a-f]{16}$/);
+		expect(read.headers.get("ETag")).toBe(`"${original.version}"`);
+
+		const contributorEdit = await mcpToolCall(
+			env,
+			"task_edit",
+			{ id: "task-1", planSet: "Contributor plan", expectedVersion: original.version },
+			env.contributorHeaders,
+		);
+		expect(contributorEdit.result.isError).toBeFalsy();
+		const newVersion = contributorEdit.result.content[0]?.text.match(/Version: (\w+)/)?.[1];
+		expect(newVersion).toBeDefined();
+		expect(newVersion).not.toBe(original.version);
+
+		const stale = await fetch(`${env.baseUrl}/api/tasks/task-1`, {
+			method: "PUT",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json", "If-Match": `"${original.version}"` },
+			body: JSON.stringify({ implementationPlan: "Human plan" }),
+		});
+		expect(stale.status).toBe(409);
+		const conflict = (await stale.json()) as { task: { version: string; implementationPlan: string } };
+		expect(conflict.task.version).toBe(newVersion as string);
+		expect(conflict.task.implementationPlan).toBe("Contributor plan");
+
+		const staleContributor = await mcpToolCall(
+			env,
+			"task_edit",
+			{ id: "task-1", title: "Renamed", expectedVersion: original.version },
+			env.contributorHeaders,
+		);
+		expect(staleContributor.result.isError).toBe(true);
+		expect(staleContributor.result.content[0]?.text).toContain(`(current version ${newVersion})`);
+
+		const retried = await fetch(`${env.baseUrl}/api/tasks/task-1`, {
+			method: "PUT",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify({ implementationPlan: "Human plan", expectedVersion: newVersion }),
+		});
+		expect(retried.status).toBe(200);
+		expect(((await retried.json()) as { implementationPlan: string }).implementationPlan).toBe("Human plan");
+	});
+});
+
+describe("bulk edit", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	const bulkEdit = (body: unknown) =>
+		fetch(`${env.baseUrl}/api/tasks/bulk`, {
+			method: "POST",
+			headers: { ...env.adminHeaders, "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		});
+
+	test("applies one update to tasks selected by ID or filter", async () => {
+		const byIds = await bulkEdit({
+			ids: ["task-1", "task-2"],
+			update: { addLabels: ["bulk"], milestone: "m-0" },
+		});
+		expect(byIds.status).toBe(200);
+		const first = (await byIds.json()) as { updated: Array<{ id: string; labels: string[]; milestone?: string }> };
+		expect(first.updated.map((task) => task.id).sort()).toEqual(["TASK-1", "TASK-2"]);
+		expect(first.updated.every((task) => task.labels.includes("bulk") && task.milestone === "m-0")).toBe(true);
+
+		const repeated = (await (
+			await bulkEdit({ ids: ["task-1", "task-2"], update: { addLabels: ["bulk"] } })
+		).json()) as { updated: unknown[]; unchanged: string[] };
+		expect(repeated.updated).toHaveLength(0);
+		expect(repeated.unchanged.sort()).toEqual(["TASK-1", "TASK-2"]);
+
+		const byFilter = (await (
+			await bulkEdit({ filters: { status: "To Do" }, update: { assignee: ["@alice"] } })
+		).json()) as { updated: Array<{ id: string; assignee: string[] }> };
+		expect(byFilter.updated.map((task) => task.id)).toEqual(["TASK-1"]);
+		expect(byFilter.updated[0]?.assignee).toEqual(["@alice"]);
+
+		const mcp = await mcpToolCall(
+			env,
+			"task_bulk_edit",
+			{ ids: ["task-1", "task-2"], removeLabels: ["bulk"] },
+			env.contributorHeaders,
+		);
+		expect(mcp.result.isError).toBeFalsy();
+		expect(mcp.result.content[0]?.text).toContain("Updated 2 tasks: ");
+	});
+
+	test("rejects edits without a selection or into drafts", async () => {
+		const empty = await bulkEdit({ update: { priority: "high" } });
+		expect(empty.status).toBe(400);
+		expect(((await empty.json()) as { error: string }).error).toBe("Select the tasks to edit by ID or with a filter.");
+		const noLabels = await bulkEdit({ filters: { labels: [] }, update: { priority: "high" } });
+		expect(noLabels.status).toBe(400);
+		expect(((await noLabels.json()) as { error: string }).error).toBe(
+			"Select the tasks to edit by ID or with a filter.",
+		);
+
+		const draft = await bulkEdit({ ids: ["task-1"], update: { status: "Draft" } });
+		expect(draft.status).toBe(400);
+		expect(((await draft.json()) as { error: string }).error).toBe("Bulk edits cannot move tasks to drafts.");
+	});
+});
+
+describe("saved views", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("creates, runs, updates and deletes a view over REST", async () => {
+		const created = await fetch(`${env.baseUrl}/api/views`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ name: "Sprint triage", filters: { status: "to do" }, sort: "priority" }),
+		});
+		expect(created.status).toBe(201);
+		const view = (await created.json()) as { id: string; filters: { status?: string } };
+		expect(view.id).toBe("view-1");
+		expect(view.filters.status).toBe("To Do");
+
+		const files = await readdir(join(env.projectDir, "backlog", "views"));
+		expect(files).toEqual(["view-1 - Sprint-triage.md"]);
+
+		const duplicate = await fetch(`${env.baseUrl}/api/views`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ name: "sprint triage" }),
+		});
+		expect(duplicate.status).toBe(400);
+
+		const run = (await (
+			await fetch(`${env.baseUrl}/api/views/view-1/tasks`, { headers: env.viewerHeaders })
+		).json()) as {
+			tasks: Task[];
+		};
+		expect(run.tasks.map((task) => task.id)).toEqual(["TASK-1"]);
+
+		const updated = await fetch(`${env.baseUrl}/api/views/view-1`, {
+			method: "PUT",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ filters: { status: "In Progress" } }),
+		});
+		expect(updated.status).toBe(200);
+		const rerun = (await (
+			await fetch(`${env.baseUrl}/api/views/view-1/tasks`, { headers: env.viewerHeaders })
+		).json()) as {
+			tasks: Task[];
+		};
+		expect(rerun.tasks.map((task) => task.id)).toEqual(["TASK-2"]);
+
+		const deleted = await fetch(`${env.baseUrl}/api/views/view-1`, { method: "DELETE", headers: env.adminHeaders });
+		expect(deleted.status).toBe(200);
+		const missing = await fetch(`${env.baseUrl}/api/views/view-1`, { headers: env.viewerHeaders });
+		expect(missing.status).toBe(404);
+	});
+
+	test("view_run finds a view by name for agents", async () => {
+		await fetch(`${env.baseUrl}/api/views`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ name: "Work in flight", filters: { status: "In Progress" } }),
+		});
+
+		const mcp = await mcpToolCall(env, "view_run", { view: "work in flight" }, env.agentHeaders);
+		expect(mcp.result.isError).toBeFalsy();
+		const text = mcp.result.content[0]?.text ?? "";
+		expect(text).toContain("Work in flight (view-");
+		expect(text).toContain("TASK-2");
+		expect(text).not.toContain("TASK-1 ");
+
+		const missing = await mcpToolCall(env, "view_run", { view: "Nope" }, env.agentHeaders);
+		expect(missing.result.isError).toBe(true);
+	});
+});
+
+describe("query language search", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	const search = (q: string) =>
+		fetch(`${env.baseUrl}/api/search?${new URLSearchParams({ q })}`, { headers: env.viewerHeaders });
+
+	test("GET /api/search?q= evaluates fields, negation and OR", async () => {
+		const byStatus = (await (await search('status:"in progress" priority>=medium')).json()) as Array<{ task: Task }>;
+		expect(byStatus.map((result) => result.task.id)).toEqual(["TASK-2"]);
+
+		const negated = (await (await search("-label:feature has:description")).json()) as Array<{ task: Task }>;
+		expect(negated.map((result) => result.task.id)).toEqual(["TASK-1"]);
+
+		const either = (await (await search("label:feature OR priority:medium")).json()) as Array<{ task: Task }>;
+		expect(either.map((result) => result.task.id).sort()).toEqual(["TASK-1", "TASK-2"]);
+
+		const invalid = await search("priority:urgent");
+		expect(invalid.status).toBe(400);
+		expect(((await invalid.json()) as { error: string }).error).toContain('Invalid priority "urgent"');
+	});
+
+	test("GET /api/search?query= ranks full-text matches with highlights and snippets", async () => {
+		const res = await fetch(`${env.baseUrl}/api/search?${new URLSearchParams({ query: "strict mod" })}`, {
+			headers: env.viewerHeaders,
+		});
+		const results = (await res.json()) as Array<{ type: string; score: number; matches?: SearchMatch[] }>;
+		expect(results.map((result) => result.type)).toEqual(["decision"]);
+		expect(results[0]?.score).toBe(0);
+		const snippet = results[0]?.matches?.find((match) => match.key === "snippet");
+		expect(snippet?.value).toContain("strict mode");
+		expect(snippet?.indices).toHaveLength(2);
+
+		const phrase = await fetch(`${env.baseUrl}/api/search?${new URLSearchParams({ query: '"mode strict"' })}`, {
+			headers: env.viewerHeaders,
+		});
+		expect(await phrase.json()).toEqual([]);
+	});
+
+	test("task_search accepts the query language and resolves @me", async () => {
+		const mine = await mcpToolCall(env, "task_search", { query: "assignee:@me -status:Done" }, env.viewerHeaders);
+		expect(mine.result.isError).toBeFalsy();
+		expect(mine.result.content[0]?.text).toContain("TASK-2 - Second Task");
+		expect(mine.result.content[0]?.text).not.toContain("TASK-1");
+
+		const fuzzy = await mcpToolCall(env, "task_search", { query: "second (task" }, env.viewerHeaders);
+		expect(fuzzy.result.isError).toBeFalsy();
+		expect(fuzzy.result.content[0]?.text).toContain("TASK-2 - Second Task");
+	});
+
+	test("plain text that is not a valid query keeps the fuzzy search", async () => {
+		for (const [search, expected] of [
+			["Second (task", "TASK-2 - Second Task"],
+			['Initial "task', "TASK-1 - Initial Task"],
+		]) {
+			const listed = await mcpToolCall(env, "task_list", { search }, env.viewerHeaders);
+			expect(listed.result.isError).toBeFalsy();
+			expect(listed.result.content[0]?.text).toContain(expected);
+		}
+	});
+});
+
+describe("similar tasks", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv();
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("GET /api/tasks/:id/similar ranks other tasks by similarity", async () => {
+		const res = await fetch(`${env.baseUrl}/api/tasks/task-1/similar`, { headers: env.viewerHeaders });
+		expect(res.status).toBe(200);
+		const similar = (await res.json()) as Array<{ task: Task; score: number }>;
+		expect(similar.map((match) => match.task.id)).toEqual(["TASK-2"]);
+		expect(similar[0]?.score).toBeGreaterThan(0.3);
+		expect(similar[0]?.score).toBeLessThan(1);
+
+		const missing = await fetch(`${env.baseUrl}/api/tasks/task-99/similar`, { headers: env.viewerHeaders });
+		expect(missing.status).toBe(404);
+	});
+
+	test("creating a near-duplicate task warns about the open original", async () => {
+		const created = await mcpToolCall(env, "task_create", {
+			title: "Second task",
+			description: "Second task that depends on task-1.",
+		});
+		expect(created.result.isError).toBeFalsy();
+		expect(created.result.content[0]?.text).toContain("Task TASK-3 - Second task");
+		const text = created.result.content[1]?.text ?? "";
+		expect(text).toContain("Warning: this task may duplicate open tasks");
+		expect(text).toMatch(/TASK-2 - Second Task \(\d+% similar, In Progress\)/);
+
+		const res = await fetch(`${env.baseUrl}/api/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ title: "Initial task", description: "First task for integration testing" }),
+		});
+		expect(res.status).toBe(201);
+		expect(res.headers.get("X-Backlog-Possible-Duplicates")).toBe("TASK-1");
+
+		const unrelated = await mcpToolCall(env, "task_create", { title: "Upgrade the database driver" });
+		expect(unrelated.result.content).toHaveLength(1);
+
+		const byText = await mcpToolCall(env, "task_similar", { text: "initial task for integration" }, env.viewerHeaders);
+		expect(byText.result.content[0]?.text).toMatch(/^Tasks similar to the given text:\n {2}TASK-/);
+		const neither = await mcpToolCall(env, "task_similar", {});
+		expect(neither.result.isError).toBe(true);
+	});
+});
+
+const RELEASE_TEMPLATE_MD = `---
+id: template-1
+name: Release checklist
+title: "Release {{version}}"
+labels: [release]
+priority: high
+subtasks:
+  - "Tag {{version}}"
+  - Publish notes
+---
+
+## Description
+
+Ship version {{version}} on {{date}}.
+
+## Acceptance Criteria
+- [ ] Changelog for {{version}} is published
+`;
+
+const MILESTONE_TEMPLATE_MD = `---
+id: template-2
+name: Milestone retro
+title: "Retro for {{milestone}}"
+labels: [retro]
+recurrence:
+  every: milestone
+---
+
+## Description
+
+Look back on {{milestone}}.
+`;
+
+describe("task templates", () => {
+	let env: TestEnv;
+
+	beforeAll(async () => {
+		env = await startTestEnv(async (projectDir) => {
+			const templatesDir = join(projectDir, "backlog", "templates");
+			await mkdir(templatesDir, { recursive: true });
+			await writeFile(join(templatesDir, "template-1 - Release checklist.md"), RELEASE_TEMPLATE_MD);
+			await writeFile(join(templatesDir, "template-2 - Milestone retro.md"), MILESTONE_TEMPLATE_MD);
+		});
+	});
+
+	afterAll(async () => {
+		await stopTestEnv(env);
+	});
+
+	test("the server creates a milestone template's task for each active milestone once", async () => {
+		let retros: Task[] = [];
+		for (let attempt = 0; attempt < 50 && retros.length === 0; attempt++) {
+			const res = await fetch(`${env.baseUrl}/api/tasks`, { headers: env.adminHeaders });
+			retros = ((await res.json()) as Task[]).filter((task) => task.title === "Retro for Release 1.0");
+			if (retros.length === 0) await Bun.sleep(100);
+		}
+		expect(retros).toHaveLength(1);
+		expect(retros[0]?.milestone).toBe("m-0");
+		expect(retros[0]?.labels).toEqual(["retro"]);
+	});
+
+	test("GET /api/templates lists templates and POST creates a task with its subtasks", async () => {
+		const list = await fetch(`${env.baseUrl}/api/templates`, { headers: env.viewerHeaders });
+		expect(((await list.json()) as Array<{ id: string }>).map((template) => template.id)).toEqual([
+			"template-1",
+			"template-2",
+		]);
+
+		const missingValue = await fetch(`${env.baseUrl}/api/templates/template-1/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({}),
+		});
+		expect(missingValue.status).toBe(400);
+		expect(((await missingValue.json()) as { error: string }).error).toBe(
+			'Template "Release checklist" needs a value for {{version}}.',
+		);
+
+		const res = await fetch(`${env.baseUrl}/api/templates/release checklist/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({ variables: { version: "2.0" }, assignee: ["@alice"] }),
+		});
+		expect(res.status).toBe(201);
+		const { task, subtasks } = (await res.json()) as { task: Task; subtasks: Task[] };
+		expect(task.title).toBe("Release 2.0");
+		expect(task.assignee).toEqual(["@alice"]);
+		expect(task.priority).toBe("high");
+		expect(task.description).toMatch(/^Ship version 2\.0 on \d{4}-\d{2}-\d{2}\.$/);
+		expect(task.acceptanceCriteriaItems?.map((criterion) => criterion.text)).toEqual([
+			"Changelog for 2.0 is published",
+		]);
+		expect(subtasks.map((subtask) => [subtask.title, subtask.parentTaskId])).toEqual([
+			["Tag 2.0", task.id],
+			["Publish notes", task.id],
+		]);
+
+		const missing = await fetch(`${env.baseUrl}/api/templates/template-9/tasks`, {
+			method: "POST",
+			headers: env.adminHeaders,
+			body: JSON.stringify({}),
+		});
+		expect(missing.status).toBe(404);
+	});
+
+	test("template_list and task_create_from_template work over MCP", async () => {
+		const list = await mcpToolCall(env, "template_list", {}, env.viewerHeaders);
+		const listText = list.result.content[0]?.text ?? "";
+		expect(listText).toContain("template-1 - Release checklist: Release {{version}} (variables: version, 2 subtasks)");
+		expect(listText).toContain("template-2 - Milestone retro: Retro for {{milestone}} (once per active milestone)");
+
+		const created = await mcpToolCall(env, "task_create_from_template", {
+			template: "template-1",
+			variables: { version: "3.0" },
+			milestone: "Release 1.0",
+		});
+		expect(created.result.isError).toBeFalsy();
+		expect(created.result.content[0]?.text).toMatch(/Task TASK-\d+ - Release 3\.0/);
+		expect(created.result.content[1]?.text).toMatch(/^Subtasks:\n {2}TASK-\d+\.1 - Tag 3\.0/);
+
+		const denied = await mcpToolCall(env, "task_create_from_template", { template: "template-1" }, env.viewerHeaders);
+		expect(denied.result.isError).toBe(true);
+	});
+});
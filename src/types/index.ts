@@ -19,6 +19,9 @@ export interface Task {
 	reporter?: string;
 	createdDate: string;
 	updatedDate?: string;
+	updatedBy?: string; // Name of the user or agent behind the most recent edit
+	startDate?: string; // YYYY-MM-DD, when work is planned to start
+	dueDate?: string; // YYYY-MM-DD, when the task is due
 	labels: string[];
 	milestone?: string;
 	dependencies: string[];
@@ -26,13 +29,17 @@ export interface Task {
 	documentation?: string[];
 	readonly rawContent?: string; // Raw markdown content without frontmatter (read-only: do not modify directly)
 	description?: string;
+	acceptanceCriteriaItems?: AcceptanceCriterion[];
 	implementationPlan?: string;
 	finalSummary?: string;
+	comments?: TaskComment[];
 	parentTaskId?: string;
 	parentTaskTitle?: string;
 	subtasks?: string[];
 	subtaskSummaries?: Array<{ id: string; title: string }>;
 	priority?: "high" | "medium" | "low";
+	estimate?: number; // Expected effort, in the project's estimate unit (hours or points)
+	timeEntries?: TimeEntry[];
 	branch?: string;
 	ordinal?: number;
 	filePath?: string;
@@ -41,6 +48,74 @@ export interface Task {
 	source?: "local" | "remote" | "completed" | "local-branch";
 	/** Optional per-task callback command to run on status change (overrides global config) */
 	onStatusChange?: string;
+	/** ID of the template the task was created from */
+	template?: string;
+	/** Run of a recurring template that created the task, e.g. "week:2026-W42" or "milestone:m-1" */
+	occurrence?: string;
+	/** Hash of the task file as read; send it back as `expectedVersion` to detect concurrent edits */
+	version?: string;
+}
+
+export interface AcceptanceCriterion {
+	index: number; // 1-based, matches the `#N` marker in markdown
+	text: string;
+	checked: boolean;
+}
+
+export interface TaskHistoryChange {
+	field: string; // Task property that changed, e.g. "status" or "acceptanceCriteria"
+	summary: string; // Human readable description, e.g. "status: To Do → In Progress"
+	from?: string;
+	to?: string;
+}
+
+export interface TaskHistoryEntry {
+	commit: string;
+	author: string;
+	date: string; // ISO 8601 author date of the commit
+	message: string;
+	changes: TaskHistoryChange[];
+}
+
+export interface TaskComment {
+	author: string;
+	date: string; // "YYYY-MM-DD HH:mm", same format as updatedDate
+	body: string;
+}
+
+export interface TimeEntry {
+	date: string; // "YYYY-MM-DD", the day the work was done
+	hours: number;
+	author?: string;
+	note?: string;
+}
+
+/**
+ * A time-limited claim on a task. While it is live, nobody else can take the
+ * task; the holder keeps it alive with heartbeats and it lapses on its own.
+ */
+export interface TaskLease {
+	taskId: string;
+	holder: string;
+	acquiredAt: string; // ISO timestamp
+	expiresAt: string; // ISO timestamp
+}
+
+export type EstimateUnit = "hours" | "points";
+
+/**
+ * What happens when a task with unfinished dependencies is moved into a started
+ * status: "allow" lets it through, "refuse" rejects the move and "mark" lets it
+ * through but adds the `blocked` label until its dependencies are done.
+ */
+export type DependencyPolicy = "allow" | "refuse" | "mark";
+
+/** Effort rollup over a set of tasks. */
+export interface EffortSummary {
+	estimated: number; // Sum of estimates
+	completed: number; // Sum of estimates of done tasks
+	logged: number; // Hours logged in time entries
+	estimatedTasks: number; // Tasks that have an estimate
 }
 
 export interface MilestoneBucket {
@@ -54,6 +129,26 @@ export interface MilestoneBucket {
 	total: number;
 	doneCount: number;
 	progress: number;
+	effort: EffortSummary;
+}
+
+/** Task counts at the end of one day, reconstructed from git history. */
+export interface TimeseriesPoint {
+	date: string; // YYYY-MM-DD
+	statusCounts: Record<string, number>;
+	total: number;
+	/** Tasks not yet in a done status. */
+	remaining: number;
+	/** Sum of the estimates of the remaining tasks. */
+	remainingEffort: number;
+}
+
+export interface StatusTimeseries {
+	milestone?: string;
+	from: string;
+	to: string;
+	statuses: string[];
+	points: TimeseriesPoint[];
 }
 
 export interface MilestoneSummary {
@@ -73,6 +168,9 @@ export interface TaskCreateInput {
 	description?: string;
 	status?: TaskStatus;
 	priority?: "high" | "medium" | "low";
+	estimate?: number;
+	startDate?: string; // YYYY-MM-DD
+	dueDate?: string; // YYYY-MM-DD
 	milestone?: string;
 	labels?: string[];
 	assignee?: string[];
@@ -80,16 +178,24 @@ export interface TaskCreateInput {
 	references?: string[];
 	documentation?: string[];
 	parentTaskId?: string;
+	acceptanceCriteria?: string[];
 	implementationPlan?: string;
 	finalSummary?: string;
 	rawContent?: string;
+	template?: string;
+	occurrence?: string;
 }
 
 export interface TaskUpdateInput {
+	/** Reject the edit if the task changed since this version was read */
+	expectedVersion?: string;
 	title?: string;
 	description?: string;
 	status?: TaskStatus;
 	priority?: "high" | "medium" | "low";
+	estimate?: number | null; // null clears the estimate
+	startDate?: string | null; // YYYY-MM-DD; null clears the start date
+	dueDate?: string | null; // YYYY-MM-DD; null clears the due date
 	milestone?: string | null;
 	labels?: string[];
 	addLabels?: string[];
@@ -105,21 +211,102 @@ export interface TaskUpdateInput {
 	documentation?: string[];
 	addDocumentation?: string[];
 	removeDocumentation?: string[];
+	acceptanceCriteria?: string[];
+	addAcceptanceCriteria?: string[];
+	removeAcceptanceCriteria?: number[];
+	checkAcceptanceCriteria?: number[];
+	uncheckAcceptanceCriteria?: number[];
 	implementationPlan?: string;
 	appendImplementationPlan?: string[];
 	clearImplementationPlan?: boolean;
 	finalSummary?: string;
 	appendFinalSummary?: string[];
 	clearFinalSummary?: boolean;
+	addComment?: { author: string; body: string };
+	addTimeEntry?: Omit<TimeEntry, "date"> & { date?: string }; // date defaults to today
 	rawContent?: string;
 }
 
+/** Which tasks a bulk edit applies to: the listed IDs, or else every task matching the filters and search query. */
+export interface BulkTaskSelection {
+	ids?: string[];
+	filters?: TaskListFilter;
+	query?: string;
+}
+
+/** The fields a bulk edit can change. */
+export type BulkTaskUpdate = Pick<
+	TaskUpdateInput,
+	"status" | "priority" | "milestone" | "addLabels" | "removeLabels" | "assignee"
+>;
+
+export interface BulkEditResult {
+	updated: Task[];
+	/** Selected tasks the edit left as they were. */
+	unchanged: string[];
+}
+
 export interface TaskListFilter {
 	status?: string;
 	assignee?: string;
 	priority?: "high" | "medium" | "low";
 	parentTaskId?: string;
 	labels?: string[];
+	/** true: not done and every dependency is done; false: waiting on an unfinished dependency. */
+	ready?: boolean;
+}
+
+export const SAVED_VIEW_SORTS = ["ordinal", "priority", "id"] as const;
+export type SavedViewSort = (typeof SAVED_VIEW_SORTS)[number];
+
+export interface SavedViewFilters extends Omit<TaskListFilter, "parentTaskId"> {
+	/** Milestone ID or title */
+	milestone?: string;
+}
+
+/** A named filter, sort and board lane mode stored in backlog/views */
+export interface SavedView {
+	id: string; // e.g. "view-1"
+	name: string;
+	description?: string;
+	filters: SavedViewFilters;
+	query?: string;
+	sort?: SavedViewSort;
+	/** How the board groups the view's tasks; views without one open in the task list */
+	lanes?: "none" | "milestone";
+}
+
+export type SavedViewInput = Omit<SavedView, "id">;
+
+export const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * When the server creates tasks from a template on its own: once a week, from the given day on,
+ * or once for every active milestone.
+ */
+export type TaskTemplateRecurrence = { every: "week"; day: Weekday } | { every: "milestone" };
+
+/**
+ * A task blueprint stored in backlog/templates. Text fields may contain placeholders such as
+ * `{{date}}`, `{{week}}`, `{{milestone}}` or any other `{{name}}` supplied when the task is created.
+ */
+export interface TaskTemplate {
+	id: string; // e.g. "template-1"
+	name: string;
+	/** Title pattern of the created task */
+	title: string;
+	labels: string[];
+	assignee: string[];
+	priority?: "high" | "medium" | "low";
+	status?: string;
+	description?: string;
+	acceptanceCriteria: string[];
+	implementationPlan?: string;
+	/** Titles of subtasks created under the task */
+	subtasks: string[];
+	recurrence?: TaskTemplateRecurrence;
 }
 
 export interface Decision {
@@ -131,6 +318,7 @@ export interface Decision {
 	decision: string;
 	consequences: string;
 	alternatives?: string;
+	supersededBy?: string; // ID of the decision that replaces this one
 	readonly rawContent: string; // Raw markdown content without frontmatter
 }
 
@@ -139,6 +327,7 @@ export interface Milestone {
 	title: string;
 	description: string;
 	active: boolean;
+	targetDate?: string; // YYYY-MM-DD
 	readonly rawContent: string; // Raw markdown content without frontmatter
 }
 
@@ -203,6 +392,12 @@ export interface DecisionSearchResult {
 
 export type SearchResult = TaskSearchResult | DocumentSearchResult | DecisionSearchResult;
 
+export interface SimilarTask {
+	task: Task;
+	/** Cosine similarity of the two tasks' embeddings; 1 is identical wording */
+	score: number;
+}
+
 export interface Sequence {
 	/** 1-based sequence index */
 	index: number;
@@ -210,6 +405,14 @@ export interface Sequence {
 	tasks: Task[];
 }
 
+/** Sequences of active tasks with the critical path through their dependencies. */
+export interface SequenceGraph {
+	unsequenced: Task[];
+	sequences: Sequence[];
+	/** Task IDs on the chain of dependencies with the most work, first to last */
+	criticalPath: string[];
+}
+
 /**
  * Configuration for ID prefixes used in task files.
  * Allows customization of task prefix (e.g., "JIRA-", "issue-", "bug-").
@@ -220,6 +423,59 @@ export interface PrefixConfig {
 	task: string;
 }
 
+export const WEBHOOK_EVENT_TYPES = [
+	"task.created",
+	"task.updated",
+	"task.status_changed",
+	"task.completed",
+	"task.archived",
+	"milestone.created",
+	"milestone.updated",
+	"milestone.archived",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookConfig {
+	url: string;
+	/**
+	 * Environment variable holding the shared secret used to sign payloads
+	 * (X-Backlog-Signature: sha256=<hex HMAC of the body>). The config is committed, so it never holds the secret.
+	 */
+	secretEnv?: string;
+	/** Events to deliver. Omit or leave empty to receive every event. */
+	events?: WebhookEventType[];
+}
+
+interface BacklogEventBase {
+	/** Monotonic sequence number; clients resume a stream from the last one they saw. */
+	seq: number;
+	timestamp: string;
+}
+
+/**
+ * Incremental change event streamed to clients over the WebSocket and `/api/events` (SSE).
+ * `resync` means the client missed events (or the server reloaded) and should refetch everything.
+ */
+export type BacklogEvent = BacklogEventBase &
+	(
+		| { type: "task.created"; id: string; task: Task }
+		| { type: "task.updated"; id: string; task: Task; fields: string[] }
+		| { type: "task.deleted"; id: string }
+		| { type: "document.created"; id: string; document: Document }
+		| { type: "document.updated"; id: string; document: Document; fields: string[] }
+		| { type: "document.deleted"; id: string }
+		| { type: "decision.created"; id: string; decision: Decision }
+		| { type: "decision.updated"; id: string; decision: Decision; fields: string[] }
+		| { type: "decision.deleted"; id: string }
+		| { type: "milestones.updated" }
+		| { type: "leases.updated"; leases: TaskLease[] }
+		| { type: "config.updated" }
+		| { type: "resync" }
+	);
+
+export type BacklogEventType = BacklogEvent["type"];
+
 export interface BacklogConfig {
 	projectName: string;
 	defaultAssignee?: string;
@@ -246,6 +502,12 @@ export interface BacklogConfig {
 	onStatusChange?: string;
 	/** ID prefix configuration for tasks and drafts. Defaults to { task: "task", draft: "draft" } */
 	prefixes?: PrefixConfig;
+	/** Outbound HTTP webhooks notified of task and milestone lifecycle events. */
+	webhooks?: WebhookConfig[];
+	/** Unit of task estimates (default: hours). Logged time is always in hours. */
+	estimateUnit?: EstimateUnit;
+	/** Whether tasks may start while their dependencies are unfinished (default: allow). */
+	dependencyPolicy?: DependencyPolicy;
 	mcp?: {
 		http?: {
 			host?: string;
@@ -3,6 +3,9 @@ export interface TaskEditArgs {
 	description?: string;
 	status?: string;
 	priority?: "high" | "medium" | "low";
+	estimate?: number | null;
+	startDate?: string | null;
+	dueDate?: string | null;
 	milestone?: string | null;
 	labels?: string[];
 	addLabels?: string[];
@@ -16,6 +19,11 @@ export interface TaskEditArgs {
 	documentation?: string[];
 	addDocumentation?: string[];
 	removeDocumentation?: string[];
+	acceptanceCriteriaSet?: string[];
+	acceptanceCriteriaAdd?: string[];
+	acceptanceCriteriaRemove?: number[];
+	acceptanceCriteriaCheck?: number[];
+	acceptanceCriteriaUncheck?: number[];
 	implementationPlan?: string;
 	planSet?: string;
 	planAppend?: string[];
@@ -23,6 +31,7 @@ export interface TaskEditArgs {
 	finalSummary?: string;
 	finalSummaryAppend?: string[];
 	finalSummaryClear?: boolean;
+	expectedVersion?: string;
 }
 
 export type TaskEditRequest = TaskEditArgs & { id: string };
@@ -0,0 +1,7 @@
+/**
+ * Short hash of a task file's content. It changes whenever the file does, so
+ * clients can send it back with an edit to detect that someone else saved first.
+ */
+export function contentVersion(content: string): string {
+	return new Bun.CryptoHasher("sha1").update(content).digest("hex").slice(0, 16);
+}
@@ -16,6 +16,12 @@ function sanitizeAppend(values: string[] | undefined): string[] | undefined {
 	return sanitized;
 }
 
+function sanitizeIndexArray(values: number[] | undefined): number[] | undefined {
+	if (!values) return undefined;
+	const indexes = Array.from(new Set(values.map((value) => Number(value)).filter((value) => Number.isFinite(value))));
+	return indexes.length > 0 ? indexes : undefined;
+}
+
 export function buildTaskUpdateInput(args: TaskEditArgs): TaskUpdateInput {
 	const updateInput: TaskUpdateInput = {};
 
@@ -35,6 +41,20 @@ export function buildTaskUpdateInput(args: TaskEditArgs): TaskUpdateInput {
 		updateInput.priority = args.priority;
 	}
 
+	if (args.estimate === null || typeof args.estimate === "number") {
+		updateInput.estimate = args.estimate;
+	}
+
+	for (const field of ["startDate", "dueDate"] as const) {
+		const value = args[field];
+		if (value === null) {
+			updateInput[field] = null;
+		} else if (typeof value === "string") {
+			const trimmed = value.trim();
+			updateInput[field] = trimmed.length > 0 ? trimmed : null;
+		}
+	}
+
 	if (args.milestone === null) {
 		updateInput.milestone = null;
 	} else if (typeof args.milestone === "string") {
@@ -101,6 +121,30 @@ export function buildTaskUpdateInput(args: TaskEditArgs): TaskUpdateInput {
 		updateInput.removeDocumentation = removeDocumentation;
 	}
 
+	if (args.acceptanceCriteriaSet) {
+		updateInput.acceptanceCriteria = sanitizeStringArray(args.acceptanceCriteriaSet) ?? [];
+	}
+
+	const acceptanceCriteriaAdd = sanitizeStringArray(args.acceptanceCriteriaAdd);
+	if (acceptanceCriteriaAdd) {
+		updateInput.addAcceptanceCriteria = acceptanceCriteriaAdd;
+	}
+
+	const acceptanceCriteriaRemove = sanitizeIndexArray(args.acceptanceCriteriaRemove);
+	if (acceptanceCriteriaRemove) {
+		updateInput.removeAcceptanceCriteria = acceptanceCriteriaRemove;
+	}
+
+	const acceptanceCriteriaCheck = sanitizeIndexArray(args.acceptanceCriteriaCheck);
+	if (acceptanceCriteriaCheck) {
+		updateInput.checkAcceptanceCriteria = acceptanceCriteriaCheck;
+	}
+
+	const acceptanceCriteriaUncheck = sanitizeIndexArray(args.acceptanceCriteriaUncheck);
+	if (acceptanceCriteriaUncheck) {
+		updateInput.uncheckAcceptanceCriteria = acceptanceCriteriaUncheck;
+	}
+
 	const planSet = args.planSet ?? args.implementationPlan;
 	if (typeof planSet === "string") {
 		updateInput.implementationPlan = planSet;
@@ -128,5 +172,9 @@ export function buildTaskUpdateInput(args: TaskEditArgs): TaskUpdateInput {
 		updateInput.clearFinalSummary = true;
 	}
 
+	if (typeof args.expectedVersion === "string" && args.expectedVersion.trim()) {
+		updateInput.expectedVersion = args.expectedVersion.trim();
+	}
+
 	return updateInput;
 }
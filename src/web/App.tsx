@@ -10,7 +10,9 @@ import { SettingsPage } from './components/SettingsPage';
 import MilestonesPage from './components/MilestonesPage';
 import MyWorkPage from './components/MyWorkPage';
 import TeamPage from './components/TeamPage';
-import TaskDetailsModal from './components/TaskDetailsModal';
+import CalendarPage from './components/CalendarPage';
+import DependencyGraphPage from './components/DependencyGraphPage';
+import TaskDetailsModal, { type TemplateSelection } from './components/TaskDetailsModal';
 import InitializationScreen from './components/InitializationScreen';
 import { SuccessToast } from './components/SuccessToast';
 import { ThemeProvider } from './contexts/ThemeContext';
@@ -21,8 +23,10 @@ import {
 	type DocumentSearchResult,
 	type BacklogConfig,
 	type Milestone,
+	type SavedView,
 	type SearchResult,
 	type Task,
+	type TaskLease,
 	type TaskSearchResult,
 } from '../types';
 import { apiClient } from './lib/api';
@@ -32,6 +36,14 @@ import LoginPage from './components/LoginPage';
 import { getWebVersion } from './utils/version';
 import { buildMilestoneAliasMap, canonicalizeMilestoneValue, collectArchivedMilestoneKeys, collectMilestoneIds, milestoneKey } from './utils/milestones';
 
+function upsertById<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index === -1) return [...items, item];
+  const next = [...items];
+  next[index] = item;
+  return next;
+}
+
 function TaskRoute({
   tasks,
   isLoading,
@@ -71,6 +83,8 @@ function AppRoutes() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [docs, setDocs] = useState<Document[]>([]);
   const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [leases, setLeases] = useState<TaskLease[]>([]);
+  const [views, setViews] = useState<SavedView[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Board and task list only show top-level tasks (no subtasks)
@@ -155,12 +169,14 @@ function AppRoutes() {
   const loadAllData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [statusesData, configData, searchResults, milestonesData, archivedMilestonesData] = await Promise.all([
+      const [statusesData, configData, searchResults, milestonesData, archivedMilestonesData, leasesData, viewsData] = await Promise.all([
         apiClient.fetchStatuses(),
         apiClient.fetchConfig(),
         apiClient.search(),
         apiClient.fetchMilestones(),
         apiClient.fetchArchivedMilestones(),
+        apiClient.fetchLeases(),
+        apiClient.fetchViews(),
       ]);
 
       const archivedKeys = new Set(collectArchivedMilestoneKeys(archivedMilestonesData, milestonesData));
@@ -173,6 +189,8 @@ function AppRoutes() {
       setConfig(configData);
       setMilestoneEntities(milestonesData);
       setArchivedMilestones(archivedMilestonesData);
+      setLeases(leasesData);
+      setViews(viewsData);
       setMilestones(
         collectMilestoneIds(tasksList, milestonesData, archivedMilestonesData).filter(
           (milestone) => !archivedKeys.has(milestoneKey(milestone)),
@@ -322,16 +340,56 @@ function AppRoutes() {
   }, [tasks, editingTask, showModal]);
 
   useEffect(() => {
-    setMessageHandler((data) => {
-      if (data === "tasks-updated") {
-        refreshData();
-      } else if (data === "config-updated") {
-        loadAllData();
+    const aliases = buildMilestoneAliasMap(milestoneEntities, archivedMilestones);
+    const archivedKeys = new Set(collectArchivedMilestoneKeys(archivedMilestones, milestoneEntities));
+    // Same milestone normalization applySearchResults performs on a full load
+    const normalizeTask = (task: Task): Task => {
+      const canonicalMilestone = canonicalizeMilestoneValue(task.milestone, aliases);
+      const key = milestoneKey(canonicalMilestone);
+      if (key && archivedKeys.has(key)) {
+        return { ...task, milestone: undefined };
+      }
+      return task.milestone === canonicalMilestone ? task : { ...task, milestone: canonicalMilestone || undefined };
+    };
+
+    setMessageHandler((event) => {
+      switch (event.type) {
+        case 'task.created':
+        case 'task.updated':
+          setTasks((prev) => upsertById(prev, normalizeTask(event.task)));
+          break;
+        case 'task.deleted':
+          setTasks((prev) => prev.filter((task) => task.id !== event.id));
+          break;
+        case 'document.created':
+        case 'document.updated':
+          setDocs((prev) => upsertById(prev, event.document));
+          break;
+        case 'document.deleted':
+          setDocs((prev) => prev.filter((doc) => doc.id !== event.id));
+          break;
+        case 'decision.created':
+        case 'decision.updated':
+          setDecisions((prev) => upsertById(prev, event.decision));
+          break;
+        case 'decision.deleted':
+          setDecisions((prev) => prev.filter((decision) => decision.id !== event.id));
+          break;
+        case 'leases.updated':
+          setLeases(event.leases);
+          break;
+        case 'milestones.updated':
+        case 'resync':
+          refreshData();
+          break;
+        case 'config.updated':
+          loadAllData();
+          break;
       }
     });
-  }, [setMessageHandler, refreshData, loadAllData]);
+  }, [setMessageHandler, refreshData, loadAllData, milestoneEntities, archivedMilestones]);
 
-  const handleSubmitTask = async (taskData: Partial<Task>): Promise<void | boolean> => {
+  const handleSubmitTask = async (taskData: Partial<Task>, template?: TemplateSelection): Promise<void | boolean> => {
     // Don't catch errors here - let TaskDetailsModal handle them
     const capturedParentId = pendingParentTaskId;
 
@@ -343,9 +401,11 @@ function AppRoutes() {
     }
 
     // Create mode
-    const createdTask = await apiClient.createTask(
-      (capturedParentId ? { ...taskData, parentTaskId: capturedParentId } : taskData) as Omit<Task, "id" | "createdDate">
-    );
+    const createdTask = template
+      ? (await apiClient.createTaskFromTemplate(template.templateId, { ...taskData, variables: template.variables })).task
+      : await apiClient.createTask(
+          (capturedParentId ? { ...taskData, parentTaskId: capturedParentId } : taskData) as Omit<Task, "id" | "createdDate">
+        );
 
     // Show task creation confirmation
     setTaskConfirmation({ task: createdTask });
@@ -419,6 +479,7 @@ function AppRoutes() {
               tasks={tasks}
               docs={docs}
               decisions={decisions}
+              views={views}
               isLoading={isLoading}
               onRefreshData={refreshData}
             />
@@ -431,6 +492,7 @@ function AppRoutes() {
                 onEditTask={handleEditTask}
                 onNewTask={handleNewTask}
               tasks={topLevelTasks}
+              leases={leases}
               onRefreshData={refreshData}
               statuses={statuses}
               milestones={milestones}
@@ -496,6 +558,27 @@ function AppRoutes() {
               />
             }
           />
+          <Route
+            path="dependencies"
+            element={
+              <DependencyGraphPage
+                tasks={tasks}
+                statuses={statuses}
+                milestoneEntities={milestoneEntities}
+                onEditTask={handleEditTask}
+              />
+            }
+          />
+          <Route
+            path="calendar"
+            element={
+              <CalendarPage
+                tasks={tasks}
+                milestoneEntities={milestoneEntities}
+                onEditTask={handleEditTask}
+              />
+            }
+          />
           <Route
             path="milestones"
             element={
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import type { AcceptanceCriterion, Task } from "../../types";
+import { type AcceptanceCriteriaChanges, apiClient } from "../lib/api";
+
+interface Props {
+	taskId: string;
+	items: AcceptanceCriterion[];
+	readOnly?: boolean;
+	onChanged?: (task: Task) => Promise<void> | void;
+}
+
+export const AcceptanceCriteriaChecklist: React.FC<Props> = ({ taskId, items, readOnly, onChanged }) => {
+	const [criteria, setCriteria] = useState<AcceptanceCriterion[]>(items);
+	const [newCriterion, setNewCriterion] = useState("");
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setCriteria(items);
+	}, [items]);
+
+	const applyChanges = async (changes: AcceptanceCriteriaChanges) => {
+		setPending(true);
+		setError(null);
+		try {
+			const updated = await apiClient.updateAcceptanceCriteria(taskId, changes);
+			setCriteria(updated.acceptanceCriteriaItems ?? []);
+			if (onChanged) await onChanged(updated);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setPending(false);
+		}
+	};
+
+	const toggle = (item: AcceptanceCriterion) => {
+		// Optimistic update so the checkbox responds immediately
+		setCriteria((current) =>
+			current.map((entry) => (entry.index === item.index ? { ...entry, checked: !entry.checked } : entry)),
+		);
+		void applyChanges(
+			item.checked ? { uncheckAcceptanceCriteria: [item.index] } : { checkAcceptanceCriteria: [item.index] },
+		);
+	};
+
+	const addCriterion = () => {
+		const text = newCriterion.trim();
+		if (!text) return;
+		setNewCriterion("");
+		void applyChanges({ addAcceptanceCriteria: [text] });
+	};
+
+	const doneCount = criteria.filter((item) => item.checked).length;
+
+	return (
+		<div>
+			{criteria.length > 0 ? (
+				<>
+					<div className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+						{doneCount} of {criteria.length} done
+					</div>
+					<ul className="space-y-1">
+						{criteria.map((item) => (
+							<li key={item.index} className="group flex items-start gap-2 px-1 py-1 rounded-md">
+								<input
+									type="checkbox"
+									checked={item.checked}
+									disabled={readOnly || pending}
+									onChange={() => toggle(item)}
+									className="mt-0.5 h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+								/>
+								<span className="text-xs font-mono text-gray-400 dark:text-gray-500 shrink-0">#{item.index}</span>
+								<span
+									className={`flex-1 text-sm ${
+										item.checked
+											? "line-through text-gray-400 dark:text-gray-500"
+											: "text-gray-900 dark:text-gray-100"
+									}`}
+								>
+									{item.text}
+								</span>
+								{!readOnly && (
+									<button
+										type="button"
+										disabled={pending}
+										onClick={() => void applyChanges({ removeAcceptanceCriteria: [item.index] })}
+										className="opacity-0 group-hover:opacity-100 text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-opacity"
+										aria-label={`Remove criterion ${item.index}`}
+									>
+										✕
+									</button>
+								)}
+							</li>
+						))}
+					</ul>
+				</>
+			) : (
+				<p className="text-sm text-gray-500 dark:text-gray-400">No acceptance criteria</p>
+			)}
+			{!readOnly && (
+				<div className="mt-3 flex gap-2">
+					<input
+						type="text"
+						value={newCriterion}
+						onChange={(e) => setNewCriterion(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								e.preventDefault();
+								addCriterion();
+							}
+						}}
+						placeholder="Add a criterion"
+						className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-colors duration-200"
+					/>
+					<button
+						type="button"
+						disabled={pending || newCriterion.trim().length === 0}
+						onClick={addCriterion}
+						className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+					>
+						Add
+					</button>
+				</div>
+			)}
+			{error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+		</div>
+	);
+};
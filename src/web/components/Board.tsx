@@ -1,18 +1,21 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { type Milestone, type Task } from '../../types';
+import { type Milestone, type Task, type TaskLease } from '../../types';
 import { apiClient, type ReorderTaskPayload } from '../lib/api';
 import { buildLanes, DEFAULT_LANE_KEY, groupTasksByLaneAndStatus, type LaneMode } from '../lib/lanes';
 import { buildMilestoneAliasMap, canonicalizeMilestoneValue, collectArchivedMilestoneKeys, milestoneKey } from '../utils/milestones';
 import TaskColumn from './TaskColumn';
+import BulkActionBar from './BulkActionBar';
 import CleanupModal from './CleanupModal';
 import { SuccessToast } from './SuccessToast';
 import { useAuth } from '../contexts/AuthContext';
+import { collectAvailableLabels } from '../../utils/label-filter.ts';
 
 interface BoardProps {
   onEditTask: (task: Task) => void;
   onNewTask: () => void;
   highlightTaskId?: string | null;
   tasks: Task[];
+  leases: TaskLease[];
   onRefreshData?: () => Promise<void>;
   statuses: string[];
   isLoading: boolean;
@@ -29,6 +32,7 @@ const Board: React.FC<BoardProps> = ({
   onNewTask,
   highlightTaskId,
   tasks,
+  leases,
   onRefreshData,
   statuses,
   isLoading,
@@ -38,14 +42,16 @@ const Board: React.FC<BoardProps> = ({
   onLaneChange,
   milestoneFilter,
 }) => {
-  const { user } = useAuth();
-  const isViewer = user?.role === "viewer";
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission("tasks:write");
+  const leasesByTask = useMemo(() => new Map(leases.map((lease) => [lease.taskId, lease])), [leases]);
   const [updateError, setUpdateError] = useState<string | null>(null);
   const [dragSourceStatus, setDragSourceStatus] = useState<string | null>(null);
   const [dragSourceLane, setDragSourceLane] = useState<string | null>(null);
   const [showCleanupModal, setShowCleanupModal] = useState(false);
   const [cleanupSuccessMessage, setCleanupSuccessMessage] = useState<string | null>(null);
   const [collapsedLanes, setCollapsedLanes] = useState<Record<string, boolean>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const archivedMilestoneIds = useMemo(
     () => collectArchivedMilestoneKeys(archivedMilestones, milestoneEntities),
     [archivedMilestones, milestoneEntities]
@@ -132,6 +138,33 @@ const Board: React.FC<BoardProps> = ({
     }, 4000);
   };
 
+  // Only tasks still on the board count; a task that left it drops out of the selection
+  const selectedTaskIds = useMemo(
+    () => tasks.filter((task) => selectedIds.has(task.id)).map((task) => task.id),
+    [tasks, selectedIds],
+  );
+  const boardLabels = useMemo(() => collectAvailableLabels(tasks), [tasks]);
+
+  const toggleSelected = (task: Task) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(task.id)) next.delete(task.id);
+      else next.add(task.id);
+      return next;
+    });
+  };
+
+  const handleBulkApplied = async (message: string) => {
+    setSelectedIds(new Set());
+    setCleanupSuccessMessage(message);
+    if (onRefreshData) {
+      await onRefreshData();
+    }
+    setTimeout(() => {
+      setCleanupSuccessMessage(null);
+    }, 4000);
+  };
+
   const activeMilestoneEntities = useMemo(
     () => milestoneEntities.filter((m) => m.active),
     [milestoneEntities],
@@ -309,7 +342,7 @@ const Board: React.FC<BoardProps> = ({
             </button>
           </div>
         </div>
-	        {!isViewer && (
+	        {canEdit && (
 	          <button
 	            className="inline-flex items-center px-4 py-2 bg-blue-500 dark:bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-600 dark:hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-400 dark:focus:ring-blue-500 dark:focus:ring-offset-gray-800 transition-colors duration-200"
 	            onClick={onNewTask}
@@ -378,6 +411,9 @@ const Board: React.FC<BoardProps> = ({
                             tasks={getTasksForLane(lane.key, status)}
                             onTaskUpdate={handleTaskUpdate}
                             onEditTask={onEditTask}
+                            leases={leasesByTask}
+                            selectedIds={selectedIds}
+                            onToggleSelect={canEdit ? toggleSelected : undefined}
                             onTaskReorder={handleTaskReorder}
                             dragSourceStatus={dragSourceStatus}
                             dragSourceLane={dragSourceLane}
@@ -391,7 +427,7 @@ const Board: React.FC<BoardProps> = ({
                               setDragSourceStatus(null);
                               setDragSourceLane(null);
                             }}
-                            onCleanup={!isViewer && status.toLowerCase() === 'done' ? () => setShowCleanupModal(true) : undefined}
+                            onCleanup={canEdit && status.toLowerCase() === 'done' ? () => setShowCleanupModal(true) : undefined}
                           />
                         </div>
                       ))}
@@ -412,6 +448,9 @@ const Board: React.FC<BoardProps> = ({
                   tasks={getTasksForLane(DEFAULT_LANE_KEY, status)}
                   onTaskUpdate={handleTaskUpdate}
                   onEditTask={onEditTask}
+                  leases={leasesByTask}
+                  selectedIds={selectedIds}
+                  onToggleSelect={canEdit ? toggleSelected : undefined}
                   onTaskReorder={handleTaskReorder}
                   dragSourceStatus={dragSourceStatus}
                   dragSourceLane={dragSourceLane}
@@ -424,7 +463,7 @@ const Board: React.FC<BoardProps> = ({
                     setDragSourceStatus(null);
                     setDragSourceLane(null);
                   }}
-                  onCleanup={!isViewer && status.toLowerCase() === 'done' ? () => setShowCleanupModal(true) : undefined}
+                  onCleanup={canEdit && status.toLowerCase() === 'done' ? () => setShowCleanupModal(true) : undefined}
                 />
               </div>
             ))}
@@ -432,6 +471,16 @@ const Board: React.FC<BoardProps> = ({
         </div>
       )}
 
+      <BulkActionBar
+        selectedIds={selectedTaskIds}
+        statuses={statuses}
+        labels={boardLabels}
+        milestones={milestoneEntities}
+        hint="Ctrl/⌘-click cards to select more"
+        onClear={() => setSelectedIds(new Set())}
+        onApplied={handleBulkApplied}
+      />
+
       {/* Cleanup Modal */}
       <CleanupModal
         isOpen={showCleanupModal}
@@ -1,13 +1,15 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import Board from './Board';
-import { type Milestone, type Task } from '../../types';
+import { type Milestone, type SavedView, type Task, type TaskLease } from '../../types';
+import { apiClient } from '../lib/api';
 import { type LaneMode } from '../lib/lanes';
 
 interface BoardPageProps {
 	onEditTask: (task: Task) => void;
 	onNewTask: () => void;
 	tasks: Task[];
+	leases: TaskLease[];
 	onRefreshData?: () => Promise<void>;
 	statuses: string[];
 	milestones: string[];
@@ -20,6 +22,7 @@ export default function BoardPage({
 	onEditTask,
 	onNewTask,
 	tasks,
+	leases,
 	onRefreshData,
 	statuses,
 	milestones,
@@ -31,7 +34,11 @@ export default function BoardPage({
 	const [highlightTaskId, setHighlightTaskId] = useState<string | null>(null);
 	const [laneMode, setLaneMode] = useState<LaneMode>('none');
 	const [milestoneFilter, setMilestoneFilter] = useState<string | null>(null);
+	const [activeView, setActiveView] = useState<SavedView | null>(null);
+	const [viewTaskIds, setViewTaskIds] = useState<Set<string> | null>(null);
+	const [viewError, setViewError] = useState<string | null>(null);
 	const laneStorageKey = 'backlog.board.lane';
+	const viewId = searchParams.get('view');
 
 	useEffect(() => {
 		const storedLane = typeof window !== 'undefined' ? window.localStorage.getItem(laneStorageKey) : null;
@@ -50,6 +57,51 @@ export default function BoardPage({
 		}
 	}, [searchParams]);
 
+	// A saved view narrows the board to its tasks and picks its lane mode
+	useEffect(() => {
+		if (!viewId) {
+			setActiveView(null);
+			setViewTaskIds(null);
+			setViewError(null);
+			return;
+		}
+		let cancelled = false;
+		apiClient
+			.runView(viewId)
+			.then(({ view, tasks: viewTasks }) => {
+				if (cancelled) return;
+				setActiveView(view);
+				setViewTaskIds(new Set(viewTasks.map((task) => task.id)));
+				setViewError(null);
+				if (view.lanes) {
+					setLaneMode(view.lanes);
+				}
+			})
+			.catch((err) => {
+				console.error('Failed to load view:', err);
+				if (!cancelled) {
+					setActiveView(null);
+					setViewTaskIds(new Set());
+					setViewError('Unable to load this view. It may have been deleted.');
+				}
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [viewId, tasks]);
+
+	const boardTasks = useMemo(
+		() => (viewTaskIds ? tasks.filter((task) => viewTaskIds.has(task.id)) : tasks),
+		[tasks, viewTaskIds]
+	);
+
+	const handleCloseView = () => {
+		setSearchParams(params => {
+			params.delete('view');
+			return params;
+		}, { replace: true });
+	};
+
 	useEffect(() => {
 		const highlight = searchParams.get('highlight');
 		if (highlight) {
@@ -87,11 +139,31 @@ export default function BoardPage({
 
 	return (
 		<div className="container mx-auto px-4 py-8 transition-colors duration-200">
+			{viewId && (
+				<div className={`mb-4 flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-sm ${viewError ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300' : 'border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200'}`}>
+					<div className="min-w-0">
+						{viewError ?? (
+							<>
+								<span className="font-semibold">View: {activeView?.name ?? viewId}</span>
+								{activeView?.description && <span className="ml-2">{activeView.description}</span>}
+							</>
+						)}
+					</div>
+					<button
+						type="button"
+						onClick={handleCloseView}
+						className="text-xs font-medium hover:underline whitespace-nowrap"
+					>
+						Show all tasks
+					</button>
+				</div>
+			)}
 			<Board
 				onEditTask={handleEditTask}
 				onNewTask={onNewTask}
 				highlightTaskId={highlightTaskId}
-				tasks={tasks}
+				tasks={boardTasks}
+				leases={leases}
 				onRefreshData={onRefreshData}
 				statuses={statuses}
 				milestones={milestones}
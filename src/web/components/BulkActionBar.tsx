@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import type { BulkTaskUpdate, Milestone } from '../../types';
+import { apiClient } from '../lib/api';
+
+interface BulkActionBarProps {
+	selectedIds: string[];
+	statuses: string[];
+	labels: string[];
+	milestones: Milestone[];
+	onClear: () => void;
+	/** Called after the edit is saved, with a message describing it */
+	onApplied: (message: string) => void | Promise<void>;
+	/** Shown next to the selection count, e.g. how to select more */
+	hint?: string;
+}
+
+const NO_MILESTONE = '__none__';
+
+const selectClass =
+	'px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-400 transition-colors duration-200';
+
+/**
+ * Floating bar for applying one change to every selected task in a single request.
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedIds, statuses, labels, milestones, onClear, onApplied, hint }) => {
+	const [status, setStatus] = useState('');
+	const [priority, setPriority] = useState('');
+	const [milestone, setMilestone] = useState('');
+	const [addLabel, setAddLabel] = useState('');
+	const [removeLabel, setRemoveLabel] = useState('');
+	const [assignee, setAssignee] = useState('');
+	const [applying, setApplying] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const update: BulkTaskUpdate = {
+		status: status || undefined,
+		priority: (priority || undefined) as BulkTaskUpdate['priority'],
+		milestone: milestone === NO_MILESTONE ? null : milestone || undefined,
+		addLabels: addLabel ? [addLabel] : undefined,
+		removeLabels: removeLabel ? [removeLabel] : undefined,
+		assignee: assignee.trim()
+			? assignee.split(',').map((name) => name.trim()).filter(Boolean)
+			: undefined,
+	};
+	const hasChanges = Object.values(update).some((value) => value !== undefined);
+
+	const reset = () => {
+		setStatus('');
+		setPriority('');
+		setMilestone('');
+		setAddLabel('');
+		setRemoveLabel('');
+		setAssignee('');
+		setError(null);
+	};
+
+	const handleApply = async () => {
+		setApplying(true);
+		setError(null);
+		try {
+			const result = await apiClient.bulkEditTasks({ ids: selectedIds }, update);
+			const count = result.updated.length;
+			reset();
+			await onApplied(count > 0 ? `Updated ${count} task${count === 1 ? '' : 's'}` : 'No tasks needed changes');
+		} catch (err) {
+			const data = (err as { data?: { error?: string } }).data;
+			setError(data?.error ?? (err instanceof Error ? err.message : String(err)));
+		} finally {
+			setApplying(false);
+		}
+	};
+
+	if (selectedIds.length === 0) return null;
+
+	return (
+		<div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 max-w-[95vw] rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-2xl px-4 py-3 transition-colors duration-200">
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="text-sm font-semibold text-gray-900 dark:text-gray-100 whitespace-nowrap">
+					{selectedIds.length} selected
+				</span>
+				{hint && <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{hint}</span>}
+				<select aria-label="Set status" value={status} onChange={(e) => setStatus(e.target.value)} className={selectClass}>
+					<option value="">Status…</option>
+					{statuses.map((value) => (
+						<option key={value} value={value}>{value}</option>
+					))}
+				</select>
+				<select aria-label="Set priority" value={priority} onChange={(e) => setPriority(e.target.value)} className={selectClass}>
+					<option value="">Priority…</option>
+					<option value="high">High</option>
+					<option value="medium">Medium</option>
+					<option value="low">Low</option>
+				</select>
+				<select aria-label="Set milestone" value={milestone} onChange={(e) => setMilestone(e.target.value)} className={selectClass}>
+					<option value="">Milestone…</option>
+					<option value={NO_MILESTONE}>No milestone</option>
+					{milestones.map((entity) => (
+						<option key={entity.id} value={entity.id}>{entity.title}</option>
+					))}
+				</select>
+				<select aria-label="Add label" value={addLabel} onChange={(e) => setAddLabel(e.target.value)} className={selectClass}>
+					<option value="">Add label…</option>
+					{labels.map((label) => (
+						<option key={label} value={label}>{label}</option>
+					))}
+				</select>
+				<select aria-label="Remove label" value={removeLabel} onChange={(e) => setRemoveLabel(e.target.value)} className={selectClass}>
+					<option value="">Remove label…</option>
+					{labels.map((label) => (
+						<option key={label} value={label}>{label}</option>
+					))}
+				</select>
+				<input
+					aria-label="Assign to"
+					value={assignee}
+					onChange={(e) => setAssignee(e.target.value)}
+					placeholder="Assign to…"
+					className={`${selectClass} w-36`}
+				/>
+				<button
+					onClick={handleApply}
+					disabled={!hasChanges || applying}
+					className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 dark:bg-blue-600 rounded-md hover:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+				>
+					{applying ? 'Applying…' : 'Apply'}
+				</button>
+				<button
+					onClick={() => {
+						reset();
+						onClear();
+					}}
+					disabled={applying}
+					className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200"
+				>
+					Clear
+				</button>
+			</div>
+			{error && <div className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</div>}
+		</div>
+	);
+};
+
+export default BulkActionBar;
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import type { Milestone, Task } from "../../types";
+import { getToday, isOverdue } from "../../core/schedule";
+import { isDoneStatus } from "../lib/status-helpers";
+
+interface CalendarPageProps {
+	tasks: Task[];
+	milestoneEntities: Milestone[];
+	onEditTask: (task: Task) => void;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MAX_ENTRIES_PER_DAY = 4;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number): Date =>
+	new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+
+/** The Monday-to-Sunday weeks that cover a month, as YYYY-MM-DD keys. */
+const buildMonthGrid = (year: number, month: number): string[][] => {
+	const first = new Date(Date.UTC(year, month, 1));
+	const last = new Date(Date.UTC(year, month + 1, 0));
+	let cursor = addDays(first, -((first.getUTCDay() + 6) % 7));
+	const weeks: string[][] = [];
+	while (cursor <= last) {
+		const week: string[] = [];
+		for (let day = 0; day < 7; day++) {
+			week.push(toDateKey(cursor));
+			cursor = addDays(cursor, 1);
+		}
+		weeks.push(week);
+	}
+	return weeks;
+};
+
+interface DayEntries {
+	milestones: Milestone[];
+	tasks: Array<{ task: Task; isStart: boolean; isDue: boolean }>;
+}
+
+/**
+ * Month calendar of task schedules and milestone target dates. A task with both
+ * dates spans every day from its start to its due date; a task with only one of
+ * them appears on that day.
+ */
+const CalendarPage: React.FC<CalendarPageProps> = ({ tasks, milestoneEntities, onEditTask }) => {
+	const today = getToday();
+	const [visibleMonth, setVisibleMonth] = useState(() => ({
+		year: Number(today.slice(0, 4)),
+		month: Number(today.slice(5, 7)) - 1,
+	}));
+
+	const weeks = useMemo(() => buildMonthGrid(visibleMonth.year, visibleMonth.month), [visibleMonth]);
+
+	const entriesByDay = useMemo(() => {
+		const gridStart = weeks[0]?.[0] ?? "";
+		const gridEnd = weeks[weeks.length - 1]?.[6] ?? "";
+		const byDay = new Map<string, DayEntries>();
+		const entriesFor = (day: string): DayEntries => {
+			let entries = byDay.get(day);
+			if (!entries) {
+				entries = { milestones: [], tasks: [] };
+				byDay.set(day, entries);
+			}
+			return entries;
+		};
+
+		for (const milestone of milestoneEntities) {
+			if (milestone.targetDate && milestone.targetDate >= gridStart && milestone.targetDate <= gridEnd) {
+				entriesFor(milestone.targetDate).milestones.push(milestone);
+			}
+		}
+
+		for (const task of tasks) {
+			const first = task.startDate ?? task.dueDate;
+			const last = task.dueDate ?? task.startDate;
+			if (!first || !last || last < gridStart || first > gridEnd) continue;
+			let cursor = new Date(`${first > gridStart ? first : gridStart}T00:00:00Z`);
+			const end = last < gridEnd ? last : gridEnd;
+			while (toDateKey(cursor) <= end) {
+				const day = toDateKey(cursor);
+				entriesFor(day).tasks.push({ task, isStart: day === task.startDate, isDue: day === task.dueDate });
+				cursor = addDays(cursor, 1);
+			}
+		}
+		return byDay;
+	}, [tasks, milestoneEntities, weeks]);
+
+	const overdueTasks = useMemo(() => tasks.filter((task) => isOverdue(task, today)), [tasks, today]);
+	const unscheduledCount = tasks.filter((task) => !task.startDate && !task.dueDate && !isDoneStatus(task.status)).length;
+
+	const monthLabel = new Date(Date.UTC(visibleMonth.year, visibleMonth.month, 1)).toLocaleDateString(undefined, {
+		month: "long",
+		year: "numeric",
+		timeZone: "UTC",
+	});
+	const shiftMonth = (delta: number) => {
+		setVisibleMonth(({ year, month }) => {
+			const next = new Date(Date.UTC(year, month + delta, 1));
+			return { year: next.getUTCFullYear(), month: next.getUTCMonth() };
+		});
+	};
+	const currentMonthPrefix = `${visibleMonth.year}-${String(visibleMonth.month + 1).padStart(2, "0")}`;
+
+	return (
+		<div className="container mx-auto px-4 py-8 bg-gray-50 dark:bg-gray-900 min-h-full transition-colors duration-200">
+			<div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+				<div>
+					<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Calendar</h1>
+					<p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+						{overdueTasks.length > 0 && (
+							<span className="mr-2 font-medium text-red-600 dark:text-red-400">{overdueTasks.length} overdue</span>
+						)}
+						{unscheduledCount} open task{unscheduledCount === 1 ? "" : "s"} without dates
+					</p>
+				</div>
+				<div className="flex items-center gap-2">
+					<button
+						type="button"
+						onClick={() => shiftMonth(-1)}
+						aria-label="Previous month"
+						className="px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+					>
+						‹
+					</button>
+					<span className="w-40 text-center text-sm font-semibold text-gray-900 dark:text-gray-100">{monthLabel}</span>
+					<button
+						type="button"
+						onClick={() => shiftMonth(1)}
+						aria-label="Next month"
+						className="px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+					>
+						›
+					</button>
+					<button
+						type="button"
+						onClick={() => setVisibleMonth({ year: Number(today.slice(0, 4)), month: Number(today.slice(5, 7)) - 1 })}
+						className="px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
+					>
+						Today
+					</button>
+				</div>
+			</div>
+
+			<div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-hidden">
+				<div className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+					{WEEKDAYS.map((weekday) => (
+						<div key={weekday} className="px-2 py-2">{weekday}</div>
+					))}
+				</div>
+				{weeks.map((week) => (
+					<div key={week[0]} className="grid grid-cols-7 border-b last:border-b-0 border-gray-200 dark:border-gray-700">
+						{week.map((day) => {
+							const entries = entriesByDay.get(day);
+							const inMonth = day.startsWith(currentMonthPrefix);
+							const taskEntries = entries?.tasks ?? [];
+							const hidden = Math.max(taskEntries.length - MAX_ENTRIES_PER_DAY, 0);
+							return (
+								<div
+									key={day}
+									className={`min-h-[7rem] p-1.5 border-r last:border-r-0 border-gray-200 dark:border-gray-700 ${
+										inMonth ? "" : "bg-gray-50/60 dark:bg-gray-900/40"
+									}`}
+								>
+									<div
+										className={`mb-1 text-xs ${
+											day === today
+												? "inline-flex h-5 w-5 items-center justify-center rounded-full bg-blue-600 text-white font-semibold"
+												: inMonth
+													? "text-gray-700 dark:text-gray-300"
+													: "text-gray-400 dark:text-gray-600"
+										}`}
+									>
+										{Number(day.slice(8))}
+									</div>
+									<div className="space-y-1">
+										{entries?.milestones.map((milestone) => (
+											<Link
+												key={milestone.id}
+												to={`/milestones/${encodeURIComponent(milestone.id)}`}
+												title={`${milestone.title} target date`}
+												className="block truncate rounded px-1.5 py-0.5 text-[11px] font-medium bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300"
+											>
+												◆ {milestone.title}
+											</Link>
+										))}
+										{taskEntries.slice(0, MAX_ENTRIES_PER_DAY).map(({ task, isStart, isDue }) => {
+											const done = isDoneStatus(task.status);
+											const late = isOverdue(task, today);
+											return (
+												<button
+													key={task.id}
+													type="button"
+													onClick={() => onEditTask(task)}
+													title={`${task.id}: ${task.title}${task.startDate ? `\nStart ${task.startDate}` : ""}${task.dueDate ? `\nDue ${task.dueDate}` : ""}`}
+													className={`block w-full truncate rounded px-1.5 py-0.5 text-left text-[11px] ${
+														late
+															? "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300"
+															: done
+																? "bg-gray-100 text-gray-400 line-through dark:bg-gray-700 dark:text-gray-500"
+																: "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+													} ${isDue ? "font-semibold" : ""} ${isStart || isDue ? "" : "opacity-70"}`}
+												>
+													{isDue ? "⚑ " : ""}
+													{task.title}
+												</button>
+											);
+										})}
+										{hidden > 0 && <p className="px-1.5 text-[11px] text-gray-500 dark:text-gray-400">+{hidden} more</p>}
+									</div>
+								</div>
+							);
+						})}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+};
+
+export default CalendarPage;
@@ -72,8 +72,8 @@ interface DecisionDetailProps {
 }
 
 export default function DecisionDetail({ decisions, onRefreshData }: DecisionDetailProps) {
-	const { user } = useAuth();
-	const isViewer = user?.role === "viewer";
+	const { hasPermission } = useAuth();
+	const canEdit = hasPermission("docs:write");
 	const { id, title } = useParams<{ id: string; title: string }>();
 	const navigate = useNavigate();
 	const [searchParams, setSearchParams] = useSearchParams();
@@ -302,9 +302,21 @@ export default function DecisionDetail({ decisions, onRefreshData }: DecisionDet
 										</span>
 									</div>
 								)}
+								{decision?.supersededBy && (
+									<div className="flex items-center space-x-2">
+										<span>Superseded by:</span>
+										<button
+											type="button"
+											onClick={() => navigate(`/decisions/${decision.supersededBy}`)}
+											className="text-blue-600 dark:text-blue-400 hover:underline"
+										>
+											{decision.supersededBy}
+										</button>
+									</div>
+								)}
 							</div>
 						</div>
-						{!isViewer && (
+						{canEdit && (
 						<div className="flex items-center space-x-3 ml-6">
 							{/* Temporarily hidden - decisions editing not ready */}
 								{false ? (
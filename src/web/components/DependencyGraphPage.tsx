@@ -0,0 +1,316 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Milestone, SequenceGraph, Task } from "../../types";
+import { apiClient } from "../lib/api";
+import { getStatusChartColor } from "../lib/status-helpers";
+
+interface DependencyGraphPageProps {
+	tasks: Task[];
+	statuses: string[];
+	milestoneEntities: Milestone[];
+	onEditTask: (task: Task) => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 72;
+const ROW_GAP = 16;
+const HEADER_HEIGHT = 32;
+const PADDING = 16;
+
+interface NodePosition {
+	x: number;
+	y: number;
+}
+
+const columnX = (column: number) => PADDING + column * (NODE_WIDTH + COLUMN_GAP);
+
+/**
+ * Dependency graph of active tasks laid out Gantt-style: each column is a
+ * sequence of tasks that can run in parallel once the previous columns are done.
+ * Edges are dependencies and the critical path is highlighted. Dropping a task on
+ * another column makes it depend on every task in the column before it.
+ */
+const DependencyGraphPage: React.FC<DependencyGraphPageProps> = ({ tasks, statuses, milestoneEntities, onEditTask }) => {
+	const [milestone, setMilestone] = useState("");
+	const [graph, setGraph] = useState<SequenceGraph | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+	const [dropColumn, setDropColumn] = useState<number | null>(null);
+	const [isMoving, setIsMoving] = useState(false);
+
+	// Reload whenever tasks change elsewhere, since any edit can add or remove an edge
+	useEffect(() => {
+		let isMounted = true;
+		apiClient
+			.fetchSequences(milestone || undefined)
+			.then((data) => {
+				if (!isMounted) return;
+				setGraph(data);
+				setError(null);
+			})
+			.catch((err) => {
+				if (isMounted) setError(err instanceof Error ? err.message : String(err));
+			});
+		return () => {
+			isMounted = false;
+		};
+	}, [milestone, tasks]);
+
+	const layout = useMemo(() => {
+		const positions = new Map<string, NodePosition>();
+		const sequences = graph?.sequences ?? [];
+		sequences.forEach((sequence, column) => {
+			sequence.tasks.forEach((task, row) => {
+				positions.set(task.id, {
+					x: columnX(column),
+					y: HEADER_HEIGHT + PADDING + row * (NODE_HEIGHT + ROW_GAP),
+				});
+			});
+		});
+		const tallest = Math.max(0, ...sequences.map((sequence) => sequence.tasks.length));
+		// One extra column is a drop target for starting a new sequence
+		const width = columnX(sequences.length + 1) - COLUMN_GAP + PADDING;
+		const height = HEADER_HEIGHT + PADDING * 2 + Math.max(tallest, 1) * (NODE_HEIGHT + ROW_GAP);
+		return { positions, width, height };
+	}, [graph]);
+
+	const criticalSteps = useMemo(() => {
+		const path = graph?.criticalPath ?? [];
+		return new Map(path.map((id, index) => [id, index]));
+	}, [graph]);
+
+	const edges = useMemo(() => {
+		const result: Array<{ from: string; to: string; critical: boolean }> = [];
+		for (const sequence of graph?.sequences ?? []) {
+			for (const task of sequence.tasks) {
+				for (const dependency of task.dependencies) {
+					if (!layout.positions.has(dependency)) continue;
+					const fromStep = criticalSteps.get(dependency);
+					const critical = fromStep !== undefined && criticalSteps.get(task.id) === fromStep + 1;
+					result.push({ from: dependency, to: task.id, critical });
+				}
+			}
+		}
+		// Draw critical edges last so they sit on top
+		return result.sort((a, b) => Number(a.critical) - Number(b.critical));
+	}, [graph, layout, criticalSteps]);
+
+	const statusColor = (status: string) => getStatusChartColor(status, Math.max(statuses.indexOf(status), 0));
+
+	const moveTask = async (move: { taskId: string; targetSequenceIndex?: number; unsequenced?: boolean }) => {
+		setIsMoving(true);
+		try {
+			setGraph(await apiClient.moveTaskInSequences({ ...move, milestone: milestone || undefined }));
+			setError(null);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setIsMoving(false);
+		}
+	};
+
+	/** The column under the pointer, up to the extra column that starts a new sequence. */
+	const columnAt = (event: React.DragEvent): number => {
+		const offset = event.clientX - event.currentTarget.getBoundingClientRect().left - PADDING + COLUMN_GAP / 2;
+		const column = Math.floor(offset / (NODE_WIDTH + COLUMN_GAP));
+		return Math.max(0, Math.min(column, graph?.sequences.length ?? 0));
+	};
+
+	const handleDrop = (event: React.DragEvent, column: number | "unsequenced") => {
+		event.preventDefault();
+		const taskId = event.dataTransfer.getData("text/plain") || draggedTaskId;
+		setDraggedTaskId(null);
+		setDropColumn(null);
+		if (!taskId) return;
+		if (column === "unsequenced") {
+			void moveTask({ taskId, unsequenced: true });
+			return;
+		}
+		const currentColumn = graph?.sequences.findIndex((sequence) => sequence.tasks.some((task) => task.id === taskId));
+		if (currentColumn === column) return;
+		void moveTask({ taskId, targetSequenceIndex: column + 1 });
+	};
+
+	const renderNode = (task: Task, style?: React.CSSProperties) => {
+		const step = criticalSteps.get(task.id);
+		const externalDependencies = task.dependencies.filter((dependency) => !layout.positions.has(dependency)).length;
+		return (
+			<div
+				key={task.id}
+				draggable={!isMoving}
+				onDragStart={(event) => {
+					event.dataTransfer.setData("text/plain", task.id);
+					event.dataTransfer.effectAllowed = "move";
+					setDraggedTaskId(task.id);
+				}}
+				onDragEnd={() => {
+					setDraggedTaskId(null);
+					setDropColumn(null);
+				}}
+				onClick={() => onEditTask(task)}
+				title={`${task.id}: ${task.title}\nStatus: ${task.status}${task.dependencies.length > 0 ? `\nDepends on: ${task.dependencies.join(", ")}` : ""}`}
+				style={{ width: NODE_WIDTH, height: NODE_HEIGHT, borderLeftColor: statusColor(task.status), ...style }}
+				className={`rounded-md border border-l-4 bg-white dark:bg-gray-800 px-2.5 py-1.5 shadow-sm cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${
+					step !== undefined ? "border-red-400 dark:border-red-500 ring-1 ring-red-300 dark:ring-red-700" : "border-gray-200 dark:border-gray-600"
+				} ${draggedTaskId === task.id ? "opacity-50" : ""}`}
+			>
+				<div className="flex items-center justify-between gap-2 text-[11px]">
+					<span className="font-mono text-gray-500 dark:text-gray-400">{task.id}</span>
+					<span className="truncate" style={{ color: statusColor(task.status) }}>
+						{task.status}
+					</span>
+				</div>
+				<div className="truncate text-sm font-medium text-gray-900 dark:text-gray-100">{task.title}</div>
+				{externalDependencies > 0 && (
+					<div className="text-[10px] text-gray-500 dark:text-gray-400">+{externalDependencies} outside this view</div>
+				)}
+			</div>
+		);
+	};
+
+	const sequences = graph?.sequences ?? [];
+
+	return (
+		<div className="container mx-auto px-4 py-8 bg-gray-50 dark:bg-gray-900 min-h-full transition-colors duration-200">
+			<div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+				<div>
+					<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Dependencies</h1>
+					<p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+						Each column can start once the columns before it are done. Drag a task to another column to change what it
+						depends on.
+					</p>
+				</div>
+				<select
+					value={milestone}
+					onChange={(event) => setMilestone(event.target.value)}
+					aria-label="Milestone"
+					className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+				>
+					<option value="">All active tasks</option>
+					{milestoneEntities.map((entity) => (
+						<option key={entity.id} value={entity.id}>
+							{entity.title}
+						</option>
+					))}
+				</select>
+			</div>
+
+			{error && (
+				<div className="mb-4 rounded-md border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 px-4 py-2 text-sm text-red-700 dark:text-red-300">
+					{error}
+				</div>
+			)}
+
+			{!graph ? (
+				!error && <p className="text-sm text-gray-500 dark:text-gray-400">Loading dependencies...</p>
+			) : (
+				<>
+					<div className="mb-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+						{statuses.map((status) => (
+							<span key={status} className="flex items-center gap-1.5">
+								<span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: statusColor(status) }} />
+								{status}
+							</span>
+						))}
+						<span className="flex items-center gap-1.5">
+							<span className="inline-block w-4 h-0.5 bg-red-500" />
+							Critical path
+							{graph.criticalPath.length > 0 ? ` (${graph.criticalPath.length} tasks)` : ": none"}
+						</span>
+					</div>
+
+					<div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-100/60 dark:bg-gray-800/40">
+						<div
+							className="relative"
+							style={{ width: layout.width, height: layout.height }}
+							onDragOver={(event) => {
+								event.preventDefault();
+								setDropColumn(columnAt(event));
+							}}
+							onDragLeave={(event) => {
+								if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setDropColumn(null);
+							}}
+							onDrop={(event) => handleDrop(event, columnAt(event))}
+						>
+							{[...sequences.map((sequence) => sequence.index), sequences.length + 1].map((index, column) => (
+								<div
+									key={index}
+									className={`absolute top-0 bottom-0 rounded-md transition-colors ${
+										dropColumn === column ? "bg-blue-100/70 dark:bg-blue-900/30" : ""
+									}`}
+									style={{ left: columnX(column) - COLUMN_GAP / 4, width: NODE_WIDTH + COLUMN_GAP / 2 }}
+								>
+									<div className="px-2 pt-2 text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+										{column < sequences.length ? `Sequence ${index}` : draggedTaskId ? "New sequence" : ""}
+									</div>
+								</div>
+							))}
+
+							<svg
+								className="absolute inset-0 pointer-events-none"
+								width={layout.width}
+								height={layout.height}
+								aria-hidden="true"
+							>
+								<defs>
+									<marker id="dependency-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+										<path d="M0,0 L8,4 L0,8 Z" fill="#9ca3af" />
+									</marker>
+									<marker id="dependency-arrow-critical" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+										<path d="M0,0 L8,4 L0,8 Z" fill="#ef4444" />
+									</marker>
+								</defs>
+								{edges.map((edge) => {
+									const from = layout.positions.get(edge.from);
+									const to = layout.positions.get(edge.to);
+									if (!from || !to) return null;
+									const x1 = from.x + NODE_WIDTH;
+									const y1 = from.y + NODE_HEIGHT / 2;
+									const x2 = to.x;
+									const y2 = to.y + NODE_HEIGHT / 2;
+									const bend = Math.max((x2 - x1) / 2, 24);
+									return (
+										<path
+											key={`${edge.from}-${edge.to}`}
+											d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+											fill="none"
+											stroke={edge.critical ? "#ef4444" : "#9ca3af"}
+											strokeWidth={edge.critical ? 2.5 : 1.5}
+											markerEnd={`url(#${edge.critical ? "dependency-arrow-critical" : "dependency-arrow"})`}
+										/>
+									);
+								})}
+							</svg>
+
+							{sequences.flatMap((sequence) =>
+								sequence.tasks.map((task) => {
+									const position = layout.positions.get(task.id);
+									return position
+										? renderNode(task, { position: "absolute", left: position.x, top: position.y })
+										: null;
+								}),
+							)}
+						</div>
+					</div>
+
+					<div
+						onDragOver={(event) => event.preventDefault()}
+						onDrop={(event) => handleDrop(event, "unsequenced")}
+						className="mt-6 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 p-4"
+					>
+						<h2 className="mb-1 text-sm font-semibold text-gray-900 dark:text-gray-100">
+							Unsequenced ({graph.unsequenced.length})
+						</h2>
+						<p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+							Tasks with no dependencies and no dependents. Drag one onto a column to sequence it, or drop a task here
+							to clear its dependencies.
+						</p>
+						<div className="flex flex-wrap gap-3">{graph.unsequenced.map((task) => renderNode(task))}</div>
+					</div>
+				</>
+			)}
+		</div>
+	);
+};
+
+export default DependencyGraphPage;
@@ -68,8 +68,8 @@ interface DocumentationDetailProps {
 }
 
 export default function DocumentationDetail({docs, onRefreshData}: DocumentationDetailProps) {
-    const { user } = useAuth();
-    const isViewer = user?.role === "viewer";
+    const { hasPermission } = useAuth();
+    const canEdit = hasPermission("docs:write");
     const {id, title} = useParams<{ id: string; title: string }>();
     const navigate = useNavigate();
     const [searchParams, setSearchParams] = useSearchParams();
@@ -312,7 +312,7 @@ export default function DocumentationDetail({docs, onRefreshData}: Documentation
                                     )}
                                 </div>
                             </div>
-                            {!isViewer && (
+                            {canEdit && (
                             <div className="flex items-center space-x-3 ml-6">
                                 {!isEditing ? (
                                     <button
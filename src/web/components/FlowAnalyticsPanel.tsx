@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import type { DurationSummary, FlowAnalytics, FlowMetrics } from '../../core/analytics';
+import { getStatusChartColor } from '../lib/status-helpers';
+
+type Breakdown = 'byAssignee' | 'byLabel' | 'byPriority';
+
+const BREAKDOWNS: Array<{ key: Breakdown; label: string }> = [
+	{ key: 'byAssignee', label: 'Assignee' },
+	{ key: 'byLabel', label: 'Label' },
+	{ key: 'byPriority', label: 'Priority' },
+];
+
+const formatDays = (days: number) => (days < 1 ? `${Math.round(days * 24)}h` : `${days.toFixed(1)}d`);
+
+const formatDuration = (summary: DurationSummary) => (summary.count > 0 ? formatDays(summary.averageDays) : '—');
+
+const MetricCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+	<div className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-4">
+		<p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{value}</p>
+		<p className="text-sm text-gray-600 dark:text-gray-400">{label}</p>
+		{detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>}
+	</div>
+);
+
+const TimeInStatus: React.FC<{ metrics: FlowMetrics }> = ({ metrics }) => {
+	const entries = Object.entries(metrics.timeInStatus);
+	const max = Math.max(...entries.map(([, days]) => days), 0);
+	if (entries.length === 0 || max === 0) {
+		return <p className="text-sm text-gray-500 dark:text-gray-400">No status changes recorded yet</p>;
+	}
+	return (
+		<div className="space-y-2">
+			{entries.map(([status, days], index) => (
+				<div key={status} className="flex items-center gap-3 text-sm">
+					<span className="w-28 truncate text-gray-700 dark:text-gray-300" title={status}>{status}</span>
+					<div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-circle h-2">
+						<div
+							className="h-2 rounded-circle"
+							style={{ width: `${(days / max) * 100}%`, backgroundColor: getStatusChartColor(status, index) }}
+						/>
+					</div>
+					<span className="w-14 text-right tabular-nums text-gray-900 dark:text-gray-100">{formatDays(days)}</span>
+				</div>
+			))}
+		</div>
+	);
+};
+
+const Throughput: React.FC<{ analytics: FlowAnalytics }> = ({ analytics }) => {
+	const max = Math.max(...analytics.throughput.map((week) => week.completed), 1);
+	return (
+		<div className="flex items-end gap-2 h-24">
+			{analytics.throughput.map((week) => (
+				<div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full" title={`Week of ${week.weekStart}: ${week.completed} completed`}>
+					<span className="text-xs text-gray-600 dark:text-gray-400 tabular-nums">{week.completed}</span>
+					<div className="w-full bg-emerald-500 rounded-t" style={{ height: `${(week.completed / max) * 100}%`, minHeight: week.completed > 0 ? 2 : 0 }} />
+				</div>
+			))}
+		</div>
+	);
+};
+
+/**
+ * Lead time, cycle time, time in status and throughput, with a breakdown table
+ * by assignee, label or priority.
+ */
+const FlowAnalyticsPanel: React.FC<{ analytics: FlowAnalytics }> = ({ analytics }) => {
+	const [breakdown, setBreakdown] = useState<Breakdown>('byAssignee');
+	const { overall } = analytics;
+	const weeklyAverage = analytics.throughput.reduce((sum, week) => sum + week.completed, 0) / Math.max(analytics.throughput.length, 1);
+	const rows = Object.entries(analytics[breakdown]);
+
+	return (
+		<div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-6">
+			<h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Cycle Time &amp; Throughput</h3>
+
+			<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+				<MetricCard
+					label="Avg lead time"
+					value={formatDuration(overall.leadTime)}
+					detail={overall.leadTime.count > 0 ? `median ${formatDays(overall.leadTime.medianDays)}, created to done` : 'created to done'}
+				/>
+				<MetricCard
+					label="Avg cycle time"
+					value={formatDuration(overall.cycleTime)}
+					detail={overall.cycleTime.count > 0 ? `median ${formatDays(overall.cycleTime.medianDays)}, started to done` : 'started to done'}
+				/>
+				<MetricCard label="Completed per week" value={weeklyAverage.toFixed(1)} detail={`over the last ${analytics.throughput.length} weeks`} />
+			</div>
+
+			<div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+				<div>
+					<h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Average Time in Status</h4>
+					<TimeInStatus metrics={overall} />
+				</div>
+				<div>
+					<h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Weekly Throughput</h4>
+					<Throughput analytics={analytics} />
+				</div>
+			</div>
+
+			<div>
+				<div className="flex items-center justify-between mb-3">
+					<h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Breakdown</h4>
+					<div className="flex gap-1 text-xs">
+						{BREAKDOWNS.map((option) => (
+							<button
+								key={option.key}
+								type="button"
+								onClick={() => setBreakdown(option.key)}
+								className={`px-2 py-0.5 rounded ${
+									breakdown === option.key
+										? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+										: 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+								}`}
+							>
+								{option.label}
+							</button>
+						))}
+					</div>
+				</div>
+				{rows.length > 0 ? (
+					<table className="w-full text-sm">
+						<thead>
+							<tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+								<th className="py-2 font-medium">{BREAKDOWNS.find((option) => option.key === breakdown)?.label}</th>
+								<th className="py-2 font-medium text-right">Completed</th>
+								<th className="py-2 font-medium text-right">Avg lead</th>
+								<th className="py-2 font-medium text-right">Avg cycle</th>
+								<th className="py-2 font-medium text-right">Median cycle</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+							{rows.map(([key, metrics]) => (
+								<tr key={key} className="text-gray-900 dark:text-gray-100">
+									<td className="py-2 capitalize">{key}</td>
+									<td className="py-2 text-right tabular-nums">{metrics.completed}</td>
+									<td className="py-2 text-right tabular-nums">{formatDuration(metrics.leadTime)}</td>
+									<td className="py-2 text-right tabular-nums">{formatDuration(metrics.cycleTime)}</td>
+									<td className="py-2 text-right tabular-nums">
+										{metrics.cycleTime.count > 0 ? formatDays(metrics.cycleTime.medianDays) : '—'}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				) : (
+					<p className="text-sm text-gray-500 dark:text-gray-400">No tasks to break down yet</p>
+				)}
+			</div>
+		</div>
+	);
+};
+
+export default FlowAnalyticsPanel;
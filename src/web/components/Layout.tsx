@@ -3,7 +3,7 @@ import { Outlet } from 'react-router-dom';
 import SideNavigation from './SideNavigation';
 import Navigation from './Navigation';
 import { HealthIndicator, HealthSuccessToast } from './HealthIndicator';
-import { type Task, type Document, type Decision } from '../../types';
+import { type Task, type Document, type Decision, type SavedView } from '../../types';
 
 interface LayoutProps {
 	projectName: string;
@@ -12,6 +12,7 @@ interface LayoutProps {
 	tasks: Task[];
 	docs: Document[];
 	decisions: Decision[];
+	views: SavedView[];
 	isLoading: boolean;
 	onRefreshData: () => Promise<void>;
 }
@@ -23,6 +24,7 @@ export default function Layout({
 	tasks, 
 	docs, 
 	decisions, 
+	views,
 	isLoading, 
 	onRefreshData 
 }: LayoutProps) {
@@ -33,6 +35,7 @@ export default function Layout({
 				tasks={tasks}
 				docs={docs}
 				decisions={decisions}
+				views={views}
 				isLoading={isLoading}
 				onRefreshData={onRefreshData}
 			/>
@@ -4,6 +4,7 @@ import type { Task } from "../../types";
 interface MilestoneTaskRowProps {
 	task: Task;
 	isDone: boolean;
+	isOverdue?: boolean;
 	statusBadgeClass: string;
 	priorityBadgeClass: string;
 	onEditTask: (task: Task) => void;
@@ -25,6 +26,7 @@ const DragHandle = () => (
 const MilestoneTaskRow: React.FC<MilestoneTaskRowProps> = ({
 	task,
 	isDone,
+	isOverdue = false,
 	statusBadgeClass,
 	priorityBadgeClass,
 	onEditTask,
@@ -36,7 +38,9 @@ const MilestoneTaskRow: React.FC<MilestoneTaskRowProps> = ({
 		onDragStart={(event) => onDragStart(event, task)}
 		onDragEnd={onDragEnd}
 		onClick={() => onEditTask(task)}
-		className="group grid grid-cols-[auto_auto_1fr_auto_auto] gap-3 items-center px-3 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer"
+		className={`group grid grid-cols-[auto_auto_1fr_auto_auto] gap-3 items-center px-3 py-2.5 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer ${
+			isOverdue ? "bg-red-50/60 dark:bg-red-900/10" : ""
+		}`}
 	>
 		<div className="w-6 flex justify-center opacity-40 group-hover:opacity-100 transition-opacity">
 			<DragHandle />
@@ -46,7 +50,7 @@ const MilestoneTaskRow: React.FC<MilestoneTaskRowProps> = ({
 			{task.id}
 		</div>
 
-		<div className={`min-w-0 overflow-hidden ${isDone ? "opacity-60" : ""}`}>
+		<div className={`min-w-0 overflow-hidden flex items-center gap-2 ${isDone ? "opacity-60" : ""}`}>
 			<span
 				className={`text-sm truncate block whitespace-nowrap ${
 					isDone ? "line-through text-gray-500" : "text-gray-900 dark:text-gray-100"
@@ -54,6 +58,16 @@ const MilestoneTaskRow: React.FC<MilestoneTaskRowProps> = ({
 			>
 				{task.title}
 			</span>
+			{task.dueDate && !isDone && (
+				<span
+					className={`shrink-0 text-[11px] whitespace-nowrap ${
+						isOverdue ? "font-medium text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"
+					}`}
+					title={isOverdue ? "Overdue" : "Due date"}
+				>
+					{isOverdue ? "Overdue" : "Due"} {task.dueDate}
+				</span>
+			)}
 		</div>
 
 		<div className="w-24 flex justify-center">
@@ -5,8 +5,10 @@ import { buildMilestoneBuckets, collectArchivedMilestoneKeys } from "../utils/mi
 import { type Milestone, type MilestoneBucket, type Task } from "../../types";
 import MilestoneTaskRow from "./MilestoneTaskRow";
 import Modal from "./Modal";
+import { MilestoneBurndown } from "./TimeseriesCharts";
 import { useAuth } from "../contexts/AuthContext";
 import { isDoneStatus, getStatusBadgeClass, getPriorityBadgeClass } from "../lib/status-helpers";
+import { getToday, isOverdue } from "../../core/schedule";
 
 interface MilestonesPageProps {
 	tasks: Task[];
@@ -26,14 +28,15 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 	onRefreshData,
 }) => {
 	const { milestoneId } = useParams<{ milestoneId?: string }>();
-	const { user } = useAuth();
-	const isViewer = user?.role === "viewer";
+	const { hasPermission } = useAuth();
+	const canEdit = hasPermission("milestones:write");
 	const [newMilestone, setNewMilestone] = useState("");
 	const [error, setError] = useState<string | null>(null);
 	const [success, setSuccess] = useState<string | null>(null);
 	const [isSaving, setIsSaving] = useState(false);
 	const [showAddModal, setShowAddModal] = useState(false);
 	const [expandedBuckets, setExpandedBuckets] = useState<Record<string, boolean>>({});
+	const [burndownBuckets, setBurndownBuckets] = useState<Record<string, boolean>>({});
 
 	// Auto-expand the matching milestone bucket when navigating to a deep link
 	useEffect(() => {
@@ -64,6 +67,19 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 		[onRefreshData],
 	);
 
+	const handleSetTargetDate = useCallback(
+		async (milestone: Milestone, targetDate: string) => {
+			setError(null);
+			try {
+				await apiClient.setMilestoneTargetDate(milestone.id, targetDate || null);
+				await onRefreshData?.();
+			} catch (err) {
+				setError(err instanceof Error ? err.message : "Failed to update milestone");
+			}
+		},
+		[onRefreshData],
+	);
+
 	const archivedMilestoneIds = useMemo(
 		() => collectArchivedMilestoneKeys(archivedMilestones, milestoneEntities),
 		[archivedMilestones, milestoneEntities],
@@ -261,6 +277,7 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 		const progress = bucket.total > 0 ? Math.round((bucket.doneCount / bucket.total) * 100) : 0;
 		const defaultExpanded = bucket.total > 0 && bucket.total <= 8;
 		const isExpanded = expandedBuckets[bucket.key] ?? defaultExpanded;
+		const showBurndown = Boolean(bucket.milestone) && (burndownBuckets[bucket.key] ?? false);
 		const listId = `milestone-${safeIdSegment(bucket.key)}`;
 		const sortedTasks = getSortedTasks(bucket.tasks);
 		const isDropTarget = dropTargetKey === bucket.key;
@@ -310,6 +327,29 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 									</span>
 								);
 							})()}
+							{(() => {
+								const milestoneEntity = milestoneEntities.find((m) => m.id === bucket.milestone);
+								if (!milestoneEntity) return null;
+								const isLate = Boolean(milestoneEntity.targetDate) && !bucket.isCompleted && (milestoneEntity.targetDate ?? "") < getToday();
+								const dateClass = isLate ? "text-red-600 dark:text-red-400 font-medium" : "text-gray-500 dark:text-gray-400";
+								if (!canEdit) {
+									return milestoneEntity.targetDate ? (
+										<span className={`shrink-0 text-xs ${dateClass}`}>Target {milestoneEntity.targetDate}</span>
+									) : null;
+								}
+								return (
+									<label className={`shrink-0 flex items-center gap-1.5 text-xs ${dateClass}`}>
+										Target
+										<input
+											type="date"
+											value={milestoneEntity.targetDate ?? ""}
+											onChange={(e) => void handleSetTargetDate(milestoneEntity, e.target.value)}
+											aria-label={`Target date for ${milestoneEntity.title}`}
+											className="px-1.5 py-0.5 border border-gray-200 dark:border-gray-600 rounded text-xs bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200"
+										/>
+									</label>
+								);
+							})()}
 						</div>
 						{isEmpty ? (
 							<span className="text-sm text-gray-400 dark:text-gray-500">
@@ -320,6 +360,14 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 								<span className="text-sm text-gray-500 dark:text-gray-400">
 									{bucket.total} task{bucket.total === 1 ? "" : "s"}
 								</span>
+								{bucket.effort.estimatedTasks > 0 && (
+									<span
+										className="text-sm text-gray-500 dark:text-gray-400 tabular-nums"
+										title={`${bucket.effort.completed} of ${bucket.effort.estimated} estimated done, ${bucket.effort.logged}h logged`}
+									>
+										{bucket.effort.completed}/{bucket.effort.estimated} est
+									</span>
+								)}
 								<span className="text-lg font-bold text-emerald-600 dark:text-emerald-400">
 									{progress}%
 								</span>
@@ -371,7 +419,7 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 								</svg>
 								List
 							</Link>
-							{!isViewer && (() => {
+							{canEdit && (() => {
 								const milestoneEntity = milestoneEntities.find((m) => m.id === bucket.milestone);
 								if (!milestoneEntity) return null;
 								const isToggling = togglingActiveKey === milestoneEntity.id;
@@ -386,7 +434,7 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 									</button>
 								);
 							})()}
-							{!isViewer && (
+							{canEdit && (
 							<button
 								type="button"
 								onClick={() => handleArchiveMilestone(bucket)}
@@ -400,20 +448,39 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 							</button>
 							)}
 						</div>
-						<button
-							type="button"
-							aria-expanded={isExpanded}
-							aria-controls={listId}
-							onClick={() => setExpandedBuckets((c) => ({ ...c, [bucket.key]: !isExpanded }))}
-							className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
-						>
-							{isExpanded ? "Hide" : "Show"} tasks
-							<svg className={`w-4 h-4 transition-transform ${isExpanded ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-								<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-							</svg>
-						</button>
+						<div className="flex items-center gap-3">
+							{bucket.milestone && !isEmpty && (
+								<button
+									type="button"
+									aria-pressed={showBurndown}
+									onClick={() => setBurndownBuckets((c) => ({ ...c, [bucket.key]: !showBurndown }))}
+									className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+								>
+									{showBurndown ? "Hide" : "Show"} burndown
+								</button>
+							)}
+							<button
+								type="button"
+								aria-expanded={isExpanded}
+								aria-controls={listId}
+								onClick={() => setExpandedBuckets((c) => ({ ...c, [bucket.key]: !isExpanded }))}
+								className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+							>
+								{isExpanded ? "Hide" : "Show"} tasks
+								<svg className={`w-4 h-4 transition-transform ${isExpanded ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+									<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+								</svg>
+							</button>
+						</div>
 					</div>
 
+					{/* Burndown from git history */}
+					{showBurndown && bucket.milestone && (
+						<div className="mt-4">
+							<MilestoneBurndown milestone={bucket.milestone} />
+						</div>
+					)}
+
 					{/* Task list */}
 					{isExpanded && !isEmpty && (
 						<div id={listId} className="mt-4 rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
@@ -424,6 +491,7 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 											key={task.id}
 											task={task}
 											isDone={isDoneStatus(task.status)}
+											isOverdue={isOverdue(task)}
 											statusBadgeClass={getStatusBadgeClass(task.status)}
 											priorityBadgeClass={getPriorityBadgeClass(task.priority)}
 											onEditTask={onEditTask}
@@ -504,6 +572,7 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 											key={task.id}
 											task={task}
 											isDone={isDoneStatus(task.status)}
+											isOverdue={isOverdue(task)}
 											statusBadgeClass={getStatusBadgeClass(task.status)}
 											priorityBadgeClass={getPriorityBadgeClass(task.priority)}
 											onEditTask={onEditTask}
@@ -564,7 +633,7 @@ const MilestonesPage: React.FC<MilestonesPageProps> = ({
 							{error}
 						</span>
 					)}
-					{!isViewer && (
+					{canEdit && (
 					<button
 						type="button"
 						onClick={() => setShowAddModal(true)}
@@ -3,6 +3,7 @@ import type { Milestone, Task } from "../../types";
 import { useAuth } from "../contexts/AuthContext";
 import { useSearchParams } from "react-router-dom";
 import { isDoneStatus, getStatusBadgeClass, getPriorityBadgeClass, noop } from "../lib/task-display";
+import { getToday, isOverdue } from "../../core/schedule";
 import MilestoneTaskRow from "./MilestoneTaskRow";
 
 interface MyWorkPageProps {
@@ -44,6 +45,9 @@ const MyWorkPage: React.FC<MyWorkPageProps> = ({ tasks, milestoneEntities, onEdi
 		});
 	}, [tasks, user, assigneeFilter]);
 
+	const today = getToday();
+	const overdueCount = assignedTasks.filter((task) => isOverdue(task, today)).length;
+
 	const groups = useMemo((): TaskGroup[] => {
 		const milestoneMap = new Map<string, Milestone>(
 			milestoneEntities.map((m) => [m.id, m]),
@@ -63,6 +67,11 @@ const MyWorkPage: React.FC<MyWorkPageProps> = ({ tasks, milestoneEntities, onEdi
 
 		const result: TaskGroup[] = [];
 
+		// Overdue tasks first within each group so they are not missed
+		for (const groupTasks of byKey.values()) {
+			groupTasks.sort((a, b) => Number(isOverdue(b, today)) - Number(isOverdue(a, today)));
+		}
+
 		// Milestone groups first, preserving insertion order (natural order)
 		for (const [key, groupTasks] of byKey.entries()) {
 			if (key === NO_MILESTONE_KEY) continue;
@@ -85,7 +94,7 @@ const MyWorkPage: React.FC<MyWorkPageProps> = ({ tasks, milestoneEntities, onEdi
 		}
 
 		return result;
-	}, [assignedTasks, milestoneEntities]);
+	}, [assignedTasks, milestoneEntities, today]);
 
 	if (!user && !assigneeFilter) {
 		return (
@@ -136,6 +145,9 @@ const MyWorkPage: React.FC<MyWorkPageProps> = ({ tasks, milestoneEntities, onEdi
 				<h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">My Work</h1>
 				<p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
 					{assignedTasks.length} task{assignedTasks.length === 1 ? "" : "s"} assigned to you
+					{overdueCount > 0 && (
+						<span className="ml-2 font-medium text-red-600 dark:text-red-400">{overdueCount} overdue</span>
+					)}
 				</p>
 			</div>
 
@@ -190,6 +202,7 @@ const MyWorkPage: React.FC<MyWorkPageProps> = ({ tasks, milestoneEntities, onEdi
 												key={task.id}
 												task={task}
 												isDone={isDoneStatus(task.status)}
+												isOverdue={isOverdue(task, today)}
 												statusBadgeClass={getStatusBadgeClass(task.status)}
 												priorityBadgeClass={getPriorityBadgeClass(task.priority)}
 												onEditTask={onEditTask}
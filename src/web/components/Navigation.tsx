@@ -20,9 +20,9 @@ const Navigation: React.FC<NavigationProps> = ({projectName}) => {
                         <div className="flex items-center gap-3">
                             <span className="text-sm text-gray-600 dark:text-gray-400">
                                 {user.name}
-                                {user.role === "viewer" && (
+                                {user.role !== "admin" && (
                                     <span className="ml-1 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-500 dark:bg-gray-700 dark:text-gray-400">
-                                        viewer
+                                        {user.role}
                                     </span>
                                 )}
                             </span>
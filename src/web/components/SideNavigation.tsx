@@ -6,13 +6,15 @@ import {
 	type DecisionSearchResult,
 	type Document,
 	type DocumentSearchResult,
+	type SavedView,
+	type SearchMatch,
 	type SearchResult,
 	type Task,
 	type TaskSearchResult,
 } from '../../types';
 import ErrorBoundary from './ErrorBoundary';
 import { SidebarSkeleton } from './LoadingSpinner';
-import { sanitizeUrlTitle } from '../utils/urlHelpers';
+import { createViewPath, sanitizeUrlTitle } from '../utils/urlHelpers';
 import { useAuth } from '../contexts/AuthContext';
 import { getWebVersion } from '../utils/version';
 import { apiClient } from '../lib/api';
@@ -23,6 +25,24 @@ const stripIdPrefix = (id: string): string => {
 	return id.replace(/^[a-zA-Z]+-/, '');
 };
 
+// Renders a search match's text with its matched ranges marked
+const renderMatchText = (match: SearchMatch): React.ReactNode[] => {
+	const text = String(match.value ?? '');
+	const parts: React.ReactNode[] = [];
+	let position = 0;
+	for (const [start, end] of match.indices) {
+		if (start > position) parts.push(text.slice(position, start));
+		parts.push(
+			<mark key={start} className="bg-yellow-100 dark:bg-yellow-800/60 text-inherit rounded-sm">
+				{text.slice(start, end + 1)}
+			</mark>
+		);
+		position = end + 1;
+	}
+	parts.push(text.slice(position));
+	return parts;
+};
+
 // Icon components for better semantics and performance
 const Icons = {
 	Tasks: () => (
@@ -146,6 +166,23 @@ const Icons = {
 			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
 		</svg>
 	),
+	Calendar: () => (
+		<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+		</svg>
+	),
+	Dependencies: () => (
+		<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+			<rect x="3" y="4" width="7" height="5" rx="1" strokeWidth={2} />
+			<rect x="14" y="15" width="7" height="5" rx="1" strokeWidth={2} />
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6.5h2a2 2 0 012 2v6.5" />
+		</svg>
+	),
+	View: () => (
+		<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+			<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+		</svg>
+	),
 	Milestone: () => (
 		<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
 			<circle cx="12" cy="12" r="9" strokeWidth={2} />
@@ -165,6 +202,7 @@ interface SideNavigationProps {
 	tasks: Task[];
 	docs: Document[];
 	decisions: Decision[];
+	views: SavedView[];
 	isLoading: boolean;
 	error?: Error | null;
 	onRetry?: () => void;
@@ -175,12 +213,15 @@ const SideNavigation = memo(function SideNavigation({
 	tasks, 
 	docs, 
 	decisions, 
+	views,
 	isLoading, 
 	error, 
-	onRetry
+	onRetry,
+	onRefreshData
 }: SideNavigationProps) {
-	const { user } = useAuth();
-	const isViewer = user?.role === "viewer";
+	const { hasPermission } = useAuth();
+	const canEdit = hasPermission("docs:write");
+	const canEditViews = hasPermission("tasks:write");
 	const [isCollapsed, setIsCollapsed] = useState(() => {
 		const saved = localStorage.getItem('sideNavCollapsed');
 		return saved ? JSON.parse(saved) : false;
@@ -206,8 +247,13 @@ const SideNavigation = memo(function SideNavigation({
 		// Auto-collapse if more than 6 decisions
 		return decisions.length > 6;
 	});
+	const [isViewsCollapsed, setIsViewsCollapsed] = useState(() => {
+		const saved = localStorage.getItem('viewsCollapsed');
+		return saved !== null ? JSON.parse(saved) : false;
+	});
 	const [version, setVersion] = useState<string>('');
 	const location = useLocation();
+	const activeViewId = new URLSearchParams(location.search).get('view');
 	const navigate = useNavigate();
 
 	// Create handlers - just navigate to new pages
@@ -233,6 +279,24 @@ const SideNavigation = memo(function SideNavigation({
 		localStorage.setItem('docsCollapsed', JSON.stringify(isDocsCollapsed));
 	}, [isDocsCollapsed]);
 
+	// Save views collapse state to localStorage
+	useEffect(() => {
+		localStorage.setItem('viewsCollapsed', JSON.stringify(isViewsCollapsed));
+	}, [isViewsCollapsed]);
+
+	const handleDeleteView = useCallback(async (view: SavedView) => {
+		if (!window.confirm(`Delete the view "${view.name}"?`)) return;
+		try {
+			await apiClient.deleteView(view.id);
+			if (activeViewId === view.id) {
+				navigate(view.lanes ? '/' : '/tasks');
+			}
+			await onRefreshData();
+		} catch (err) {
+			console.error('Failed to delete view:', err);
+		}
+	}, [activeViewId, navigate, onRefreshData]);
+
 	// Save decisions collapse state to localStorage
 	useEffect(() => {
 		localStorage.setItem('decisionsCollapsed', JSON.stringify(isDecisionsCollapsed));
@@ -328,8 +392,7 @@ const SideNavigation = memo(function SideNavigation({
 		if (!searchQuery.trim()) {
 			return [];
 		}
-		const filtered = searchResults
-			.filter((result) => result.score === null || result.score <= 0.45)
+		const filtered = [...searchResults]
 			.sort((a, b) => {
 				const scoreA = a.score ?? Number.POSITIVE_INFINITY;
 				const scoreB = b.score ?? Number.POSITIVE_INFINITY;
@@ -417,6 +480,8 @@ const SideNavigation = memo(function SideNavigation({
 								: result.type === 'document'
 									? (result as DocumentSearchResult).document
 									: (result as DecisionSearchResult).decision;
+							const titleMatch = result.matches?.find((match) => match.key === 'title' && typeof match.value === 'string');
+							const snippetMatch = result.matches?.find((match) => match.key === 'snippet');
 							const getResultLink = () => {
 								if (result.type === 'document') {
 									return `/documentation/${stripIdPrefix(item.id)}/${sanitizeUrlTitle(item.title)}`;
@@ -442,11 +507,16 @@ const SideNavigation = memo(function SideNavigation({
 									{getResultIcon()}
 									<div className="flex-1 min-w-0">
 										<div className="font-medium truncate">
-											{item.title}
+											{titleMatch ? renderMatchText(titleMatch) : item.title}
 										</div>
 										<div className="text-xs text-gray-500 dark:text-gray-400 truncate">
 											{result.type.charAt(0).toUpperCase() + result.type.slice(1)} • {item.id}
 										</div>
+										{snippetMatch && (
+											<div className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+												{renderMatchText(snippetMatch)}
+											</div>
+										)}
 									</div>
 									{result.score !== null && (
 										<div className="text-xs text-gray-400 dark:text-gray-500">
@@ -584,6 +654,36 @@ const SideNavigation = memo(function SideNavigation({
 							<span className="ml-3 text-sm font-medium">Milestones</span>
 						</NavLink>
 
+						{/* Dependencies Navigation */}
+						<NavLink
+							to="/dependencies"
+							className={({ isActive }) =>
+								`flex items-center px-3 py-2 rounded-lg transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 font-medium'
+										: 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<Icons.Dependencies />
+							<span className="ml-3 text-sm font-medium">Dependencies</span>
+						</NavLink>
+
+						{/* Calendar Navigation */}
+						<NavLink
+							to="/calendar"
+							className={({ isActive }) =>
+								`flex items-center px-3 py-2 rounded-lg transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 font-medium'
+										: 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<Icons.Calendar />
+							<span className="ml-3 text-sm font-medium">Calendar</span>
+						</NavLink>
+
 						{/* Statistics Navigation */}
 						<NavLink
 							to="/statistics"
@@ -617,7 +717,63 @@ const SideNavigation = memo(function SideNavigation({
 
 				{!isCollapsed && !isLoading && (
 					<>
-						{/* Divider between Tasks and Documents */}
+						{/* Divider between Tasks and Views */}
+						<div className="mx-4 my-2 border-t border-gray-200 dark:border-gray-700"></div>
+
+						{/* Saved Views Section */}
+						<div className="px-4 py-4">
+							<div className="flex items-center space-x-3 mb-4">
+								<button
+									onClick={() => setIsViewsCollapsed(!isViewsCollapsed)}
+									className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded transition-colors duration-200"
+									title={isViewsCollapsed ? "Expand views" : "Collapse views"}
+								>
+									{isViewsCollapsed ? <Icons.ChevronRight /> : <Icons.ChevronDown />}
+								</button>
+								<span className="text-gray-500 dark:text-gray-400"><Icons.View /></span>
+								<span className="text-sm font-semibold uppercase tracking-wider text-gray-600 dark:text-gray-400 whitespace-nowrap">Views ({views.length})</span>
+							</div>
+
+							{/* View List */}
+							{!isViewsCollapsed && (
+								<div className="space-y-1">
+									{views.length === 0 ? (
+										<p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No saved views. Filter the task list and save it as a view.</p>
+									) : (
+										views.map((view) => (
+											<div key={view.id} className="group flex items-center">
+												<NavLink
+													to={createViewPath(view)}
+													title={view.description || view.name}
+													className={`flex-1 min-w-0 flex items-center space-x-3 px-3 py-2 text-sm rounded-lg transition-colors duration-200 ${
+														activeViewId === view.id
+															? 'bg-blue-50 dark:bg-blue-600/20 text-blue-600 dark:text-blue-400 font-medium'
+															: 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+													}`}
+												>
+													<span className="text-gray-400 dark:text-gray-500">{view.lanes ? <Icons.Board /> : <Icons.List />}</span>
+													<span className="truncate">{view.name}</span>
+												</NavLink>
+												{canEditViews && (
+													<button
+														onClick={() => handleDeleteView(view)}
+														className="ml-1 p-1 opacity-0 group-hover:opacity-100 text-gray-400 dark:text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded transition-all duration-200"
+														title={`Delete view "${view.name}"`}
+														aria-label={`Delete view ${view.name}`}
+													>
+														<svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+															<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+														</svg>
+													</button>
+												)}
+											</div>
+										))
+									)}
+								</div>
+							)}
+						</div>
+
+						{/* Divider between Views and Documents */}
 						<div className="mx-4 my-2 border-t border-gray-200 dark:border-gray-700"></div>
 						
 						{/* Documents Section */}
@@ -634,7 +790,7 @@ const SideNavigation = memo(function SideNavigation({
 									<span className="text-gray-500 dark:text-gray-400"><Icons.Document /></span>
 									<span className="text-sm font-semibold uppercase tracking-wider text-gray-600 dark:text-gray-400 whitespace-nowrap">Documents ({docs.length})</span>
 								</div>
-									{!isViewer && (
+									{canEdit && (
 									<button
 										onClick={handleCreateDocument}
 										className="p-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded transition-colors duration-200"
@@ -803,6 +959,40 @@ const SideNavigation = memo(function SideNavigation({
 								<Icons.Milestone />
 							</div>
 						</NavLink>
+						{/* Dependencies Navigation */}
+						<NavLink
+							to="/dependencies"
+							data-tooltip-id="sidebar-tooltip"
+							data-tooltip-content="Dependencies"
+							className={({ isActive }) =>
+								`flex items-center justify-center p-3 rounded-md transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-700 dark:text-blue-400'
+										: 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<div className="w-6 h-6 flex items-center justify-center">
+								<Icons.Dependencies />
+							</div>
+						</NavLink>
+						{/* Calendar Navigation */}
+						<NavLink
+							to="/calendar"
+							data-tooltip-id="sidebar-tooltip"
+							data-tooltip-content="Calendar"
+							className={({ isActive }) =>
+								`flex items-center justify-center p-3 rounded-md transition-colors duration-200 ${
+									isActive
+										? 'bg-blue-50 dark:bg-blue-600/20 text-blue-700 dark:text-blue-400'
+										: 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-900 dark:hover:text-gray-100'
+								}`
+							}
+						>
+							<div className="w-6 h-6 flex items-center justify-center">
+								<Icons.Calendar />
+							</div>
+						</NavLink>
 						{/* Statistics Navigation */}
 						<NavLink
 							to="/statistics"
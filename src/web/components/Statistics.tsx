@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { apiClient } from '../lib/api';
+import type { FlowAnalytics } from '../../core/analytics';
 import type { TaskStatistics } from '../../core/statistics';
 import type { Task } from '../../types';
 import LoadingSpinner from './LoadingSpinner';
 import { getStatusColor } from '../lib/status-helpers';
+import { FlowOverview } from './TimeseriesCharts';
+import FlowAnalyticsPanel from './FlowAnalyticsPanel';
 
 interface StatisticsData extends Omit<TaskStatistics, 'statusCounts' | 'priorityCounts'> {
 	statusCounts: Record<string, number>;
@@ -19,6 +22,7 @@ interface StatisticsProps {
 
 const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoading, onEditTask, projectName }) => {
 	const [statistics, setStatistics] = useState<StatisticsData | null>(null);
+	const [analytics, setAnalytics] = useState<FlowAnalytics | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const [loadingMessage, setLoadingMessage] = useState('Building statistics...');
@@ -83,6 +87,12 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 		};
 
 		fetchStatistics();
+		// Built from git history, so it can take longer; the rest of the page does not wait for it
+		apiClient.fetchFlowAnalytics()
+			.then((data) => {
+				if (isMounted) setAnalytics(data);
+			})
+			.catch((err) => console.error('Failed to fetch flow analytics:', err));
 
 		return () => {
 			isMounted = false;
@@ -324,6 +334,12 @@ const Statistics: React.FC<StatisticsProps> = ({ tasks, isLoading: externalLoadi
 				</div>
 			</div>
 
+			{/* Cumulative flow and burndown from git history */}
+			<FlowOverview />
+
+			{/* Lead time, cycle time and throughput */}
+			{analytics && <FlowAnalyticsPanel analytics={analytics} />}
+
 			{/* Status and Priority Distribution */}
 			<div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
 				{/* Status Distribution */}
@@ -1,5 +1,7 @@
 import React from 'react';
-import { type Task } from '../../types';
+import { type Task, type TaskLease } from '../../types';
+import { getLoggedHours } from '../../core/effort';
+import { isOverdue } from '../../core/schedule';
 
 interface TaskCardProps {
   task: Task;
@@ -9,15 +11,36 @@ interface TaskCardProps {
   onDragEnd?: () => void;
   status?: string;
   laneId?: string;
+  /** Live claim on the task, shown as who holds it and until when. */
+  lease?: TaskLease;
+  /** Part of the board's multi-selection. */
+  selected?: boolean;
+  /** Toggles the card in the multi-selection; Ctrl/Cmd/Shift-click or the checkbox. */
+  onToggleSelect?: (task: Task) => void;
 }
 
-const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEnd, status, laneId }) => {
+const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEnd, status, laneId, lease, selected, onToggleSelect }) => {
   const [isDragging, setIsDragging] = React.useState(false);
   const [showBranchTooltip, setShowBranchTooltip] = React.useState(false);
 
   // Check if task is from another branch (read-only)
   const isFromOtherBranch = Boolean(task.branch);
 
+  const loggedHours = getLoggedHours(task);
+  const hasEstimate = typeof task.estimate === 'number';
+  const effortLabel = hasEstimate
+    ? loggedHours > 0 ? `${loggedHours}h / ${task.estimate}` : `est ${task.estimate}`
+    : loggedHours > 0 ? `${loggedHours}h` : null;
+  const overdue = isOverdue(task);
+  // Leases lapse on their own without an event, so hide the ones already past
+  const activeLease = lease && new Date(lease.expiresAt).getTime() > Date.now() ? lease : undefined;
+  const leaseUntil = activeLease
+    ? new Date(activeLease.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+  const effortTitle = hasEstimate
+    ? `${loggedHours}h logged of ${task.estimate} estimated`
+    : `${loggedHours}h logged`;
+
   const handleDragStart = (e: React.DragEvent) => {
     // Prevent dragging cross-branch tasks
     if (isFromOtherBranch) {
@@ -39,6 +62,17 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
     onDragStart?.();
   };
 
+  const canSelect = Boolean(onToggleSelect) && !isFromOtherBranch;
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (canSelect && (e.metaKey || e.ctrlKey || e.shiftKey)) {
+      e.preventDefault();
+      onToggleSelect?.(task);
+      return;
+    }
+    onEdit(task);
+  };
+
   const handleDragEnd = () => {
     setIsDragging(false);
     onDragEnd?.();
@@ -99,12 +133,16 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
             ? 'opacity-75 cursor-not-allowed border-dashed' 
             : 'cursor-pointer hover:shadow-md dark:hover:shadow-lg hover:border-stone-500 dark:hover:border-stone-400'
         } ${getPriorityClass(task.priority)} ${
+          overdue ? 'ring-1 ring-red-400 dark:ring-red-500' : ''
+        } ${
           isDragging ? 'opacity-50 transform rotate-2 scale-105' : ''
-        }`}
+        } ${
+          selected ? 'ring-2 ring-blue-500 dark:ring-blue-400' : ''
+        } group`}
         draggable={!isFromOtherBranch}
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
-        onClick={() => onEdit(task)}
+        onClick={handleClick}
       >
         {/* Cross-branch indicator banner */}
         {isFromOtherBranch && (
@@ -120,7 +158,19 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
 
         {/* Header row with priority badge and task ID */}
         <div className="flex items-center justify-between gap-2 mb-1.5">
-          <span className="text-xs text-gray-400 dark:text-gray-500 font-mono transition-colors duration-200">{task.id}</span>
+          <span className="flex items-center gap-1.5">
+            {canSelect && (
+              <input
+                type="checkbox"
+                aria-label={`Select ${task.id}`}
+                className={`h-3 w-3 ${selected ? '' : 'hidden group-hover:inline-block'}`}
+                checked={Boolean(selected)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => onToggleSelect?.(task)}
+              />
+            )}
+            <span className="text-xs text-gray-400 dark:text-gray-500 font-mono transition-colors duration-200">{task.id}</span>
+          </span>
           {(() => {
             const badge = getPriorityBadge(task.priority);
             return badge ? (
@@ -140,6 +190,20 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
           {task.title}
         </h4>
 
+        {activeLease && (
+          <div
+            className="flex items-center gap-1 mt-1.5 text-[10px] text-indigo-700 dark:text-indigo-300"
+            title={`Claimed by ${activeLease.holder} until ${new Date(activeLease.expiresAt).toLocaleString()}`}
+          >
+            <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+            <span className="truncate">
+              {activeLease.holder} until {leaseUntil}
+            </span>
+          </div>
+        )}
+
         {/* Labels - limit to 3 */}
         {task.labels.length > 0 && (
           <div className="flex flex-wrap gap-1 mt-2">
@@ -162,6 +226,19 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEdit, onDragStart, onDragEn
         {/* Footer with date */}
         <div className="flex items-center justify-between text-[10px] text-gray-400 dark:text-gray-500 mt-2 pt-1.5 border-t border-gray-100 dark:border-gray-600/50 transition-colors duration-200">
           <span>{formatRelativeDate(task.createdDate)}</span>
+          {task.dueDate && (
+            <span
+              className={overdue ? 'font-semibold text-red-600 dark:text-red-400' : undefined}
+              title={overdue ? `Overdue since ${task.dueDate}` : `Due ${task.dueDate}`}
+            >
+              {overdue ? 'Overdue' : 'Due'} {task.dueDate.slice(5)}
+            </span>
+          )}
+          {effortLabel && (
+            <span className="tabular-nums" title={effortTitle}>
+              {effortLabel}
+            </span>
+          )}
           {task.assignee.length > 0 && (
             <span className="truncate max-w-[80px]" title={task.assignee.join(', ')}>
               {task.assignee[0]}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { type Task } from '../../types';
+import { type Task, type TaskLease } from '../../types';
 import type { ReorderTaskPayload } from '../lib/api';
 import TaskCard from './TaskCard';
 import { getStatusBadgeClass } from '../lib/status-helpers';
@@ -9,6 +9,11 @@ interface TaskColumnProps {
   tasks: Task[];
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => void;
   onEditTask: (task: Task) => void;
+  /** Live claims on tasks, by task ID. */
+  leases?: Map<string, TaskLease>;
+  /** IDs of the tasks in the board's multi-selection. */
+  selectedIds?: Set<string>;
+  onToggleSelect?: (task: Task) => void;
   onTaskReorder?: (payload: ReorderTaskPayload) => void;
   dragSourceStatus?: string | null;
   dragSourceLane?: string | null;
@@ -24,6 +29,9 @@ const TaskColumn: React.FC<TaskColumnProps> = ({
   tasks,
   onTaskUpdate,
   onEditTask,
+  leases,
+  selectedIds,
+  onToggleSelect,
   onTaskReorder,
   dragSourceStatus,
   dragSourceLane,
@@ -172,6 +180,9 @@ const TaskColumn: React.FC<TaskColumnProps> = ({
               task={task}
               onUpdate={onTaskUpdate}
               onEdit={onEditTask}
+              lease={leases?.get(task.id)}
+              selected={selectedIds?.has(task.id)}
+              onToggleSelect={onToggleSelect}
               onDragStart={() => {
                 setDraggedTaskId(task.id);
                 onDragStart?.({ status: title, laneId: laneId ?? null });
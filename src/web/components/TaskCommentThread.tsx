@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import type { Task, TaskComment } from "../../types";
+import { useTheme } from "../contexts/ThemeContext";
+import { apiClient } from "../lib/api";
+import { formatStoredUtcDateForDisplay } from "../utils/date-display";
+import MermaidMarkdown from "./MermaidMarkdown";
+
+interface Props {
+	taskId: string;
+	comments: TaskComment[];
+	readOnly?: boolean;
+	onChanged?: (task: Task) => Promise<void> | void;
+}
+
+export const TaskCommentThread: React.FC<Props> = ({ taskId, comments, readOnly, onChanged }) => {
+	const { theme } = useTheme();
+	const [thread, setThread] = useState<TaskComment[]>(comments);
+	const [draft, setDraft] = useState("");
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setThread(comments);
+	}, [comments]);
+
+	const submit = async () => {
+		const body = draft.trim();
+		if (!body) return;
+		setPending(true);
+		setError(null);
+		try {
+			const updated = await apiClient.addTaskComment(taskId, body);
+			setThread(updated.comments ?? []);
+			setDraft("");
+			if (onChanged) await onChanged(updated);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setPending(false);
+		}
+	};
+
+	return (
+		<div>
+			{thread.length > 0 ? (
+				<ol className="space-y-3">
+					{thread.map((comment, position) => (
+						<li
+							key={`${comment.date}-${position}`}
+							className="rounded-md border border-gray-100 dark:border-gray-700 px-3 py-2"
+						>
+							<div className="mb-1 flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+								<span className="font-semibold text-gray-800 dark:text-gray-100">{comment.author}</span>
+								<span>{formatStoredUtcDateForDisplay(comment.date)}</span>
+							</div>
+							<div className="prose prose-sm !max-w-none wmde-markdown" data-color-mode={theme}>
+								<MermaidMarkdown source={comment.body} />
+							</div>
+						</li>
+					))}
+				</ol>
+			) : (
+				<p className="text-sm text-gray-500 dark:text-gray-400">No comments yet</p>
+			)}
+			{!readOnly && (
+				<div className="mt-3 space-y-2">
+					<textarea
+						value={draft}
+						onChange={(e) => setDraft(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+								e.preventDefault();
+								void submit();
+							}
+						}}
+						rows={3}
+						placeholder="Write a comment (Markdown supported)"
+						className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-colors duration-200"
+					/>
+					<div className="flex justify-end">
+						<button
+							type="button"
+							disabled={pending || draft.trim().length === 0}
+							onClick={() => void submit()}
+							className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+						>
+							Comment
+						</button>
+					</div>
+				</div>
+			)}
+			{error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+		</div>
+	);
+};
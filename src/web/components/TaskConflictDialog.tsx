@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Task } from '../../types';
+import Modal from './Modal';
+import { formatStoredUtcDateForDisplay } from '../utils/date-display';
+
+export interface TaskTextFields {
+	title: string;
+	description: string;
+	implementationPlan: string;
+	finalSummary: string;
+}
+
+interface TaskConflictDialogProps {
+	isOpen: boolean;
+	/** The task as someone else saved it */
+	theirs: Task;
+	/** The unsaved edits from the form */
+	mine: TaskTextFields;
+	saving?: boolean;
+	onClose: () => void;
+	/** Called with their text overlaid with the fields the user chose to keep */
+	onResolve: (merged: TaskTextFields) => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const FIELDS: Array<{ key: keyof TaskTextFields; label: string }> = [
+	{ key: 'title', label: 'Title' },
+	{ key: 'description', label: 'Description' },
+	{ key: 'implementationPlan', label: 'Implementation Plan' },
+	{ key: 'finalSummary', label: 'Final Summary' },
+];
+
+export function textFieldsOf(task: Task): TaskTextFields {
+	return {
+		title: task.title || '',
+		description: task.description || '',
+		implementationPlan: task.implementationPlan || '',
+		finalSummary: task.finalSummary || '',
+	};
+}
+
+const TaskConflictDialog: React.FC<TaskConflictDialogProps> = ({ isOpen, theirs, mine, saving, onClose, onResolve }) => {
+	const theirFields = useMemo(() => textFieldsOf(theirs), [theirs]);
+	const conflicting = FIELDS.filter(({ key }) => theirFields[key] !== mine[key]);
+	const [choices, setChoices] = useState<Partial<Record<keyof TaskTextFields, Side>>>({});
+
+	useEffect(() => {
+		setChoices({});
+	}, [theirs]);
+
+	const pick = (key: keyof TaskTextFields): Side => choices[key] ?? 'mine';
+
+	const handleResolve = () => {
+		const merged = { ...theirFields };
+		for (const { key } of conflicting) {
+			if (pick(key) === 'mine') merged[key] = mine[key];
+		}
+		onResolve(merged);
+	};
+
+	const editedBy = theirs.updatedBy ? ` by ${theirs.updatedBy}` : '';
+	const editedAt = theirs.updatedDate ? ` at ${formatStoredUtcDateForDisplay(theirs.updatedDate)}` : '';
+
+	return (
+		<Modal isOpen={isOpen} onClose={onClose} title="This task changed while you were editing" maxWidthClass="max-w-4xl">
+			<div className="space-y-4">
+				<p className="text-sm text-gray-700 dark:text-gray-300">
+					{theirs.id} was saved{editedBy}{editedAt} after you opened it. Pick which version to keep for each field.
+					Fields you did not edit keep their latest values.
+				</p>
+
+				{conflicting.length === 0 && (
+					<p className="text-sm text-gray-500 dark:text-gray-400">Your text matches theirs; only other fields changed.</p>
+				)}
+
+				{conflicting.map(({ key, label }) => (
+					<div key={key} className="border border-gray-200 dark:border-gray-700 rounded-md">
+						<div className="px-3 py-2 text-sm font-semibold text-gray-900 dark:text-gray-100 border-b border-gray-200 dark:border-gray-700">
+							{label}
+						</div>
+						<div className="grid grid-cols-2 divide-x divide-gray-200 dark:divide-gray-700">
+							{(['theirs', 'mine'] as const).map((side) => (
+								<label
+									key={side}
+									className={`block p-3 cursor-pointer transition-colors duration-200 ${pick(key) === side ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+								>
+									<div className="flex items-center gap-2 mb-2 text-xs font-medium text-gray-600 dark:text-gray-400">
+										<input
+											type="radio"
+											name={`conflict-${key}`}
+											checked={pick(key) === side}
+											onChange={() => setChoices((prev) => ({ ...prev, [key]: side }))}
+										/>
+										{side === 'theirs' ? 'Their version' : 'Your version'}
+									</div>
+									<pre className="whitespace-pre-wrap break-words text-xs text-gray-800 dark:text-gray-200 max-h-48 overflow-y-auto">
+										{(side === 'theirs' ? theirFields[key] : mine[key]) || '(empty)'}
+									</pre>
+								</label>
+							))}
+						</div>
+					</div>
+				))}
+
+				<div className="flex justify-end gap-3">
+					<button
+						onClick={onClose}
+						disabled={saving}
+						className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200"
+					>
+						Keep editing
+					</button>
+					<button
+						onClick={handleResolve}
+						disabled={saving}
+						className="px-4 py-2 text-sm font-medium text-white bg-blue-500 dark:bg-blue-600 rounded-md hover:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200"
+					>
+						{saving ? 'Saving...' : 'Save merged version'}
+					</button>
+				</div>
+			</div>
+		</Modal>
+	);
+};
+
+export default TaskConflictDialog;
@@ -1,8 +1,8 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
-import type { Milestone, Task } from "../../types";
+import type { Milestone, Task, TaskTemplate } from "../../types";
 import Modal from "./Modal";
-import { apiClient } from "../lib/api";
+import { apiClient, getConflictingTask } from "../lib/api";
 import { useTheme } from "../contexts/ThemeContext";
 import MDEditor from "@uiw/react-md-editor";
 import MermaidMarkdown from './MermaidMarkdown';
@@ -12,13 +12,20 @@ import DependencyInput from "./DependencyInput";
 import { formatStoredUtcDateForDisplay } from "../utils/date-display";
 import { getMilestoneLabel, resolveMilestoneInput } from "../utils/milestones";
 import { TaskAttachments } from "./TaskAttachments";
+import { AcceptanceCriteriaChecklist } from "./AcceptanceCriteriaChecklist";
+import { TaskCommentThread } from "./TaskCommentThread";
+import { TaskTimeLog } from "./TaskTimeLog";
+import { isOverdue } from "../../core/schedule";
+import { builtInTemplateValues, renderTemplateText, templateVariables } from "../../core/task-templates";
+import { TaskHistoryPanel } from "./TaskHistoryPanel";
+import TaskConflictDialog, { type TaskTextFields, textFieldsOf } from "./TaskConflictDialog";
 
 interface Props {
   task?: Task; // Optional for create mode
   isOpen: boolean;
   onClose: () => void;
   onSaved?: () => Promise<void> | void; // refresh callback
-  onSubmit?: (taskData: Partial<Task>) => Promise<void | boolean>; // For creating new tasks; return false to keep modal open
+  onSubmit?: (taskData: Partial<Task>, template?: TemplateSelection) => Promise<void | boolean>; // For creating new tasks; return false to keep modal open
   onArchive?: () => void; // For archiving tasks
   availableStatuses?: string[]; // Available statuses for new tasks
   availableMilestones?: string[];
@@ -30,10 +37,20 @@ interface Props {
   onOpenParentTask?: (parentId: string) => void;
 }
 
+/** The template a new task was started from, with values for its placeholders */
+export interface TemplateSelection {
+  templateId: string;
+  variables: Record<string, string>;
+}
+
 type Mode = "preview" | "edit" | "create";
+type Tab = "details" | "history";
 
-type InlineMetaUpdatePayload = Omit<Partial<Task>, "milestone"> & {
+type InlineMetaUpdatePayload = Omit<Partial<Task>, "milestone" | "estimate" | "startDate" | "dueDate"> & {
   milestone?: string | null;
+  estimate?: number | null;
+  startDate?: string | null;
+  dueDate?: string | null;
 };
 
 const SectionHeader: React.FC<{ title: string; right?: React.ReactNode }> = ({ title, right }) => (
@@ -76,13 +93,24 @@ export const TaskDetailsModal: React.FC<Props> = ({
     return `${id.slice(0, dashIdx)}-${body.split(".")[0]}`;
   })();
   const [mode, setMode] = useState<Mode>(isCreateMode ? "create" : "preview");
+  const [activeTab, setActiveTab] = useState<Tab>("details");
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Version of the task the form is based on; a save is rejected if it changed on disk since
+  const [version, setVersion] = useState<string | undefined>(task?.version);
+  const [conflict, setConflict] = useState<Task | null>(null);
+  const editingTaskIdRef = useRef<string | null>(null);
   const [subtasks, setSubtasks] = useState<Task[]>([]);
 
   // Title field for create mode
   const [title, setTitle] = useState(task?.title || "");
 
+  // Template picker (create mode, top-level tasks only)
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+
   // Editable fields (edit mode)
   const [description, setDescription] = useState(task?.description || "");
   const [plan, setPlan] = useState(task?.implementationPlan || "");
@@ -103,6 +131,9 @@ export const TaskDetailsModal: React.FC<Props> = ({
   const [assignee, setAssignee] = useState<string[]>(task?.assignee || []);
   const [labels, setLabels] = useState<string[]>(task?.labels || []);
   const [priority, setPriority] = useState<string>(task?.priority || "");
+  const [estimate, setEstimate] = useState<string>(task?.estimate?.toString() ?? "");
+  const [startDate, setStartDate] = useState<string>(task?.startDate ?? "");
+  const [dueDate, setDueDate] = useState<string>(task?.dueDate ?? "");
   const [dependencies, setDependencies] = useState<string[]>(task?.dependencies || []);
   const [references, setReferences] = useState<string[]>(task?.references || []);
   const [milestone, setMilestone] = useState<string>(task?.milestone || "");
@@ -130,6 +161,8 @@ export const TaskDetailsModal: React.FC<Props> = ({
   // Intercept Escape to cancel edit (not close modal) when in edit mode
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const isTyping = !!target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable);
       if (mode === "edit" && (e.key === "Escape")) {
         e.preventDefault();
         e.stopPropagation();
@@ -140,12 +173,12 @@ export const TaskDetailsModal: React.FC<Props> = ({
         e.stopPropagation();
         void handleSave();
       }
-      if (mode === "preview" && (e.key.toLowerCase() === "e") && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      if (mode === "preview" && !isTyping && (e.key.toLowerCase() === "e") && !e.metaKey && !e.ctrlKey && !e.altKey) {
         e.preventDefault();
         e.stopPropagation();
         setMode("edit");
       }
-      if (mode === "preview" && isDoneStatus && (e.key.toLowerCase() === "c") && !e.metaKey && !e.ctrlKey && !e.altKey) {
+      if (mode === "preview" && !isTyping && isDoneStatus && (e.key.toLowerCase() === "c") && !e.metaKey && !e.ctrlKey && !e.altKey) {
         e.preventDefault();
         e.stopPropagation();
         void handleComplete();
@@ -155,8 +188,12 @@ export const TaskDetailsModal: React.FC<Props> = ({
     return () => window.removeEventListener("keydown", onKey, { capture: true } as any);
   }, [mode, title, description, plan, finalSummary, status]);
 
+  editingTaskIdRef.current = mode === "edit" ? task?.id ?? null : null;
+
   // Reset local state when task changes or modal opens
   useEffect(() => {
+    // Someone else saved the task being edited: keep the unsaved edits; saving will surface the conflict
+    if (isOpen && task && editingTaskIdRef.current === task.id) return;
     setTitle(task?.title || "");
     setDescription(task?.description || "");
     setPlan(task?.implementationPlan || "");
@@ -165,11 +202,19 @@ export const TaskDetailsModal: React.FC<Props> = ({
     setAssignee(task?.assignee || []);
     setLabels(task?.labels || []);
     setPriority(task?.priority || "");
+    setEstimate(task?.estimate?.toString() ?? "");
+    setStartDate(task?.startDate ?? "");
+    setDueDate(task?.dueDate ?? "");
     setDependencies(task?.dependencies || []);
     setReferences(task?.references || []);
     setMilestone(task?.milestone || "");
     setMode(isCreateMode ? "create" : "preview");
+    setActiveTab("details");
     setError(null);
+    setVersion(task?.version);
+    setConflict(null);
+    setTemplateId("");
+    setVariables({});
     // Preload tasks for dependency picker
     apiClient.fetchTasks().then(setAvailableTasks).catch(() => setAvailableTasks([]));
     if (task) {
@@ -181,6 +226,27 @@ export const TaskDetailsModal: React.FC<Props> = ({
     }
   }, [task, isOpen, isCreateMode, availableStatuses]);
 
+  useEffect(() => {
+    if (!isOpen || !isCreateMode || parentTaskId) return;
+    apiClient.fetchTemplates().then(setTemplates).catch(() => setTemplates([]));
+  }, [isOpen, isCreateMode, parentTaskId]);
+
+  // Fills the form from a template; {{date}} and {{week}} are filled in, the rest on create
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((candidate) => candidate.id === id);
+    if (!template) return;
+    const values = builtInTemplateValues(new Date());
+    setTitle(renderTemplateText(template.title, values));
+    setDescription(renderTemplateText(template.description ?? "", values));
+    setPlan(renderTemplateText(template.implementationPlan ?? "", values));
+    setLabels(template.labels);
+    setAssignee(template.assignee);
+    setPriority(template.priority ?? "");
+    if (template.status) setStatus(template.status);
+    setVariables(Object.fromEntries(templateVariables(template).map((name) => [name, ""])));
+  };
+
   const handleCancelEdit = () => {
     if (isDirty) {
       const confirmDiscard = window.confirm("Discard unsaved changes?");
@@ -217,21 +283,30 @@ export const TaskDetailsModal: React.FC<Props> = ({
         assignee,
         labels,
         priority: (priority === "" ? undefined : priority) as "high" | "medium" | "low" | undefined,
+        estimate: estimate.trim() === "" ? undefined : Number(estimate),
+        startDate: startDate || undefined,
+        dueDate: dueDate || undefined,
         dependencies,
         milestone: milestone.trim().length > 0 ? milestone.trim() : undefined,
       };
 
       if (isCreateMode && onSubmit) {
-        const result = await onSubmit(taskData);
+        const result = await onSubmit(taskData, selectedTemplate ? { templateId: selectedTemplate.id, variables } : undefined);
         if (result !== false) {
           onClose();
         }
       } else if (task) {
-        await apiClient.updateTask(task.id, taskData);
+        const updated = await apiClient.updateTask(task.id, taskData, version);
+        setVersion(updated.version);
         setMode("preview");
         if (onSaved) await onSaved();
       }
     } catch (err) {
+      const current = getConflictingTask(err);
+      if (current) {
+        setConflict(current);
+        return;
+      }
       let errorMessage = 'Failed to save task';
       if (err instanceof Error) {
         errorMessage = err.message;
@@ -246,6 +321,40 @@ export const TaskDetailsModal: React.FC<Props> = ({
     }
   };
 
+  const handleResolveConflict = async (merged: TaskTextFields) => {
+    if (!task || !conflict) return;
+    const theirs = textFieldsOf(conflict);
+    const keepsOnlyTheirs = (Object.keys(theirs) as Array<keyof TaskTextFields>).every((key) => merged[key] === theirs[key]);
+    setSaving(true);
+    try {
+      const resolved = keepsOnlyTheirs
+        ? conflict
+        : await apiClient.updateTask(
+          task.id,
+          { title: merged.title.trim(), description: merged.description, implementationPlan: merged.implementationPlan, finalSummary: merged.finalSummary },
+          conflict.version,
+        );
+      setTitle(resolved.title || "");
+      setDescription(resolved.description || "");
+      setPlan(resolved.implementationPlan || "");
+      setFinalSummary(resolved.finalSummary || "");
+      setVersion(resolved.version);
+      setConflict(null);
+      setMode("preview");
+      if (onSaved) await onSaved();
+    } catch (err) {
+      const current = getConflictingTask(err);
+      if (current) {
+        setConflict(current);
+      } else {
+        setConflict(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleInlineMetaUpdate = async (updates: InlineMetaUpdatePayload) => {
     if (isFromOtherBranch) return;
 
@@ -253,13 +362,17 @@ export const TaskDetailsModal: React.FC<Props> = ({
     if (updates.assignee !== undefined) setAssignee(updates.assignee as string[]);
     if (updates.labels !== undefined) setLabels(updates.labels as string[]);
     if (updates.priority !== undefined) setPriority(String(updates.priority));
+    if (updates.estimate !== undefined) setEstimate(updates.estimate?.toString() ?? "");
+    if (updates.startDate !== undefined) setStartDate(updates.startDate ?? "");
+    if (updates.dueDate !== undefined) setDueDate(updates.dueDate ?? "");
     if (updates.dependencies !== undefined) setDependencies(updates.dependencies as string[]);
     if (updates.references !== undefined) setReferences(updates.references as string[]);
     if (updates.milestone !== undefined) setMilestone((updates.milestone ?? "") as string);
 
     if (task) {
       try {
-        await apiClient.updateTask(task.id, updates);
+        const updated = await apiClient.updateTask(task.id, updates);
+        setVersion(updated.version);
         if (onSaved) await onSaved();
       } catch (err) {
         console.error("Failed to update task metadata", err);
@@ -304,6 +417,7 @@ export const TaskDetailsModal: React.FC<Props> = ({
   };
 
   return (
+    <>
     <Modal
       isOpen={isOpen}
       onClose={() => {
@@ -401,9 +515,68 @@ if (!effectiveParentId || !onOpenParentTask) return null;
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Details / History tabs (existing tasks only, history is read-only) */}
+      {task && mode === "preview" && (
+        <div className="mb-4 flex gap-4 border-b border-gray-200 dark:border-gray-700">
+          {(["details", "history"] as Tab[]).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`-mb-px pb-2 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? "border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400"
+                  : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              }`}
+            >
+              {tab === "details" ? "Details" : "History"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {task && mode === "preview" && activeTab === "history" && <TaskHistoryPanel taskId={task.id} />}
+
+      <div className={`grid grid-cols-1 md:grid-cols-3 gap-6 ${task && mode === "preview" && activeTab === "history" ? "hidden" : ""}`}>
         {/* Main content */}
         <div className="md:col-span-2 space-y-6">
+          {/* Template picker for create mode */}
+          {isCreateMode && templates.length > 0 && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+              <SectionHeader title="Template" />
+              <select
+                value={templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-colors duration-200"
+              >
+                <option value="">No template</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              {selectedTemplate && Object.keys(variables).length > 0 && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {Object.entries(variables).map(([name, value]) => (
+                    <label key={name} className="text-xs text-gray-600 dark:text-gray-300">
+                      {`{{${name}}}`}
+                      <input
+                        type="text"
+                        value={value}
+                        onChange={(e) => setVariables((current) => ({ ...current, [name]: e.target.value }))}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-colors duration-200"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+              {selectedTemplate && (selectedTemplate.acceptanceCriteria.length > 0 || selectedTemplate.subtasks.length > 0) && (
+                <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                  Also adds {selectedTemplate.acceptanceCriteria.length} acceptance criteria
+                  {selectedTemplate.subtasks.length > 0 && ` and subtasks: ${selectedTemplate.subtasks.join(", ")}`}
+                </p>
+              )}
+            </div>
+          )}
           {/* Title field for create mode */}
           {isCreateMode && (
             <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
@@ -441,6 +614,21 @@ if (!effectiveParentId || !onOpenParentTask) return null;
             )}
           </div>
 
+          {/* Acceptance Criteria */}
+          {task && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+              <SectionHeader title="Acceptance Criteria" />
+              <AcceptanceCriteriaChecklist
+                taskId={task.id}
+                items={task.acceptanceCriteriaItems ?? []}
+                readOnly={isFromOtherBranch}
+                onChanged={async () => {
+                  if (onSaved) await onSaved();
+                }}
+              />
+            </div>
+          )}
+
           {/* Subtasks */}
           {!isCreateMode && !isFromOtherBranch && (
             <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
@@ -648,6 +836,21 @@ if (!effectiveParentId || !onOpenParentTask) return null;
               )}
             </div>
           )}
+
+          {/* Comments */}
+          {task && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+              <SectionHeader title="Comments" right={task.comments?.length ? `${task.comments.length}` : undefined} />
+              <TaskCommentThread
+                taskId={task.id}
+                comments={task.comments ?? []}
+                readOnly={isFromOtherBranch}
+                onChanged={async () => {
+                  if (onSaved) await onSaved();
+                }}
+              />
+            </div>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -655,9 +858,9 @@ if (!effectiveParentId || !onOpenParentTask) return null;
           {/* Dates */}
 	          {task && (
 	            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 text-xs text-gray-600 dark:text-gray-300 space-y-1">
-	              <div><span className="font-semibold text-gray-800 dark:text-gray-100">Created:</span> <span className="text-gray-700 dark:text-gray-200">{formatStoredUtcDateForDisplay(task.createdDate)}</span></div>
+	              <div><span className="font-semibold text-gray-800 dark:text-gray-100">Created:</span> <span className="text-gray-700 dark:text-gray-200">{formatStoredUtcDateForDisplay(task.createdDate)}{task.reporter ? ` by ${task.reporter}` : ""}</span></div>
 	              {task.updatedDate && (
-	                <div><span className="font-semibold text-gray-800 dark:text-gray-100">Updated:</span> <span className="text-gray-700 dark:text-gray-200">{formatStoredUtcDateForDisplay(task.updatedDate)}</span></div>
+	                <div><span className="font-semibold text-gray-800 dark:text-gray-100">Updated:</span> <span className="text-gray-700 dark:text-gray-200">{formatStoredUtcDateForDisplay(task.updatedDate)}{task.updatedBy ? ` by ${task.updatedBy}` : ""}</span></div>
 	              )}
 	            </div>
 	          )}
@@ -774,6 +977,88 @@ if (!effectiveParentId || !onOpenParentTask) return null;
             )}
           </div>
 
+          {/* Effort */}
+          <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+            <SectionHeader title="Estimate" />
+            {mode === "preview" ? (
+              <span className="text-sm text-gray-900 dark:text-gray-100">{estimate || "—"}</span>
+            ) : (
+              <input
+                type="number"
+                min="0"
+                step="any"
+                className={`w-full h-10 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-stone-500 dark:focus:ring-stone-400 focus:border-transparent transition-colors duration-200 ${isFromOtherBranch ? 'opacity-60 cursor-not-allowed' : ''}`}
+                value={estimate}
+                onChange={(e) => setEstimate(e.target.value)}
+                onBlur={() => {
+                  const next = estimate.trim() === "" ? null : Number(estimate);
+                  if (next !== null && (!Number.isFinite(next) || next < 0)) return;
+                  if ((next ?? undefined) === task?.estimate) return;
+                  void handleInlineMetaUpdate({ estimate: next });
+                }}
+                placeholder="No estimate"
+                disabled={isFromOtherBranch}
+              />
+            )}
+          </div>
+
+          {/* Schedule */}
+          <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+            <SectionHeader
+              title="Dates"
+              right={task && isOverdue(task) ? <span className="font-medium text-red-600 dark:text-red-400">Overdue</span> : undefined}
+            />
+            {mode === "preview" ? (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                <dt className="text-gray-500 dark:text-gray-400">Start</dt>
+                <dd className="text-gray-900 dark:text-gray-100">{startDate || "—"}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Due</dt>
+                <dd className="text-gray-900 dark:text-gray-100">{dueDate || "—"}</dd>
+              </dl>
+            ) : (
+              <div className="space-y-2">
+                {([
+                  ["Start", "startDate", startDate],
+                  ["Due", "dueDate", dueDate],
+                ] as const).map(([label, field, value]) => (
+                  <label key={field} className="flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+                    <span className="w-10">{label}</span>
+                    <input
+                      type="date"
+                      className={`flex-1 h-9 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-stone-500 dark:focus:ring-stone-400 focus:border-transparent transition-colors duration-200 ${isFromOtherBranch ? 'opacity-60 cursor-not-allowed' : ''}`}
+                      value={value}
+                      min={field === "dueDate" ? startDate || undefined : undefined}
+                      max={field === "startDate" ? dueDate || undefined : undefined}
+                      onChange={(e) => {
+                        const next = e.target.value || null;
+                        if (field === "startDate") setStartDate(next ?? "");
+                        else setDueDate(next ?? "");
+                        if ((next ?? undefined) === task?.[field]) return;
+                        void handleInlineMetaUpdate({ [field]: next });
+                      }}
+                      disabled={isFromOtherBranch}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {task && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
+              <SectionHeader title="Time Logged" />
+              <TaskTimeLog
+                taskId={task.id}
+                estimate={task.estimate}
+                entries={task.timeEntries ?? []}
+                readOnly={isFromOtherBranch}
+                onChanged={async () => {
+                  if (onSaved) await onSaved();
+                }}
+              />
+            </div>
+          )}
+
           {/* Milestone */}
           <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3">
             <SectionHeader title="Milestone" />
@@ -847,6 +1132,17 @@ if (!effectiveParentId || !onOpenParentTask) return null;
         </div>
       </div>
     </Modal>
+    {conflict && (
+      <TaskConflictDialog
+        isOpen
+        theirs={conflict}
+        mine={{ title, description, implementationPlan: plan, finalSummary }}
+        saving={saving}
+        onClose={() => setConflict(null)}
+        onResolve={handleResolveConflict}
+      />
+    )}
+    </>
   );
 };
 
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from "react";
+import type { TaskHistoryEntry } from "../../types";
+import { apiClient } from "../lib/api";
+
+interface Props {
+	taskId: string;
+}
+
+function formatCommitDate(value: string): string {
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export const TaskHistoryPanel: React.FC<Props> = ({ taskId }) => {
+	const [entries, setEntries] = useState<TaskHistoryEntry[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		setEntries(null);
+		setError(null);
+		apiClient
+			.fetchTaskHistory(taskId)
+			.then((history) => {
+				if (!cancelled) setEntries(history);
+			})
+			.catch((err) => {
+				if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [taskId]);
+
+	if (error) {
+		return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+	}
+	if (!entries) {
+		return <p className="text-sm text-gray-500 dark:text-gray-400">Loading history…</p>;
+	}
+	if (entries.length === 0) {
+		return (
+			<p className="text-sm text-gray-500 dark:text-gray-400">
+				No recorded history. Changes appear here once they are committed to git.
+			</p>
+		);
+	}
+
+	return (
+		<ol className="relative space-y-4 border-l border-gray-200 dark:border-gray-700 pl-4">
+			{entries.map((entry) => (
+				<li key={entry.commit}>
+					<div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900 bg-gray-300 dark:bg-gray-600" />
+					<div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+						<span className="font-semibold text-gray-800 dark:text-gray-100">{entry.author || "unknown"}</span>
+						<span>{formatCommitDate(entry.date)}</span>
+						<code className="font-mono text-gray-400 dark:text-gray-500" title={entry.message}>
+							{entry.commit.slice(0, 7)}
+						</code>
+					</div>
+					<ul className="mt-1 space-y-0.5 text-sm text-gray-900 dark:text-gray-100">
+						{entry.changes.map((change, position) => (
+							<li key={`${change.field}-${position}`}>{change.summary}</li>
+						))}
+					</ul>
+				</li>
+			))}
+		</ol>
+	);
+};
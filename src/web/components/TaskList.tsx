@@ -3,13 +3,17 @@ import { useSearchParams } from "react-router-dom";
 import { apiClient } from "../lib/api";
 import type {
 	Milestone,
+	SavedView,
 	SearchPriorityFilter,
 	Task,
 	TaskSearchResult,
 } from "../../types";
+import { parseSearchQuery } from "../../core/query-language";
 import { collectAvailableLabels } from "../../utils/label-filter.ts";
 import { buildMilestoneAliasMap, canonicalizeMilestoneValue, collectArchivedMilestoneKeys, getMilestoneLabel, milestoneKey } from "../utils/milestones";
+import BulkActionBar from "./BulkActionBar";
 import CleanupModal from "./CleanupModal";
+import TaskQueryInput from "./TaskQueryInput";
 import { SuccessToast } from "./SuccessToast";
 import { useAuth } from "../contexts/AuthContext";
 import { getStatusColor } from "../lib/status-helpers";
@@ -52,9 +56,11 @@ const TaskList: React.FC<TaskListProps> = ({
 	archivedMilestones,
 	onRefreshData,
 }) => {
-	const { user } = useAuth();
-	const isViewer = user?.role === "viewer";
+	const { hasPermission } = useAuth();
+	const canEdit = hasPermission("tasks:write");
 	const [searchParams, setSearchParams] = useSearchParams();
+	const viewId = searchParams.get("view");
+	const [activeView, setActiveView] = useState<SavedView | null>(null);
 	const [searchValue, setSearchValue] = useState(() => searchParams.get("query") ?? "");
 	const [statusFilter, setStatusFilter] = useState(() => searchParams.get("status") ?? "");
 	const [priorityFilter, setPriorityFilter] = useState<"" | SearchPriorityFilter>(
@@ -73,6 +79,7 @@ const TaskList: React.FC<TaskListProps> = ({
 	const [showCleanupModal, setShowCleanupModal] = useState(false);
 	const [cleanupSuccessMessage, setCleanupSuccessMessage] = useState<string | null>(null);
 	const [showLabelsMenu, setShowLabelsMenu] = useState(false);
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 	const labelsButtonRef = useRef<HTMLButtonElement | null>(null);
 	const labelsMenuRef = useRef<HTMLDivElement | null>(null);
 	const milestoneAliasToCanonical = useMemo(
@@ -97,12 +104,25 @@ const TaskList: React.FC<TaskListProps> = ({
 		return uniqueMilestones;
 	}, [availableMilestones]);
 	const normalizedSearch = searchValue.trim();
+	// Searches with `field:value` terms go through the query language; other text stays a fuzzy search
+	const structuredSearch = useMemo(() => parseSearchQuery(normalizedSearch) !== null, [normalizedSearch]);
+	const queryCompletionValues = useMemo(
+		() => ({
+			statuses: availableStatuses,
+			labels: availableLabels,
+			assignees: Array.from(new Set(tasks.flatMap((task) => task.assignee))).sort(),
+			milestones: milestoneEntities.map((milestone) => ({ id: milestone.id, title: milestone.title })),
+		}),
+		[availableStatuses, availableLabels, tasks, milestoneEntities],
+	);
 	const hasActiveFilters = Boolean(
 		normalizedSearch || statusFilter || priorityFilter || labelFilter.length > 0 || milestoneFilter,
 	);
 	const totalTasks = sortedBaseTasks.length;
 
 	useEffect(() => {
+		// A saved view sets the filters itself once it has loaded
+		if (searchParams.get("view")) return;
 		const paramQuery = searchParams.get("query") ?? "";
 		const paramStatus = searchParams.get("status") ?? "";
 		const paramPriority = (searchParams.get("priority") as SearchPriorityFilter | null) ?? "";
@@ -132,11 +152,44 @@ const TaskList: React.FC<TaskListProps> = ({
 	}, [searchParams]);
 
 	useEffect(() => {
-		if (!hasActiveFilters) {
+		if (!viewId && !hasActiveFilters) {
 			setDisplayTasks(sortedBaseTasks);
 			setError(null);
 		}
-	}, [hasActiveFilters, sortedBaseTasks]);
+	}, [viewId, hasActiveFilters, sortedBaseTasks]);
+
+	// The server runs saved views, so their assignee, readiness and sort settings apply too
+	useEffect(() => {
+		if (!viewId) {
+			setActiveView(null);
+			return;
+		}
+		let cancelled = false;
+		setError(null);
+		apiClient
+			.runView(viewId)
+			.then(({ view, tasks: viewTasks }) => {
+				if (cancelled) return;
+				setActiveView(view);
+				setSearchValue(view.query ?? "");
+				setStatusFilter(view.filters.status ?? "");
+				setPriorityFilter(view.filters.priority ?? "");
+				setLabelFilter(view.filters.labels ?? []);
+				setMilestoneFilter(view.filters.milestone ?? "");
+				setDisplayTasks(viewTasks);
+			})
+			.catch((err) => {
+				console.error("Failed to load view:", err);
+				if (!cancelled) {
+					setActiveView(null);
+					setDisplayTasks([]);
+					setError("Unable to load this view. It may have been deleted.");
+				}
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [viewId, tasks]);
 
 	useEffect(() => {
 		const filterByMilestone = (list: Task[]): Task[] => {
@@ -156,7 +209,18 @@ const TaskList: React.FC<TaskListProps> = ({
 		const shouldUseApi =
 			Boolean(normalizedSearch) || Boolean(statusFilter) || Boolean(priorityFilter) || labelFilter.length > 0;
 
-		if (!hasActiveFilters) {
+		// The dropdowns become query terms when the search box holds a structured query
+		const withDropdownFilters = (query: string): string => {
+			const terms = [query];
+			if (statusFilter) terms.push(`status:"${statusFilter}"`);
+			if (priorityFilter) terms.push(`priority:${priorityFilter}`);
+			if (labelFilter.length > 0) {
+				terms.push(`(${labelFilter.map((label) => `label:"${label}"`).join(" OR ")})`);
+			}
+			return terms.join(" ");
+		};
+
+		if (viewId || !hasActiveFilters) {
 			return;
 		}
 
@@ -170,13 +234,15 @@ const TaskList: React.FC<TaskListProps> = ({
 				return;
 			}
 			try {
-				const results = await apiClient.search({
-					query: normalizedSearch || undefined,
-					types: ["task"],
-					status: statusFilter || undefined,
-					priority: (priorityFilter || undefined) as SearchPriorityFilter | undefined,
-					labels: labelFilter.length > 0 ? labelFilter : undefined,
-				});
+				const results = structuredSearch
+					? await apiClient.search({ q: withDropdownFilters(normalizedSearch), types: ["task"] })
+					: await apiClient.search({
+							query: normalizedSearch || undefined,
+							types: ["task"],
+							status: statusFilter || undefined,
+							priority: (priorityFilter || undefined) as SearchPriorityFilter | undefined,
+							labels: labelFilter.length > 0 ? labelFilter : undefined,
+						});
 				if (cancelled) {
 					return;
 				}
@@ -186,8 +252,9 @@ const TaskList: React.FC<TaskListProps> = ({
 			} catch (err) {
 				console.error("Failed to apply task filters:", err);
 				if (!cancelled) {
+					const data = (err as { data?: { error?: string } }).data;
 					setDisplayTasks([]);
-					setError("Unable to fetch tasks for the selected filters.");
+					setError(data?.error ?? "Unable to fetch tasks for the selected filters.");
 				}
 			}
 		};
@@ -198,8 +265,10 @@ const TaskList: React.FC<TaskListProps> = ({
 			cancelled = true;
 		};
 	}, [
+		viewId,
 		hasActiveFilters,
 		normalizedSearch,
+		structuredSearch,
 		priorityFilter,
 		statusFilter,
 		labelFilter,
@@ -308,6 +377,30 @@ const TaskList: React.FC<TaskListProps> = ({
 		}, 4000);
 	};
 
+	const handleSaveView = async () => {
+		const name = window.prompt("Save these filters as a view named:");
+		if (!name?.trim()) return;
+		try {
+			const view = await apiClient.createView({
+				name,
+				query: normalizedSearch || undefined,
+				filters: {
+					status: statusFilter || undefined,
+					priority: priorityFilter || undefined,
+					labels: labelFilter.length > 0 ? labelFilter : undefined,
+					milestone: milestoneFilter && milestoneFilter !== "__none" ? milestoneFilter : undefined,
+				},
+			});
+			setSearchParams({ view: view.id }, { replace: true });
+			if (onRefreshData) {
+				await onRefreshData();
+			}
+		} catch (err) {
+			const data = (err as { data?: { error?: string } }).data;
+			setError(data?.error ?? "Unable to save the view.");
+		}
+	};
+
 	const getPriorityColor = (priority?: string) => {
 		switch (priority?.toLowerCase()) {
 			case "high":
@@ -322,13 +415,36 @@ const TaskList: React.FC<TaskListProps> = ({
 	};
 
 	const currentCount = displayTasks.length;
+	const selectableTasks = canEdit ? displayTasks.filter((task) => !task.branch) : [];
+	const visibleSelectedIds = selectableTasks.filter((task) => selectedIds.has(task.id)).map((task) => task.id);
+	const allSelected = selectableTasks.length > 0 && visibleSelectedIds.length === selectableTasks.length;
+
+	const toggleSelected = (taskId: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(taskId)) next.delete(taskId);
+			else next.add(taskId);
+			return next;
+		});
+	};
+
+	const handleBulkApplied = async (message: string) => {
+		setSelectedIds(new Set());
+		setCleanupSuccessMessage(message);
+		if (onRefreshData) {
+			await onRefreshData();
+		}
+		setTimeout(() => {
+			setCleanupSuccessMessage(null);
+		}, 4000);
+	};
 
 	return (
 		<div className="container mx-auto px-4 py-8 transition-colors duration-200">
 			<div className="flex flex-col gap-4 mb-6">
 				<div className="flex items-center justify-between gap-3">
 						<h1 className="text-2xl font-bold text-gray-900 dark:text-white">All Tasks</h1>
-						{!isViewer && (
+						{canEdit && (
 							<button
 								className="inline-flex items-center px-4 py-2 bg-blue-500 text-white text-sm font-medium rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-400 dark:focus:ring-offset-gray-900 transition-colors duration-200"
 								onClick={onNewTask}
@@ -346,11 +462,11 @@ const TaskList: React.FC<TaskListProps> = ({
 									<path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
 								</svg>
 							</span>
-						<input
-							type="text"
+						<TaskQueryInput
 							value={searchValue}
-							onChange={(event) => handleSearchChange(event.target.value)}
-							placeholder="Search tasks"
+							onChange={handleSearchChange}
+							completionValues={queryCompletionValues}
+							placeholder="Search tasks or filter, e.g. label:api"
 							className="w-full pl-10 pr-10 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-stone-500 dark:focus:ring-stone-400 focus:border-transparent transition-colors duration-200"
 						/>
 						{searchValue && (
@@ -473,7 +589,7 @@ const TaskList: React.FC<TaskListProps> = ({
 					</div>
 
 					<div className="flex items-center gap-3 flex-shrink-0">
-						{!isViewer && statusFilter.toLowerCase() === 'done' && displayTasks.length > 0 && (
+						{canEdit && statusFilter.toLowerCase() === 'done' && displayTasks.length > 0 && (
 								<button
 									type="button"
 									onClick={() => setShowCleanupModal(true)}
@@ -487,6 +603,17 @@ const TaskList: React.FC<TaskListProps> = ({
 							</button>
 						)}
 
+						{canEdit && hasActiveFilters && !viewId && (
+							<button
+								type="button"
+								onClick={handleSaveView}
+								className="py-2 px-3 text-sm border border-gray-300 dark:border-gray-600 rounded-lg whitespace-nowrap transition-colors duration-200 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700"
+								title="Save these filters as a view shared with your team and agents"
+							>
+								Save view
+							</button>
+						)}
+
 							<div className="relative">
 								<button
 									type="button"
@@ -499,12 +626,53 @@ const TaskList: React.FC<TaskListProps> = ({
 							</button>
 						</div>
 
+						{selectableTasks.length > 0 && (
+							<label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap cursor-pointer">
+								<input
+									type="checkbox"
+									checked={allSelected}
+									onChange={() =>
+										setSelectedIds(allSelected ? new Set() : new Set(selectableTasks.map((task) => task.id)))
+									}
+								/>
+								Select all
+							</label>
+						)}
+
 						<div className="text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap text-right min-w-[170px]">
 							Showing {currentCount} of {totalTasks} tasks
 						</div>
 					</div>
 				</div>
 
+				{activeView && (
+					<div className="flex items-center justify-between gap-3 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 px-3 py-2 text-sm text-blue-800 dark:text-blue-200">
+						<div className="min-w-0">
+							<span className="font-semibold">View: {activeView.name}</span>
+							{activeView.description && <span className="ml-2 text-blue-700 dark:text-blue-300">{activeView.description}</span>}
+							{(activeView.filters.assignee || activeView.filters.ready !== undefined || activeView.sort) && (
+								<span className="ml-2 text-xs text-blue-700 dark:text-blue-300">
+									{[
+										activeView.filters.assignee && `assignee: ${activeView.filters.assignee}`,
+										activeView.filters.ready !== undefined &&
+											(activeView.filters.ready ? "ready to start" : "waiting on dependencies"),
+										activeView.sort && `sorted by ${activeView.sort}`,
+									]
+										.filter(Boolean)
+										.join(" · ")}
+								</span>
+							)}
+						</div>
+						<button
+							type="button"
+							onClick={handleClearFilters}
+							className="text-xs font-medium text-blue-700 dark:text-blue-300 hover:underline whitespace-nowrap"
+						>
+							Close view
+						</button>
+					</div>
+				)}
+
 				{error && (
 					<div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 px-3 py-2 text-sm text-red-700 dark:text-red-300">
 						{error}
@@ -551,7 +719,17 @@ const TaskList: React.FC<TaskListProps> = ({
 									</span>
 								</div>
 							)}
-							<div className="flex items-start justify-between">
+							<div className="flex items-start justify-between gap-3">
+								{canEdit && !isFromOtherBranch && (
+									<input
+										type="checkbox"
+										aria-label={`Select ${task.id}`}
+										className="mt-1.5"
+										checked={selectedIds.has(task.id)}
+										onClick={(e) => e.stopPropagation()}
+										onChange={() => toggleSelected(task.id)}
+									/>
+								)}
 								<div className="flex-1">
 									<div className="flex items-center space-x-3 mb-2">
 										<h3 className={`text-lg font-medium ${isFromOtherBranch ? 'text-gray-600 dark:text-gray-400' : 'text-gray-900 dark:text-white'}`}>{task.title}</h3>
@@ -599,6 +777,15 @@ const TaskList: React.FC<TaskListProps> = ({
 				</div>
 			)}
 
+			<BulkActionBar
+				selectedIds={visibleSelectedIds}
+				statuses={availableStatuses}
+				labels={mergedAvailableLabels}
+				milestones={milestoneEntities}
+				onClear={() => setSelectedIds(new Set())}
+				onApplied={handleBulkApplied}
+			/>
+
 			{/* Cleanup Modal */}
 			<CleanupModal
 				isOpen={showCleanupModal}
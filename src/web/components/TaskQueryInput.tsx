@@ -0,0 +1,116 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+	getTaskQueryCompletions,
+	type TaskQueryCompletion,
+	type TaskQueryCompletionValues,
+} from '../../core/query-language';
+
+interface TaskQueryInputProps {
+	value: string;
+	onChange: (value: string) => void;
+	/** Statuses, labels, assignees and milestones offered after `field:` */
+	completionValues: TaskQueryCompletionValues;
+	placeholder?: string;
+	className?: string;
+}
+
+/**
+ * Search input that autocompletes query-language fields (`status:`, `label:`, ...) and their values.
+ */
+const TaskQueryInput: React.FC<TaskQueryInputProps> = ({ value, onChange, completionValues, placeholder, className }) => {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [cursor, setCursor] = useState(value.length);
+	const [open, setOpen] = useState(false);
+	const [highlighted, setHighlighted] = useState(0);
+
+	const completions = useMemo(
+		() => getTaskQueryCompletions(value, Math.min(cursor, value.length), completionValues),
+		[value, cursor, completionValues]
+	);
+	const showList = open && completions.items.length > 0;
+
+	const accept = (item: TaskQueryCompletion) => {
+		const next = value.slice(0, completions.from) + item.insert + value.slice(completions.to);
+		const nextCursor = completions.from + item.insert.length;
+		onChange(next);
+		setCursor(nextCursor);
+		setHighlighted(0);
+		requestAnimationFrame(() => {
+			inputRef.current?.focus();
+			inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+		});
+	};
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (!showList) return;
+		if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+			event.preventDefault();
+			const step = event.key === 'ArrowDown' ? 1 : -1;
+			setHighlighted((current) => (current + step + completions.items.length) % completions.items.length);
+		} else if (event.key === 'Enter' || event.key === 'Tab') {
+			const item = completions.items[highlighted];
+			if (item) {
+				event.preventDefault();
+				accept(item);
+			}
+		} else if (event.key === 'Escape') {
+			setOpen(false);
+		}
+	};
+
+	const trackCursor = (event: React.SyntheticEvent<HTMLInputElement>) => {
+		setCursor(event.currentTarget.selectionStart ?? event.currentTarget.value.length);
+	};
+
+	return (
+		<>
+			<input
+				ref={inputRef}
+				type="text"
+				value={value}
+				onChange={(event) => {
+					onChange(event.target.value);
+					trackCursor(event);
+					setHighlighted(0);
+					setOpen(true);
+				}}
+				onKeyDown={handleKeyDown}
+				onKeyUp={trackCursor}
+				onClick={trackCursor}
+				onFocus={() => setOpen(true)}
+				onBlur={() => setOpen(false)}
+				placeholder={placeholder}
+				className={className}
+				role="combobox"
+				aria-expanded={showList}
+				aria-autocomplete="list"
+			/>
+			{showList && (
+				<ul
+					role="listbox"
+					className="absolute left-0 top-full z-30 mt-1 w-80 max-w-[90vw] overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg text-sm"
+				>
+					{completions.items.map((item, index) => (
+						<li
+							key={item.insert}
+							role="option"
+							aria-selected={index === highlighted}
+							// Keep focus in the input so the blur handler does not close the list first
+							onMouseDown={(event) => {
+								event.preventDefault();
+								accept(item);
+							}}
+							onMouseEnter={() => setHighlighted(index)}
+							className={`flex items-baseline justify-between gap-3 px-3 py-1.5 cursor-pointer ${index === highlighted ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+						>
+							<span className="font-mono text-gray-900 dark:text-gray-100">{item.label}</span>
+							{item.detail && <span className="truncate text-xs text-gray-500 dark:text-gray-400">{item.detail}</span>}
+						</li>
+					))}
+				</ul>
+			)}
+		</>
+	);
+};
+
+export default TaskQueryInput;
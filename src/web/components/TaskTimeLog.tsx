@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { getLoggedHours } from "../../core/effort";
+import type { Task, TimeEntry } from "../../types";
+import { apiClient } from "../lib/api";
+
+interface Props {
+	taskId: string;
+	estimate?: number;
+	entries: TimeEntry[];
+	readOnly?: boolean;
+	onChanged?: (task: Task) => Promise<void> | void;
+}
+
+export const TaskTimeLog: React.FC<Props> = ({ taskId, estimate, entries, readOnly, onChanged }) => {
+	const [log, setLog] = useState<TimeEntry[]>(entries);
+	const [hours, setHours] = useState("");
+	const [note, setNote] = useState("");
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setLog(entries);
+	}, [entries]);
+
+	const logged = getLoggedHours({ timeEntries: log });
+	const parsedHours = Number(hours);
+	const canSubmit = hours.trim() !== "" && Number.isFinite(parsedHours) && parsedHours > 0;
+
+	const submit = async () => {
+		if (!canSubmit) return;
+		setPending(true);
+		setError(null);
+		try {
+			const updated = await apiClient.logTaskTime(taskId, { hours: parsedHours, note: note.trim() || undefined });
+			setLog(updated.timeEntries ?? []);
+			setHours("");
+			setNote("");
+			if (onChanged) await onChanged(updated);
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setPending(false);
+		}
+	};
+
+	return (
+		<div className="text-sm">
+			<div className="text-gray-900 dark:text-gray-100">
+				<span className="font-medium">{logged}h</span> logged
+				{typeof estimate === "number" && <span className="text-gray-500 dark:text-gray-400"> of {estimate} estimated</span>}
+			</div>
+			{log.length > 0 && (
+				<ol className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+					{log.map((entry, position) => (
+						<li key={`${entry.date}-${position}`} className="flex gap-2">
+							<span className="tabular-nums">{entry.date}</span>
+							<span className="font-semibold tabular-nums">{entry.hours}h</span>
+							{entry.author && <span className="text-gray-500 dark:text-gray-400">{entry.author}</span>}
+							{entry.note && <span className="truncate" title={entry.note}>{entry.note}</span>}
+						</li>
+					))}
+				</ol>
+			)}
+			{!readOnly && (
+				<div className="mt-3 flex gap-2">
+					<input
+						type="number"
+						min="0"
+						step="0.25"
+						value={hours}
+						onChange={(e) => setHours(e.target.value)}
+						placeholder="Hours"
+						aria-label="Hours to log"
+						className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-colors duration-200"
+					/>
+					<input
+						type="text"
+						value={note}
+						onChange={(e) => setNote(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								e.preventDefault();
+								void submit();
+							}
+						}}
+						placeholder="Note"
+						aria-label="Time entry note"
+						className="min-w-0 flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent transition-colors duration-200"
+					/>
+					<button
+						type="button"
+						disabled={pending || !canSubmit}
+						onClick={() => void submit()}
+						className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+					>
+						Log
+					</button>
+				</div>
+			)}
+			{error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+		</div>
+	);
+};
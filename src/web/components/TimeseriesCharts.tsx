@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import type { Milestone, StatusTimeseries, TimeseriesPoint } from '../../types';
+import { apiClient } from '../lib/api';
+import { getStatusChartColor } from '../lib/status-helpers';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 8, right: 8, bottom: 20, left: 32 };
+
+interface ChartFrame {
+	x: (index: number) => number;
+	y: (value: number) => number;
+	max: number;
+}
+
+const createFrame = (points: TimeseriesPoint[], max: number): ChartFrame => {
+	const plotWidth = WIDTH - PADDING.left - PADDING.right;
+	const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+	const steps = Math.max(points.length - 1, 1);
+	const safeMax = Math.max(max, 1);
+	return {
+		x: (index) => PADDING.left + (index / steps) * plotWidth,
+		y: (value) => PADDING.top + plotHeight - (value / safeMax) * plotHeight,
+		max: safeMax,
+	};
+};
+
+const Axes: React.FC<{ frame: ChartFrame; points: TimeseriesPoint[] }> = ({ frame, points }) => {
+	const first = points[0]?.date ?? '';
+	const last = points[points.length - 1]?.date ?? '';
+	const baseline = frame.y(0);
+	return (
+		<g className="text-gray-400 dark:text-gray-500" fill="currentColor" fontSize={10}>
+			<line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={baseline} y2={baseline} stroke="currentColor" strokeWidth={1} />
+			<text x={PADDING.left - 4} y={frame.y(frame.max) + 4} textAnchor="end">{frame.max}</text>
+			<text x={PADDING.left - 4} y={baseline} textAnchor="end">0</text>
+			<text x={PADDING.left} y={HEIGHT - 4}>{first}</text>
+			{last !== first && <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end">{last}</text>}
+		</g>
+	);
+};
+
+/** Invisible full-height columns so each day shows its numbers on hover. */
+const HoverColumns: React.FC<{ frame: ChartFrame; points: TimeseriesPoint[]; describe: (point: TimeseriesPoint) => string }> = ({ frame, points, describe }) => {
+	const columnWidth = points.length > 1 ? frame.x(1) - frame.x(0) : WIDTH - PADDING.left - PADDING.right;
+	return (
+		<g>
+			{points.map((point, index) => (
+				<rect
+					key={point.date}
+					x={frame.x(index) - columnWidth / 2}
+					y={PADDING.top}
+					width={columnWidth}
+					height={HEIGHT - PADDING.top - PADDING.bottom}
+					fill="transparent"
+				>
+					<title>{describe(point)}</title>
+				</rect>
+			))}
+		</g>
+	);
+};
+
+const EmptyChart: React.FC = () => (
+	<p className="text-sm text-gray-500 dark:text-gray-400">No task history for this range yet</p>
+);
+
+/**
+ * Stacked area chart of task counts per status over time. Later statuses are
+ * drawn at the bottom so work flows downwards towards done.
+ */
+export const CumulativeFlowChart: React.FC<{ series: StatusTimeseries }> = ({ series }) => {
+	const { points, statuses } = series;
+	if (points.length === 0 || points.every((point) => point.total === 0)) return <EmptyChart />;
+
+	const frame = createFrame(points, Math.max(...points.map((point) => point.total)));
+	const stackOrder = [...statuses].reverse();
+	const lower = points.map(() => 0);
+	const layers = stackOrder.map((status) => {
+		const bottom = [...lower];
+		points.forEach((point, index) => {
+			lower[index] = (lower[index] ?? 0) + (point.statusCounts[status] ?? 0);
+		});
+		const top = [...lower];
+		const upperEdge = top.map((value, index) => `${frame.x(index)},${frame.y(value)}`);
+		const lowerEdge = bottom.map((value, index) => `${frame.x(index)},${frame.y(value)}`).reverse();
+		return { status, path: `M${[...upperEdge, ...lowerEdge].join(' L')} Z` };
+	});
+
+	return (
+		<div>
+			<svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative flow diagram">
+				{layers.map((layer) => (
+					<path key={layer.status} d={layer.path} fill={getStatusChartColor(layer.status, statuses.indexOf(layer.status))} fillOpacity={0.8} />
+				))}
+				<Axes frame={frame} points={points} />
+				<HoverColumns
+					frame={frame}
+					points={points}
+					describe={(point) => [point.date, ...statuses.map((status) => `${status}: ${point.statusCounts[status] ?? 0}`)].join('\n')}
+				/>
+			</svg>
+			<div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+				{statuses.map((status, index) => (
+					<span key={status} className="flex items-center gap-1.5">
+						<span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: getStatusChartColor(status, index) }} />
+						{status}
+					</span>
+				))}
+			</div>
+		</div>
+	);
+};
+
+/**
+ * Line chart of the work left in a milestone over time, against its total scope.
+ * With `metric="effort"` the remaining estimates are plotted instead of task counts.
+ */
+export const BurndownChart: React.FC<{ series: StatusTimeseries; metric?: 'tasks' | 'effort' }> = ({ series, metric = 'tasks' }) => {
+	const { points } = series;
+	if (points.length === 0 || points.every((point) => point.total === 0)) return <EmptyChart />;
+
+	const remainingOf = (point: TimeseriesPoint) => (metric === 'effort' ? point.remainingEffort : point.remaining);
+	const max = Math.max(...points.map((point) => (metric === 'effort' ? point.remainingEffort : point.total)));
+	const frame = createFrame(points, max);
+	const line = (values: number[]) => values.map((value, index) => `${index === 0 ? 'M' : 'L'}${frame.x(index)},${frame.y(value)}`).join(' ');
+	const last = points[points.length - 1];
+
+	return (
+		<div>
+			<svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Burndown chart">
+				{metric === 'tasks' && (
+					<path d={line(points.map((point) => point.total))} fill="none" stroke="#9ca3af" strokeDasharray="6 4" strokeWidth={1.5} />
+				)}
+				<path d={line(points.map(remainingOf))} fill="none" stroke="#3b82f6" strokeWidth={2} />
+				<Axes frame={frame} points={points} />
+				<HoverColumns
+					frame={frame}
+					points={points}
+					describe={(point) =>
+						metric === 'effort'
+							? `${point.date}\nRemaining effort: ${point.remainingEffort}`
+							: `${point.date}\nRemaining: ${point.remaining} of ${point.total}`
+					}
+				/>
+			</svg>
+			<div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+				<span className="flex items-center gap-1.5">
+					<span className="inline-block w-3 h-0.5 bg-blue-500" />
+					{metric === 'effort' ? 'Remaining effort' : 'Remaining tasks'}
+				</span>
+				{metric === 'tasks' && (
+					<span className="flex items-center gap-1.5">
+						<span className="inline-block w-3 h-0 border-t border-dashed border-gray-400" />
+						Scope
+					</span>
+				)}
+				{last && (
+					<span className="ml-auto">
+						{metric === 'effort' ? `${last.remainingEffort} left` : `${last.remaining} of ${last.total} left`}
+					</span>
+				)}
+			</div>
+		</div>
+	);
+};
+
+/** Loads the timeseries for a milestone (or all tasks) and reloads when it changes. */
+const useTimeseries = (milestone?: string) => {
+	const [series, setSeries] = useState<StatusTimeseries | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		let isMounted = true;
+		setSeries(null);
+		setError(null);
+		apiClient
+			.fetchStatisticsTimeseries({ milestone })
+			.then((data) => {
+				if (isMounted) setSeries(data);
+			})
+			.catch((err) => {
+				if (isMounted) setError(err instanceof Error ? err.message : String(err));
+			});
+		return () => {
+			isMounted = false;
+		};
+	}, [milestone]);
+
+	return { series, error };
+};
+
+const ChartStatus: React.FC<{ error: string | null }> = ({ error }) =>
+	error ? (
+		<p className="text-sm text-red-600 dark:text-red-400">Failed to load task history: {error}</p>
+	) : (
+		<p className="text-sm text-gray-500 dark:text-gray-400">Reading task history...</p>
+	);
+
+/** Burndown with a toggle between task counts and estimates, shown once any task is estimated. */
+const BurndownPanel: React.FC<{ series: StatusTimeseries }> = ({ series }) => {
+	const [metric, setMetric] = useState<'tasks' | 'effort'>('tasks');
+	const hasEstimates = series.points.some((point) => point.remainingEffort > 0);
+	return (
+		<div>
+			{hasEstimates && (
+				<div className="mb-2 flex justify-end gap-1 text-xs">
+					{(['tasks', 'effort'] as const).map((option) => (
+						<button
+							key={option}
+							type="button"
+							onClick={() => setMetric(option)}
+							className={`px-2 py-0.5 rounded ${
+								metric === option
+									? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+									: 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+							}`}
+						>
+							{option === 'tasks' ? 'Tasks' : 'Estimates'}
+						</button>
+					))}
+				</div>
+			)}
+			<BurndownChart series={series} metric={hasEstimates ? metric : 'tasks'} />
+		</div>
+	);
+};
+
+/** Loads and charts the burndown of a single milestone. */
+export const MilestoneBurndown: React.FC<{ milestone: string }> = ({ milestone }) => {
+	const { series, error } = useTimeseries(milestone);
+	return series ? <BurndownPanel series={series} /> : <ChartStatus error={error} />;
+};
+
+/** Cumulative flow of all tasks or one milestone, plus the milestone's burndown. */
+export const FlowOverview: React.FC = () => {
+	const [milestones, setMilestones] = useState<Milestone[]>([]);
+	const [milestone, setMilestone] = useState('');
+	const { series, error } = useTimeseries(milestone || undefined);
+
+	useEffect(() => {
+		apiClient.fetchMilestones().then(setMilestones).catch(() => setMilestones([]));
+	}, []);
+
+	return (
+		<div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+			<div className="flex items-center justify-between mb-4 gap-4">
+				<h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Flow Over Time</h3>
+				<select
+					value={milestone}
+					onChange={(e) => setMilestone(e.target.value)}
+					aria-label="Milestone"
+					className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+				>
+					<option value="">All tasks</option>
+					{milestones.map((entity) => (
+						<option key={entity.id} value={entity.id}>{entity.title}</option>
+					))}
+				</select>
+			</div>
+			{series ? (
+				<div className={`grid grid-cols-1 gap-8 ${milestone ? 'lg:grid-cols-2' : ''}`}>
+					<div>
+						<h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Cumulative Flow</h4>
+						<CumulativeFlowChart series={series} />
+					</div>
+					{milestone && (
+						<div>
+							<h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Burndown</h4>
+							<BurndownPanel series={series} />
+						</div>
+					)}
+				</div>
+			) : (
+				<ChartStatus error={error} />
+			)}
+		</div>
+	);
+};
@@ -6,6 +6,7 @@ interface AuthUser {
 	email: string;
 	name: string;
 	role: string;
+	permissions?: string[];
 }
 
 interface AuthContextType {
@@ -17,6 +18,8 @@ interface AuthContextType {
 	logout: () => void;
 	error: string | null;
 	clearError: () => void;
+	/** Whether the current user holds a permission; always true when auth is disabled. */
+	hasPermission: (permission: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -104,6 +107,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 		setError(null);
 	}, []);
 
+	const hasPermission = useCallback(
+		(permission: string) => {
+			if (!isAuthEnabled || !user) return true;
+			const granted = user.permissions ?? [];
+			// Writing any task implies writing the ones assigned to you
+			return granted.includes(permission) || (permission === "tasks:write-assigned" && granted.includes("tasks:write"));
+		},
+		[isAuthEnabled, user],
+	);
+
 	return (
 		<AuthContext.Provider
 			value={{
@@ -115,6 +128,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 				logout,
 				error,
 				clearError,
+				hasPermission,
 			}}
 		>
 			{children}
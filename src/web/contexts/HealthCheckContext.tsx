@@ -1,12 +1,13 @@
 import React, { createContext, useContext } from 'react';
 import type { ReactNode } from 'react';
+import type { BacklogEvent } from '../../types';
 import { useHealthCheck } from '../hooks/useHealthCheck';
 
 interface HealthCheckContextType {
 	isOnline: boolean;
 	wasDisconnected: boolean;
 	retry: () => void;
-	setMessageHandler: (handler: (data: string) => void) => void;
+	setMessageHandler: (handler: (event: BacklogEvent) => void) => void;
 }
 
 const HealthCheckContext = createContext<HealthCheckContextType | undefined>(undefined);
@@ -1,4 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import type { BacklogEvent } from "../../types";
+import { ApiClient } from "../lib/api";
 
 const RECONNECT_DELAY = 5000; // 5 seconds
 
@@ -9,9 +11,11 @@ export function useHealthCheck() {
 	const wsRef = useRef<WebSocket | null>(null);
 	const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 	const isMountedRef = useRef(true);
-	const onMessageRef = useRef<((data: string) => void) | null>(null);
+	const onMessageRef = useRef<((event: BacklogEvent) => void) | null>(null);
+	// Last event sequence seen, so a reconnect resumes the stream instead of starting over
+	const lastSeqRef = useRef<number | null>(null);
 
-	const setMessageHandler = useCallback((handler: (data: string) => void) => {
+	const setMessageHandler = useCallback((handler: (event: BacklogEvent) => void) => {
 		onMessageRef.current = handler;
 	}, []);
 
@@ -33,7 +37,13 @@ export function useHealthCheck() {
 
 		try {
 			const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-			const wsUrl = `${protocol}//${window.location.host}`;
+			// Browsers cannot send headers on a WebSocket, so the token goes in the query
+			const params = new URLSearchParams();
+			if (lastSeqRef.current !== null) params.set('since', String(lastSeqRef.current));
+			const token = ApiClient.getToken();
+			if (token) params.set('token', token);
+			const query = params.toString();
+			const wsUrl = `${protocol}//${window.location.host}${query ? `/?${query}` : ''}`;
 
 			const ws = new WebSocket(wsUrl);
 			wsRef.current = ws;
@@ -43,8 +53,15 @@ export function useHealthCheck() {
 				setWasDisconnected(false);
 			};
 
-			ws.onmessage = (event) => {
-				onMessageRef.current?.(event.data as string);
+			ws.onmessage = (message) => {
+				let event: BacklogEvent;
+				try {
+					event = JSON.parse(message.data as string) as BacklogEvent;
+				} catch {
+					return; // Not an event (e.g. "pong")
+				}
+				lastSeqRef.current = event.seq;
+				onMessageRef.current?.(event);
 			};
 
 			ws.onclose = () => {
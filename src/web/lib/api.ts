@@ -1,18 +1,37 @@
+import type { FlowAnalytics } from "../../core/analytics.ts";
+import type { SavedViewResult } from "../../core/saved-views.ts";
 import type { TaskStatistics } from "../../core/statistics.ts";
 import type {
 	BacklogConfig,
+	BulkEditResult,
+	BulkTaskSelection,
+	BulkTaskUpdate,
 	Decision,
 	Document,
 	Milestone,
+	SavedView,
+	SavedViewInput,
 	SearchPriorityFilter,
 	SearchResult,
 	SearchResultType,
+	SequenceGraph,
+	StatusTimeseries,
 	Task,
+	TaskHistoryEntry,
+	TaskLease,
 	TaskStatus,
+	TaskTemplate,
 } from "../../types/index.ts";
 
 const API_BASE = "/api";
 
+export interface AcceptanceCriteriaChanges {
+	addAcceptanceCriteria?: string[];
+	removeAcceptanceCriteria?: number[];
+	checkAcceptanceCriteria?: number[];
+	uncheckAcceptanceCriteria?: number[];
+}
+
 export interface ReorderTaskPayload {
 	taskId: string;
 	targetStatus: string;
@@ -38,6 +57,15 @@ export class ApiError extends Error {
 	}
 }
 
+/**
+ * The task as it is now, when an edit was rejected because someone else saved first (HTTP 409).
+ */
+export function getConflictingTask(error: unknown): Task | null {
+	if (!(error instanceof ApiError) || error.status !== 409) return null;
+	const data = error.data as { task?: Task } | null | undefined;
+	return data?.task ?? null;
+}
+
 export class NetworkError extends Error {
 	constructor(message = "Network request failed") {
 		super(message);
@@ -180,6 +208,8 @@ export class ApiClient {
 	async search(
 		options: {
 			query?: string;
+			/** Query-language search over tasks, e.g. `label:api -label:wip priority>=medium` */
+			q?: string;
 			types?: SearchResultType[];
 			status?: string | string[];
 			priority?: SearchPriorityFilter | SearchPriorityFilter[];
@@ -191,6 +221,9 @@ export class ApiClient {
 		if (options.query) {
 			params.set("query", options.query);
 		}
+		if (options.q) {
+			params.set("q", options.q);
+		}
 		if (options.types && options.types.length > 0) {
 			for (const type of options.types) {
 				params.append("type", type);
@@ -236,11 +269,50 @@ export class ApiClient {
 
 	async updateTask(
 		id: string,
-		updates: Omit<Partial<Task>, "milestone"> & { milestone?: string | null },
+		updates: Omit<Partial<Task>, "milestone" | "estimate" | "startDate" | "dueDate"> & {
+			milestone?: string | null;
+			estimate?: number | null;
+			startDate?: string | null;
+			dueDate?: string | null;
+		},
+		expectedVersion?: string,
 	): Promise<Task> {
 		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}`, {
 			method: "PUT",
 			body: JSON.stringify(updates),
+			headers: expectedVersion ? { "If-Match": `"${expectedVersion}"` } : undefined,
+		});
+	}
+
+	async bulkEditTasks(selection: BulkTaskSelection, update: BulkTaskUpdate): Promise<BulkEditResult> {
+		return this.fetchJson<BulkEditResult>(`${API_BASE}/tasks/bulk`, {
+			method: "POST",
+			body: JSON.stringify({ ...selection, update }),
+		});
+	}
+
+	async updateAcceptanceCriteria(id: string, changes: AcceptanceCriteriaChanges): Promise<Task> {
+		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}`, {
+			method: "PUT",
+			body: JSON.stringify(changes),
+		});
+	}
+
+	async fetchTaskHistory(id: string): Promise<TaskHistoryEntry[]> {
+		return this.fetchJson<TaskHistoryEntry[]>(`${API_BASE}/tasks/${id}/history`);
+	}
+
+	async addTaskComment(id: string, body: string): Promise<Task> {
+		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}/comments`, {
+			method: "POST",
+			body: JSON.stringify({ body }),
+		});
+	}
+
+	async logTaskTime(id: string, entry: { hours: number; date?: string; note?: string }): Promise<Task> {
+		return this.fetchJson<Task>(`${API_BASE}/tasks/${id}/time-entries`, {
+			method: "POST",
+			body: JSON.stringify(entry),
 		});
 	}
 
@@ -513,14 +585,105 @@ export class ApiClient {
 		return data;
 	}
 
+	async setMilestoneTargetDate(
+		id: string,
+		targetDate: string | null,
+	): Promise<{ success: boolean; milestone?: Milestone | null }> {
+		const response = await fetch(`${API_BASE}/milestones/${encodeURIComponent(id)}/target-date`, {
+			method: "PUT",
+			headers: { "Content-Type": "application/json", ...this.authHeaders() },
+			body: JSON.stringify({ targetDate }),
+		});
+		const data = await response.json();
+		if (!response.ok) {
+			throw new Error(data.error || "Failed to update milestone");
+		}
+		return data;
+	}
+
 	async fetchStatistics(): Promise<
-		TaskStatistics & { statusCounts: Record<string, number>; priorityCounts: Record<string, number> }
+		TaskStatistics & {
+			statusCounts: Record<string, number>;
+			priorityCounts: Record<string, number>;
+		}
 	> {
 		return this.fetchJson<
-			TaskStatistics & { statusCounts: Record<string, number>; priorityCounts: Record<string, number> }
+			TaskStatistics & {
+				statusCounts: Record<string, number>;
+				priorityCounts: Record<string, number>;
+			}
 		>(`${API_BASE}/statistics`);
 	}
 
+	async fetchFlowAnalytics(): Promise<FlowAnalytics> {
+		return this.fetchJson<FlowAnalytics>(`${API_BASE}/statistics/analytics`);
+	}
+
+	async fetchStatisticsTimeseries(
+		options: { milestone?: string; from?: string; to?: string } = {},
+	): Promise<StatusTimeseries> {
+		const params = new URLSearchParams();
+		if (options.milestone) params.set("milestone", options.milestone);
+		if (options.from) params.set("from", options.from);
+		if (options.to) params.set("to", options.to);
+		const query = params.toString();
+		return this.fetchJson<StatusTimeseries>(`${API_BASE}/statistics/timeseries${query ? `?${query}` : ""}`);
+	}
+
+	async fetchSequences(milestone?: string): Promise<SequenceGraph> {
+		const query = milestone ? `?${new URLSearchParams({ milestone }).toString()}` : "";
+		return this.fetchJson<SequenceGraph>(`${API_BASE}/sequences${query}`);
+	}
+
+	async moveTaskInSequences(move: {
+		taskId: string;
+		targetSequenceIndex?: number;
+		unsequenced?: boolean;
+		milestone?: string;
+	}): Promise<SequenceGraph> {
+		return this.fetchJson<SequenceGraph>(`${API_BASE}/sequences/move`, {
+			method: "POST",
+			body: JSON.stringify(move),
+		});
+	}
+
+	async fetchViews(): Promise<SavedView[]> {
+		return this.fetchJson<SavedView[]>(`${API_BASE}/views`);
+	}
+
+	async createView(view: SavedViewInput): Promise<SavedView> {
+		return this.fetchJson<SavedView>(`${API_BASE}/views`, {
+			method: "POST",
+			body: JSON.stringify(view),
+		});
+	}
+
+	async deleteView(id: string): Promise<void> {
+		await this.fetchJson(`${API_BASE}/views/${encodeURIComponent(id)}`, { method: "DELETE" });
+	}
+
+	async runView(id: string): Promise<SavedViewResult> {
+		return this.fetchJson<SavedViewResult>(`${API_BASE}/views/${encodeURIComponent(id)}/tasks`);
+	}
+
+	async fetchTemplates(): Promise<TaskTemplate[]> {
+		return this.fetchJson<TaskTemplate[]>(`${API_BASE}/templates`);
+	}
+
+	async createTaskFromTemplate(
+		templateId: string,
+		input: Partial<Omit<Task, "id" | "createdDate">> & { variables?: Record<string, string> },
+	): Promise<{ task: Task; subtasks: Task[] }> {
+		return this.fetchJson<{ task: Task; subtasks: Task[] }>(
+			`${API_BASE}/templates/${encodeURIComponent(templateId)}/tasks`,
+			{ method: "POST", body: JSON.stringify(input) },
+		);
+	}
+
+	async fetchLeases(): Promise<TaskLease[]> {
+		return this.fetchJson<TaskLease[]>(`${API_BASE}/leases`);
+	}
+
 	async checkStatus(): Promise<{ initialized: boolean; projectPath: string }> {
 		return this.fetchJson<{ initialized: boolean; projectPath: string }>(`${API_BASE}/status`);
 	}
@@ -565,7 +728,7 @@ export class ApiClient {
 
 	async loginWithGoogle(
 		credential: string,
-	): Promise<{ token: string; user: { email: string; name: string; role: string } }> {
+	): Promise<{ token: string; user: { email: string; name: string; role: string; permissions?: string[] } }> {
 		const response = await fetch(`${API_BASE}/auth/google`, {
 			method: "POST",
 			headers: { "Content-Type": "application/json" },
@@ -580,8 +743,8 @@ export class ApiClient {
 		return result;
 	}
 
-	async fetchMe(): Promise<{ email: string; name: string; role: string }> {
-		return this.fetchJson<{ email: string; name: string; role: string }>(`${API_BASE}/auth/me`);
+	async fetchMe(): Promise<{ email: string; name: string; role: string; permissions?: string[] }> {
+		return this.fetchJson<{ email: string; name: string; role: string; permissions?: string[] }>(`${API_BASE}/auth/me`);
 	}
 
 	logout(): void {
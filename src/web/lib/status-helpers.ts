@@ -76,3 +76,21 @@ export const getStatusColor = (status: string): string => {
 			return "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200";
 	}
 };
+
+const CHART_FALLBACK_COLORS = ["#a855f7", "#f97316", "#14b8a6", "#ec4899", "#84cc16"];
+
+/**
+ * Returns a hex fill color for a status in charts, where Tailwind classes do not apply.
+ *
+ * Follows the badge palette for well-known states and cycles through a fixed
+ * set of colors for custom statuses, keyed by their position in the status list.
+ */
+export const getStatusChartColor = (status: string, index = 0): string => {
+	const normalized = status.toLowerCase();
+	if (normalized.includes("done") || normalized.includes("complete")) return "#10b981";
+	if (normalized.includes("progress") || normalized.includes("doing")) return "#3b82f6";
+	if (normalized.includes("review")) return "#eab308";
+	if (normalized.includes("blocked") || normalized.includes("stuck")) return "#ef4444";
+	if (normalized === "to do" || normalized === "todo" || normalized.includes("backlog")) return "#9ca3af";
+	return CHART_FALLBACK_COLORS[index % CHART_FALLBACK_COLORS.length] ?? "#6b7280";
+};
@@ -31,3 +31,11 @@ export function createUrlPath(basePath: string, id: string, title: string): stri
 	const cleanId = id.replace(/^(doc-|decision-)/, "");
 	return `${basePath}/${cleanId}/${sanitizedTitle}`;
 }
+
+/**
+ * Creates the path that opens a saved view: the board when the view sets a lane mode, the task list otherwise
+ */
+export function createViewPath(view: { id: string; lanes?: string }): string {
+	const params = new URLSearchParams({ view: view.id });
+	return view.lanes ? `/?${params}` : `/tasks?${params}`;
+}